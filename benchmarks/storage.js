@@ -0,0 +1,75 @@
+/**
+ * Compares the contiguous and chunked storage modes, for appends, reads, toBuffer() and offset inserts.
+ *
+ * Run with: npm run bench (after building with tsc -p ./)
+ */
+var SmartBuffer = require('../build/smartbuffer').SmartBuffer;
+
+var TOTAL_SIZE = 64 * 1024 * 1024;
+var WRITE_SIZES = [16, 1024, 64 * 1024];
+
+// Offset inserts into the middle of the data (64KB is a whole chunk, which chunked storage moves without copying).
+var INSERT_DATA_SIZE = 16 * 1024 * 1024;
+var INSERT_COUNT = 200;
+var INSERT_SIZES = [16, 64 * 1024];
+
+function time(func) {
+    var start = process.hrtime();
+    func();
+    var diff = process.hrtime(start);
+    return diff[0] * 1000 + diff[1] / 1e6;
+}
+
+function run(label, options, writeSize) {
+    var chunk = Buffer.alloc(writeSize, 0xAB);
+    var count = TOTAL_SIZE / writeSize;
+    var buff;
+
+    var appendTime = time(function () {
+        buff = new SmartBuffer(options);
+        for (var i = 0; i < count; i++) {
+            buff.writeBuffer(chunk);
+        }
+    });
+
+    var readTime = time(function () {
+        for (var i = 0; i < count; i++) {
+            buff.readBuffer(writeSize);
+        }
+    });
+
+    var toBufferTime = time(function () {
+        buff.toBuffer();
+    });
+
+    console.log(
+        label + ' ' + writeSize + ' byte writes: append ' + appendTime.toFixed(1) + 'ms, read ' + readTime.toFixed(1) +
+        'ms, toBuffer ' + toBufferTime.toFixed(1) + 'ms'
+    );
+}
+
+function runInserts(label, options, insertSize) {
+    var chunk = Buffer.alloc(insertSize, 0xCD);
+    var buff = new SmartBuffer(options);
+    buff.writeBuffer(Buffer.alloc(INSERT_DATA_SIZE, 0xAB));
+
+    var insertTime = time(function () {
+        for (var i = 0; i < INSERT_COUNT; i++) {
+            buff.insertBuffer(chunk, buff.length >>> 1);
+        }
+    });
+
+    console.log(
+        label + ' ' + insertSize + ' byte inserts into ' + INSERT_DATA_SIZE / (1024 * 1024) + 'MB: ' + insertTime.toFixed(1) + 'ms'
+    );
+}
+
+WRITE_SIZES.forEach(function (writeSize) {
+    run('contiguous', { storage: 'contiguous' }, writeSize);
+    run('chunked   ', { storage: 'chunked' }, writeSize);
+});
+
+INSERT_SIZES.forEach(function (insertSize) {
+    runInserts('contiguous', { storage: 'contiguous' }, insertSize);
+    runInserts('chunked   ', { storage: 'chunked' }, insertSize);
+});
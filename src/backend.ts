@@ -0,0 +1,688 @@
+/**
+ * The binary data a SmartBuffer can be created from. Uint8Arrays, ArrayBuffers and DataViews are wrapped without copying.
+ */
+type BinaryInput = Buffer | Uint8Array | ArrayBuffer | DataView;
+
+// The parts of the WHATWG Encoding API used to encode and decode utf8 (available in browsers, Web Workers and Node.js).
+declare const TextEncoder: { new(): { encode(input: string): Uint8Array } };
+declare const TextDecoder: { new(label?: string): { decode(input: Uint8Array): string } };
+
+// The encodings supported by PortableBuffer, and the name each alias maps to.
+const PORTABLE_ENCODINGS: { [encoding: string]: string } = {
+    'utf8': 'utf8',
+    'utf-8': 'utf8',
+    'latin1': 'latin1',
+    'binary': 'latin1',
+    'ascii': 'ascii',
+    'hex': 'hex',
+    'base64': 'base64'
+};
+
+// The characters base64 values are encoded with.
+const BASE64_CHARACTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// The value of each base64 character, including the URL safe alphabet (- and _), which Node.js also accepts.
+const BASE64_VALUES: { [character: string]: number } = { '-': 62, '_': 63 };
+for (let i = 0; i < BASE64_CHARACTERS.length; i++) {
+    BASE64_VALUES[BASE64_CHARACTERS[i]] = i;
+}
+
+// The number of characters decoded with a single String.fromCharCode() call (to stay within the argument limit).
+const CHAR_CODE_BATCH_SIZE = 4096;
+
+/**
+ * Gets the name an encoding maps to, throwing a TypeError (like Node.js) if PortableBuffer does not support it.
+ *
+ * @param encoding { String } The encoding (defaults to utf8).
+ *
+ * @return { String }
+ */
+function normalizeEncoding(encoding?: string): string {
+    const name = PORTABLE_ENCODINGS[String(encoding === undefined ? 'utf8' : encoding).toLowerCase()];
+
+    if (name === undefined) {
+        throw new TypeError(`Unknown encoding: ${encoding}`);
+    }
+    return name;
+}
+
+/**
+ * Encodes a String into bytes.
+ *
+ * @param value { String } The String to encode.
+ * @param encoding { String } The encoding to use.
+ *
+ * @return { Uint8Array }
+ */
+function encodeString(value: string, encoding?: string): Uint8Array {
+    switch (normalizeEncoding(encoding)) {
+        case 'utf8':
+            return new TextEncoder().encode(value);
+        case 'hex': {
+            // Like Node.js, decoding stops at the first invalid pair of characters.
+            const bytes = [];
+            for (let i = 0; i + 1 < value.length; i += 2) {
+                const pair = value.substr(i, 2);
+                if (!/^[0-9a-fA-F]{2}$/.test(pair)) {
+                    break;
+                }
+                bytes.push(parseInt(pair, 16));
+            }
+            return new Uint8Array(bytes);
+        }
+        case 'base64': {
+            const bytes = [];
+            let bits = 0;
+            let bitCount = 0;
+
+            for (let i = 0; i < value.length; i++) {
+                const digit = BASE64_VALUES[value[i]];
+
+                // Padding, whitespace and other characters are skipped.
+                if (digit !== undefined) {
+                    bits = ((bits << 6) | digit) & 0xFFFFFF;
+                    bitCount += 6;
+                    if (bitCount >= 8) {
+                        bitCount -= 8;
+                        bytes.push((bits >> bitCount) & 0xFF);
+                    }
+                }
+            }
+            return new Uint8Array(bytes);
+        }
+        default: {
+            // latin1 and ascii keep the lower 8 bits of each character code.
+            const bytes = new Uint8Array(value.length);
+            for (let i = 0; i < value.length; i++) {
+                bytes[i] = value.charCodeAt(i) & 0xFF;
+            }
+            return bytes;
+        }
+    }
+}
+
+/**
+ * Decodes bytes into a String.
+ *
+ * @param bytes { Uint8Array } The bytes to decode.
+ * @param encoding { String } The encoding to use.
+ *
+ * @return { String }
+ */
+function decodeString(bytes: Uint8Array, encoding?: string): string {
+    const name = normalizeEncoding(encoding);
+
+    switch (name) {
+        case 'utf8':
+            return new TextDecoder('utf-8').decode(bytes);
+        case 'hex': {
+            let value = '';
+            for (let i = 0; i < bytes.length; i++) {
+                value += (bytes[i] < 0x10 ? '0' : '') + bytes[i].toString(16);
+            }
+            return value;
+        }
+        case 'base64': {
+            let value = '';
+            for (let i = 0; i < bytes.length; i += 3) {
+                const count = Math.min(3, bytes.length - i);
+                const bits = (bytes[i] << 16) | ((count > 1 ? bytes[i + 1] : 0) << 8) | (count > 2 ? bytes[i + 2] : 0);
+
+                for (let j = 0; j < 4; j++) {
+                    value += j <= count ? BASE64_CHARACTERS[(bits >> (18 - j * 6)) & 0x3F] : '=';
+                }
+            }
+            return value;
+        }
+        default: {
+            // ascii ignores the high bit of each byte, like Node.js.
+            const mask = name === 'ascii' ? 0x7F : 0xFF;
+            let value = '';
+            for (let i = 0; i < bytes.length; i += CHAR_CODE_BATCH_SIZE) {
+                const batch = Array.prototype.slice.call(bytes.subarray(i, i + CHAR_CODE_BATCH_SIZE)).map((byte: number) => byte & mask);
+                value += String.fromCharCode.apply(String, batch);
+            }
+            return value;
+        }
+    }
+}
+
+/**
+ * Ensures that an integer value is within the given range, throwing a RangeError (like Node.js) if it is not.
+ *
+ * @param value { Number | BigInt } The value to check.
+ * @param min { Number | BigInt } The smallest valid value.
+ * @param max { Number | BigInt } The largest valid value.
+ */
+function checkInt(value: number | bigint, min: number | bigint, max: number | bigint) {
+    if (value < min || value > max) {
+        throw new RangeError(`The value of "value" is out of range. It must be >= ${min} and <= ${max}. Received ${value}`);
+    }
+}
+
+/**
+ * Ensures that a range of bytes is within the bounds of a PortableBuffer.
+ *
+ * @param buff { PortableBuffer } The PortableBuffer.
+ * @param offset { Number } The offset of the range.
+ * @param byteLength { Number } The length of the range.
+ */
+function checkBounds(buff: Uint8Array, offset: number, byteLength: number) {
+    if (!(Number.isInteger(offset) && offset >= 0 && offset + byteLength <= buff.length)) {
+        throw new RangeError(
+            `The value of "offset" is out of range. It must be >= 0 and <= ${buff.length - byteLength}. Received ${offset}`);
+    }
+}
+
+/**
+ * A Uint8Array with the subset of Node's Buffer API used by SmartBuffer, for environments without Node's Buffer (such as
+ * browsers and Web Workers). Numeric values are read and written with a DataView, and Strings are encoded with
+ * TextEncoder/TextDecoder. The utf8, latin1 (binary), ascii, hex and base64 encodings are supported.
+ */
+class PortableBuffer extends Uint8Array {
+    /**
+     * Creates a PortableBuffer from a String, an ArrayBuffer (without copying) or an array of bytes (copied).
+     *
+     * @param value { String | ArrayBuffer | ArrayLike<number> } The value to create the PortableBuffer from.
+     * @param encodingOrOffset { String | Number } The encoding of a String, or the offset into an ArrayBuffer.
+     * @param length { Number } The number of bytes of an ArrayBuffer to use.
+     *
+     * @return { PortableBuffer }
+     */
+    static from(value: any, encodingOrOffset?: any, length?: number): PortableBuffer {
+        if (typeof value === 'string') {
+            // The encoded bytes are always backed by a new (non-shared) ArrayBuffer.
+            const bytes = encodeString(value, encodingOrOffset);
+            return new PortableBuffer(<ArrayBuffer>bytes.buffer, bytes.byteOffset, bytes.length);
+        }
+        if (value instanceof ArrayBuffer) {
+            const offset = encodingOrOffset || 0;
+            return new PortableBuffer(value, offset, length === undefined ? value.byteLength - offset : length);
+        }
+
+        const buff = new PortableBuffer(value.length);
+        buff.set(value);
+        return buff;
+    }
+
+    /**
+     * Creates a zero-filled PortableBuffer.
+     *
+     * @param size { Number } The size of the PortableBuffer.
+     * @param fill { Number } The byte to fill the PortableBuffer with (defaults to 0).
+     *
+     * @return { PortableBuffer }
+     */
+    static alloc(size: number, fill?: number): PortableBuffer {
+        const buff = new PortableBuffer(size);
+        if (fill) {
+            buff.fill(fill);
+        }
+        return buff;
+    }
+
+    /**
+     * Creates a PortableBuffer. Unlike Node's Buffer.allocUnsafe(), the memory is always zero-filled.
+     *
+     * @param size { Number } The size of the PortableBuffer.
+     *
+     * @return { PortableBuffer }
+     */
+    static allocUnsafe(size: number): PortableBuffer {
+        return new PortableBuffer(size);
+    }
+
+    /**
+     * Determines if an encoding is supported.
+     *
+     * @param encoding { String } The encoding to check.
+     *
+     * @return { Boolean }
+     */
+    static isEncoding(encoding: any): boolean {
+        return typeof encoding === 'string' && PORTABLE_ENCODINGS[encoding.toLowerCase()] !== undefined;
+    }
+
+    /**
+     * Determines if a value is a PortableBuffer.
+     *
+     * @param value { any } The value to check.
+     *
+     * @return { Boolean }
+     */
+    static isBuffer(value: any): boolean {
+        return value instanceof PortableBuffer;
+    }
+
+    /**
+     * Gets the byte length of a String in the given encoding (or the length of binary data).
+     *
+     * @param value { String | ArrayBuffer | ArrayBufferView } The value to measure.
+     * @param encoding { String } The encoding of a String.
+     *
+     * @return { Number }
+     */
+    static byteLength(value: any, encoding?: string): number {
+        if (typeof value !== 'string') {
+            return value.byteLength;
+        }
+
+        // Like Node.js, hex and base64 lengths are computed from the String length, without decoding it.
+        switch (normalizeEncoding(encoding)) {
+            case 'hex':
+                return value.length >>> 1;
+            case 'base64': {
+                const padding = value.endsWith('==') ? 2 : value.endsWith('=') ? 1 : 0;
+                return ((value.length - padding) * 3) >>> 2;
+            }
+            default:
+                return encodeString(value, encoding).length;
+        }
+    }
+
+    /**
+     * Gets a PortableBuffer that shares memory with the given range (like Node's Buffer, unlike Uint8Array.slice()).
+     *
+     * @param start { Number } The offset to start at.
+     * @param end { Number } The offset to end at (exclusive).
+     *
+     * @return { PortableBuffer }
+     */
+    slice(start?: number, end?: number): PortableBuffer {
+        return <PortableBuffer>this.subarray(start, end);
+    }
+
+    /**
+     * Copies data to a target Uint8Array. The ranges may overlap.
+     *
+     * @param target { Uint8Array } The Uint8Array to copy to.
+     * @param targetStart { Number } The offset to copy to.
+     * @param sourceStart { Number } The offset to start copying from.
+     * @param sourceEnd { Number } The offset to stop copying at (exclusive).
+     *
+     * @return { Number } The number of bytes copied.
+     */
+    copy(target: Uint8Array, targetStart: number = 0, sourceStart: number = 0, sourceEnd: number = this.length): number {
+        const count = Math.max(Math.min(sourceEnd, this.length) - sourceStart, 0);
+        const copied = Math.min(count, target.length - targetStart);
+
+        target.set(this.subarray(sourceStart, sourceStart + copied), targetStart);
+        return copied;
+    }
+
+    /**
+     * Writes a String at the given offset.
+     *
+     * @param value { String } The String to write.
+     * @param offset { Number } The offset to write the String at.
+     * @param length { Number } The maximum number of bytes to write.
+     * @param encoding { String } The encoding to use.
+     *
+     * @return { Number } The number of bytes written.
+     */
+    write(value: string, offset: number = 0, length: number = this.length - offset, encoding?: string): number {
+        const bytes = encodeString(value, encoding);
+        const count = Math.min(bytes.length, length, this.length - offset);
+
+        this.set(bytes.subarray(0, count), offset);
+        return count;
+    }
+
+    /**
+     * Decodes the data in the given range into a String.
+     *
+     * @param encoding { String } The encoding to use (defaults to utf8).
+     * @param start { Number } The offset to start at.
+     * @param end { Number } The offset to end at (exclusive).
+     *
+     * @return { String }
+     */
+    toString(encoding?: string, start: number = 0, end: number = this.length): string {
+        return decodeString(this.subarray(start, end), encoding);
+    }
+
+    /**
+     * Finds the first occurrence of a byte, String or sequence of bytes.
+     *
+     * @param value { Number | String | Uint8Array } The value to find.
+     * @param byteOffset { Number } The offset to start searching at (negative values count from the end).
+     * @param encoding { String } The encoding of a String value.
+     *
+     * @return { Number }
+     */
+    indexOf(value: any, byteOffset: number = 0, encoding?: string): number {
+        const pattern = typeof value === 'number' ? [value & 0xFF] : typeof value === 'string' ? encodeString(value, encoding) : value;
+        const start = byteOffset < 0 ? Math.max(this.length + byteOffset, 0) : byteOffset;
+
+        if (pattern.length === 0) {
+            return Math.min(start, this.length);
+        }
+
+        for (let i = start; i + pattern.length <= this.length; i++) {
+            let j = 0;
+            while (j < pattern.length && this[i + j] === pattern[j]) {
+                j++;
+            }
+            if (j === pattern.length) {
+                return i;
+            }
+        }
+        return -1;
+    }
+
+    /**
+     * Determines if this PortableBuffer has the same bytes as another Uint8Array.
+     *
+     * @param other { Uint8Array } The Uint8Array to compare with.
+     *
+     * @return { Boolean }
+     */
+    equals(other: Uint8Array): boolean {
+        return this.length === other.length && this.indexOf(other) === 0;
+    }
+
+    // Numeric values (these match Node's Buffer functions of the same name, including the RangeErrors they throw)
+
+    readInt8(offset: number = 0): number {
+        return this.view(offset, 1).getInt8(offset);
+    }
+
+    readUInt8(offset: number = 0): number {
+        return this.view(offset, 1).getUint8(offset);
+    }
+
+    readInt16BE(offset: number = 0): number {
+        return this.view(offset, 2).getInt16(offset);
+    }
+
+    readInt16LE(offset: number = 0): number {
+        return this.view(offset, 2).getInt16(offset, true);
+    }
+
+    readUInt16BE(offset: number = 0): number {
+        return this.view(offset, 2).getUint16(offset);
+    }
+
+    readUInt16LE(offset: number = 0): number {
+        return this.view(offset, 2).getUint16(offset, true);
+    }
+
+    readInt32BE(offset: number = 0): number {
+        return this.view(offset, 4).getInt32(offset);
+    }
+
+    readInt32LE(offset: number = 0): number {
+        return this.view(offset, 4).getInt32(offset, true);
+    }
+
+    readUInt32BE(offset: number = 0): number {
+        return this.view(offset, 4).getUint32(offset);
+    }
+
+    readUInt32LE(offset: number = 0): number {
+        return this.view(offset, 4).getUint32(offset, true);
+    }
+
+    readFloatBE(offset: number = 0): number {
+        return this.view(offset, 4).getFloat32(offset);
+    }
+
+    readFloatLE(offset: number = 0): number {
+        return this.view(offset, 4).getFloat32(offset, true);
+    }
+
+    readDoubleBE(offset: number = 0): number {
+        return this.view(offset, 8).getFloat64(offset);
+    }
+
+    readDoubleLE(offset: number = 0): number {
+        return this.view(offset, 8).getFloat64(offset, true);
+    }
+
+    readBigInt64BE(offset: number = 0): bigint {
+        return this.view(offset, 8).getBigInt64(offset);
+    }
+
+    readBigInt64LE(offset: number = 0): bigint {
+        return this.view(offset, 8).getBigInt64(offset, true);
+    }
+
+    readBigUInt64BE(offset: number = 0): bigint {
+        return this.view(offset, 8).getBigUint64(offset);
+    }
+
+    readBigUInt64LE(offset: number = 0): bigint {
+        return this.view(offset, 8).getBigUint64(offset, true);
+    }
+
+    readUIntBE(offset: number, byteLength: number): number {
+        checkBounds(this, offset, byteLength);
+
+        let value = 0;
+        for (let i = 0; i < byteLength; i++) {
+            value = value * 0x100 + this[offset + i];
+        }
+        return value;
+    }
+
+    readUIntLE(offset: number, byteLength: number): number {
+        checkBounds(this, offset, byteLength);
+
+        let value = 0;
+        for (let i = byteLength - 1; i >= 0; i--) {
+            value = value * 0x100 + this[offset + i];
+        }
+        return value;
+    }
+
+    readIntBE(offset: number, byteLength: number): number {
+        return toSigned(this.readUIntBE(offset, byteLength), byteLength);
+    }
+
+    readIntLE(offset: number, byteLength: number): number {
+        return toSigned(this.readUIntLE(offset, byteLength), byteLength);
+    }
+
+    writeInt8(value: number, offset: number = 0): number {
+        checkInt(value, -0x80, 0x7F);
+        this.view(offset, 1).setInt8(offset, value);
+        return offset + 1;
+    }
+
+    writeUInt8(value: number, offset: number = 0): number {
+        checkInt(value, 0, 0xFF);
+        this.view(offset, 1).setUint8(offset, value);
+        return offset + 1;
+    }
+
+    writeInt16BE(value: number, offset: number = 0): number {
+        checkInt(value, -0x8000, 0x7FFF);
+        this.view(offset, 2).setInt16(offset, value);
+        return offset + 2;
+    }
+
+    writeInt16LE(value: number, offset: number = 0): number {
+        checkInt(value, -0x8000, 0x7FFF);
+        this.view(offset, 2).setInt16(offset, value, true);
+        return offset + 2;
+    }
+
+    writeUInt16BE(value: number, offset: number = 0): number {
+        checkInt(value, 0, 0xFFFF);
+        this.view(offset, 2).setUint16(offset, value);
+        return offset + 2;
+    }
+
+    writeUInt16LE(value: number, offset: number = 0): number {
+        checkInt(value, 0, 0xFFFF);
+        this.view(offset, 2).setUint16(offset, value, true);
+        return offset + 2;
+    }
+
+    writeInt32BE(value: number, offset: number = 0): number {
+        checkInt(value, -0x80000000, 0x7FFFFFFF);
+        this.view(offset, 4).setInt32(offset, value);
+        return offset + 4;
+    }
+
+    writeInt32LE(value: number, offset: number = 0): number {
+        checkInt(value, -0x80000000, 0x7FFFFFFF);
+        this.view(offset, 4).setInt32(offset, value, true);
+        return offset + 4;
+    }
+
+    writeUInt32BE(value: number, offset: number = 0): number {
+        checkInt(value, 0, 0xFFFFFFFF);
+        this.view(offset, 4).setUint32(offset, value);
+        return offset + 4;
+    }
+
+    writeUInt32LE(value: number, offset: number = 0): number {
+        checkInt(value, 0, 0xFFFFFFFF);
+        this.view(offset, 4).setUint32(offset, value, true);
+        return offset + 4;
+    }
+
+    writeFloatBE(value: number, offset: number = 0): number {
+        this.view(offset, 4).setFloat32(offset, value);
+        return offset + 4;
+    }
+
+    writeFloatLE(value: number, offset: number = 0): number {
+        this.view(offset, 4).setFloat32(offset, value, true);
+        return offset + 4;
+    }
+
+    writeDoubleBE(value: number, offset: number = 0): number {
+        this.view(offset, 8).setFloat64(offset, value);
+        return offset + 8;
+    }
+
+    writeDoubleLE(value: number, offset: number = 0): number {
+        this.view(offset, 8).setFloat64(offset, value, true);
+        return offset + 8;
+    }
+
+    writeBigInt64BE(value: bigint, offset: number = 0): number {
+        checkInt(value, -(BigInt(1) << BigInt(63)), (BigInt(1) << BigInt(63)) - BigInt(1));
+        this.view(offset, 8).setBigInt64(offset, value);
+        return offset + 8;
+    }
+
+    writeBigInt64LE(value: bigint, offset: number = 0): number {
+        checkInt(value, -(BigInt(1) << BigInt(63)), (BigInt(1) << BigInt(63)) - BigInt(1));
+        this.view(offset, 8).setBigInt64(offset, value, true);
+        return offset + 8;
+    }
+
+    writeBigUInt64BE(value: bigint, offset: number = 0): number {
+        checkInt(value, BigInt(0), (BigInt(1) << BigInt(64)) - BigInt(1));
+        this.view(offset, 8).setBigUint64(offset, value);
+        return offset + 8;
+    }
+
+    writeBigUInt64LE(value: bigint, offset: number = 0): number {
+        checkInt(value, BigInt(0), (BigInt(1) << BigInt(64)) - BigInt(1));
+        this.view(offset, 8).setBigUint64(offset, value, true);
+        return offset + 8;
+    }
+
+    writeUIntBE(value: number, offset: number, byteLength: number): number {
+        checkInt(value, 0, Math.pow(2, byteLength * 8) - 1);
+        checkBounds(this, offset, byteLength);
+
+        for (let i = byteLength - 1; i >= 0; i--) {
+            this[offset + i] = value % 0x100;
+            value = Math.floor(value / 0x100);
+        }
+        return offset + byteLength;
+    }
+
+    writeUIntLE(value: number, offset: number, byteLength: number): number {
+        checkInt(value, 0, Math.pow(2, byteLength * 8) - 1);
+        checkBounds(this, offset, byteLength);
+
+        for (let i = 0; i < byteLength; i++) {
+            this[offset + i] = value % 0x100;
+            value = Math.floor(value / 0x100);
+        }
+        return offset + byteLength;
+    }
+
+    writeIntBE(value: number, offset: number, byteLength: number): number {
+        const limit = Math.pow(2, byteLength * 8 - 1);
+        checkInt(value, -limit, limit - 1);
+        return this.writeUIntBE(value < 0 ? value + limit * 2 : value, offset, byteLength);
+    }
+
+    writeIntLE(value: number, offset: number, byteLength: number): number {
+        const limit = Math.pow(2, byteLength * 8 - 1);
+        checkInt(value, -limit, limit - 1);
+        return this.writeUIntLE(value < 0 ? value + limit * 2 : value, offset, byteLength);
+    }
+
+    /**
+     * Gets a DataView over this PortableBuffer after checking that a value fits at the given offset.
+     *
+     * @param offset { Number } The offset of the value.
+     * @param byteLength { Number } The size of the value.
+     *
+     * @return { DataView }
+     */
+    private view(offset: number, byteLength: number): DataView {
+        checkBounds(this, offset, byteLength);
+        return new DataView(this.buffer, this.byteOffset, this.byteLength);
+    }
+}
+
+/**
+ * Converts an unsigned value of the given byte length to a two's complement signed value.
+ *
+ * @param value { Number } The unsigned value.
+ * @param byteLength { Number } The byte length of the value.
+ *
+ * @return { Number }
+ */
+function toSigned(value: number, byteLength: number): number {
+    const limit = Math.pow(2, byteLength * 8 - 1);
+    return value >= limit ? value - limit * 2 : value;
+}
+
+// The Buffer implementation SmartBuffer uses: Node's Buffer when it is available, otherwise PortableBuffer.
+const BufferBackend: typeof Buffer = typeof Buffer === 'function' ? Buffer : <any>PortableBuffer;
+
+/**
+ * Determines if a value is binary data a SmartBuffer can be created from.
+ *
+ * @param value { any } The value to check.
+ *
+ * @return { Boolean }
+ */
+function isBinaryInput(value: any): value is BinaryInput {
+    return value instanceof ArrayBuffer || ArrayBuffer.isView(value);
+}
+
+/**
+ * Wraps binary data in a Buffer of the backend in use, without copying it.
+ *
+ * @param value { BinaryInput } The binary data to wrap.
+ *
+ * @return { Buffer }
+ */
+function toBackendBuffer(value: BinaryInput): Buffer {
+    if (value instanceof BufferBackend) {
+        return value;
+    }
+    if (value instanceof ArrayBuffer) {
+        return BufferBackend.from(value);
+    }
+    return BufferBackend.from(<ArrayBuffer>value.buffer, value.byteOffset, value.byteLength);
+}
+
+export {
+    BinaryInput,
+    PortableBuffer,
+    BufferBackend,
+    isBinaryInput,
+    toBackendBuffer
+};
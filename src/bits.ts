@@ -0,0 +1,342 @@
+import { SmartBuffer } from './smartbuffer';
+import { SmartBufferOutOfBoundsError, SmartBufferArgumentError, SmartBufferFormatError } from './errors';
+
+/**
+ * The order bits are read from and written to each byte.
+ * MSB reads the most significant bit of each byte first (H.264, DNS), LSB reads the least significant bit first (DEFLATE).
+ */
+type BitOrder = 'MSB' | 'LSB';
+
+// The largest number of bits that can be read or written at once.
+const MAX_BIT_LENGTH = 32;
+
+// The largest number of leading zero bits an Exp-Golomb code read as a Number can have.
+const MAX_EXP_GOLOMB_LEADING_ZEROS = 31;
+
+/**
+ * Ensures that a bit order is valid.
+ *
+ * @param bitOrder { BitOrder } The bit order to validate.
+ */
+function validateBitOrder(bitOrder: BitOrder) {
+    if (bitOrder !== 'MSB' && bitOrder !== 'LSB') {
+        throw new SmartBufferArgumentError('Invalid bit order provided. Please specify MSB or LSB.', 'bitOrder', bitOrder);
+    }
+}
+
+/**
+ * Ensures that a number of bits is an integer between 1 and 32.
+ *
+ * @param length { Number } The number of bits to validate.
+ */
+function validateBitLength(length: number) {
+    if (!(Number.isInteger(length) && length >= 1 && length <= MAX_BIT_LENGTH)) {
+        throw new SmartBufferArgumentError('Invalid bit length provided. Bit length must be an integer between 1 and 32.',
+            'length', length);
+    }
+}
+
+/**
+ * Reads bit fields from a SmartBuffer, starting at its read position.
+ *
+ * Whole bytes are consumed from the SmartBuffer as they are started, so the read offset always points at the byte after
+ * the one being read. Byte-level reads therefore continue at the next whole byte. Moving the read offset (or reading
+ * bytes) discards the rest of a partially read byte.
+ */
+class SmartBufferBitReader {
+    // The SmartBuffer the bits are read from.
+    public readonly buff: SmartBuffer;
+    // The order bits are read from each byte.
+    public readonly bitOrder: BitOrder;
+
+    private byteOffset: number = 0;
+    private byteValue: number = 0;
+    private _bitOffset: number = 0;
+
+    /**
+     * Creates a new SmartBufferBitReader instance.
+     *
+     * @param buff { SmartBuffer } The SmartBuffer to read bits from.
+     * @param bitOrder { BitOrder } The order bits are read from each byte (defaults to MSB).
+     */
+    constructor(buff: SmartBuffer, bitOrder: BitOrder = 'MSB') {
+        validateBitOrder(bitOrder);
+        this.buff = buff;
+        this.bitOrder = bitOrder;
+    }
+
+    /**
+     * Gets the number of bits that have been read from the current byte (0 when the reader is byte aligned).
+     *
+     * @return { Number }
+     */
+    get bitOffset(): number {
+        this.sync();
+        return this._bitOffset;
+    }
+
+    /**
+     * Reads a single bit.
+     *
+     * @return { Number }
+     */
+    readBit(): number {
+        return this.readBits(1);
+    }
+
+    /**
+     * Reads an unsigned value of the given number of bits (1-32).
+     *
+     * @param length { Number } The number of bits to read.
+     *
+     * @return { Number }
+     */
+    readBits(length: number): number {
+        validateBitLength(length);
+        this.sync();
+
+        // The bits left in the partially read byte are read before any bytes that remain.
+        const partialBits = this._bitOffset > 0 ? 8 - this._bitOffset : 0;
+        const remaining = this.buff.remaining();
+
+        if (partialBits + remaining * 8 < length) {
+            throw new SmartBufferOutOfBoundsError('Reading beyond the bounds of the data.',
+                this.buff.readOffset, Math.ceil((length - partialBits) / 8), remaining);
+        }
+
+        let value = 0;
+        let read = 0;
+
+        while (read < length) {
+            if (this._bitOffset === 0) {
+                this.byteOffset = this.buff.readOffset;
+                this.byteValue = this.buff.readUInt8();
+            }
+
+            const count = Math.min(8 - this._bitOffset, length - read);
+            const mask = (1 << count) - 1;
+
+            if (this.bitOrder === 'MSB') {
+                value = value * (1 << count) + ((this.byteValue >> (8 - this._bitOffset - count)) & mask);
+            } else {
+                value += ((this.byteValue >> this._bitOffset) & mask) * Math.pow(2, read);
+            }
+
+            read += count;
+            this._bitOffset = (this._bitOffset + count) % 8;
+        }
+        return value;
+    }
+
+    /**
+     * Reads an unsigned Exp-Golomb code (ue(v) in H.264).
+     *
+     * @return { Number }
+     */
+    readExpGolomb(): number {
+        this.sync();
+
+        // Remember the position so nothing is consumed if the code is truncated or too large.
+        const byteOffset = this.byteOffset;
+        const byteValue = this.byteValue;
+        const bitOffset = this._bitOffset;
+        const readOffset = this.buff.readOffset;
+
+        try {
+            let leadingZeros = 0;
+
+            while (this.readBit() === 0) {
+                leadingZeros++;
+
+                if (leadingZeros > MAX_EXP_GOLOMB_LEADING_ZEROS) {
+                    throw new SmartBufferFormatError(`Exp-Golomb code has more than ${MAX_EXP_GOLOMB_LEADING_ZEROS} leading zero bits.`,
+                        bitOffset > 0 ? byteOffset : readOffset);
+                }
+            }
+            return Math.pow(2, leadingZeros) - 1 + (leadingZeros > 0 ? this.readBits(leadingZeros) : 0);
+        } catch (err) {
+            this.buff.readOffset = readOffset;
+            this.byteOffset = byteOffset;
+            this.byteValue = byteValue;
+            this._bitOffset = bitOffset;
+            throw err;
+        }
+    }
+
+    /**
+     * Reads a signed Exp-Golomb code (se(v) in H.264).
+     *
+     * @return { Number }
+     */
+    readSignedExpGolomb(): number {
+        const value = this.readExpGolomb();
+        return value % 2 === 1 ? (value + 1) / 2 : -value / 2;
+    }
+
+    /**
+     * Skips the rest of the current byte, so the next read starts at a whole byte.
+     */
+    alignToByte() {
+        this._bitOffset = 0;
+        return this;
+    }
+
+    /**
+     * Discards the partially read byte if the read offset was moved since it was started.
+     */
+    private sync() {
+        if (this._bitOffset > 0 && this.buff.readOffset !== this.byteOffset + 1) {
+            this._bitOffset = 0;
+        }
+    }
+}
+
+/**
+ * Writes bit fields to a SmartBuffer, starting at its write position.
+ *
+ * A byte is written to the SmartBuffer as soon as its first bit is written, and later bits are set in place. The write
+ * offset always points at the byte after the one being written, so byte-level writes continue at the next whole byte
+ * (the unused bits of a partial byte are zero). Moving the write offset (or writing bytes) ends a partially written byte.
+ */
+class SmartBufferBitWriter {
+    // The SmartBuffer the bits are written to.
+    public readonly buff: SmartBuffer;
+    // The order bits are written to each byte.
+    public readonly bitOrder: BitOrder;
+
+    private byteOffset: number = 0;
+    private byteValue: number = 0;
+    private _bitOffset: number = 0;
+
+    /**
+     * Creates a new SmartBufferBitWriter instance.
+     *
+     * @param buff { SmartBuffer } The SmartBuffer to write bits to.
+     * @param bitOrder { BitOrder } The order bits are written to each byte (defaults to MSB).
+     */
+    constructor(buff: SmartBuffer, bitOrder: BitOrder = 'MSB') {
+        validateBitOrder(bitOrder);
+        this.buff = buff;
+        this.bitOrder = bitOrder;
+    }
+
+    /**
+     * Gets the number of bits that have been written to the current byte (0 when the writer is byte aligned).
+     *
+     * @return { Number }
+     */
+    get bitOffset(): number {
+        this.sync();
+        return this._bitOffset;
+    }
+
+    /**
+     * Writes a single bit.
+     *
+     * @param value { Number } The bit to write (0 or 1).
+     */
+    writeBit(value: number) {
+        return this.writeBits(value, 1);
+    }
+
+    /**
+     * Writes an unsigned value of the given number of bits (1-32).
+     *
+     * @param value { Number } The value to write.
+     * @param length { Number } The number of bits to write.
+     */
+    writeBits(value: number, length: number) {
+        validateBitLength(length);
+        if (!(Number.isInteger(value) && value >= 0 && value < Math.pow(2, length))) {
+            throw new SmartBufferArgumentError(`Invalid value provided. Value must be an unsigned integer that fits in ${length} bits.`,
+                'value', value);
+        }
+        this.sync();
+
+        let written = 0;
+
+        while (written < length) {
+            if (this._bitOffset === 0) {
+                this.byteOffset = this.buff.writeOffset;
+                this.byteValue = 0;
+                this.buff.writeUInt8(0);
+            }
+
+            const count = Math.min(8 - this._bitOffset, length - written);
+            const mask = (1 << count) - 1;
+
+            if (this.bitOrder === 'MSB') {
+                const bits = Math.floor(value / Math.pow(2, length - written - count)) & mask;
+                this.byteValue |= bits << (8 - this._bitOffset - count);
+            } else {
+                const bits = Math.floor(value / Math.pow(2, written)) & mask;
+                this.byteValue |= bits << this._bitOffset;
+            }
+            this.buff.setUInt8(this.byteValue, this.byteOffset);
+
+            written += count;
+            this._bitOffset = (this._bitOffset + count) % 8;
+        }
+        return this;
+    }
+
+    /**
+     * Writes an unsigned Exp-Golomb code (ue(v) in H.264).
+     *
+     * @param value { Number } The value to write (0 to 2^32 - 2).
+     */
+    writeExpGolomb(value: number) {
+        if (!(Number.isInteger(value) && value >= 0 && value < Math.pow(2, MAX_EXP_GOLOMB_LEADING_ZEROS + 1) - 1)) {
+            throw new SmartBufferArgumentError('Invalid value provided. Value must be an integer between 0 and 2^32 - 2.', 'value', value);
+        }
+
+        const code = value + 1;
+        const leadingZeros = Math.floor(Math.log2(code));
+
+        // The leading zeros are followed by the code itself, which always starts with a 1 bit.
+        if (leadingZeros > 0) {
+            this.writeBits(0, leadingZeros);
+        }
+        this.writeBit(1);
+        if (leadingZeros > 0) {
+            this.writeBits(code - Math.pow(2, leadingZeros), leadingZeros);
+        }
+        return this;
+    }
+
+    /**
+     * Writes a signed Exp-Golomb code (se(v) in H.264).
+     *
+     * @param value { Number } The value to write (-(2^31 - 1) to 2^31 - 1).
+     */
+    writeSignedExpGolomb(value: number) {
+        if (!(Number.isInteger(value) && Math.abs(value) < Math.pow(2, MAX_EXP_GOLOMB_LEADING_ZEROS))) {
+            throw new SmartBufferArgumentError('Invalid value provided. Value must be an integer between -(2^31 - 1) and 2^31 - 1.',
+                'value', value);
+        }
+        return this.writeExpGolomb(value > 0 ? value * 2 - 1 : -value * 2);
+    }
+
+    /**
+     * Pads the rest of the current byte with zero bits, so the next write starts at a whole byte.
+     */
+    alignToByte() {
+        this._bitOffset = 0;
+        return this;
+    }
+
+    /**
+     * Ends the partially written byte if the write offset was moved since it was started.
+     */
+    private sync() {
+        if (this._bitOffset > 0 && this.buff.writeOffset !== this.byteOffset + 1) {
+            this._bitOffset = 0;
+        }
+    }
+}
+
+export {
+    BitOrder,
+    SmartBufferBitReader,
+    SmartBufferBitWriter
+};
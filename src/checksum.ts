@@ -0,0 +1,145 @@
+/**
+ * The checksum algorithms that can be computed over a range of a SmartBuffer.
+ * crc32 is CRC-32 (ISO-HDLC, as used by zlib, PNG and Ethernet), adler32 is Adler-32 (RFC 1950), internet is the
+ * Internet checksum (RFC 1071, as used by IPv4, TCP and UDP) and crc16 is CRC-16/CCITT-FALSE.
+ */
+type ChecksumAlgorithm = 'crc32' | 'adler32' | 'internet' | 'crc16';
+
+// The largest prime smaller than 65536, which Adler-32 sums are taken modulo of.
+const ADLER32_MODULO = 65521;
+
+// The number of bytes Adler-32 sums can be accumulated over before they have to be reduced (to stay within 2^32).
+const ADLER32_BLOCK_SIZE = 5552;
+
+// Lookup table for the reflected CRC-32 polynomial (0xEDB88320).
+const CRC32_TABLE = createCrcTable((crc) => (crc & 1 ? (crc >>> 1) ^ 0xEDB88320 : crc >>> 1));
+
+// Lookup table for the CRC-16/CCITT polynomial (0x1021).
+const CRC16_TABLE = createCrcTable((crc) => (crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1) & 0xFFFF, 8);
+
+/**
+ * Creates a 256 entry CRC lookup table.
+ *
+ * @param step { Function(crc: number) => number } Shifts a single bit through the CRC register.
+ * @param shift { Number } The number of bits each byte is shifted left by before the first step (0 for reflected CRCs).
+ *
+ * @return { Uint32Array }
+ */
+function createCrcTable(step: (crc: number) => number, shift: number = 0): Uint32Array {
+    const table = new Uint32Array(256);
+
+    for (let i = 0; i < 256; i++) {
+        let crc = i << shift;
+        for (let bit = 0; bit < 8; bit++) {
+            crc = step(crc);
+        }
+        table[i] = crc >>> 0;
+    }
+    return table;
+}
+
+/**
+ * Computes the CRC-32 of a range of a Buffer.
+ *
+ * @param buff { Buffer } The Buffer to read data from.
+ * @param start { Number } The offset to start at.
+ * @param end { Number } The offset to end at (exclusive).
+ *
+ * @return { Number }
+ */
+function crc32(buff: Buffer, start: number, end: number): number {
+    let crc = 0xFFFFFFFF;
+
+    for (let i = start; i < end; i++) {
+        crc = CRC32_TABLE[(crc ^ buff[i]) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * Computes the Adler-32 checksum of a range of a Buffer.
+ *
+ * @param buff { Buffer } The Buffer to read data from.
+ * @param start { Number } The offset to start at.
+ * @param end { Number } The offset to end at (exclusive).
+ *
+ * @return { Number }
+ */
+function adler32(buff: Buffer, start: number, end: number): number {
+    let a = 1;
+    let b = 0;
+
+    while (start < end) {
+        const blockEnd = Math.min(start + ADLER32_BLOCK_SIZE, end);
+
+        for (; start < blockEnd; start++) {
+            a += buff[start];
+            b += a;
+        }
+        a %= ADLER32_MODULO;
+        b %= ADLER32_MODULO;
+    }
+    return (b * 65536 + a) >>> 0;
+}
+
+/**
+ * Computes the Internet checksum (RFC 1071) of a range of a Buffer.
+ * The data is summed as big endian 16 bit words, and an odd final byte is padded with a zero byte.
+ *
+ * @param buff { Buffer } The Buffer to read data from.
+ * @param start { Number } The offset to start at.
+ * @param end { Number } The offset to end at (exclusive).
+ *
+ * @return { Number }
+ */
+function internetChecksum(buff: Buffer, start: number, end: number): number {
+    let sum = 0;
+
+    for (let i = start; i + 1 < end; i += 2) {
+        sum += (buff[i] << 8) | buff[i + 1];
+    }
+    if ((end - start) % 2 === 1) {
+        sum += buff[end - 1] << 8;
+    }
+
+    // Fold the carries back into the lower 16 bits.
+    while (sum > 0xFFFF) {
+        sum = (sum & 0xFFFF) + Math.floor(sum / 65536);
+    }
+    return ~sum & 0xFFFF;
+}
+
+/**
+ * Computes the CRC-16/CCITT-FALSE (polynomial 0x1021, initial value 0xFFFF) of a range of a Buffer.
+ *
+ * @param buff { Buffer } The Buffer to read data from.
+ * @param start { Number } The offset to start at.
+ * @param end { Number } The offset to end at (exclusive).
+ *
+ * @return { Number }
+ */
+function crc16(buff: Buffer, start: number, end: number): number {
+    let crc = 0xFFFF;
+
+    for (let i = start; i < end; i++) {
+        crc = (CRC16_TABLE[((crc >>> 8) ^ buff[i]) & 0xFF] ^ (crc << 8)) & 0xFFFF;
+    }
+    return crc;
+}
+
+// The function used to compute each checksum algorithm.
+const CHECKSUM_FUNCTIONS: { [algorithm: string]: (buff: Buffer, start: number, end: number) => number } = {
+    crc32: crc32,
+    adler32: adler32,
+    internet: internetChecksum,
+    crc16: crc16
+};
+
+export {
+    ChecksumAlgorithm,
+    CHECKSUM_FUNCTIONS,
+    crc32,
+    adler32,
+    internetChecksum,
+    crc16
+};
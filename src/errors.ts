@@ -0,0 +1,281 @@
+/**
+ * Error thrown when a read or write position is moved outside of the bounds of the data.
+ */
+class SmartBufferRangeError extends RangeError {
+    // The position that was requested.
+    public requested: number;
+    // The length of the data. Valid positions range from zero to this value.
+    public available: number;
+
+    /**
+     * Creates a new SmartBufferRangeError instance.
+     * 
+     * @param message { String } The error message.
+     * @param requested { Number } The position that was requested.
+     * @param available { Number } The length of the data.
+     */
+    constructor(message: string, requested: number, available: number) {
+        super(message);
+        this.name = 'SmartBufferRangeError';
+        this.requested = requested;
+        this.available = available;
+    }
+}
+
+/**
+ * Error thrown when reading more data than is available. This usually means the data is incomplete.
+ */
+class SmartBufferOutOfBoundsError extends SmartBufferRangeError {
+    // The read position the data was requested from.
+    public offset: number;
+
+    /**
+     * Creates a new SmartBufferOutOfBoundsError instance.
+     * 
+     * @param message { String } The error message.
+     * @param offset { Number } The read position the data was requested from.
+     * @param requested { Number } The number of bytes that were requested.
+     * @param available { Number } The number of bytes remaining from the read position.
+     */
+    constructor(message: string, offset: number, requested: number, available: number) {
+        super(message, requested, available);
+        this.name = 'SmartBufferOutOfBoundsError';
+        this.offset = offset;
+    }
+}
+
+/**
+ * Error thrown when the internal Buffer would have to grow beyond its maximum size.
+ */
+class SmartBufferCapacityError extends SmartBufferRangeError {
+    /**
+     * Creates a new SmartBufferCapacityError instance.
+     * 
+     * @param requested { Number } The size the internal Buffer would have to grow to.
+     * @param available { Number } The maximum size of the internal Buffer.
+     */
+    constructor(requested: number, available: number) {
+        super(`Cannot grow the SmartBuffer to ${requested} bytes. The maximum size is ${available} bytes.`, requested, available);
+        this.name = 'SmartBufferCapacityError';
+    }
+}
+
+/**
+ * Error thrown when an invalid argument (such as a size, offset or value) is provided.
+ */
+class SmartBufferArgumentError extends Error {
+    // The name of the invalid argument.
+    public argument: string;
+    // The invalid value that was provided.
+    public value: any;
+
+    /**
+     * Creates a new SmartBufferArgumentError instance.
+     * 
+     * @param message { String } The error message.
+     * @param argument { String } The name of the invalid argument.
+     * @param value { any } The invalid value that was provided.
+     */
+    constructor(message: string, argument: string, value: any) {
+        super(message);
+        this.name = 'SmartBufferArgumentError';
+        this.argument = argument;
+        this.value = value;
+    }
+}
+
+/**
+ * Error thrown when an encoding that Node.js Buffers do not support is provided.
+ */
+class SmartBufferEncodingError extends SmartBufferArgumentError {
+    /**
+     * Creates a new SmartBufferEncodingError instance.
+     * 
+     * @param encoding { String } The invalid encoding that was provided.
+     */
+    constructor(encoding: any) {
+        super('Invalid encoding provided. Please specify a valid encoding the internal Node.js Buffer supports.', 'encoding', encoding);
+        this.name = 'SmartBufferEncodingError';
+    }
+}
+
+/**
+ * Error thrown when the data is malformed, or holds a value that cannot be represented (such as an overlong varint, or a
+ * value outside of the safe integer range).
+ */
+class SmartBufferFormatError extends Error {
+    // The offset of the malformed value.
+    public offset: number;
+
+    /**
+     * Creates a new SmartBufferFormatError instance.
+     * 
+     * @param message { String } The error message.
+     * @param offset { Number } The offset of the malformed value.
+     */
+    constructor(message: string, offset: number) {
+        super(message);
+        this.name = 'SmartBufferFormatError';
+        this.offset = offset;
+    }
+}
+
+/**
+ * Error thrown when a delimiter (such as a line ending) is not found within the maximum length given to readUntil(),
+ * readStringUntil() or readLine().
+ */
+class SmartBufferDelimiterError extends SmartBufferFormatError {
+    // The maximum number of bytes the delimiter was searched for in.
+    public maxLength: number;
+
+    /**
+     * Creates a new SmartBufferDelimiterError instance.
+     * 
+     * @param maxLength { Number } The maximum number of bytes the delimiter was searched for in.
+     * @param offset { Number } The offset the search started at.
+     */
+    constructor(maxLength: number, offset: number) {
+        super(`Delimiter not found within ${maxLength} bytes.`, offset);
+        this.name = 'SmartBufferDelimiterError';
+        this.maxLength = maxLength;
+    }
+}
+
+/**
+ * Error thrown when a schema field fails to encode or decode.
+ */
+class SmartBufferSchemaError extends Error {
+    // The path of the field that failed (e.g. header.items[2].name).
+    public path: string;
+    // The error that was thrown by the field.
+    public cause: Error;
+
+    /**
+     * Creates a new SmartBufferSchemaError instance.
+     * 
+     * @param path { String } The path of the field that failed.
+     * @param cause { Error } The error that was thrown by the field.
+     */
+    constructor(path: string, cause: Error) {
+        super(`Field ${path}: ${cause.message}`);
+        this.name = 'SmartBufferSchemaError';
+        this.path = path;
+        this.cause = cause;
+    }
+}
+
+/**
+ * Error thrown when a checksum read from the data does not match the checksum computed over the data.
+ */
+class SmartBufferChecksumError extends Error {
+    // The checksum algorithm that was used.
+    public algorithm: string;
+    // The checksum read from the data.
+    public expected: number;
+    // The checksum computed over the data.
+    public actual: number;
+    // The offset the checksummed range starts at.
+    public start: number;
+    // The offset the checksummed range ends at (exclusive).
+    public end: number;
+
+    /**
+     * Creates a new SmartBufferChecksumError instance.
+     * 
+     * @param algorithm { String } The checksum algorithm that was used.
+     * @param expected { Number } The checksum read from the data.
+     * @param actual { Number } The checksum computed over the data.
+     * @param start { Number } The offset the checksummed range starts at.
+     * @param end { Number } The offset the checksummed range ends at (exclusive).
+     */
+    constructor(algorithm: string, expected: number, actual: number, start: number, end: number) {
+        super(`Checksum mismatch (${algorithm}) over bytes ${start} to ${end}: ` +
+            `expected 0x${expected.toString(16)}, but the data has 0x${actual.toString(16)}.`);
+        this.name = 'SmartBufferChecksumError';
+        this.algorithm = algorithm;
+        this.expected = expected;
+        this.actual = actual;
+        this.start = start;
+        this.end = end;
+    }
+}
+
+/**
+ * Error thrown when reset() or unmark() is called without a mark (see mark()).
+ */
+class SmartBufferMarkError extends Error {
+    /**
+     * Creates a new SmartBufferMarkError instance.
+     * 
+     * @param message { String } The error message.
+     */
+    constructor(message: string) {
+        super(message);
+        this.name = 'SmartBufferMarkError';
+    }
+}
+
+/**
+ * Error thrown when modifying a read-only SmartBuffer view.
+ */
+class SmartBufferReadOnlyError extends Error {
+    /**
+     * Creates a new SmartBufferReadOnlyError instance.
+     */
+    constructor() {
+        super('Cannot modify a read-only SmartBuffer view.');
+        this.name = 'SmartBufferReadOnlyError';
+    }
+}
+
+/**
+ * Error thrown when getting the data of a SmartBuffer that has placeholders which have not been filled, or when inserting or
+ * removing data within an unfilled placeholder.
+ */
+class SmartBufferPlaceholderError extends Error {
+    // The offsets of the unfilled placeholders.
+    public readonly offsets: number[];
+
+    /**
+     * Creates a new SmartBufferPlaceholderError instance.
+     * 
+     * @param offsets { Number[] } The offsets of the unfilled placeholders.
+     * @param message { String } The error message (defaults to a message about getting the data).
+     */
+    constructor(offsets: number[], message?: string) {
+        super(message || `Cannot get the data while placeholders are unfilled (at offsets ${offsets.join(', ')}).`);
+        this.name = 'SmartBufferPlaceholderError';
+        this.offsets = offsets;
+    }
+}
+
+/**
+ * Determines if an error means that the data is incomplete: a SmartBufferOutOfBoundsError, or a SmartBufferSchemaError
+ * caused by one.
+ *
+ * @param err { Error } The error to check.
+ *
+ * @return { Boolean }
+ */
+function isIncompleteDataError(err: Error): boolean {
+    if (err instanceof SmartBufferSchemaError) {
+        return err.cause instanceof SmartBufferOutOfBoundsError;
+    }
+    return err instanceof SmartBufferOutOfBoundsError;
+}
+
+export {
+    isIncompleteDataError,
+    SmartBufferRangeError,
+    SmartBufferOutOfBoundsError,
+    SmartBufferCapacityError,
+    SmartBufferArgumentError,
+    SmartBufferEncodingError,
+    SmartBufferFormatError,
+    SmartBufferDelimiterError,
+    SmartBufferSchemaError,
+    SmartBufferChecksumError,
+    SmartBufferMarkError,
+    SmartBufferReadOnlyError,
+    SmartBufferPlaceholderError
+};
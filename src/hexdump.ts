@@ -0,0 +1,146 @@
+/**
+ * Object interface for the options of hexdump().
+ */
+interface HexdumpOptions {
+    // The number of bytes per line (defaults to 16).
+    width?: number;
+    // The offset to start at (defaults to 0).
+    start?: number;
+    // The offset to end at, exclusive (defaults to the length of the data).
+    end?: number;
+    // Whether to mark the read offset (r) and the write offset (w) below the lines they are on (defaults to true).
+    cursors?: boolean;
+    // Whether to list the entries of the trace (see startTrace()) below the lines they start on (defaults to false).
+    trace?: boolean;
+}
+
+/**
+ * Object interface for a line of text listed below the line of a hex dump that holds the given offset.
+ */
+interface HexdumpNote {
+    // The offset the note belongs to.
+    offset: number;
+    // The text of the note.
+    text: string;
+}
+
+/**
+ * Object interface for a label shown below a byte of a hex dump.
+ */
+interface HexdumpMarker {
+    // The offset of the marked byte.
+    offset: number;
+    // The label shown below the byte.
+    label: string;
+}
+
+// The default number of bytes per line.
+const DEFAULT_HEXDUMP_WIDTH = 16;
+
+// The number of bytes after which an extra space separates the hex values.
+const HEXDUMP_GROUP_SIZE = 8;
+
+// The width of the offset column, including the two spaces after it.
+const HEXDUMP_OFFSET_WIDTH = 10;
+
+/**
+ * Formats an offset as (at least) 8 hex digits.
+ *
+ * @param offset { Number } The offset to format.
+ *
+ * @return { String }
+ */
+function formatOffset(offset: number): string {
+    const hex = offset.toString(16);
+    return hex.length >= 8 ? hex : '00000000'.slice(hex.length) + hex;
+}
+
+/**
+ * Gets the column the hex value of a byte starts at.
+ *
+ * @param index { Number } The index of the byte within its line.
+ *
+ * @return { Number }
+ */
+function hexColumn(index: number): number {
+    return HEXDUMP_OFFSET_WIDTH + index * 3 + Math.floor(index / HEXDUMP_GROUP_SIZE);
+}
+
+/**
+ * Formats data in the classic offset/hex/ASCII layout of hexdump -C. The last line holds the offset the data ends at.
+ * Markers are shown on a separate line below the hex value of the byte they mark (a marker at the end of the data is shown
+ * below the first empty column), followed by the notes of the line. Markers and notes outside of the data are not shown.
+ *
+ * @param data { Buffer } The data to format.
+ * @param start { Number } The offset of the data, shown in the offset column.
+ * @param width { Number } The number of bytes per line.
+ * @param markers { HexdumpMarker[] } The markers to show.
+ * @param notes { HexdumpNote[] } The notes to list.
+ *
+ * @return { String }
+ */
+function formatHexdump(data: Buffer, start: number, width: number, markers: HexdumpMarker[] = [], notes: HexdumpNote[] = []): string {
+    const lines: string[] = [];
+    const rows = Math.ceil(data.length / width);
+
+    // Combine the labels of markers at the same offset (such as r and w into rw).
+    const labels: { [offset: number]: string } = {};
+    for (const marker of markers) {
+        labels[marker.offset] = (labels[marker.offset] || '') + marker.label;
+    }
+
+    for (let row = 0; row <= rows; row++) {
+        const rowStart = row * width;
+        const rowEnd = Math.min(rowStart + width, data.length);
+
+        if (row < rows) {
+            let hex = '';
+            let ascii = '';
+            for (let i = 0; i < width; i++) {
+                if (i > 0 && i % HEXDUMP_GROUP_SIZE === 0) {
+                    hex += ' ';
+                }
+                if (rowStart + i < rowEnd) {
+                    const byte = data[rowStart + i];
+                    hex += (byte < 16 ? '0' : '') + byte.toString(16) + ' ';
+                    ascii += byte >= 0x20 && byte <= 0x7E ? String.fromCharCode(byte) : '.';
+                } else {
+                    hex += '   ';
+                }
+            }
+            lines.push(`${formatOffset(start + rowStart)}  ${hex} |${ascii}|`);
+        } else {
+            lines.push(formatOffset(start + data.length));
+        }
+
+        // The last line only holds markers at the end of data that fills its last line.
+        const markerEnd = row < rows ? rowStart + width : rowStart + 1;
+        let markerLine = '';
+        for (let i = rowStart; i < markerEnd && i <= data.length; i++) {
+            const label = labels[start + i];
+            if (label !== undefined) {
+                const column = hexColumn(i - rowStart);
+                markerLine += ' '.repeat(Math.max(column - markerLine.length, 1)) + label;
+            }
+        }
+        if (markerLine.length > 0) {
+            lines.push(markerLine);
+        }
+
+        for (const note of notes) {
+            if (note.offset >= start + rowStart && note.offset < start + Math.min(markerEnd, data.length + 1)) {
+                lines.push(' '.repeat(HEXDUMP_OFFSET_WIDTH) + note.text);
+            }
+        }
+    }
+
+    return lines.join('\n');
+}
+
+export {
+    HexdumpOptions,
+    HexdumpMarker,
+    HexdumpNote,
+    DEFAULT_HEXDUMP_WIDTH,
+    formatHexdump
+};
@@ -0,0 +1,142 @@
+import { SmartBuffer, Endian } from './smartbuffer';
+import { SmartBufferArgumentError } from './errors';
+
+/**
+ * The numeric types a placeholder can be reserved as. Int16, UInt16, Int32 and UInt32 use the SmartBuffer's endianness
+ * at the time the placeholder is reserved.
+ */
+type PlaceholderType = 'Int8' | 'UInt8' |
+    'Int16' | 'Int16BE' | 'Int16LE' | 'UInt16' | 'UInt16BE' | 'UInt16LE' |
+    'Int32' | 'Int32BE' | 'Int32LE' | 'UInt32' | 'UInt32BE' | 'UInt32LE';
+
+// The size of each placeholder type, and the function that overwrites a placeholder of the type in place.
+const PLACEHOLDER_TYPES: { [type: string]: { byteSize: number, set: (buff: SmartBuffer, value: number, offset: number) => void } } = {
+    Int8: { byteSize: 1, set: (buff, value, offset) => buff.setInt8(value, offset) },
+    UInt8: { byteSize: 1, set: (buff, value, offset) => buff.setUInt8(value, offset) },
+    Int16BE: { byteSize: 2, set: (buff, value, offset) => buff.setInt16BE(value, offset) },
+    Int16LE: { byteSize: 2, set: (buff, value, offset) => buff.setInt16LE(value, offset) },
+    UInt16BE: { byteSize: 2, set: (buff, value, offset) => buff.setUInt16BE(value, offset) },
+    UInt16LE: { byteSize: 2, set: (buff, value, offset) => buff.setUInt16LE(value, offset) },
+    Int32BE: { byteSize: 4, set: (buff, value, offset) => buff.setInt32BE(value, offset) },
+    Int32LE: { byteSize: 4, set: (buff, value, offset) => buff.setInt32LE(value, offset) },
+    UInt32BE: { byteSize: 4, set: (buff, value, offset) => buff.setUInt32BE(value, offset) },
+    UInt32LE: { byteSize: 4, set: (buff, value, offset) => buff.setUInt32LE(value, offset) }
+};
+
+/**
+ * Gets the placeholder type with an explicit byte order (Int16 becomes Int16BE or Int16LE), validating it.
+ *
+ * @param type { PlaceholderType } The placeholder type.
+ * @param endian { Endian } The byte order used for types without a BE/LE suffix.
+ *
+ * @return { PlaceholderType }
+ */
+function resolvePlaceholderType(type: PlaceholderType, endian: Endian): PlaceholderType {
+    const resolved = <PlaceholderType>(PLACEHOLDER_TYPES.hasOwnProperty(type + endian) ? type + endian : type);
+
+    if (!PLACEHOLDER_TYPES.hasOwnProperty(resolved)) {
+        throw new SmartBufferArgumentError(
+            'Invalid placeholder type provided. Please specify Int8, UInt8, Int16, UInt16, Int32 or UInt32 (optionally BE or LE).',
+            'type', type);
+    }
+    return resolved;
+}
+
+/**
+ * A placeholder reserved with SmartBuffer.reservePlaceholder(), for a field (such as a length or an offset) whose value is
+ * only known after the data that follows it has been written.
+ *
+ * Filling the placeholder overwrites it in place, without shifting data or moving the write offset. toBuffer() throws a
+ * SmartBufferPlaceholderError while any placeholder of the SmartBuffer is unfilled. The placeholder moves with the data when
+ * data is inserted or removed before it.
+ */
+class SmartBufferPlaceholder {
+    // The SmartBuffer the placeholder was reserved in.
+    public readonly buff: SmartBuffer;
+    // The numeric type of the placeholder (always with a BE/LE suffix for types larger than a byte).
+    public readonly type: PlaceholderType;
+    // The size of the placeholder in bytes.
+    public readonly byteSize: number;
+
+    private _offset: number;
+    private _filled: boolean = false;
+
+    /**
+     * Creates a new SmartBufferPlaceholder instance. Use SmartBuffer.reservePlaceholder() to reserve a placeholder.
+     *
+     * @param buff { SmartBuffer } The SmartBuffer the placeholder was reserved in.
+     * @param type { PlaceholderType } The numeric type of the placeholder, with a BE/LE suffix for types larger than a byte.
+     * @param offset { Number } The offset of the placeholder.
+     */
+    constructor(buff: SmartBuffer, type: PlaceholderType, offset: number) {
+        this.buff = buff;
+        this.type = type;
+        this._offset = offset;
+        this.byteSize = PLACEHOLDER_TYPES[this.type].byteSize;
+    }
+
+    /**
+     * Gets the offset of the placeholder. The offset moves when data is inserted or removed before the placeholder.
+     *
+     * @return { Number }
+     */
+    get offset(): number {
+        return this._offset;
+    }
+
+    /**
+     * Gets whether the placeholder has been filled.
+     *
+     * @return { Boolean }
+     */
+    get filled(): boolean {
+        return this._filled;
+    }
+
+    /**
+     * Moves the offset of the placeholder. Called by the SmartBuffer when data is inserted or removed before the placeholder.
+     *
+     * @param amount { Number } The number of bytes to move the offset by (negative to move it back).
+     */
+    move(amount: number) {
+        this._offset += amount;
+    }
+
+    /**
+     * Overwrites the placeholder with a value. A placeholder can be filled more than once.
+     *
+     * @param value { Number } The value to fill the placeholder with.
+     */
+    fill(value: number) {
+        const filled = this._filled;
+
+        // The SmartBuffer does not allow overwriting unfilled placeholders, so the placeholder is marked as filled first.
+        this._filled = true;
+        try {
+            PLACEHOLDER_TYPES[this.type].set(this.buff, value, this.offset);
+        } catch (err) {
+            this._filled = filled;
+            throw err;
+        }
+        return this;
+    }
+
+    /**
+     * Fills the placeholder with the number of bytes between an offset and the current write offset.
+     *
+     * @param start { Number } The offset to count from (defaults to the end of the placeholder, so the length does not include it).
+     */
+    fillWithLengthSince(start: number = this.offset + this.byteSize) {
+        if (!(Number.isInteger(start) && start >= 0 && start <= this.buff.writeOffset)) {
+            throw new SmartBufferArgumentError('Invalid start provided. Start must be an integer between 0 and the write offset.',
+                'start', start);
+        }
+        return this.fill(this.buff.writeOffset - start);
+    }
+}
+
+export {
+    PlaceholderType,
+    SmartBufferPlaceholder,
+    resolvePlaceholderType
+};
@@ -0,0 +1,232 @@
+import { SmartBuffer, Endian } from './smartbuffer';
+import { SmartBufferArgumentError, SmartBufferEncodingError } from './errors';
+import { BufferBackend } from './backend';
+
+/**
+ * Object interface for constructing new SmartBufferPool instances.
+ */
+interface SmartBufferPoolOptions {
+    // The size of the internal Buffer of each SmartBuffer the pool creates.
+    size?: number;
+    // The number of SmartBuffers to create up front.
+    preallocate?: number;
+    // The maximum number of released SmartBuffers kept for reuse. SmartBuffers released beyond it are discarded.
+    maxIdle?: number;
+    // Whether released SmartBuffers are filled with zeros before they are reused.
+    zeroFill?: boolean;
+    // The String encoding of the SmartBuffers the pool hands out.
+    encoding?: BufferEncoding;
+    // The byte order of the SmartBuffers the pool hands out.
+    endian?: Endian;
+}
+
+/**
+ * Object interface for the usage statistics of a SmartBufferPool.
+ */
+interface SmartBufferPoolStats {
+    // The number of acquire() calls that reused an idle SmartBuffer.
+    hits: number;
+    // The number of acquire() calls that had to create a new SmartBuffer.
+    misses: number;
+    // The number of SmartBuffers that have been acquired and not destroyed yet. A number that keeps growing indicates a leak.
+    outstanding: number;
+    // The number of SmartBuffers waiting to be reused.
+    idle: number;
+    // The number of released SmartBuffers that were discarded because the pool already held maxIdle SmartBuffers, or because
+    // their internal Buffer grew beyond the size of the pool.
+    discarded: number;
+}
+
+// The default size of the internal Buffer of pooled SmartBuffers.
+const DEFAULT_POOL_SIZE = 4096;
+
+// The function that returns each leased SmartBuffer to the pool it was acquired from.
+const LEASES = new WeakMap<SmartBuffer, (buff: SmartBuffer) => void>();
+
+/**
+ * Ensures that a pool option is a non-negative integer (or not provided).
+ *
+ * @param value { Number } The value to validate.
+ * @param argument { String } The name of the option.
+ * @param allowInfinity { Boolean } Whether Infinity is a valid value.
+ */
+function validateCount(value: number, argument: string, allowInfinity: boolean = false) {
+    if (value !== undefined && !((Number.isInteger(value) || (allowInfinity && value === Infinity)) && value >= 0)) {
+        throw new SmartBufferArgumentError(`Invalid ${argument} provided. ${argument} must be a non-negative integer.`, argument, value);
+    }
+}
+
+/**
+ * Returns a SmartBuffer to the pool it was acquired from. Called by SmartBuffer.destroy().
+ * Does nothing if the SmartBuffer was not acquired from a pool, or was already returned.
+ *
+ * @param buff { SmartBuffer } The SmartBuffer to return.
+ */
+function releaseToPool(buff: SmartBuffer) {
+    const release = LEASES.get(buff);
+
+    if (release) {
+        LEASES.delete(buff);
+        release(buff);
+    }
+}
+
+/**
+ * Hands out reusable SmartBuffers, so short-lived SmartBuffers do not each allocate a new internal Buffer.
+ *
+ * SmartBuffers are acquired with acquire(), and return to the pool when they are destroyed (with destroy() or release()).
+ * A SmartBuffer must not be used after it is destroyed, as the pool hands it out again.
+ */
+class SmartBufferPool {
+    // The size of the internal Buffer of each SmartBuffer the pool creates.
+    public readonly size: number;
+    // The maximum number of released SmartBuffers kept for reuse.
+    public readonly maxIdle: number;
+    // Whether released SmartBuffers are filled with zeros before they are reused.
+    public readonly zeroFill: boolean;
+
+    private encoding: BufferEncoding;
+    private endian: Endian;
+    private idle: SmartBuffer[] = [];
+    private zeros: Buffer = BufferBackend.alloc(0);
+    private hits: number = 0;
+    private misses: number = 0;
+    private outstanding: number = 0;
+    private discarded: number = 0;
+
+    /**
+     * Creates a new SmartBufferPool instance.
+     *
+     * @param options { SmartBufferPoolOptions } The options of the pool.
+     */
+    constructor(options: SmartBufferPoolOptions = {}) {
+        if (options.size !== undefined && !(Number.isInteger(options.size) && options.size > 0)) {
+            throw new SmartBufferArgumentError('Invalid size provided. Size must be a valid integer greater than zero.',
+                'size', options.size);
+        }
+        validateCount(options.preallocate, 'preallocate');
+        validateCount(options.maxIdle, 'maxIdle', true);
+        if (options.encoding !== undefined && !BufferBackend.isEncoding(options.encoding)) {
+            throw new SmartBufferEncodingError(options.encoding);
+        }
+        if (options.endian !== undefined && options.endian !== 'BE' && options.endian !== 'LE') {
+            throw new SmartBufferArgumentError('Invalid endian provided. Please specify BE or LE.', 'endian', options.endian);
+        }
+
+        this.size = options.size || DEFAULT_POOL_SIZE;
+        this.maxIdle = options.maxIdle === undefined ? Infinity : options.maxIdle;
+        this.zeroFill = options.zeroFill === true;
+        this.encoding = options.encoding || 'utf8';
+        this.endian = options.endian || 'BE';
+
+        for (let i = 0; i < (options.preallocate || 0); i++) {
+            this.idle.push(this.create());
+        }
+    }
+
+    /**
+     * Gets the usage statistics of the pool.
+     *
+     * @return { SmartBufferPoolStats }
+     */
+    get stats(): SmartBufferPoolStats {
+        return {
+            hits: this.hits,
+            misses: this.misses,
+            outstanding: this.outstanding,
+            idle: this.idle.length,
+            discarded: this.discarded
+        };
+    }
+
+    /**
+     * Gets an empty SmartBuffer from the pool, creating a new one if none are idle.
+     *
+     * @return { SmartBuffer }
+     */
+    acquire(): SmartBuffer {
+        let buff: SmartBuffer;
+
+        if (this.idle.length > 0) {
+            buff = this.idle.pop();
+            this.hits++;
+        } else {
+            buff = this.create();
+            this.misses++;
+        }
+
+        LEASES.set(buff, (released) => this.reclaim(released));
+        this.outstanding++;
+        return buff;
+    }
+
+    /**
+     * Returns a SmartBuffer to the pool. This is the same as calling destroy() on the SmartBuffer.
+     *
+     * @param buff { SmartBuffer } The SmartBuffer to return.
+     */
+    release(buff: SmartBuffer) {
+        if (LEASES.get(buff) === undefined) {
+            throw new SmartBufferArgumentError('Invalid SmartBuffer provided. The SmartBuffer is not leased from a pool.', 'buff', buff);
+        }
+        buff.destroy();
+        return this;
+    }
+
+    /**
+     * Discards all idle SmartBuffers, so their memory can be garbage collected.
+     */
+    drain() {
+        this.idle = [];
+        return this;
+    }
+
+    /**
+     * Creates a new SmartBuffer with the options of the pool.
+     *
+     * @return { SmartBuffer }
+     */
+    private create(): SmartBuffer {
+        return new SmartBuffer({ size: this.size, encoding: this.encoding, endian: this.endian });
+    }
+
+    /**
+     * Resets a destroyed SmartBuffer and keeps it for reuse (unless the pool already holds maxIdle SmartBuffers, or the
+     * internal Buffer of the SmartBuffer grew beyond the size of the pool).
+     *
+     * @param buff { SmartBuffer } The destroyed SmartBuffer.
+     */
+    private reclaim(buff: SmartBuffer) {
+        this.outstanding--;
+
+        // SmartBuffers that grew are discarded, so the pool does not keep their larger internal Buffers alive.
+        if (this.idle.length >= this.maxIdle || buff.capacity > this.size) {
+            this.discarded++;
+            return;
+        }
+
+        // Discard the trace of the previous lease (before zero-filling, so the zeros are not recorded).
+        buff.clearTrace();
+
+        if (this.zeroFill) {
+            // Overwrite the whole internal Buffer, including data beyond the length left behind by remove() or compact().
+            if (this.zeros.length < buff.capacity) {
+                this.zeros = BufferBackend.alloc(buff.capacity);
+            }
+            buff.writeBuffer(this.zeros.slice(0, buff.capacity));
+            buff.clear();
+        }
+
+        // Undo changes to the encoding and endianness, so every SmartBuffer is handed out the same way.
+        buff.encoding = this.encoding;
+        buff.endian = this.endian;
+        this.idle.push(buff);
+    }
+}
+
+export {
+    SmartBufferPoolOptions,
+    SmartBufferPoolStats,
+    SmartBufferPool,
+    releaseToPool
+};
@@ -0,0 +1,490 @@
+import { SmartBuffer, LengthPrefix } from './smartbuffer';
+import { SmartBufferOutOfBoundsError, SmartBufferArgumentError, SmartBufferSchemaError } from './errors';
+import { BufferBackend } from './backend';
+
+/**
+ * Object interface for encoding and decoding a value with a SmartBuffer.
+ * P is the type of the struct object the value belongs to (unknown unless the Codec depends on other fields).
+ */
+interface Codec<T, P = unknown> {
+    /**
+     * Writes the value to the SmartBuffer.
+     *
+     * @param value { T } The value to write.
+     * @param buff { SmartBuffer } The SmartBuffer to write to.
+     * @param parent { P } The struct object the value belongs to.
+     */
+    encode(value: T, buff: SmartBuffer, parent?: P): void;
+
+    /**
+     * Reads the value from the SmartBuffer.
+     *
+     * @param buff { SmartBuffer } The SmartBuffer to read from.
+     * @param parent { P } The struct object the value belongs to (containing the fields decoded so far).
+     */
+    decode(buff: SmartBuffer, parent?: P): T;
+}
+
+/**
+ * The values of the built in field types.
+ */
+interface PrimitiveTypes {
+    int8: number;
+    int16: number;
+    int16be: number;
+    int16le: number;
+    int32: number;
+    int32be: number;
+    int32le: number;
+    uint8: number;
+    uint16: number;
+    uint16be: number;
+    uint16le: number;
+    uint32: number;
+    uint32be: number;
+    uint32le: number;
+    float: number;
+    floatbe: number;
+    floatle: number;
+    double: number;
+    doublebe: number;
+    doublele: number;
+    int64: number;
+    int64be: number;
+    int64le: number;
+    uint64: number;
+    uint64be: number;
+    uint64le: number;
+    bigint64: bigint;
+    bigint64be: bigint;
+    bigint64le: bigint;
+    biguint64: bigint;
+    biguint64be: bigint;
+    biguint64le: bigint;
+    varuint: number;
+    varint: number;
+    zigzag: number;
+    quicvarint: number;
+    stringNT: string;
+    bufferNT: Buffer;
+}
+
+/**
+ * The name of a built in field type.
+ */
+type PrimitiveType = keyof PrimitiveTypes;
+
+/**
+ * A field type, either the name of a built in field type or a Codec.
+ */
+type FieldType = PrimitiveType | Codec<unknown>;
+
+/**
+ * The value of a field type.
+ */
+type FieldValue<F> = F extends PrimitiveType ? PrimitiveTypes[F] : F extends Codec<infer T> ? T : never;
+
+/**
+ * Object interface for declaring the fields of a struct (field name -> field type).
+ */
+interface StructFields {
+    [name: string]: FieldType;
+}
+
+/**
+ * The value of a struct with the given fields.
+ */
+type StructValue<F extends StructFields> = { [K in keyof F]: FieldValue<F[K]> };
+
+// Codecs for the built in field types.
+const PRIMITIVE_CODECS: { [K in PrimitiveType]: Codec<PrimitiveTypes[K]> } = {
+    int8: { encode: (value, buff) => buff.writeInt8(value), decode: (buff) => buff.readInt8() },
+    int16: { encode: (value, buff) => buff.writeInt16(value), decode: (buff) => buff.readInt16() },
+    int16be: { encode: (value, buff) => buff.writeInt16BE(value), decode: (buff) => buff.readInt16BE() },
+    int16le: { encode: (value, buff) => buff.writeInt16LE(value), decode: (buff) => buff.readInt16LE() },
+    int32: { encode: (value, buff) => buff.writeInt32(value), decode: (buff) => buff.readInt32() },
+    int32be: { encode: (value, buff) => buff.writeInt32BE(value), decode: (buff) => buff.readInt32BE() },
+    int32le: { encode: (value, buff) => buff.writeInt32LE(value), decode: (buff) => buff.readInt32LE() },
+    uint8: { encode: (value, buff) => buff.writeUInt8(value), decode: (buff) => buff.readUInt8() },
+    uint16: { encode: (value, buff) => buff.writeUInt16(value), decode: (buff) => buff.readUInt16() },
+    uint16be: { encode: (value, buff) => buff.writeUInt16BE(value), decode: (buff) => buff.readUInt16BE() },
+    uint16le: { encode: (value, buff) => buff.writeUInt16LE(value), decode: (buff) => buff.readUInt16LE() },
+    uint32: { encode: (value, buff) => buff.writeUInt32(value), decode: (buff) => buff.readUInt32() },
+    uint32be: { encode: (value, buff) => buff.writeUInt32BE(value), decode: (buff) => buff.readUInt32BE() },
+    uint32le: { encode: (value, buff) => buff.writeUInt32LE(value), decode: (buff) => buff.readUInt32LE() },
+    float: { encode: (value, buff) => buff.writeFloat(value), decode: (buff) => buff.readFloat() },
+    floatbe: { encode: (value, buff) => buff.writeFloatBE(value), decode: (buff) => buff.readFloatBE() },
+    floatle: { encode: (value, buff) => buff.writeFloatLE(value), decode: (buff) => buff.readFloatLE() },
+    double: { encode: (value, buff) => buff.writeDouble(value), decode: (buff) => buff.readDouble() },
+    doublebe: { encode: (value, buff) => buff.writeDoubleBE(value), decode: (buff) => buff.readDoubleBE() },
+    doublele: { encode: (value, buff) => buff.writeDoubleLE(value), decode: (buff) => buff.readDoubleLE() },
+    int64: { encode: (value, buff) => buff.writeInt64(value), decode: (buff) => buff.readInt64() },
+    int64be: { encode: (value, buff) => buff.writeInt64BE(value), decode: (buff) => buff.readInt64BE() },
+    int64le: { encode: (value, buff) => buff.writeInt64LE(value), decode: (buff) => buff.readInt64LE() },
+    uint64: { encode: (value, buff) => buff.writeUInt64(value), decode: (buff) => buff.readUInt64() },
+    uint64be: { encode: (value, buff) => buff.writeUInt64BE(value), decode: (buff) => buff.readUInt64BE() },
+    uint64le: { encode: (value, buff) => buff.writeUInt64LE(value), decode: (buff) => buff.readUInt64LE() },
+    bigint64: { encode: (value, buff) => buff.writeBigInt64(value), decode: (buff) => buff.readBigInt64() },
+    bigint64be: { encode: (value, buff) => buff.writeBigInt64BE(value), decode: (buff) => buff.readBigInt64BE() },
+    bigint64le: { encode: (value, buff) => buff.writeBigInt64LE(value), decode: (buff) => buff.readBigInt64LE() },
+    biguint64: { encode: (value, buff) => buff.writeBigUInt64(value), decode: (buff) => buff.readBigUInt64() },
+    biguint64be: { encode: (value, buff) => buff.writeBigUInt64BE(value), decode: (buff) => buff.readBigUInt64BE() },
+    biguint64le: { encode: (value, buff) => buff.writeBigUInt64LE(value), decode: (buff) => buff.readBigUInt64LE() },
+    varuint: { encode: (value, buff) => buff.writeVarUInt(value), decode: (buff) => buff.readVarUInt() },
+    varint: { encode: (value, buff) => buff.writeVarInt(value), decode: (buff) => buff.readVarInt() },
+    zigzag: { encode: (value, buff) => buff.writeZigZagVarInt(value), decode: (buff) => buff.readZigZagVarInt() },
+    quicvarint: { encode: (value, buff) => buff.writeQuicVarInt(value), decode: (buff) => buff.readQuicVarInt() },
+    stringNT: { encode: (value, buff) => buff.writeStringNT(value), decode: (buff) => buff.readStringNT() },
+    bufferNT: { encode: (value, buff) => buff.writeBufferNT(value), decode: (buff) => buff.readBufferNT() }
+};
+
+// The built in field type used to read and write each length prefix type.
+const LENGTH_PREFIX_TYPES: { [prefix: string]: 'uint8' | 'uint16be' | 'uint16le' | 'uint32be' | 'uint32le' | 'varuint' } = {
+    UInt8: 'uint8',
+    UInt16BE: 'uint16be',
+    UInt16LE: 'uint16le',
+    UInt32BE: 'uint32be',
+    UInt32LE: 'uint32le',
+    VarUInt: 'varuint'
+};
+
+/**
+ * Gets the Codec for a field type.
+ *
+ * @param type { FieldType } The name of a built in field type, or a Codec.
+ *
+ * @return { Codec }
+ */
+function toCodec<F extends FieldType>(type: F): Codec<FieldValue<F>> {
+    if (typeof type === 'string') {
+        if (!PRIMITIVE_CODECS.hasOwnProperty(<string>type)) {
+            throw new SmartBufferArgumentError(`Invalid field type provided: ${type}.`, 'type', type);
+        }
+        return <Codec<FieldValue<F>>>PRIMITIVE_CODECS[<PrimitiveType>type];
+    } else if (type && typeof (<Codec<unknown>>type).encode === 'function' && typeof (<Codec<unknown>>type).decode === 'function') {
+        return <Codec<FieldValue<F>>>type;
+    } else {
+        throw new SmartBufferArgumentError('Invalid field type provided. Field types must be a built in type name or a Codec.',
+            'type', type);
+    }
+}
+
+/**
+ * Wraps an error thrown while encoding or decoding a field in a SmartBufferSchemaError containing the field path.
+ *
+ * @param err { Error } The error that was thrown.
+ * @param segment { String } The field name or array index (as [index]) to prefix the path with.
+ *
+ * @return { SmartBufferSchemaError }
+ */
+function withFieldPath(err: Error, segment: string): SmartBufferSchemaError {
+    if (err instanceof SmartBufferSchemaError) {
+        const separator = err.path.charAt(0) === '[' ? '' : '.';
+        return new SmartBufferSchemaError(segment + separator + err.path, err.cause);
+    }
+    return new SmartBufferSchemaError(segment, err);
+}
+
+/**
+ * Codec for a struct with named fields that are encoded and decoded in the order they are declared.
+ */
+class StructCodec<F extends StructFields> implements Codec<StructValue<F>> {
+    // The fields of the struct.
+    public readonly fields: F;
+
+    private codecs: { name: keyof F, codec: Codec<StructValue<F>[keyof F]> }[];
+
+    /**
+     * Creates a new StructCodec instance.
+     *
+     * @param fields { StructFields } The fields of the struct (field name -> field type).
+     */
+    constructor(fields: F) {
+        this.fields = fields;
+        this.codecs = Object.keys(fields).map((name: keyof F) => ({ name: name, codec: toCodec(fields[name]) }));
+    }
+
+    /**
+     * Writes the struct to a SmartBuffer. The length and the write offset are restored if any field fails to encode, so the
+     * fields written before it are discarded (data that they overwrote before the end of the data is not restored).
+     *
+     * @param value { Object } The struct value to write.
+     * @param buff { SmartBuffer } The SmartBuffer to write to (defaults to a new SmartBuffer).
+     *
+     * @return { SmartBuffer }
+     */
+    encode(value: StructValue<F>, buff: SmartBuffer = new SmartBuffer()): SmartBuffer {
+        const offset = buff.writeOffset;
+        const length = buff.length;
+
+        for (const field of this.codecs) {
+            try {
+                field.codec.encode(value[field.name], buff, value);
+            } catch (err) {
+                // Discard the partially written struct.
+                buff.length = length;
+                buff.writeOffset = offset;
+                buff.readOffset = Math.min(buff.readOffset, length);
+                throw withFieldPath(err, <string>field.name);
+            }
+        }
+        return buff;
+    }
+
+    /**
+     * Reads the struct from a SmartBuffer. The read offset is restored if any field fails to decode.
+     *
+     * @param buff { SmartBuffer } The SmartBuffer to read from.
+     *
+     * @return { Object }
+     */
+    decode(buff: SmartBuffer): StructValue<F> {
+        const offset = buff.readOffset;
+        const result: Partial<StructValue<F>> = {};
+
+        for (const field of this.codecs) {
+            let value: StructValue<F>[keyof F];
+
+            try {
+                value = field.codec.decode(buff, result);
+            } catch (err) {
+                // Restore the read offset so the struct can be decoded again once more data is available.
+                buff.readOffset = offset;
+                throw withFieldPath(err, <string>field.name);
+            }
+
+            // Skipped conditional fields are left out of the result.
+            if (value !== undefined) {
+                result[field.name] = value;
+            }
+        }
+        return <StructValue<F>>result;
+    }
+}
+
+/**
+ * Creates a struct Codec with named fields that are encoded and decoded in the order they are declared.
+ *
+ * @param fields { StructFields } The fields of the struct (field name -> field type).
+ *
+ * @return { StructCodec }
+ */
+function struct<F extends StructFields>(fields: F): StructCodec<F> {
+    return new StructCodec(fields);
+}
+
+/**
+ * Creates a Codec for a fixed length String.
+ *
+ * @param length { Number } The number of bytes the String spans.
+ * @param encoding { String } The BufferEncoding to use for the string (Defaults to instance level encoding).
+ *
+ * @return { Codec }
+ */
+function string(length: number, encoding?: BufferEncoding): Codec<string> {
+    return {
+        encode: (value, buff) => {
+            const byteLength = BufferBackend.byteLength(value, encoding || buff.encoding);
+
+            if (byteLength !== length) {
+                throw new SmartBufferArgumentError(`String is ${byteLength} bytes long, but the field is ${length} bytes long.`,
+                    'value', value);
+            }
+            buff.writeString(value, encoding);
+        },
+        decode: (buff) => {
+            if (buff.remaining() < length) {
+                throw new SmartBufferOutOfBoundsError('Reading beyond the bounds of the data.', buff.readOffset, length, buff.remaining());
+            }
+            return buff.readString(length, encoding);
+        }
+    };
+}
+
+/**
+ * Creates a Codec for a fixed length Buffer.
+ *
+ * @param length { Number } The number of bytes the Buffer spans.
+ *
+ * @return { Codec }
+ */
+function buffer(length: number): Codec<Buffer> {
+    return {
+        encode: (value, buff) => {
+            if (value.length !== length) {
+                throw new SmartBufferArgumentError(`Buffer is ${value.length} bytes long, but the field is ${length} bytes long.`,
+                    'value', value);
+            }
+            buff.writeBuffer(value);
+        },
+        decode: (buff) => {
+            if (buff.remaining() < length) {
+                throw new SmartBufferOutOfBoundsError('Reading beyond the bounds of the data.', buff.readOffset, length, buff.remaining());
+            }
+            return buff.readBuffer(length);
+        }
+    };
+}
+
+/**
+ * Creates a Codec for a length-prefixed String.
+ *
+ * @param prefix { LengthPrefix } The type of the length prefix.
+ * @param encoding { String } The BufferEncoding to use for the string (Defaults to instance level encoding).
+ *
+ * @return { Codec }
+ */
+function prefixedString(prefix: LengthPrefix, encoding?: BufferEncoding): Codec<string> {
+    return {
+        encode: (value, buff) => buff.writeStringPrefixed(value, prefix, encoding),
+        decode: (buff) => buff.readStringPrefixed(prefix, encoding)
+    };
+}
+
+/**
+ * Creates a Codec for a length-prefixed Buffer.
+ *
+ * @param prefix { LengthPrefix } The type of the length prefix.
+ *
+ * @return { Codec }
+ */
+function prefixedBuffer(prefix: LengthPrefix): Codec<Buffer> {
+    return {
+        encode: (value, buff) => buff.writeBufferPrefixed(value, prefix),
+        decode: (buff) => buff.readBufferPrefixed(prefix)
+    };
+}
+
+/**
+ * Creates a Codec for a fixed length array.
+ *
+ * @param type { FieldType } The field type of the array items.
+ * @param length { Number | Function(parent) => number } The number of items, or a function that gets it from the fields decoded so far.
+ *
+ * @return { Codec }
+ */
+function array<F extends FieldType, P = unknown>(type: F, length: number | ((parent: P) => number)): Codec<FieldValue<F>[], P> {
+    const codec = toCodec(type);
+
+    return {
+        encode: (value, buff, parent) => {
+            const lengthVal = typeof length === 'number' ? length : length(parent);
+
+            if (value.length !== lengthVal) {
+                throw new SmartBufferArgumentError(`Array has ${value.length} items, but the field has ${lengthVal} items.`,
+                    'value', value);
+            }
+            encodeItems(codec, value, buff, parent);
+        },
+        decode: (buff, parent) => decodeItems(codec, typeof length === 'number' ? length : length(parent), buff, parent)
+    };
+}
+
+/**
+ * Creates a Codec for an array prefixed with its number of items.
+ *
+ * @param type { FieldType } The field type of the array items.
+ * @param prefix { LengthPrefix } The type of the item count prefix.
+ *
+ * @return { Codec }
+ */
+function prefixedArray<F extends FieldType, P = unknown>(type: F, prefix: LengthPrefix): Codec<FieldValue<F>[], P> {
+    if (!LENGTH_PREFIX_TYPES.hasOwnProperty(prefix)) {
+        throw new SmartBufferArgumentError(
+            'Invalid length prefix provided. Please specify UInt8, UInt16BE, UInt16LE, UInt32BE, UInt32LE or VarUInt.',
+            'prefix', prefix);
+    }
+
+    const codec = toCodec(type);
+    const prefixCodec = toCodec(LENGTH_PREFIX_TYPES[prefix]);
+
+    return {
+        encode: (value, buff, parent) => {
+            prefixCodec.encode(value.length, buff);
+            encodeItems(codec, value, buff, parent);
+        },
+        decode: (buff, parent) => decodeItems(codec, prefixCodec.decode(buff), buff, parent)
+    };
+}
+
+/**
+ * Creates a Codec for a field that is only present when a condition is met.
+ * When the condition is not met, nothing is written and the field is left out of the decoded struct.
+ *
+ * @param condition { Function(parent) => boolean } Gets whether the field is present (receives the fields decoded so far when decoding).
+ * @param type { FieldType } The field type of the value.
+ *
+ * @return { Codec }
+ */
+function conditional<F extends FieldType, P = unknown>(condition: (parent: P) => boolean, type: F): Codec<FieldValue<F> | undefined, P> {
+    const codec = toCodec(type);
+
+    return {
+        encode: (value, buff, parent) => {
+            if (condition(parent)) {
+                codec.encode(value, buff, parent);
+            }
+        },
+        decode: (buff, parent) => condition(parent) ? codec.decode(buff, parent) : undefined
+    };
+}
+
+/**
+ * Writes each array item with the given Codec.
+ *
+ * @param codec { Codec } The Codec of the array items.
+ * @param items { Array } The array items to write.
+ * @param buff { SmartBuffer } The SmartBuffer to write to.
+ * @param parent { Object } The struct object the array belongs to.
+ */
+function encodeItems<T, P>(codec: Codec<T, P>, items: T[], buff: SmartBuffer, parent: P) {
+    for (let i = 0; i < items.length; i++) {
+        try {
+            codec.encode(items[i], buff, parent);
+        } catch (err) {
+            throw withFieldPath(err, `[${i}]`);
+        }
+    }
+}
+
+/**
+ * Reads the given number of array items with the given Codec.
+ *
+ * @param codec { Codec } The Codec of the array items.
+ * @param length { Number } The number of items to read.
+ * @param buff { SmartBuffer } The SmartBuffer to read from.
+ * @param parent { Object } The struct object the array belongs to.
+ *
+ * @return { Array }
+ */
+function decodeItems<T, P>(codec: Codec<T, P>, length: number, buff: SmartBuffer, parent: P): T[] {
+    const items: T[] = [];
+
+    for (let i = 0; i < length; i++) {
+        try {
+            items.push(codec.decode(buff, parent));
+        } catch (err) {
+            throw withFieldPath(err, `[${i}]`);
+        }
+    }
+    return items;
+}
+
+export {
+    Codec,
+    PrimitiveTypes,
+    PrimitiveType,
+    FieldType,
+    FieldValue,
+    StructFields,
+    StructValue,
+    StructCodec,
+    struct,
+    string,
+    buffer,
+    prefixedString,
+    prefixedBuffer,
+    array,
+    prefixedArray,
+    conditional
+};
@@ -1,3 +1,27 @@
+import {
+    SmartBufferRangeError,
+    SmartBufferOutOfBoundsError,
+    SmartBufferCapacityError,
+    SmartBufferArgumentError,
+    SmartBufferEncodingError,
+    SmartBufferFormatError,
+    SmartBufferDelimiterError,
+    SmartBufferSchemaError,
+    SmartBufferChecksumError,
+    SmartBufferMarkError,
+    SmartBufferReadOnlyError,
+    SmartBufferPlaceholderError,
+    isIncompleteDataError
+} from './errors';
+import * as schema from './schema';
+import { BitOrder, SmartBufferBitReader, SmartBufferBitWriter } from './bits';
+import { ChecksumAlgorithm, CHECKSUM_FUNCTIONS } from './checksum';
+import { StorageMode, SmartBufferStorage, ContiguousStorage, ChunkedStorage, StorageView } from './storage';
+import { SmartBufferPoolOptions, SmartBufferPoolStats, SmartBufferPool, releaseToPool } from './pool';
+import { BinaryInput, PortableBuffer, BufferBackend, isBinaryInput, toBackendBuffer } from './backend';
+import { PlaceholderType, SmartBufferPlaceholder, resolvePlaceholderType } from './placeholder';
+import { HexdumpOptions, HexdumpMarker, HexdumpNote, DEFAULT_HEXDUMP_WIDTH, formatHexdump } from './hexdump';
+import { SmartBufferTraceEntry, SmartBufferTraceValue, SmartBufferTrace, formatTraceEntry } from './trace';
 
 /**
  * Object interface for constructing new SmartBuffer instances.
@@ -8,22 +32,261 @@ interface SmartBufferOptions {
     // The initial size of the internal Buffer.
     size?: number;
     // If a Buffer is provided, this Buffer's value will be used as the internal Buffer.
-    buff?: Buffer;
+    buff?: BinaryInput;
+    // The maximum size the internal Buffer may grow to. Writes that need more space throw an error.
+    maxSize?: number;
+    // The byte order used by numeric functions without a BE/LE suffix (such as readUInt16()).
+    endian?: Endian;
+    // How the data is stored, in a single Buffer (contiguous, the default) or in a list of fixed-size chunks (chunked).
+    storage?: StorageMode;
+    // The size of each chunk when the storage mode is chunked.
+    chunkSize?: number;
+    // Whether String and Buffer reads that run past the end of the data throw instead of reading the remaining data.
+    strict?: boolean;
 }
 
+/**
+ * Object interface for the options of readUntil(), readStringUntil() and readLine().
+ */
+interface ReadUntilOptions {
+    // Whether to include the delimiter in the returned value. The delimiter is always consumed.
+    include?: boolean;
+    // The maximum number of bytes to read before the delimiter. An error is thrown if the delimiter is not found within it.
+    maxLength?: number;
+    // Buffer Encoding to use for String delimiters and values (defaults to the instance level encoding).
+    encoding?: BufferEncoding;
+}
+
+/**
+ * Object interface for the options of writeStringFixed().
+ */
+interface WriteStringFixedOptions {
+    // The padding written after the String, a String (encoded with the String's encoding) or a byte value (defaults to NUL).
+    pad?: string | number;
+    // Buffer Encoding to use for the String and padding (defaults to the instance level encoding).
+    encoding?: BufferEncoding;
+    // What to do with Strings longer than the width: throw an error (error, the default) or cut them at a character boundary (cut).
+    truncate?: 'error' | 'cut';
+}
+
+/**
+ * Object interface for the options of readStringFixed().
+ */
+interface ReadStringFixedOptions {
+    // Whether to cut the String at its first NUL and remove trailing space padding (defaults to true).
+    trim?: boolean;
+    // Buffer Encoding to use for the String (defaults to the instance level encoding).
+    encoding?: BufferEncoding;
+}
+
+/**
+ * The byte order of numeric values, big endian (BE) or little endian (LE).
+ */
+type Endian = 'BE' | 'LE';
+
+/**
+ * The numeric types a length prefix can be read and written as.
+ */
+type LengthPrefix = 'UInt8' | 'UInt16BE' | 'UInt16LE' | 'UInt32BE' | 'UInt32LE' | 'VarUInt';
+
 // The default Buffer size if one is not provided.
 const DEFAULT_SMARTBUFFER_SIZE = 4096;
 
 // The default string encoding to use for reading/writing strings. 
 const DEFAULT_SMARTBUFFER_ENCODING = 'utf8';
 
+// The default byte order used by numeric functions without a BE/LE suffix.
+const DEFAULT_SMARTBUFFER_ENDIAN = 'BE';
+
+// The default chunk size when the storage mode is chunked.
+const DEFAULT_SMARTBUFFER_CHUNK_SIZE = 65536;
+
+// The largest length each length prefix type can hold.
+const LENGTH_PREFIX_MAX_VALUES: { [prefix: string]: number } = {
+    UInt8: 0xFF,
+    UInt16BE: 0xFFFF,
+    UInt16LE: 0xFFFF,
+    UInt32BE: 0xFFFFFFFF,
+    UInt32LE: 0xFFFFFFFF,
+    VarUInt: Number.MAX_SAFE_INTEGER
+};
+
+// The maximum number of bytes shown by util.inspect() (the same as Node's buffer.INSPECT_MAX_BYTES).
+const INSPECT_MAX_BYTES = 50;
+
+// The symbol util.inspect() (and console.log()) looks up custom inspection functions with.
+const INSPECT_CUSTOM: unique symbol = Symbol.for('nodejs.util.inspect.custom');
+
+// The trailing space padding removed from fixed-width Strings by readStringFixed() (after cutting them at the first NUL).
+const FIXED_STRING_PADDING = / +$/;
+
+// The maximum number of bytes a varint read as a Number can span (8 * 7 = 56 bits).
+const MAX_VARINT_BYTES = 8;
+
+// The maximum number of bytes a varint read as a BigInt can span (10 * 7 = 70 bits).
+const MAX_BIG_VARINT_BYTES = 10;
+
+/**
+ * Converts a Number to a BigInt for writing with the BigInt Buffer write functions.
+ * 
+ * @param value { Number } The value to convert (must be a safe integer).
+ * 
+ * @return { BigInt }
+ */
+function toBigInt(value: number): bigint {
+    if (!Number.isSafeInteger(value)) {
+        throw new SmartBufferArgumentError('Invalid value provided. Value must be a safe integer. Use the BigInt write functions instead.',
+            'value', value);
+    }
+
+    return BigInt(value);
+}
+
+/**
+ * Validates a byte length given to the variable width integer functions.
+ * 
+ * @param byteLength { Number } The number of bytes to read or write (1-6).
+ */
+function validateByteLength(byteLength: number) {
+    if (!(Number.isInteger(byteLength) && byteLength >= 1 && byteLength <= 6)) {
+        throw new SmartBufferArgumentError('Invalid byteLength provided. byteLength must be an integer between 1 and 6.',
+            'byteLength', byteLength);
+    }
+}
+
+/**
+ * Encodes a non-negative safe integer as an unsigned LEB128 varint.
+ * 
+ * @param value { Number } The value to encode.
+ * @param bytes { Number[] } Bytes to prefix the encoded value with.
+ * 
+ * @return { Buffer }
+ */
+function encodeVarUInt(value: number, bytes: number[] = []): Buffer {
+    while (value > 0x7F) {
+        bytes.push((value % 0x80) | 0x80);
+        value = Math.floor(value / 0x80);
+    }
+    bytes.push(value);
+
+    return BufferBackend.from(bytes);
+}
+
+/**
+ * Encodes a non-negative BigInt as an unsigned LEB128 varint.
+ * 
+ * @param value { BigInt } The value to encode.
+ * 
+ * @return { Buffer }
+ */
+function encodeBigVarUInt(value: bigint): Buffer {
+    const bytes: number[] = [];
+
+    while (value > BigInt(0x7F)) {
+        bytes.push(Number(value & BigInt(0x7F)) | 0x80);
+        value >>= BigInt(7);
+    }
+    bytes.push(Number(value));
+
+    return BufferBackend.from(bytes);
+}
+
+/**
+ * Ensures that an endianness is BE or LE.
+ * 
+ * @param endian { Endian } The endianness to validate.
+ */
+function validateEndian(endian: Endian) {
+    if (endian !== 'BE' && endian !== 'LE') {
+        throw new SmartBufferArgumentError('Invalid endian provided. Please specify BE or LE.', 'endian', endian);
+    }
+}
+
+/**
+ * Gets the length an encoded String can be cut to without splitting a character, at most the given width.
+ * 
+ * @param value { Buffer } The encoded String (longer than the width).
+ * @param width { Number } The maximum length.
+ * @param encoding { String } The BufferEncoding the String was encoded with.
+ * 
+ * @return { Number }
+ */
+function getCharBoundary(value: Buffer, width: number, encoding: BufferEncoding): number {
+    let length = width;
+
+    switch (encoding.toLowerCase()) {
+        case 'utf8':
+        case 'utf-8':
+            // Move back to the first byte of the character the cut falls in (continuation bytes are 10xxxxxx).
+            while (length > 0 && (value[length] & 0xC0) === 0x80) {
+                length--;
+            }
+            break;
+        case 'utf16le':
+        case 'utf-16le':
+        case 'ucs2':
+        case 'ucs-2':
+            // Keep whole code units, and do not keep the high surrogate of a surrogate pair.
+            length -= length % 2;
+            if (length >= 2 && (value[length - 1] & 0xFC) === 0xD8) {
+                length -= 2;
+            }
+            break;
+        default:
+            // Every byte is a character in the other encodings.
+            break;
+    }
+    return length;
+}
+
+/**
+ * Ensures that a maximum length is a non-negative integer (or not provided).
+ * 
+ * @param maxLength { Number } The maximum length to validate.
+ */
+function validateMaxLength(maxLength: number) {
+    if (maxLength !== undefined && !(Number.isInteger(maxLength) && maxLength >= 0)) {
+        throw new SmartBufferArgumentError('Invalid maxLength provided. maxLength must be a non-negative integer.', 'maxLength', maxLength);
+    }
+}
+
+/**
+ * Ensures that an amount given to the cursor movement functions (such as skip() and rewind()) is a non-negative integer.
+ * 
+ * @param amount { Number } The amount to validate.
+ */
+function validateAmount(amount: number) {
+    if (!(Number.isInteger(amount) && amount >= 0)) {
+        throw new SmartBufferArgumentError('Invalid amount provided. Amount must be a non-negative integer.', 'amount', amount);
+    }
+}
+
+/**
+ * Validates an offset given to the insert and overwrite functions.
+ * 
+ * @param offset { Number } The offset to validate.
+ */
+function validateOffset(offset: number) {
+    if (!(Number.isInteger(offset) && offset >= 0)) {
+        throw new SmartBufferArgumentError('Invalid offset provided. Offset must be a non-negative integer.', 'offset', offset);
+    }
+}
+
 class SmartBuffer {
     public length: number = 0;
     public encoding: BufferEncoding = DEFAULT_SMARTBUFFER_ENCODING;
 
-    private buff: Buffer;
-    private writeOffset: number = 0;
-    private readOffset: number = 0;
+    private storage: SmartBufferStorage;
+    private _writeOffset: number = 0;
+    private _readOffset: number = 0;
+    private maxSize: number = Infinity;
+    private _endian: Endian = DEFAULT_SMARTBUFFER_ENDIAN;
+    private _readOnly: boolean = false;
+    private strict: boolean = false;
+    private marks: number[] = [];
+    private placeholders: SmartBufferPlaceholder[] = [];
+    private _trace: SmartBufferTrace = null;
+    private tracing: boolean = false;
 
     /**
      * Creates a new SmartBuffer instance with the provided internal Buffer size and optional encoding.
@@ -42,13 +305,14 @@ class SmartBuffer {
 
     /**
      * Creates a new SmartBuffer instance with the provided Buffer and optional encoding.
+     * A Uint8Array, ArrayBuffer or DataView is wrapped without copying it.
      * 
-     * @param buffer { Buffer } The Buffer to use as the internal Buffer value.
+     * @param buffer { BinaryInput } The Buffer to use as the internal Buffer value.
      * @param encoding { String } The BufferEncoding to use for strings.
      * 
      * @return { SmartBuffer }
      */
-    public static fromBuffer(buff: Buffer, encoding?: BufferEncoding): SmartBuffer {
+    public static fromBuffer(buff: BinaryInput, encoding?: BufferEncoding): SmartBuffer {
         return new this({
             buff: buff,
             encoding: encoding
@@ -70,813 +334,5146 @@ class SmartBuffer {
     static isSmartBufferOptions(options: SmartBufferOptions): options is SmartBufferOptions {
         const castOptions = (<SmartBufferOptions>options);
 
-        return castOptions && (castOptions.encoding !== undefined || castOptions.size !== undefined || castOptions.buff !== undefined);
+        return castOptions && (castOptions.encoding !== undefined || castOptions.size !== undefined || castOptions.buff !== undefined ||
+            castOptions.maxSize !== undefined || castOptions.endian !== undefined ||
+            castOptions.storage !== undefined || castOptions.chunkSize !== undefined || castOptions.strict !== undefined);
     }
 
 
     /**
      * Creates a new SmartBuffer instance.
      * 
-     * @param arg1 { Number | BufferEncoding | Buffer | SmartBufferOptions }
+     * @param arg1 { Number | BufferEncoding | BinaryInput | SmartBufferOptions }
      * @param arg2 { BufferEncoding }
      */
-    constructor(arg1?: number | BufferEncoding | Buffer | SmartBufferOptions, arg2?: BufferEncoding) {
+    constructor(arg1?: number | BufferEncoding | BinaryInput | SmartBufferOptions, arg2?: BufferEncoding) {
         
         // Initial buffer size provided
         if (typeof arg1 === 'number') {
             
             if (Number.isFinite(arg1) && Number.isInteger(arg1) && arg1 > 0) {
-                this.buff = Buffer.allocUnsafe(arg1);
+                this.storage = new ContiguousStorage(BufferBackend.allocUnsafe(arg1));
             } else {
-                throw new Error('Invalid size provided. Size must be a valid integer greater than zero.');
+                throw new SmartBufferArgumentError('Invalid size provided. Size must be a valid integer greater than zero.', 'size', arg1);
             }
         // String Encoding Provided
         } else if (typeof arg1 === 'string') { 
-            if (Buffer.isEncoding(arg1)) {
-                this.buff = Buffer.allocUnsafe(DEFAULT_SMARTBUFFER_SIZE);
+            if (BufferBackend.isEncoding(arg1)) {
+                this.storage = new ContiguousStorage(BufferBackend.allocUnsafe(DEFAULT_SMARTBUFFER_SIZE));
                 this.encoding = arg1;
             } else {
-                throw new Error('Invalid encoding provided. Please specify a valid encoding the internal Node.js Buffer supports.');
+                throw new SmartBufferEncodingError(arg1);
             }
         // Buffer instance provided
-        } else if (arg1 instanceof Buffer) {
-            this.buff = arg1;
-            this.length = arg1.length;
+        } else if (isBinaryInput(arg1)) {
+            const buff = toBackendBuffer(arg1);
+
+            this.storage = new ContiguousStorage(buff);
+            this.length = buff.length;
         } else if (SmartBuffer.isSmartBufferOptions(arg1)) {
 
             // Checks for encoding
             if (arg1.encoding) {
-                if (Buffer.isEncoding(arg1.encoding)) {
+                if (BufferBackend.isEncoding(arg1.encoding)) {
                     this.encoding = arg1.encoding;
                 } else {
-                    throw new  Error('Invalid encoding provided. Please specify a valid encoding the internal Node.js Buffer supports.');
+                    throw new SmartBufferEncodingError(arg1.encoding);
+                }
+            }
+
+            // Checks for endianness
+            if (arg1.endian !== undefined) {
+                validateEndian(arg1.endian);
+                this._endian = arg1.endian;
+            }
+
+            // Checks for maximum size
+            if (arg1.maxSize !== undefined) {
+                if (Number.isFinite(arg1.maxSize) && Number.isInteger(arg1.maxSize) && arg1.maxSize > 0) {
+                    this.maxSize = arg1.maxSize;
+                } else {
+                    throw new SmartBufferArgumentError('Invalid maxSize provided. maxSize must be a valid integer greater than zero.',
+                        'maxSize', arg1.maxSize);
+                }
+            }
+
+            // Checks for storage mode
+            if (arg1.storage !== undefined && arg1.storage !== 'contiguous' && arg1.storage !== 'chunked') {
+                throw new SmartBufferArgumentError('Invalid storage provided. Please specify contiguous or chunked.',
+                    'storage', arg1.storage);
+            }
+
+            // Checks for strict reads
+            if (arg1.strict !== undefined) {
+                if (typeof arg1.strict !== 'boolean') {
+                    throw new SmartBufferArgumentError('Invalid strict provided. strict must be a boolean.', 'strict', arg1.strict);
                 }
+                this.strict = arg1.strict;
+            }
+
+            // Checks for chunk size
+            if (arg1.chunkSize !== undefined &&
+                !(Number.isFinite(arg1.chunkSize) && Number.isInteger(arg1.chunkSize) && arg1.chunkSize > 0)) {
+                throw new SmartBufferArgumentError('Invalid chunkSize provided. chunkSize must be a valid integer greater than zero.',
+                    'chunkSize', arg1.chunkSize);
             }
 
+            // Chunked storage starts without any chunks, and allocates them as data is written.
+            const chunks = arg1.storage === 'chunked' ? new ChunkedStorage(arg1.chunkSize || DEFAULT_SMARTBUFFER_CHUNK_SIZE) : undefined;
+
             // Checks for initial size length
             if (arg1.size) {
-                if (Number.isFinite(arg1.size) && Number.isInteger(arg1.size) && arg1.size > 0) {
-                    this.buff = Buffer.allocUnsafe(arg1.size);
+                if (arg1.size > this.maxSize) {
+                    throw new SmartBufferArgumentError('Invalid size provided. Size must not be larger than maxSize.', 'size', arg1.size);
+                } else if (Number.isFinite(arg1.size) && Number.isInteger(arg1.size) && arg1.size > 0) {
+                    if (chunks) {
+                        chunks.grow(arg1.size);
+                        this.storage = chunks;
+                    } else {
+                        this.storage = new ContiguousStorage(BufferBackend.allocUnsafe(arg1.size));
+                    }
                 } else {
-                    throw new Error('Invalid size provided. Size must be a valid integer greater than zero.');
+                    throw new SmartBufferArgumentError('Invalid size provided. Size must be a valid integer greater than zero.',
+                        'size', arg1.size);
                 }
                 // Check for initial Buffer
             } else if (arg1.buff) {
-                if (arg1.buff instanceof Buffer) {
-                    this.buff = arg1.buff;
-                    this.length = arg1.buff.length;
+                if (isBinaryInput(arg1.buff)) {
+                    const buff = toBackendBuffer(arg1.buff);
+
+                    if (buff.length > this.maxSize) {
+                        throw new SmartBufferArgumentError(
+                            'Invalid buffer provided in SmartBufferOptions. The Buffer is larger than maxSize.', 'buff', arg1.buff);
+                    }
+                    if (chunks) {
+                        // The Buffer is copied into the chunks.
+                        chunks.grow(buff.length);
+                        chunks.writeBuffer(buff, 0);
+                        this.storage = chunks;
+                    } else {
+                        this.storage = new ContiguousStorage(buff);
+                    }
+                    this.length = buff.length;
                 } else {
-                    throw new Error('Invalid buffer provided in SmartBufferOptions.');
+                    throw new SmartBufferArgumentError('Invalid buffer provided in SmartBufferOptions.', 'buff', arg1.buff);
                 }
             } else {
-                this.buff = Buffer.allocUnsafe(DEFAULT_SMARTBUFFER_SIZE);
+                this.storage = chunks || new ContiguousStorage(BufferBackend.allocUnsafe(Math.min(DEFAULT_SMARTBUFFER_SIZE, this.maxSize)));
             }
         } else if (typeof arg1 === 'object') {
-            throw new Error('Invalid object supplied to SmartBuffer constructor.');
+            throw new SmartBufferArgumentError('Invalid object supplied to SmartBuffer constructor.', 'options', arg1);
         } else {
-            this.buff = Buffer.allocUnsafe(DEFAULT_SMARTBUFFER_SIZE);
+            this.storage = new ContiguousStorage(BufferBackend.allocUnsafe(DEFAULT_SMARTBUFFER_SIZE));
         }
 
         // Check for encoding (Buffer, Encoding) constructor.
         if (typeof arg2 === 'string') {
-            if (Buffer.isEncoding(arg2)) {
+            if (BufferBackend.isEncoding(arg2)) {
                 this.encoding = arg2;
             } else {
-                throw new Error('Invalid encoding provided. Please specify a valid encoding the internal Node.js Buffer supports.');
+                throw new SmartBufferEncodingError(arg2);
             }
         }
     }
 
-    // Signed integers
+    // Offsets
 
     /**
-     * Reads an Int8 value from the current read position.
+     * Gets the current read offset.
      * 
      * @return { Number }
      */
-    readInt8(): number {
-        return this.readNumberValue(Buffer.prototype.readInt8, 1);
+    get readOffset(): number {
+        return this._readOffset;
     }
 
     /**
-     * Reads an Int16BE value from the current read position.
+     * Sets the read offset. The offset must be between zero and the length of the data.
      * 
-     * @return { Number }
+     * @param offset { Number } The position to move the read offset to.
      */
-    readInt16BE(): number {
-        return this.readNumberValue(Buffer.prototype.readInt16BE, 2);
+    set readOffset(offset: number) {
+        this.ensurePosition(offset);
+        this._readOffset = offset;
     }
 
     /**
-     * Reads an Int16LE value from the current read position.
+     * Gets the current write offset.
      * 
      * @return { Number }
      */
-    readInt16LE(): number {
-        return this.readNumberValue(Buffer.prototype.readInt16LE, 2);
+    get writeOffset(): number {
+        return this._writeOffset;
     }
 
     /**
-     * Reads an Int32BE value from the current read position.
+     * Sets the write offset. The offset must be between zero and the length of the data.
+     * Data written at a write offset before the end of the data overwrites the data that follows it.
      * 
-     * @return { Number }
+     * @param offset { Number } The position to move the write offset to.
      */
-    readInt32BE(): number {
-        return this.readNumberValue(Buffer.prototype.readInt32BE, 4);
+    set writeOffset(offset: number) {
+        this.ensurePosition(offset);
+        this._writeOffset = offset;
     }
 
     /**
-     * Reads an Int32LE value from the current read position.
+     * Gets the size of the internal Buffer (the amount of data that can be written before it has to grow).
      * 
      * @return { Number }
      */
-    readInt32LE(): number {
-        return this.readNumberValue(Buffer.prototype.readInt32LE, 4);
+    get capacity(): number {
+        return this.storage.capacity;
     }
 
     /**
-     * Writes an Int8 value to the current write position (or at optional offset).
+     * Gets the storage mode of this SmartBuffer (contiguous or chunked).
      * 
-     * @param value { Number } The value to write.
-     * @param offset { Number } The offset to write the value at.
+     * @return { StorageMode }
+     */
+    get storageMode(): StorageMode {
+        return this.storage instanceof ChunkedStorage ? 'chunked' : 'contiguous';
+    }
+
+    /**
+     * Gets the internal Buffer when the storage is contiguous (chunked storage has no single internal Buffer).
      * 
-     * @return this
+     * @return { Buffer }
      */
-    writeInt8(value: number, offset?: number): SmartBuffer {
-        this.writeNumberValue(Buffer.prototype.writeInt8, 1, value, offset);
-        return this;
+    private get buff(): Buffer {
+        return this.storage instanceof ContiguousStorage ? this.storage.buffer : undefined;
     }
 
     /**
-     * Writes an Int16BE value to the current write position (or at optional offset).
+     * Gets whether this SmartBuffer is a read-only view created by subarray().
      * 
-     * @param value { Number } The value to write.
-     * @param offset { Number } The offset to write the value at.
+     * @return { Boolean }
+     */
+    get readOnly(): boolean {
+        return this._readOnly;
+    }
+
+    /**
+     * Gets the trace recorded by startTrace(), or null if tracing was never started.
      * 
-     * @return this
+     * @return { SmartBufferTrace }
      */
-    writeInt16BE(value: number, offset?: number): SmartBuffer {
-        this.writeNumberValue(Buffer.prototype.writeInt16BE, 2, value, offset);
-        return this;
+    get trace(): SmartBufferTrace {
+        return this._trace;
     }
 
     /**
-     * Writes an Int16LE value to the current write position (or at optional offset).
+     * Gets the byte order used by numeric functions without a BE/LE suffix (such as readUInt16()).
      * 
-     * @param value { Number } The value to write.
-     * @param offset { Number } The offset to write the value at.
+     * @return { Endian }
+     */
+    get endian(): Endian {
+        return this._endian;
+    }
+
+    /**
+     * Sets the byte order used by numeric functions without a BE/LE suffix.
      * 
-     * @return this
+     * @param endian { Endian } The byte order to use (BE or LE).
      */
-    writeInt16LE(value: number, offset?: number): SmartBuffer {
-        this.writeNumberValue(Buffer.prototype.writeInt16LE, 2, value, offset);
-        return this;
+    set endian(endian: Endian) {
+        validateEndian(endian);
+        this._endian = endian;
     }
 
+    // Signed integers
+
     /**
-     * Writes an Int32BE value to the current write position (or at optional offset).
+     * Reads an Int8 value from the current read position.
      * 
-     * @param value { Number } The value to write.
-     * @param offset { Number } The offset to write the value at.
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
      * 
-     * @return this
+     * @return { Number }
      */
-    writeInt32BE(value: number, offset?: number): SmartBuffer {
-        this.writeNumberValue(Buffer.prototype.writeInt32BE, 4, value, offset);
-        return this;
+    readInt8(offset?: number): number {
+        return this.readNumberValue('readInt8', BufferBackend.prototype.readInt8, 1, offset);
     }
 
     /**
-     * Writes an Int32LE value to the current write position (or at optional offset).
+     * Peeks an Int8 value from the current read position, without moving the read offset.
      * 
-     * @param value { Number } The value to write.
-     * @param offset { Number } The offset to write the value at.
+     * @param offset { Number } The offset to read from (defaults to the current read position).
      * 
-     * @return this
+     * @return { Number }
      */
-    writeInt32LE(value: number, offset?: number): SmartBuffer {
-        this.writeNumberValue(Buffer.prototype.writeInt32LE, 4, value, offset);
-        return this;
+    peekInt8(offset?: number): number {
+        return this.peekValue('peekInt8', () => this.readInt8(), offset);
     }
 
-    // Unsigned Integers
+    /**
+     * Reads an Int16BE value from the current read position.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readInt16BE(offset?: number): number {
+        return this.readNumberValue('readInt16BE', BufferBackend.prototype.readInt16BE, 2, offset);
+    }
 
     /**
-     * Reads an UInt8 value from the current read position.
+     * Peeks an Int16BE value from the current read position, without moving the read offset.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
      * 
      * @return { Number }
      */
-    readUInt8(): number {
-        return this.readNumberValue(Buffer.prototype.readUInt8, 1);
+    peekInt16BE(offset?: number): number {
+        return this.peekValue('peekInt16BE', () => this.readInt16BE(), offset);
     }
 
     /**
-     * Reads an UInt16BE value from the current read position.
+     * Reads an Int16LE value from the current read position.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
      * 
      * @return { Number }
      */
-    readUInt16BE(): number {
-        return this.readNumberValue(Buffer.prototype.readUInt16BE, 2);
+    readInt16LE(offset?: number): number {
+        return this.readNumberValue('readInt16LE', BufferBackend.prototype.readInt16LE, 2, offset);
     }
 
     /**
-     * Reads an UInt16LE value from the current read position.
+     * Peeks an Int16LE value from the current read position, without moving the read offset.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
      * 
      * @return { Number }
      */
-    readUInt16LE(): number {
-        return this.readNumberValue(Buffer.prototype.readUInt16LE, 2);
+    peekInt16LE(offset?: number): number {
+        return this.peekValue('peekInt16LE', () => this.readInt16LE(), offset);
     }
 
     /**
-     * Reads an UInt32BE value from the current read position.
+     * Reads an Int32BE value from the current read position.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
      * 
      * @return { Number }
      */
-    readUInt32BE(): number {
-        return this.readNumberValue(Buffer.prototype.readUInt32BE, 4);
+    readInt32BE(offset?: number): number {
+        return this.readNumberValue('readInt32BE', BufferBackend.prototype.readInt32BE, 4, offset);
     }
 
     /**
-     * Reads an UInt32LE value from the current read position.
+     * Peeks an Int32BE value from the current read position, without moving the read offset.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
      * 
      * @return { Number }
      */
-    readUInt32LE(): number {
-        return this.readNumberValue(Buffer.prototype.readUInt32LE, 4);
+    peekInt32BE(offset?: number): number {
+        return this.peekValue('peekInt32BE', () => this.readInt32BE(), offset);
     }
 
     /**
-     * Writes an UInt8 value to the current write position (or at optional offset).
+     * Reads an Int32LE value from the current read position.
      * 
-     * @param value { Number } The value to write.
-     * @param offset { Number } The offset to write the value at.
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
      * 
-     * @return this
+     * @return { Number }
      */
-    writeUInt8(value: number, offset?: number): SmartBuffer {
-        this.writeNumberValue(Buffer.prototype.writeUInt8, 1, value, offset);
-        return this;
+    readInt32LE(offset?: number): number {
+        return this.readNumberValue('readInt32LE', BufferBackend.prototype.readInt32LE, 4, offset);
     }
 
     /**
-     * Writes an UInt16BE value to the current write position (or at optional offset).
+     * Peeks an Int32LE value from the current read position, without moving the read offset.
      * 
-     * @param value { Number } The value to write.
-     * @param offset { Number } The offset to write the value at.
+     * @param offset { Number } The offset to read from (defaults to the current read position).
      * 
-     * @return this
+     * @return { Number }
      */
-    writeUInt16BE(value: number, offset?: number): SmartBuffer {
-        this.writeNumberValue(Buffer.prototype.writeUInt16BE, 2, value, offset);
-        return this;
+    peekInt32LE(offset?: number): number {
+        return this.peekValue('peekInt32LE', () => this.readInt32LE(), offset);
     }
 
     /**
-     * Writes an UInt16LE value to the current write position (or at optional offset).
+     * Writes an Int8 value to the current write position (or at optional offset).
      * 
      * @param value { Number } The value to write.
      * @param offset { Number } The offset to write the value at.
      * 
      * @return this
      */
-    writeUInt16LE(value: number, offset?: number): SmartBuffer {
-        this.writeNumberValue(Buffer.prototype.writeUInt16LE, 2, value, offset);
+    writeInt8(value: number, offset?: number): SmartBuffer {
+        this.writeNumberValue('writeInt8', BufferBackend.prototype.writeInt8, 1, value, offset);
         return this;
     }
 
     /**
-     * Writes an UInt32BE value to the current write position (or at optional offset).
+     * Inserts an Int8 value at the given offset, shifting the data that follows it forward.
      * 
-     * @param value { Number } The value to write.
-     * @param offset { Number } The offset to write the value at.
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
      * 
      * @return this
      */
-    writeUInt32BE(value: number, offset?: number): SmartBuffer {
-        this.writeNumberValue(Buffer.prototype.writeUInt32BE, 4, value, offset);
+    insertInt8(value: number, offset: number): SmartBuffer {
+        this.insertNumberValue('insertInt8', BufferBackend.prototype.writeInt8, 1, value, offset);
         return this;
     }
 
     /**
-     * Writes an UInt32LE value to the current write position (or at optional offset).
+     * Overwrites an Int8 value at the given offset without shifting data or moving the write offset.
      * 
      * @param value { Number } The value to write.
      * @param offset { Number } The offset to write the value at.
      * 
      * @return this
      */
-    writeUInt32LE(value: number, offset?: number): SmartBuffer {
-        this.writeNumberValue(Buffer.prototype.writeUInt32LE, 4, value, offset);
+    setInt8(value: number, offset: number): SmartBuffer {
+        this.setNumberValue('setInt8', BufferBackend.prototype.writeInt8, 1, value, offset);
         return this;
     }
 
-    // Floating Point
-
-
     /**
-     * Reads an FloatBE value from the current read position.
+     * Writes an Int16BE value to the current write position (or at optional offset).
      * 
-     * @return { Number }
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
      */
-    readFloatBE(): number {
-        return this.readNumberValue(Buffer.prototype.readFloatBE, 4);
+    writeInt16BE(value: number, offset?: number): SmartBuffer {
+        this.writeNumberValue('writeInt16BE', BufferBackend.prototype.writeInt16BE, 2, value, offset);
+        return this;
     }
 
     /**
-     * Reads an FloatLE value from the current read position.
+     * Inserts an Int16BE value at the given offset, shifting the data that follows it forward.
      * 
-     * @return { Number }
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
      */
-    readFloatLE(): number {
-        return this.readNumberValue(Buffer.prototype.readFloatLE, 4);
+    insertInt16BE(value: number, offset: number): SmartBuffer {
+        this.insertNumberValue('insertInt16BE', BufferBackend.prototype.writeInt16BE, 2, value, offset);
+        return this;
     }
 
     /**
-     * Writes a FloatBE value to the current write position (or at optional offset).
+     * Overwrites an Int16BE value at the given offset without shifting data or moving the write offset.
      * 
      * @param value { Number } The value to write.
      * @param offset { Number } The offset to write the value at.
      * 
      * @return this
      */
-    writeFloatBE(value: number, offset?: number): SmartBuffer {
-        this.writeNumberValue(Buffer.prototype.writeFloatBE, 4, value, offset);
+    setInt16BE(value: number, offset: number): SmartBuffer {
+        this.setNumberValue('setInt16BE', BufferBackend.prototype.writeInt16BE, 2, value, offset);
         return this;
     }
 
     /**
-     * Writes a FloatLE value to the current write position (or at optional offset).
+     * Writes an Int16LE value to the current write position (or at optional offset).
      * 
      * @param value { Number } The value to write.
      * @param offset { Number } The offset to write the value at.
      * 
      * @return this
      */
-    writeFloatLE(value: number, offset?: number): SmartBuffer {
-        this.writeNumberValue(Buffer.prototype.writeFloatLE, 4, value, offset);
+    writeInt16LE(value: number, offset?: number): SmartBuffer {
+        this.writeNumberValue('writeInt16LE', BufferBackend.prototype.writeInt16LE, 2, value, offset);
         return this;
     }
 
-
-    // Double Floating Point
-
     /**
-     * Reads an DoublEBE value from the current read position.
+     * Inserts an Int16LE value at the given offset, shifting the data that follows it forward.
      * 
-     * @return { Number }
-     */
-    readDoubleBE(): number {
-        return this.readNumberValue(Buffer.prototype.readDoubleBE, 8);
-    }
-
-    /**
-     * Reads an DoubleLE value from the current read position.
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
      * 
-     * @return { Number }
+     * @return this
      */
-    readDoubleLE(): number {
-        return this.readNumberValue(Buffer.prototype.readDoubleLE, 8);
+    insertInt16LE(value: number, offset: number): SmartBuffer {
+        this.insertNumberValue('insertInt16LE', BufferBackend.prototype.writeInt16LE, 2, value, offset);
+        return this;
     }
 
     /**
-     * Writes a DoubleBE value to the current write position (or at optional offset).
+     * Overwrites an Int16LE value at the given offset without shifting data or moving the write offset.
      * 
      * @param value { Number } The value to write.
      * @param offset { Number } The offset to write the value at.
      * 
      * @return this
      */
-    writeDoubleBE(value: number, offset?: number): SmartBuffer {
-        this.writeNumberValue(Buffer.prototype.writeDoubleBE, 8, value, offset);
+    setInt16LE(value: number, offset: number): SmartBuffer {
+        this.setNumberValue('setInt16LE', BufferBackend.prototype.writeInt16LE, 2, value, offset);
         return this;
     }
 
     /**
-     * Writes a DoubleLE value to the current write position (or at optional offset).
+     * Writes an Int32BE value to the current write position (or at optional offset).
      * 
      * @param value { Number } The value to write.
      * @param offset { Number } The offset to write the value at.
      * 
      * @return this
      */
-    writeDoubleLE(value: number, offset?: number): SmartBuffer {
-        this.writeNumberValue(Buffer.prototype.writeDoubleLE, 8, value, offset);
+    writeInt32BE(value: number, offset?: number): SmartBuffer {
+        this.writeNumberValue('writeInt32BE', BufferBackend.prototype.writeInt32BE, 4, value, offset);
         return this;
     }
 
-
-    // Strings
-
     /**
-     * Reads a String from the current read position.
+     * Inserts an Int32BE value at the given offset, shifting the data that follows it forward.
      * 
-     * @param length { Number } The number of bytes to read as a String.
-     * @param encoding { String } The BufferEncoding to use for the string (Defaults to instance level encoding).
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
      * 
-     * @return { String }
+     * @return this
      */
-    readString(length?: number, encoding?: BufferEncoding): string {
-        const lengthVal = (typeof length === 'number') ? Math.min(length, this.length - this.readOffset) : this.length - this.readOffset;
-        const value = this.buff.slice(this.readOffset, this.readOffset + lengthVal).toString(encoding || this.encoding);
-
-        this.readOffset += lengthVal;
-        return value;
+    insertInt32BE(value: number, offset: number): SmartBuffer {
+        this.insertNumberValue('insertInt32BE', BufferBackend.prototype.writeInt32BE, 4, value, offset);
+        return this;
     }
 
     /**
-     * Writes a String to the current write position.
+     * Overwrites an Int32BE value at the given offset without shifting data or moving the write offset.
      * 
-     * @param value { String } The String value to write.
-     * @param arg2 { Number | String } The offset to write the string to, or the BufferEncoding to use.
-     * @param encoding { String } The BufferEncoding to use for writing strings (defaults to instance encoding).
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setInt32BE(value: number, offset: number): SmartBuffer {
+        this.setNumberValue('setInt32BE', BufferBackend.prototype.writeInt32BE, 4, value, offset);
+        return this;
+    }
+
+    /**
+     * Writes an Int32LE value to the current write position (or at optional offset).
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeInt32LE(value: number, offset?: number): SmartBuffer {
+        this.writeNumberValue('writeInt32LE', BufferBackend.prototype.writeInt32LE, 4, value, offset);
+        return this;
+    }
+
+    /**
+     * Inserts an Int32LE value at the given offset, shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertInt32LE(value: number, offset: number): SmartBuffer {
+        this.insertNumberValue('insertInt32LE', BufferBackend.prototype.writeInt32LE, 4, value, offset);
+        return this;
+    }
+
+    /**
+     * Overwrites an Int32LE value at the given offset without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setInt32LE(value: number, offset: number): SmartBuffer {
+        this.setNumberValue('setInt32LE', BufferBackend.prototype.writeInt32LE, 4, value, offset);
+        return this;
+    }
+
+    // Unsigned Integers
+
+    /**
+     * Reads an UInt8 value from the current read position.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readUInt8(offset?: number): number {
+        return this.readNumberValue('readUInt8', BufferBackend.prototype.readUInt8, 1, offset);
+    }
+
+    /**
+     * Peeks an UInt8 value from the current read position, without moving the read offset.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekUInt8(offset?: number): number {
+        return this.peekValue('peekUInt8', () => this.readUInt8(), offset);
+    }
+
+    /**
+     * Reads an UInt16BE value from the current read position.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readUInt16BE(offset?: number): number {
+        return this.readNumberValue('readUInt16BE', BufferBackend.prototype.readUInt16BE, 2, offset);
+    }
+
+    /**
+     * Peeks an UInt16BE value from the current read position, without moving the read offset.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekUInt16BE(offset?: number): number {
+        return this.peekValue('peekUInt16BE', () => this.readUInt16BE(), offset);
+    }
+
+    /**
+     * Reads an UInt16LE value from the current read position.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readUInt16LE(offset?: number): number {
+        return this.readNumberValue('readUInt16LE', BufferBackend.prototype.readUInt16LE, 2, offset);
+    }
+
+    /**
+     * Peeks an UInt16LE value from the current read position, without moving the read offset.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekUInt16LE(offset?: number): number {
+        return this.peekValue('peekUInt16LE', () => this.readUInt16LE(), offset);
+    }
+
+    /**
+     * Reads an UInt32BE value from the current read position.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readUInt32BE(offset?: number): number {
+        return this.readNumberValue('readUInt32BE', BufferBackend.prototype.readUInt32BE, 4, offset);
+    }
+
+    /**
+     * Peeks an UInt32BE value from the current read position, without moving the read offset.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekUInt32BE(offset?: number): number {
+        return this.peekValue('peekUInt32BE', () => this.readUInt32BE(), offset);
+    }
+
+    /**
+     * Reads an UInt32LE value from the current read position.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readUInt32LE(offset?: number): number {
+        return this.readNumberValue('readUInt32LE', BufferBackend.prototype.readUInt32LE, 4, offset);
+    }
+
+    /**
+     * Peeks an UInt32LE value from the current read position, without moving the read offset.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekUInt32LE(offset?: number): number {
+        return this.peekValue('peekUInt32LE', () => this.readUInt32LE(), offset);
+    }
+
+    /**
+     * Writes an UInt8 value to the current write position (or at optional offset).
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeUInt8(value: number, offset?: number): SmartBuffer {
+        this.writeNumberValue('writeUInt8', BufferBackend.prototype.writeUInt8, 1, value, offset);
+        return this;
+    }
+
+    /**
+     * Inserts an UInt8 value at the given offset, shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertUInt8(value: number, offset: number): SmartBuffer {
+        this.insertNumberValue('insertUInt8', BufferBackend.prototype.writeUInt8, 1, value, offset);
+        return this;
+    }
+
+    /**
+     * Overwrites an UInt8 value at the given offset without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setUInt8(value: number, offset: number): SmartBuffer {
+        this.setNumberValue('setUInt8', BufferBackend.prototype.writeUInt8, 1, value, offset);
+        return this;
+    }
+
+    /**
+     * Writes an UInt16BE value to the current write position (or at optional offset).
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeUInt16BE(value: number, offset?: number): SmartBuffer {
+        this.writeNumberValue('writeUInt16BE', BufferBackend.prototype.writeUInt16BE, 2, value, offset);
+        return this;
+    }
+
+    /**
+     * Inserts an UInt16BE value at the given offset, shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertUInt16BE(value: number, offset: number): SmartBuffer {
+        this.insertNumberValue('insertUInt16BE', BufferBackend.prototype.writeUInt16BE, 2, value, offset);
+        return this;
+    }
+
+    /**
+     * Overwrites an UInt16BE value at the given offset without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setUInt16BE(value: number, offset: number): SmartBuffer {
+        this.setNumberValue('setUInt16BE', BufferBackend.prototype.writeUInt16BE, 2, value, offset);
+        return this;
+    }
+
+    /**
+     * Writes an UInt16LE value to the current write position (or at optional offset).
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeUInt16LE(value: number, offset?: number): SmartBuffer {
+        this.writeNumberValue('writeUInt16LE', BufferBackend.prototype.writeUInt16LE, 2, value, offset);
+        return this;
+    }
+
+    /**
+     * Inserts an UInt16LE value at the given offset, shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertUInt16LE(value: number, offset: number): SmartBuffer {
+        this.insertNumberValue('insertUInt16LE', BufferBackend.prototype.writeUInt16LE, 2, value, offset);
+        return this;
+    }
+
+    /**
+     * Overwrites an UInt16LE value at the given offset without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setUInt16LE(value: number, offset: number): SmartBuffer {
+        this.setNumberValue('setUInt16LE', BufferBackend.prototype.writeUInt16LE, 2, value, offset);
+        return this;
+    }
+
+    /**
+     * Writes an UInt32BE value to the current write position (or at optional offset).
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeUInt32BE(value: number, offset?: number): SmartBuffer {
+        this.writeNumberValue('writeUInt32BE', BufferBackend.prototype.writeUInt32BE, 4, value, offset);
+        return this;
+    }
+
+    /**
+     * Inserts an UInt32BE value at the given offset, shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertUInt32BE(value: number, offset: number): SmartBuffer {
+        this.insertNumberValue('insertUInt32BE', BufferBackend.prototype.writeUInt32BE, 4, value, offset);
+        return this;
+    }
+
+    /**
+     * Overwrites an UInt32BE value at the given offset without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setUInt32BE(value: number, offset: number): SmartBuffer {
+        this.setNumberValue('setUInt32BE', BufferBackend.prototype.writeUInt32BE, 4, value, offset);
+        return this;
+    }
+
+    /**
+     * Writes an UInt32LE value to the current write position (or at optional offset).
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeUInt32LE(value: number, offset?: number): SmartBuffer {
+        this.writeNumberValue('writeUInt32LE', BufferBackend.prototype.writeUInt32LE, 4, value, offset);
+        return this;
+    }
+
+    /**
+     * Inserts an UInt32LE value at the given offset, shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertUInt32LE(value: number, offset: number): SmartBuffer {
+        this.insertNumberValue('insertUInt32LE', BufferBackend.prototype.writeUInt32LE, 4, value, offset);
+        return this;
+    }
+
+    /**
+     * Overwrites an UInt32LE value at the given offset without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setUInt32LE(value: number, offset: number): SmartBuffer {
+        this.setNumberValue('setUInt32LE', BufferBackend.prototype.writeUInt32LE, 4, value, offset);
+        return this;
+    }
+
+    // Floating Point
+
+
+    /**
+     * Reads an FloatBE value from the current read position.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readFloatBE(offset?: number): number {
+        return this.readNumberValue('readFloatBE', BufferBackend.prototype.readFloatBE, 4, offset);
+    }
+
+    /**
+     * Peeks an FloatBE value from the current read position, without moving the read offset.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekFloatBE(offset?: number): number {
+        return this.peekValue('peekFloatBE', () => this.readFloatBE(), offset);
+    }
+
+    /**
+     * Reads an FloatLE value from the current read position.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readFloatLE(offset?: number): number {
+        return this.readNumberValue('readFloatLE', BufferBackend.prototype.readFloatLE, 4, offset);
+    }
+
+    /**
+     * Peeks an FloatLE value from the current read position, without moving the read offset.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekFloatLE(offset?: number): number {
+        return this.peekValue('peekFloatLE', () => this.readFloatLE(), offset);
+    }
+
+    /**
+     * Writes a FloatBE value to the current write position (or at optional offset).
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeFloatBE(value: number, offset?: number): SmartBuffer {
+        this.writeNumberValue('writeFloatBE', BufferBackend.prototype.writeFloatBE, 4, value, offset);
+        return this;
+    }
+
+    /**
+     * Inserts a FloatBE value at the given offset, shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertFloatBE(value: number, offset: number): SmartBuffer {
+        this.insertNumberValue('insertFloatBE', BufferBackend.prototype.writeFloatBE, 4, value, offset);
+        return this;
+    }
+
+    /**
+     * Overwrites a FloatBE value at the given offset without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setFloatBE(value: number, offset: number): SmartBuffer {
+        this.setNumberValue('setFloatBE', BufferBackend.prototype.writeFloatBE, 4, value, offset);
+        return this;
+    }
+
+    /**
+     * Writes a FloatLE value to the current write position (or at optional offset).
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeFloatLE(value: number, offset?: number): SmartBuffer {
+        this.writeNumberValue('writeFloatLE', BufferBackend.prototype.writeFloatLE, 4, value, offset);
+        return this;
+    }
+
+    /**
+     * Inserts a FloatLE value at the given offset, shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertFloatLE(value: number, offset: number): SmartBuffer {
+        this.insertNumberValue('insertFloatLE', BufferBackend.prototype.writeFloatLE, 4, value, offset);
+        return this;
+    }
+
+    /**
+     * Overwrites a FloatLE value at the given offset without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setFloatLE(value: number, offset: number): SmartBuffer {
+        this.setNumberValue('setFloatLE', BufferBackend.prototype.writeFloatLE, 4, value, offset);
+        return this;
+    }
+
+
+    // Double Floating Point
+
+    /**
+     * Reads an DoublEBE value from the current read position.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readDoubleBE(offset?: number): number {
+        return this.readNumberValue('readDoubleBE', BufferBackend.prototype.readDoubleBE, 8, offset);
+    }
+
+    /**
+     * Peeks an DoublEBE value from the current read position, without moving the read offset.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekDoubleBE(offset?: number): number {
+        return this.peekValue('peekDoubleBE', () => this.readDoubleBE(), offset);
+    }
+
+    /**
+     * Reads an DoubleLE value from the current read position.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readDoubleLE(offset?: number): number {
+        return this.readNumberValue('readDoubleLE', BufferBackend.prototype.readDoubleLE, 8, offset);
+    }
+
+    /**
+     * Peeks an DoubleLE value from the current read position, without moving the read offset.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekDoubleLE(offset?: number): number {
+        return this.peekValue('peekDoubleLE', () => this.readDoubleLE(), offset);
+    }
+
+    /**
+     * Writes a DoubleBE value to the current write position (or at optional offset).
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeDoubleBE(value: number, offset?: number): SmartBuffer {
+        this.writeNumberValue('writeDoubleBE', BufferBackend.prototype.writeDoubleBE, 8, value, offset);
+        return this;
+    }
+
+    /**
+     * Inserts a DoubleBE value at the given offset, shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertDoubleBE(value: number, offset: number): SmartBuffer {
+        this.insertNumberValue('insertDoubleBE', BufferBackend.prototype.writeDoubleBE, 8, value, offset);
+        return this;
+    }
+
+    /**
+     * Overwrites a DoubleBE value at the given offset without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setDoubleBE(value: number, offset: number): SmartBuffer {
+        this.setNumberValue('setDoubleBE', BufferBackend.prototype.writeDoubleBE, 8, value, offset);
+        return this;
+    }
+
+    /**
+     * Writes a DoubleLE value to the current write position (or at optional offset).
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeDoubleLE(value: number, offset?: number): SmartBuffer {
+        this.writeNumberValue('writeDoubleLE', BufferBackend.prototype.writeDoubleLE, 8, value, offset);
+        return this;
+    }
+
+    /**
+     * Inserts a DoubleLE value at the given offset, shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertDoubleLE(value: number, offset: number): SmartBuffer {
+        this.insertNumberValue('insertDoubleLE', BufferBackend.prototype.writeDoubleLE, 8, value, offset);
+        return this;
+    }
+
+    /**
+     * Overwrites a DoubleLE value at the given offset without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setDoubleLE(value: number, offset: number): SmartBuffer {
+        this.setNumberValue('setDoubleLE', BufferBackend.prototype.writeDoubleLE, 8, value, offset);
+        return this;
+    }
+
+
+    // 64 Bit Integers (BigInt)
+
+    /**
+     * Reads a BigInt64BE value from the current read position.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { BigInt }
+     */
+    readBigInt64BE(offset?: number): bigint {
+        return this.readNumberValue('readBigInt64BE', BufferBackend.prototype.readBigInt64BE, 8, offset);
+    }
+
+    /**
+     * Peeks a BigInt64BE value from the current read position, without moving the read offset.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { BigInt }
+     */
+    peekBigInt64BE(offset?: number): bigint {
+        return this.peekValue('peekBigInt64BE', () => this.readBigInt64BE(), offset);
+    }
+
+    /**
+     * Reads a BigInt64LE value from the current read position.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { BigInt }
+     */
+    readBigInt64LE(offset?: number): bigint {
+        return this.readNumberValue('readBigInt64LE', BufferBackend.prototype.readBigInt64LE, 8, offset);
+    }
+
+    /**
+     * Peeks a BigInt64LE value from the current read position, without moving the read offset.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { BigInt }
+     */
+    peekBigInt64LE(offset?: number): bigint {
+        return this.peekValue('peekBigInt64LE', () => this.readBigInt64LE(), offset);
+    }
+
+    /**
+     * Reads a BigUInt64BE value from the current read position.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { BigInt }
+     */
+    readBigUInt64BE(offset?: number): bigint {
+        return this.readNumberValue('readBigUInt64BE', BufferBackend.prototype.readBigUInt64BE, 8, offset);
+    }
+
+    /**
+     * Peeks a BigUInt64BE value from the current read position, without moving the read offset.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { BigInt }
+     */
+    peekBigUInt64BE(offset?: number): bigint {
+        return this.peekValue('peekBigUInt64BE', () => this.readBigUInt64BE(), offset);
+    }
+
+    /**
+     * Reads a BigUInt64LE value from the current read position.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { BigInt }
+     */
+    readBigUInt64LE(offset?: number): bigint {
+        return this.readNumberValue('readBigUInt64LE', BufferBackend.prototype.readBigUInt64LE, 8, offset);
+    }
+
+    /**
+     * Peeks a BigUInt64LE value from the current read position, without moving the read offset.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { BigInt }
+     */
+    peekBigUInt64LE(offset?: number): bigint {
+        return this.peekValue('peekBigUInt64LE', () => this.readBigUInt64LE(), offset);
+    }
+
+    /**
+     * Writes a BigInt64BE value to the current write position (or at optional offset).
+     * 
+     * @param value { BigInt } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeBigInt64BE(value: bigint, offset?: number): SmartBuffer {
+        this.writeNumberValue('writeBigInt64BE', BufferBackend.prototype.writeBigInt64BE, 8, value, offset);
+        return this;
+    }
+
+    /**
+     * Inserts a BigInt64BE value at the given offset, shifting the data that follows it forward.
+     * 
+     * @param value { BigInt } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertBigInt64BE(value: bigint, offset: number): SmartBuffer {
+        this.insertNumberValue('insertBigInt64BE', BufferBackend.prototype.writeBigInt64BE, 8, value, offset);
+        return this;
+    }
+
+    /**
+     * Overwrites a BigInt64BE value at the given offset without shifting data or moving the write offset.
+     * 
+     * @param value { BigInt } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setBigInt64BE(value: bigint, offset: number): SmartBuffer {
+        this.setNumberValue('setBigInt64BE', BufferBackend.prototype.writeBigInt64BE, 8, value, offset);
+        return this;
+    }
+
+    /**
+     * Writes a BigInt64LE value to the current write position (or at optional offset).
+     * 
+     * @param value { BigInt } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeBigInt64LE(value: bigint, offset?: number): SmartBuffer {
+        this.writeNumberValue('writeBigInt64LE', BufferBackend.prototype.writeBigInt64LE, 8, value, offset);
+        return this;
+    }
+
+    /**
+     * Inserts a BigInt64LE value at the given offset, shifting the data that follows it forward.
+     * 
+     * @param value { BigInt } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertBigInt64LE(value: bigint, offset: number): SmartBuffer {
+        this.insertNumberValue('insertBigInt64LE', BufferBackend.prototype.writeBigInt64LE, 8, value, offset);
+        return this;
+    }
+
+    /**
+     * Overwrites a BigInt64LE value at the given offset without shifting data or moving the write offset.
+     * 
+     * @param value { BigInt } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setBigInt64LE(value: bigint, offset: number): SmartBuffer {
+        this.setNumberValue('setBigInt64LE', BufferBackend.prototype.writeBigInt64LE, 8, value, offset);
+        return this;
+    }
+
+    /**
+     * Writes a BigUInt64BE value to the current write position (or at optional offset).
+     * 
+     * @param value { BigInt } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeBigUInt64BE(value: bigint, offset?: number): SmartBuffer {
+        this.writeNumberValue('writeBigUInt64BE', BufferBackend.prototype.writeBigUInt64BE, 8, value, offset);
+        return this;
+    }
+
+    /**
+     * Inserts a BigUInt64BE value at the given offset, shifting the data that follows it forward.
+     * 
+     * @param value { BigInt } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertBigUInt64BE(value: bigint, offset: number): SmartBuffer {
+        this.insertNumberValue('insertBigUInt64BE', BufferBackend.prototype.writeBigUInt64BE, 8, value, offset);
+        return this;
+    }
+
+    /**
+     * Overwrites a BigUInt64BE value at the given offset without shifting data or moving the write offset.
+     * 
+     * @param value { BigInt } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setBigUInt64BE(value: bigint, offset: number): SmartBuffer {
+        this.setNumberValue('setBigUInt64BE', BufferBackend.prototype.writeBigUInt64BE, 8, value, offset);
+        return this;
+    }
+
+    /**
+     * Writes a BigUInt64LE value to the current write position (or at optional offset).
+     * 
+     * @param value { BigInt } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeBigUInt64LE(value: bigint, offset?: number): SmartBuffer {
+        this.writeNumberValue('writeBigUInt64LE', BufferBackend.prototype.writeBigUInt64LE, 8, value, offset);
+        return this;
+    }
+
+    /**
+     * Inserts a BigUInt64LE value at the given offset, shifting the data that follows it forward.
+     * 
+     * @param value { BigInt } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertBigUInt64LE(value: bigint, offset: number): SmartBuffer {
+        this.insertNumberValue('insertBigUInt64LE', BufferBackend.prototype.writeBigUInt64LE, 8, value, offset);
+        return this;
+    }
+
+    /**
+     * Overwrites a BigUInt64LE value at the given offset without shifting data or moving the write offset.
+     * 
+     * @param value { BigInt } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setBigUInt64LE(value: bigint, offset: number): SmartBuffer {
+        this.setNumberValue('setBigUInt64LE', BufferBackend.prototype.writeBigUInt64LE, 8, value, offset);
+        return this;
+    }
+
+    // 64 Bit Integers (Safe Number)
+
+    /**
+     * Reads an Int64BE value from the current read position as a Number.
+     * Throws if the value is outside of the safe integer range.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readInt64BE(offset?: number): number {
+        return this.readSafeNumberValue('readInt64BE', BufferBackend.prototype.readBigInt64BE, offset);
+    }
+
+    /**
+     * Peeks an Int64BE value from the current read position as a Number, without moving the read offset.
+     * Throws if the value is outside of the safe integer range.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekInt64BE(offset?: number): number {
+        return this.peekValue('peekInt64BE', () => this.readInt64BE(), offset);
+    }
+
+    /**
+     * Reads an Int64LE value from the current read position as a Number.
+     * Throws if the value is outside of the safe integer range.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readInt64LE(offset?: number): number {
+        return this.readSafeNumberValue('readInt64LE', BufferBackend.prototype.readBigInt64LE, offset);
+    }
+
+    /**
+     * Peeks an Int64LE value from the current read position as a Number, without moving the read offset.
+     * Throws if the value is outside of the safe integer range.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekInt64LE(offset?: number): number {
+        return this.peekValue('peekInt64LE', () => this.readInt64LE(), offset);
+    }
+
+    /**
+     * Reads an UInt64BE value from the current read position as a Number.
+     * Throws if the value is larger than Number.MAX_SAFE_INTEGER.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readUInt64BE(offset?: number): number {
+        return this.readSafeNumberValue('readUInt64BE', BufferBackend.prototype.readBigUInt64BE, offset);
+    }
+
+    /**
+     * Peeks an UInt64BE value from the current read position as a Number, without moving the read offset.
+     * Throws if the value is larger than Number.MAX_SAFE_INTEGER.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekUInt64BE(offset?: number): number {
+        return this.peekValue('peekUInt64BE', () => this.readUInt64BE(), offset);
+    }
+
+    /**
+     * Reads an UInt64LE value from the current read position as a Number.
+     * Throws if the value is larger than Number.MAX_SAFE_INTEGER.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readUInt64LE(offset?: number): number {
+        return this.readSafeNumberValue('readUInt64LE', BufferBackend.prototype.readBigUInt64LE, offset);
+    }
+
+    /**
+     * Peeks an UInt64LE value from the current read position as a Number, without moving the read offset.
+     * Throws if the value is larger than Number.MAX_SAFE_INTEGER.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekUInt64LE(offset?: number): number {
+        return this.peekValue('peekUInt64LE', () => this.readUInt64LE(), offset);
+    }
+
+    /**
+     * Writes an Int64BE Number value to the current write position (or at optional offset).
+     * 
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeInt64BE(value: number, offset?: number): SmartBuffer {
+        this.writeNumberValue('writeInt64BE', BufferBackend.prototype.writeBigInt64BE, 8, toBigInt(value), offset);
+        return this;
+    }
+
+    /**
+     * Inserts an Int64BE Number value at the given offset, shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertInt64BE(value: number, offset: number): SmartBuffer {
+        this.insertNumberValue('insertInt64BE', BufferBackend.prototype.writeBigInt64BE, 8, toBigInt(value), offset);
+        return this;
+    }
+
+    /**
+     * Overwrites an Int64BE Number value at the given offset without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setInt64BE(value: number, offset: number): SmartBuffer {
+        this.setNumberValue('setInt64BE', BufferBackend.prototype.writeBigInt64BE, 8, toBigInt(value), offset);
+        return this;
+    }
+
+    /**
+     * Writes an Int64LE Number value to the current write position (or at optional offset).
+     * 
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeInt64LE(value: number, offset?: number): SmartBuffer {
+        this.writeNumberValue('writeInt64LE', BufferBackend.prototype.writeBigInt64LE, 8, toBigInt(value), offset);
+        return this;
+    }
+
+    /**
+     * Inserts an Int64LE Number value at the given offset, shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertInt64LE(value: number, offset: number): SmartBuffer {
+        this.insertNumberValue('insertInt64LE', BufferBackend.prototype.writeBigInt64LE, 8, toBigInt(value), offset);
+        return this;
+    }
+
+    /**
+     * Overwrites an Int64LE Number value at the given offset without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setInt64LE(value: number, offset: number): SmartBuffer {
+        this.setNumberValue('setInt64LE', BufferBackend.prototype.writeBigInt64LE, 8, toBigInt(value), offset);
+        return this;
+    }
+
+    /**
+     * Writes an UInt64BE Number value to the current write position (or at optional offset).
+     * 
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeUInt64BE(value: number, offset?: number): SmartBuffer {
+        this.writeNumberValue('writeUInt64BE', BufferBackend.prototype.writeBigUInt64BE, 8, toBigInt(value), offset);
+        return this;
+    }
+
+    /**
+     * Inserts an UInt64BE Number value at the given offset, shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertUInt64BE(value: number, offset: number): SmartBuffer {
+        this.insertNumberValue('insertUInt64BE', BufferBackend.prototype.writeBigUInt64BE, 8, toBigInt(value), offset);
+        return this;
+    }
+
+    /**
+     * Overwrites an UInt64BE Number value at the given offset without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setUInt64BE(value: number, offset: number): SmartBuffer {
+        this.setNumberValue('setUInt64BE', BufferBackend.prototype.writeBigUInt64BE, 8, toBigInt(value), offset);
+        return this;
+    }
+
+    /**
+     * Writes an UInt64LE Number value to the current write position (or at optional offset).
+     * 
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeUInt64LE(value: number, offset?: number): SmartBuffer {
+        this.writeNumberValue('writeUInt64LE', BufferBackend.prototype.writeBigUInt64LE, 8, toBigInt(value), offset);
+        return this;
+    }
+
+    /**
+     * Inserts an UInt64LE Number value at the given offset, shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertUInt64LE(value: number, offset: number): SmartBuffer {
+        this.insertNumberValue('insertUInt64LE', BufferBackend.prototype.writeBigUInt64LE, 8, toBigInt(value), offset);
+        return this;
+    }
+
+    /**
+     * Overwrites an UInt64LE Number value at the given offset without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setUInt64LE(value: number, offset: number): SmartBuffer {
+        this.setNumberValue('setUInt64LE', BufferBackend.prototype.writeBigUInt64LE, 8, toBigInt(value), offset);
+        return this;
+    }
+
+
+    // Variable Width Integers
+
+    /**
+     * Reads an IntBE value of the given byte length (1-6) from the current read position.
+     * 
+     * @param byteLength { Number } The number of bytes to read.
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readIntBE(byteLength: number, offset?: number): number {
+        validateByteLength(byteLength);
+        return this.readNumberValue('readIntBE', function (this: Buffer, position: number) {
+            return this.readIntBE(position, byteLength);
+        }, byteLength, offset);
+    }
+
+    /**
+     * Peeks an IntBE value of the given byte length (1-6) from the current read position, without moving the read offset.
+     * 
+     * @param byteLength { Number } The number of bytes to read.
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekIntBE(byteLength: number, offset?: number): number {
+        return this.peekValue('peekIntBE', () => this.readIntBE(byteLength), offset);
+    }
+
+    /**
+     * Reads an IntLE value of the given byte length (1-6) from the current read position.
+     * 
+     * @param byteLength { Number } The number of bytes to read.
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readIntLE(byteLength: number, offset?: number): number {
+        validateByteLength(byteLength);
+        return this.readNumberValue('readIntLE', function (this: Buffer, position: number) {
+            return this.readIntLE(position, byteLength);
+        }, byteLength, offset);
+    }
+
+    /**
+     * Peeks an IntLE value of the given byte length (1-6) from the current read position, without moving the read offset.
+     * 
+     * @param byteLength { Number } The number of bytes to read.
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekIntLE(byteLength: number, offset?: number): number {
+        return this.peekValue('peekIntLE', () => this.readIntLE(byteLength), offset);
+    }
+
+    /**
+     * Reads an UIntBE value of the given byte length (1-6) from the current read position.
+     * 
+     * @param byteLength { Number } The number of bytes to read.
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readUIntBE(byteLength: number, offset?: number): number {
+        validateByteLength(byteLength);
+        return this.readNumberValue('readUIntBE', function (this: Buffer, position: number) {
+            return this.readUIntBE(position, byteLength);
+        }, byteLength, offset);
+    }
+
+    /**
+     * Peeks an UIntBE value of the given byte length (1-6) from the current read position, without moving the read offset.
+     * 
+     * @param byteLength { Number } The number of bytes to read.
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekUIntBE(byteLength: number, offset?: number): number {
+        return this.peekValue('peekUIntBE', () => this.readUIntBE(byteLength), offset);
+    }
+
+    /**
+     * Reads an UIntLE value of the given byte length (1-6) from the current read position.
+     * 
+     * @param byteLength { Number } The number of bytes to read.
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readUIntLE(byteLength: number, offset?: number): number {
+        validateByteLength(byteLength);
+        return this.readNumberValue('readUIntLE', function (this: Buffer, position: number) {
+            return this.readUIntLE(position, byteLength);
+        }, byteLength, offset);
+    }
+
+    /**
+     * Peeks an UIntLE value of the given byte length (1-6) from the current read position, without moving the read offset.
+     * 
+     * @param byteLength { Number } The number of bytes to read.
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekUIntLE(byteLength: number, offset?: number): number {
+        return this.peekValue('peekUIntLE', () => this.readUIntLE(byteLength), offset);
+    }
+
+    /**
+     * Writes an IntBE value of the given byte length (1-6) to the current write position (or at optional offset).
+     * 
+     * @param value { Number } The value to write.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeIntBE(value: number, byteLength: number, offset?: number): SmartBuffer {
+        validateByteLength(byteLength);
+        this.writeNumberValue('writeIntBE', function (this: Buffer, val: number, offsetVal: number) {
+            return this.writeIntBE(val, offsetVal, byteLength);
+        }, byteLength, value, offset);
+        return this;
+    }
+
+    /**
+     * Inserts an IntBE value of the given byte length (1-6) at the given offset, shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to insert.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertIntBE(value: number, byteLength: number, offset: number): SmartBuffer {
+        validateByteLength(byteLength);
+        this.insertNumberValue('insertIntBE', function (this: Buffer, val: number, offsetVal: number) {
+            return this.writeIntBE(val, offsetVal, byteLength);
+        }, byteLength, value, offset);
+        return this;
+    }
+
+    /**
+     * Overwrites an IntBE value of the given byte length (1-6) at the given offset without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setIntBE(value: number, byteLength: number, offset: number): SmartBuffer {
+        validateByteLength(byteLength);
+        this.setNumberValue('setIntBE', function (this: Buffer, val: number, offsetVal: number) {
+            return this.writeIntBE(val, offsetVal, byteLength);
+        }, byteLength, value, offset);
+        return this;
+    }
+
+    /**
+     * Writes an IntLE value of the given byte length (1-6) to the current write position (or at optional offset).
+     * 
+     * @param value { Number } The value to write.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeIntLE(value: number, byteLength: number, offset?: number): SmartBuffer {
+        validateByteLength(byteLength);
+        this.writeNumberValue('writeIntLE', function (this: Buffer, val: number, offsetVal: number) {
+            return this.writeIntLE(val, offsetVal, byteLength);
+        }, byteLength, value, offset);
+        return this;
+    }
+
+    /**
+     * Inserts an IntLE value of the given byte length (1-6) at the given offset, shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to insert.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertIntLE(value: number, byteLength: number, offset: number): SmartBuffer {
+        validateByteLength(byteLength);
+        this.insertNumberValue('insertIntLE', function (this: Buffer, val: number, offsetVal: number) {
+            return this.writeIntLE(val, offsetVal, byteLength);
+        }, byteLength, value, offset);
+        return this;
+    }
+
+    /**
+     * Overwrites an IntLE value of the given byte length (1-6) at the given offset without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setIntLE(value: number, byteLength: number, offset: number): SmartBuffer {
+        validateByteLength(byteLength);
+        this.setNumberValue('setIntLE', function (this: Buffer, val: number, offsetVal: number) {
+            return this.writeIntLE(val, offsetVal, byteLength);
+        }, byteLength, value, offset);
+        return this;
+    }
+
+    /**
+     * Writes an UIntBE value of the given byte length (1-6) to the current write position (or at optional offset).
+     * 
+     * @param value { Number } The value to write.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeUIntBE(value: number, byteLength: number, offset?: number): SmartBuffer {
+        validateByteLength(byteLength);
+        this.writeNumberValue('writeUIntBE', function (this: Buffer, val: number, offsetVal: number) {
+            return this.writeUIntBE(val, offsetVal, byteLength);
+        }, byteLength, value, offset);
+        return this;
+    }
+
+    /**
+     * Inserts an UIntBE value of the given byte length (1-6) at the given offset, shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to insert.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertUIntBE(value: number, byteLength: number, offset: number): SmartBuffer {
+        validateByteLength(byteLength);
+        this.insertNumberValue('insertUIntBE', function (this: Buffer, val: number, offsetVal: number) {
+            return this.writeUIntBE(val, offsetVal, byteLength);
+        }, byteLength, value, offset);
+        return this;
+    }
+
+    /**
+     * Overwrites an UIntBE value of the given byte length (1-6) at the given offset without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setUIntBE(value: number, byteLength: number, offset: number): SmartBuffer {
+        validateByteLength(byteLength);
+        this.setNumberValue('setUIntBE', function (this: Buffer, val: number, offsetVal: number) {
+            return this.writeUIntBE(val, offsetVal, byteLength);
+        }, byteLength, value, offset);
+        return this;
+    }
+
+    /**
+     * Writes an UIntLE value of the given byte length (1-6) to the current write position (or at optional offset).
+     * 
+     * @param value { Number } The value to write.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeUIntLE(value: number, byteLength: number, offset?: number): SmartBuffer {
+        validateByteLength(byteLength);
+        this.writeNumberValue('writeUIntLE', function (this: Buffer, val: number, offsetVal: number) {
+            return this.writeUIntLE(val, offsetVal, byteLength);
+        }, byteLength, value, offset);
+        return this;
+    }
+
+    /**
+     * Inserts an UIntLE value of the given byte length (1-6) at the given offset, shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to insert.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertUIntLE(value: number, byteLength: number, offset: number): SmartBuffer {
+        validateByteLength(byteLength);
+        this.insertNumberValue('insertUIntLE', function (this: Buffer, val: number, offsetVal: number) {
+            return this.writeUIntLE(val, offsetVal, byteLength);
+        }, byteLength, value, offset);
+        return this;
+    }
+
+    /**
+     * Overwrites an UIntLE value of the given byte length (1-6) at the given offset without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setUIntLE(value: number, byteLength: number, offset: number): SmartBuffer {
+        validateByteLength(byteLength);
+        this.setNumberValue('setUIntLE', function (this: Buffer, val: number, offsetVal: number) {
+            return this.writeUIntLE(val, offsetVal, byteLength);
+        }, byteLength, value, offset);
+        return this;
+    }
+
+
+    // Default Endianness
+
+    /**
+     * Calls a function with the endianness temporarily switched, for reading or writing a nested section in another byte order.
+     * The previous endianness is restored when the function returns or throws.
+     * 
+     * @param endian { Endian } The byte order to use while the function runs (BE or LE).
+     * @param func { Function(buff: SmartBuffer) => T } The function to call with this SmartBuffer.
+     * 
+     * @return { T } The value returned by the function.
+     */
+    withEndian<T>(endian: Endian, func: (buff: SmartBuffer) => T): T {
+        validateEndian(endian);
+        const previous = this._endian;
+        this._endian = endian;
+
+        try {
+            return func(this);
+        } finally {
+            this._endian = previous;
+        }
+    }
+
+    /**
+     * Reads an Int16 value from the current read position, in the SmartBuffer's endianness.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readInt16(offset?: number): number {
+        return this.traceAs('readInt16', () => this.endian === 'LE' ? this.readInt16LE(offset) : this.readInt16BE(offset));
+    }
+
+    /**
+     * Peeks an Int16 value from the current read position, in the SmartBuffer's endianness, without moving the read offset.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekInt16(offset?: number): number {
+        return this.peekValue('peekInt16', () => this.readInt16(), offset);
+    }
+
+    /**
+     * Writes an Int16 value to the current write position (or at optional offset), in the SmartBuffer's endianness.
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeInt16(value: number, offset?: number): SmartBuffer {
+        return this.traceAs('writeInt16', () => this.endian === 'LE' ? this.writeInt16LE(value, offset) : this.writeInt16BE(value, offset));
+    }
+
+    /**
+     * Inserts an Int16 value at the given offset, in the SmartBuffer's endianness, shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertInt16(value: number, offset: number): SmartBuffer {
+        return this.traceAs('insertInt16', () =>
+            this.endian === 'LE' ? this.insertInt16LE(value, offset) : this.insertInt16BE(value, offset));
+    }
+
+    /**
+     * Overwrites an Int16 value at the given offset, in the SmartBuffer's endianness, without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setInt16(value: number, offset: number): SmartBuffer {
+        return this.traceAs('setInt16', () => this.endian === 'LE' ? this.setInt16LE(value, offset) : this.setInt16BE(value, offset));
+    }
+
+    /**
+     * Reads an Int32 value from the current read position, in the SmartBuffer's endianness.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readInt32(offset?: number): number {
+        return this.traceAs('readInt32', () => this.endian === 'LE' ? this.readInt32LE(offset) : this.readInt32BE(offset));
+    }
+
+    /**
+     * Peeks an Int32 value from the current read position, in the SmartBuffer's endianness, without moving the read offset.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekInt32(offset?: number): number {
+        return this.peekValue('peekInt32', () => this.readInt32(), offset);
+    }
+
+    /**
+     * Writes an Int32 value to the current write position (or at optional offset), in the SmartBuffer's endianness.
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeInt32(value: number, offset?: number): SmartBuffer {
+        return this.traceAs('writeInt32', () => this.endian === 'LE' ? this.writeInt32LE(value, offset) : this.writeInt32BE(value, offset));
+    }
+
+    /**
+     * Inserts an Int32 value at the given offset, in the SmartBuffer's endianness, shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertInt32(value: number, offset: number): SmartBuffer {
+        return this.traceAs('insertInt32', () =>
+            this.endian === 'LE' ? this.insertInt32LE(value, offset) : this.insertInt32BE(value, offset));
+    }
+
+    /**
+     * Overwrites an Int32 value at the given offset, in the SmartBuffer's endianness, without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setInt32(value: number, offset: number): SmartBuffer {
+        return this.traceAs('setInt32', () => this.endian === 'LE' ? this.setInt32LE(value, offset) : this.setInt32BE(value, offset));
+    }
+
+    /**
+     * Reads an UInt16 value from the current read position, in the SmartBuffer's endianness.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readUInt16(offset?: number): number {
+        return this.traceAs('readUInt16', () => this.endian === 'LE' ? this.readUInt16LE(offset) : this.readUInt16BE(offset));
+    }
+
+    /**
+     * Peeks an UInt16 value from the current read position, in the SmartBuffer's endianness, without moving the read offset.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekUInt16(offset?: number): number {
+        return this.peekValue('peekUInt16', () => this.readUInt16(), offset);
+    }
+
+    /**
+     * Writes an UInt16 value to the current write position (or at optional offset), in the SmartBuffer's endianness.
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeUInt16(value: number, offset?: number): SmartBuffer {
+        return this.traceAs('writeUInt16', () =>
+            this.endian === 'LE' ? this.writeUInt16LE(value, offset) : this.writeUInt16BE(value, offset));
+    }
+
+    /**
+     * Inserts an UInt16 value at the given offset, in the SmartBuffer's endianness, shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertUInt16(value: number, offset: number): SmartBuffer {
+        return this.traceAs('insertUInt16', () =>
+            this.endian === 'LE' ? this.insertUInt16LE(value, offset) : this.insertUInt16BE(value, offset));
+    }
+
+    /**
+     * Overwrites an UInt16 value at the given offset, in the SmartBuffer's endianness, without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setUInt16(value: number, offset: number): SmartBuffer {
+        return this.traceAs('setUInt16', () => this.endian === 'LE' ? this.setUInt16LE(value, offset) : this.setUInt16BE(value, offset));
+    }
+
+    /**
+     * Reads an UInt32 value from the current read position, in the SmartBuffer's endianness.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readUInt32(offset?: number): number {
+        return this.traceAs('readUInt32', () => this.endian === 'LE' ? this.readUInt32LE(offset) : this.readUInt32BE(offset));
+    }
+
+    /**
+     * Peeks an UInt32 value from the current read position, in the SmartBuffer's endianness, without moving the read offset.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekUInt32(offset?: number): number {
+        return this.peekValue('peekUInt32', () => this.readUInt32(), offset);
+    }
+
+    /**
+     * Writes an UInt32 value to the current write position (or at optional offset), in the SmartBuffer's endianness.
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeUInt32(value: number, offset?: number): SmartBuffer {
+        return this.traceAs('writeUInt32', () =>
+            this.endian === 'LE' ? this.writeUInt32LE(value, offset) : this.writeUInt32BE(value, offset));
+    }
+
+    /**
+     * Inserts an UInt32 value at the given offset, in the SmartBuffer's endianness, shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertUInt32(value: number, offset: number): SmartBuffer {
+        return this.traceAs('insertUInt32', () =>
+            this.endian === 'LE' ? this.insertUInt32LE(value, offset) : this.insertUInt32BE(value, offset));
+    }
+
+    /**
+     * Overwrites an UInt32 value at the given offset, in the SmartBuffer's endianness, without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setUInt32(value: number, offset: number): SmartBuffer {
+        return this.traceAs('setUInt32', () => this.endian === 'LE' ? this.setUInt32LE(value, offset) : this.setUInt32BE(value, offset));
+    }
+
+    /**
+     * Reads a Float value from the current read position, in the SmartBuffer's endianness.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readFloat(offset?: number): number {
+        return this.traceAs('readFloat', () => this.endian === 'LE' ? this.readFloatLE(offset) : this.readFloatBE(offset));
+    }
+
+    /**
+     * Peeks a Float value from the current read position, in the SmartBuffer's endianness, without moving the read offset.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekFloat(offset?: number): number {
+        return this.peekValue('peekFloat', () => this.readFloat(), offset);
+    }
+
+    /**
+     * Writes a Float value to the current write position (or at optional offset), in the SmartBuffer's endianness.
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeFloat(value: number, offset?: number): SmartBuffer {
+        return this.traceAs('writeFloat', () => this.endian === 'LE' ? this.writeFloatLE(value, offset) : this.writeFloatBE(value, offset));
+    }
+
+    /**
+     * Inserts a Float value at the given offset, in the SmartBuffer's endianness, shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertFloat(value: number, offset: number): SmartBuffer {
+        return this.traceAs('insertFloat', () =>
+            this.endian === 'LE' ? this.insertFloatLE(value, offset) : this.insertFloatBE(value, offset));
+    }
+
+    /**
+     * Overwrites a Float value at the given offset, in the SmartBuffer's endianness, without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setFloat(value: number, offset: number): SmartBuffer {
+        return this.traceAs('setFloat', () => this.endian === 'LE' ? this.setFloatLE(value, offset) : this.setFloatBE(value, offset));
+    }
+
+    /**
+     * Reads a Double value from the current read position, in the SmartBuffer's endianness.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readDouble(offset?: number): number {
+        return this.traceAs('readDouble', () => this.endian === 'LE' ? this.readDoubleLE(offset) : this.readDoubleBE(offset));
+    }
+
+    /**
+     * Peeks a Double value from the current read position, in the SmartBuffer's endianness, without moving the read offset.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekDouble(offset?: number): number {
+        return this.peekValue('peekDouble', () => this.readDouble(), offset);
+    }
+
+    /**
+     * Writes a Double value to the current write position (or at optional offset), in the SmartBuffer's endianness.
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeDouble(value: number, offset?: number): SmartBuffer {
+        return this.traceAs('writeDouble', () =>
+            this.endian === 'LE' ? this.writeDoubleLE(value, offset) : this.writeDoubleBE(value, offset));
+    }
+
+    /**
+     * Inserts a Double value at the given offset, in the SmartBuffer's endianness, shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertDouble(value: number, offset: number): SmartBuffer {
+        return this.traceAs('insertDouble', () =>
+            this.endian === 'LE' ? this.insertDoubleLE(value, offset) : this.insertDoubleBE(value, offset));
+    }
+
+    /**
+     * Overwrites a Double value at the given offset, in the SmartBuffer's endianness, without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setDouble(value: number, offset: number): SmartBuffer {
+        return this.traceAs('setDouble', () => this.endian === 'LE' ? this.setDoubleLE(value, offset) : this.setDoubleBE(value, offset));
+    }
+
+    /**
+     * Reads a BigInt64 value from the current read position, in the SmartBuffer's endianness.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { BigInt }
+     */
+    readBigInt64(offset?: number): bigint {
+        return this.traceAs('readBigInt64', () => this.endian === 'LE' ? this.readBigInt64LE(offset) : this.readBigInt64BE(offset));
+    }
+
+    /**
+     * Peeks a BigInt64 value from the current read position, in the SmartBuffer's endianness, without moving the read offset.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { BigInt }
+     */
+    peekBigInt64(offset?: number): bigint {
+        return this.peekValue('peekBigInt64', () => this.readBigInt64(), offset);
+    }
+
+    /**
+     * Writes a BigInt64 value to the current write position (or at optional offset), in the SmartBuffer's endianness.
+     * 
+     * @param value { BigInt } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeBigInt64(value: bigint, offset?: number): SmartBuffer {
+        return this.traceAs('writeBigInt64', () =>
+            this.endian === 'LE' ? this.writeBigInt64LE(value, offset) : this.writeBigInt64BE(value, offset));
+    }
+
+    /**
+     * Inserts a BigInt64 value at the given offset, in the SmartBuffer's endianness, shifting the data that follows it forward.
+     * 
+     * @param value { BigInt } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertBigInt64(value: bigint, offset: number): SmartBuffer {
+        return this.traceAs('insertBigInt64', () =>
+            this.endian === 'LE' ? this.insertBigInt64LE(value, offset) : this.insertBigInt64BE(value, offset));
+    }
+
+    /**
+     * Overwrites a BigInt64 value at the given offset, in the SmartBuffer's endianness, without shifting data or moving the write offset.
+     * 
+     * @param value { BigInt } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setBigInt64(value: bigint, offset: number): SmartBuffer {
+        return this.traceAs('setBigInt64', () =>
+            this.endian === 'LE' ? this.setBigInt64LE(value, offset) : this.setBigInt64BE(value, offset));
+    }
+
+    /**
+     * Reads a BigUInt64 value from the current read position, in the SmartBuffer's endianness.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { BigInt }
+     */
+    readBigUInt64(offset?: number): bigint {
+        return this.traceAs('readBigUInt64', () => this.endian === 'LE' ? this.readBigUInt64LE(offset) : this.readBigUInt64BE(offset));
+    }
+
+    /**
+     * Peeks a BigUInt64 value from the current read position, in the SmartBuffer's endianness, without moving the read offset.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { BigInt }
+     */
+    peekBigUInt64(offset?: number): bigint {
+        return this.peekValue('peekBigUInt64', () => this.readBigUInt64(), offset);
+    }
+
+    /**
+     * Writes a BigUInt64 value to the current write position (or at optional offset), in the SmartBuffer's endianness.
+     * 
+     * @param value { BigInt } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeBigUInt64(value: bigint, offset?: number): SmartBuffer {
+        return this.traceAs('writeBigUInt64', () =>
+            this.endian === 'LE' ? this.writeBigUInt64LE(value, offset) : this.writeBigUInt64BE(value, offset));
+    }
+
+    /**
+     * Inserts a BigUInt64 value at the given offset, in the SmartBuffer's endianness, shifting the data that follows it forward.
+     * 
+     * @param value { BigInt } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertBigUInt64(value: bigint, offset: number): SmartBuffer {
+        return this.traceAs('insertBigUInt64', () =>
+            this.endian === 'LE' ? this.insertBigUInt64LE(value, offset) : this.insertBigUInt64BE(value, offset));
+    }
+
+    /**
+     * Overwrites a BigUInt64 value at the given offset, in the SmartBuffer's endianness, without shifting data or moving the write offset.
+     * 
+     * @param value { BigInt } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setBigUInt64(value: bigint, offset: number): SmartBuffer {
+        return this.traceAs('setBigUInt64', () =>
+            this.endian === 'LE' ? this.setBigUInt64LE(value, offset) : this.setBigUInt64BE(value, offset));
+    }
+
+    /**
+     * Reads an Int64 value from the current read position as a Number, in the SmartBuffer's endianness.
+     * Throws if the value is outside of the safe integer range.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readInt64(offset?: number): number {
+        return this.traceAs('readInt64', () => this.endian === 'LE' ? this.readInt64LE(offset) : this.readInt64BE(offset));
+    }
+
+    /**
+     * Peeks an Int64 value from the current read position as a Number, in the SmartBuffer's endianness, without moving the read offset.
+     * Throws if the value is outside of the safe integer range.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekInt64(offset?: number): number {
+        return this.peekValue('peekInt64', () => this.readInt64(), offset);
+    }
+
+    /**
+     * Writes an Int64 value to the current write position (or at optional offset), in the SmartBuffer's endianness.
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeInt64(value: number, offset?: number): SmartBuffer {
+        return this.traceAs('writeInt64', () => this.endian === 'LE' ? this.writeInt64LE(value, offset) : this.writeInt64BE(value, offset));
+    }
+
+    /**
+     * Inserts an Int64 value at the given offset, in the SmartBuffer's endianness, shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertInt64(value: number, offset: number): SmartBuffer {
+        return this.traceAs('insertInt64', () =>
+            this.endian === 'LE' ? this.insertInt64LE(value, offset) : this.insertInt64BE(value, offset));
+    }
+
+    /**
+     * Overwrites an Int64 value at the given offset, in the SmartBuffer's endianness, without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setInt64(value: number, offset: number): SmartBuffer {
+        return this.traceAs('setInt64', () => this.endian === 'LE' ? this.setInt64LE(value, offset) : this.setInt64BE(value, offset));
+    }
+
+    /**
+     * Reads an UInt64 value from the current read position as a Number, in the SmartBuffer's endianness.
+     * Throws if the value is outside of the safe integer range.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readUInt64(offset?: number): number {
+        return this.traceAs('readUInt64', () => this.endian === 'LE' ? this.readUInt64LE(offset) : this.readUInt64BE(offset));
+    }
+
+    /**
+     * Peeks an UInt64 value from the current read position as a Number, in the SmartBuffer's endianness, without moving the read offset.
+     * Throws if the value is outside of the safe integer range.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekUInt64(offset?: number): number {
+        return this.peekValue('peekUInt64', () => this.readUInt64(), offset);
+    }
+
+    /**
+     * Writes an UInt64 value to the current write position (or at optional offset), in the SmartBuffer's endianness.
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeUInt64(value: number, offset?: number): SmartBuffer {
+        return this.traceAs('writeUInt64', () =>
+            this.endian === 'LE' ? this.writeUInt64LE(value, offset) : this.writeUInt64BE(value, offset));
+    }
+
+    /**
+     * Inserts an UInt64 value at the given offset, in the SmartBuffer's endianness, shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertUInt64(value: number, offset: number): SmartBuffer {
+        return this.traceAs('insertUInt64', () =>
+            this.endian === 'LE' ? this.insertUInt64LE(value, offset) : this.insertUInt64BE(value, offset));
+    }
+
+    /**
+     * Overwrites an UInt64 value at the given offset, in the SmartBuffer's endianness, without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setUInt64(value: number, offset: number): SmartBuffer {
+        return this.traceAs('setUInt64', () => this.endian === 'LE' ? this.setUInt64LE(value, offset) : this.setUInt64BE(value, offset));
+    }
+
+    /**
+     * Reads an Int value of the given byte length (1-6) from the current read position, in the SmartBuffer's endianness.
+     * 
+     * @param byteLength { Number } The number of bytes to read.
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readInt(byteLength: number, offset?: number): number {
+        return this.traceAs('readInt', () =>
+            this.endian === 'LE' ? this.readIntLE(byteLength, offset) : this.readIntBE(byteLength, offset));
+    }
+
+    /**
+     * Peeks an Int value of the given byte length (1-6) from the current read position, in the SmartBuffer's endianness,
+     * without moving the read offset.
+     * 
+     * @param byteLength { Number } The number of bytes to read.
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekInt(byteLength: number, offset?: number): number {
+        return this.peekValue('peekInt', () => this.readInt(byteLength), offset);
+    }
+
+    /**
+     * Writes an Int value of the given byte length (1-6) to the current write position (or at optional offset),
+     * in the SmartBuffer's endianness.
+     * 
+     * @param value { Number } The value to write.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeInt(value: number, byteLength: number, offset?: number): SmartBuffer {
+        return this.traceAs('writeInt', () =>
+            this.endian === 'LE' ? this.writeIntLE(value, byteLength, offset) : this.writeIntBE(value, byteLength, offset));
+    }
+
+    /**
+     * Inserts an Int value of the given byte length (1-6) at the given offset, in the SmartBuffer's endianness,
+     * shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to insert.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertInt(value: number, byteLength: number, offset: number): SmartBuffer {
+        return this.traceAs('insertInt', () =>
+            this.endian === 'LE' ? this.insertIntLE(value, byteLength, offset) : this.insertIntBE(value, byteLength, offset));
+    }
+
+    /**
+     * Overwrites an Int value of the given byte length (1-6) at the given offset, in the SmartBuffer's endianness,
+     * without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setInt(value: number, byteLength: number, offset: number): SmartBuffer {
+        return this.traceAs('setInt', () =>
+            this.endian === 'LE' ? this.setIntLE(value, byteLength, offset) : this.setIntBE(value, byteLength, offset));
+    }
+
+    /**
+     * Reads an UInt value of the given byte length (1-6) from the current read position, in the SmartBuffer's endianness.
+     * 
+     * @param byteLength { Number } The number of bytes to read.
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readUInt(byteLength: number, offset?: number): number {
+        return this.traceAs('readUInt', () =>
+            this.endian === 'LE' ? this.readUIntLE(byteLength, offset) : this.readUIntBE(byteLength, offset));
+    }
+
+    /**
+     * Peeks an UInt value of the given byte length (1-6) from the current read position, in the SmartBuffer's endianness,
+     * without moving the read offset.
+     * 
+     * @param byteLength { Number } The number of bytes to read.
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekUInt(byteLength: number, offset?: number): number {
+        return this.peekValue('peekUInt', () => this.readUInt(byteLength), offset);
+    }
+
+    /**
+     * Writes an UInt value of the given byte length (1-6) to the current write position (or at optional offset),
+     * in the SmartBuffer's endianness.
+     * 
+     * @param value { Number } The value to write.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeUInt(value: number, byteLength: number, offset?: number): SmartBuffer {
+        return this.traceAs('writeUInt', () =>
+            this.endian === 'LE' ? this.writeUIntLE(value, byteLength, offset) : this.writeUIntBE(value, byteLength, offset));
+    }
+
+    /**
+     * Inserts an UInt value of the given byte length (1-6) at the given offset, in the SmartBuffer's endianness,
+     * shifting the data that follows it forward.
+     * 
+     * @param value { Number } The value to insert.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to insert the value at.
+     * 
+     * @return this
+     */
+    insertUInt(value: number, byteLength: number, offset: number): SmartBuffer {
+        return this.traceAs('insertUInt', () =>
+            this.endian === 'LE' ? this.insertUIntLE(value, byteLength, offset) : this.insertUIntBE(value, byteLength, offset));
+    }
+
+    /**
+     * Overwrites an UInt value of the given byte length (1-6) at the given offset, in the SmartBuffer's endianness,
+     * without shifting data or moving the write offset.
+     * 
+     * @param value { Number } The value to write.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    setUInt(value: number, byteLength: number, offset: number): SmartBuffer {
+        return this.traceAs('setUInt', () =>
+            this.endian === 'LE' ? this.setUIntLE(value, byteLength, offset) : this.setUIntBE(value, byteLength, offset));
+    }
+
+
+    // Varints
+
+    /**
+     * Reads an unsigned LEB128 varint from the current read position.
+     * Throws if the varint is truncated, overlong, or larger than Number.MAX_SAFE_INTEGER.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readVarUInt(offset?: number): number {
+        if (typeof offset === 'number') {
+            return this.peekValue('readVarUInt', () => this.readVarUInt(), offset);
+        }
+
+        const byteLength = this.getVarIntByteLength(MAX_VARINT_BYTES);
+        let value = 0;
+
+        for (let i = 0; i < byteLength; i++) {
+            value += (this.storage.byteAt(this._readOffset + i) & 0x7F) * Math.pow(2, i * 7);
+        }
+
+        if (!Number.isSafeInteger(value)) {
+            throw new SmartBufferFormatError('Varint value is larger than Number.MAX_SAFE_INTEGER. Use readBigVarUInt() instead.',
+                this._readOffset);
+        }
+
+        if (this.tracing) {
+            this._trace.record('readVarUInt', this._readOffset, byteLength, value);
+        }
+        this._readOffset += byteLength;
+        return value;
+    }
+
+    /**
+     * Peeks an unsigned LEB128 varint from the current read position, without moving the read offset.
+     * Throws if the varint is truncated, overlong, or larger than Number.MAX_SAFE_INTEGER.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekVarUInt(offset?: number): number {
+        return this.peekValue('peekVarUInt', () => this.readVarUInt(), offset);
+    }
+
+    /**
+     * Reads a signed LEB128 varint from the current read position.
+     * Throws if the varint is truncated, overlong, or outside of the safe integer range.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readVarInt(offset?: number): number {
+        if (typeof offset === 'number') {
+            return this.peekValue('readVarInt', () => this.readVarInt(), offset);
+        }
+
+        const byteLength = this.getVarIntByteLength(MAX_VARINT_BYTES);
+        const negative = (this.storage.byteAt(this._readOffset + byteLength - 1) & 0x40) !== 0;
+        let value = 0;
+
+        // Negative values are decoded from their complement so the result stays exact.
+        for (let i = 0; i < byteLength; i++) {
+            const byte = this.storage.byteAt(this._readOffset + i);
+            value += ((negative ? ~byte : byte) & 0x7F) * Math.pow(2, i * 7);
+        }
+
+        if (negative) {
+            value = -value - 1;
+        }
+
+        if (!Number.isSafeInteger(value)) {
+            throw new SmartBufferFormatError('Varint value is outside of the safe integer range. Use readBigVarInt() instead.',
+                this._readOffset);
+        }
+
+        if (this.tracing) {
+            this._trace.record('readVarInt', this._readOffset, byteLength, value);
+        }
+        this._readOffset += byteLength;
+        return value;
+    }
+
+    /**
+     * Peeks a signed LEB128 varint from the current read position, without moving the read offset.
+     * Throws if the varint is truncated, overlong, or outside of the safe integer range.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekVarInt(offset?: number): number {
+        return this.peekValue('peekVarInt', () => this.readVarInt(), offset);
+    }
+
+    /**
+     * Reads a zigzag encoded signed varint (Protobuf sint32/sint64) from the current read position.
+     * Throws if the varint is truncated, overlong, or outside of the safe integer range.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readZigZagVarInt(offset?: number): number {
+        if (typeof offset === 'number') {
+            return this.peekValue('readZigZagVarInt', () => this.readZigZagVarInt(), offset);
+        }
+
+        const byteLength = this.getVarIntByteLength(MAX_VARINT_BYTES);
+        const first = this.storage.byteAt(this._readOffset);
+
+        // The zigzag value is halved while decoding so the result stays exact.
+        let value = (first & 0x7F) >>> 1;
+        for (let i = 1; i < byteLength; i++) {
+            value += (this.storage.byteAt(this._readOffset + i) & 0x7F) * Math.pow(2, i * 7 - 1);
+        }
+
+        if (first & 0x01) {
+            value = -value - 1;
+        }
+
+        if (!Number.isSafeInteger(value)) {
+            throw new SmartBufferFormatError('Varint value is outside of the safe integer range. Use readBigZigZagVarInt() instead.',
+                this._readOffset);
+        }
+
+        if (this.tracing) {
+            this._trace.record('readZigZagVarInt', this._readOffset, byteLength, value);
+        }
+        this._readOffset += byteLength;
+        return value;
+    }
+
+    /**
+     * Peeks a zigzag encoded signed varint (Protobuf sint32/sint64) from the current read position, without moving the read offset.
+     * Throws if the varint is truncated, overlong, or outside of the safe integer range.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekZigZagVarInt(offset?: number): number {
+        return this.peekValue('peekZigZagVarInt', () => this.readZigZagVarInt(), offset);
+    }
+
+    /**
+     * Reads a QUIC (RFC 9000) varint from the current read position.
+     * Throws if the varint is truncated or larger than Number.MAX_SAFE_INTEGER.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number }
+     */
+    readQuicVarInt(offset?: number): number {
+        if (typeof offset === 'number') {
+            return this.peekValue('readQuicVarInt', () => this.readQuicVarInt(), offset);
+        }
+
+        const byteLength = this.getQuicVarIntByteLength();
+        let value = this.storage.byteAt(this._readOffset) & 0x3F;
+
+        for (let i = 1; i < byteLength; i++) {
+            value = value * 0x100 + this.storage.byteAt(this._readOffset + i);
+        }
+
+        if (!Number.isSafeInteger(value)) {
+            throw new SmartBufferFormatError('Varint value is larger than Number.MAX_SAFE_INTEGER. Use readBigQuicVarInt() instead.',
+                this._readOffset);
+        }
+
+        if (this.tracing) {
+            this._trace.record('readQuicVarInt', this._readOffset, byteLength, value);
+        }
+        this._readOffset += byteLength;
+        return value;
+    }
+
+    /**
+     * Peeks a QUIC (RFC 9000) varint from the current read position, without moving the read offset.
+     * Throws if the varint is truncated or larger than Number.MAX_SAFE_INTEGER.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Number }
+     */
+    peekQuicVarInt(offset?: number): number {
+        return this.peekValue('peekQuicVarInt', () => this.readQuicVarInt(), offset);
+    }
+
+    /**
+     * Writes an unsigned LEB128 varint to the current write position (or at optional offset).
+     * 
+     * @param value { Number } The value to write (must be a non-negative safe integer).
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeVarUInt(value: number, offset?: number): SmartBuffer {
+        if (!(Number.isSafeInteger(value) && value >= 0)) {
+            throw new SmartBufferArgumentError('Invalid value provided. Value must be a non-negative safe integer.', 'value', value);
+        }
+
+        return this.traceWrite('writeVarUInt', value, offset, () => this.writeBuffer(encodeVarUInt(value), offset));
+    }
+
+    /**
+     * Writes a signed LEB128 varint to the current write position (or at optional offset).
+     * 
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeVarInt(value: number, offset?: number): SmartBuffer {
+        if (!Number.isSafeInteger(value)) {
+            throw new SmartBufferArgumentError('Invalid value provided. Value must be a safe integer.', 'value', value);
+        }
+
+        const bytes: number[] = [];
+        let remaining = value;
+
+        while (true) {
+            const byte = ((remaining % 0x80) + 0x80) % 0x80;
+            remaining = Math.floor(remaining / 0x80);
+
+            if ((remaining === 0 && !(byte & 0x40)) || (remaining === -1 && (byte & 0x40))) {
+                bytes.push(byte);
+                break;
+            }
+            bytes.push(byte | 0x80);
+        }
+
+        return this.traceWrite('writeVarInt', value, offset, () => this.writeBuffer(BufferBackend.from(bytes), offset));
+    }
+
+    /**
+     * Writes a zigzag encoded signed varint (Protobuf sint32/sint64) to the current write position (or at optional offset).
+     * 
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeZigZagVarInt(value: number, offset?: number): SmartBuffer {
+        if (!Number.isSafeInteger(value)) {
+            throw new SmartBufferArgumentError('Invalid value provided. Value must be a safe integer.', 'value', value);
+        }
+
+        // The first byte is built separately so the doubled zigzag value never has to be represented.
+        const magnitude = value < 0 ? -value - 1 : value;
+        const first = (magnitude % 0x40) * 2 + (value < 0 ? 1 : 0);
+        const rest = Math.floor(magnitude / 0x40);
+
+        const bytes = rest === 0 ? BufferBackend.from([first]) : encodeVarUInt(rest, [first | 0x80]);
+
+        return this.traceWrite('writeZigZagVarInt', value, offset, () => this.writeBuffer(bytes, offset));
+    }
+
+    /**
+     * Writes a QUIC (RFC 9000) varint to the current write position (or at optional offset).
+     * The shortest encoding that fits the value is used.
+     * 
+     * @param value { Number } The value to write (must be a non-negative safe integer).
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeQuicVarInt(value: number, offset?: number): SmartBuffer {
+        if (!(Number.isSafeInteger(value) && value >= 0)) {
+            throw new SmartBufferArgumentError('Invalid value provided. Value must be a non-negative safe integer.', 'value', value);
+        }
+
+        const byteLength = value < 0x40 ? 1 : value < 0x4000 ? 2 : value < 0x40000000 ? 4 : 8;
+        const bytes = BufferBackend.alloc(byteLength);
+        let remaining = value;
+
+        for (let i = byteLength - 1; i >= 0; i--) {
+            bytes[i] = remaining % 0x100;
+            remaining = Math.floor(remaining / 0x100);
+        }
+        bytes[0] |= Math.log2(byteLength) << 6;
+
+        return this.traceWrite('writeQuicVarInt', value, offset, () => this.writeBuffer(bytes, offset));
+    }
+
+    /**
+     * Reads an unsigned LEB128 varint of up to 64 bits from the current read position.
+     * Throws if the varint is truncated, overlong, or larger than 64 bits.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { BigInt }
+     */
+    readBigVarUInt(offset?: number): bigint {
+        if (typeof offset === 'number') {
+            return this.peekValue('readBigVarUInt', () => this.readBigVarUInt(), offset);
+        }
+
+        const byteLength = this.getVarIntByteLength(MAX_BIG_VARINT_BYTES);
+        let value = BigInt(0);
+
+        for (let i = 0; i < byteLength; i++) {
+            value |= BigInt(this.storage.byteAt(this._readOffset + i) & 0x7F) << BigInt(i * 7);
+        }
+
+        if (BigInt.asUintN(64, value) !== value) {
+            throw new SmartBufferFormatError('Varint value is larger than 64 bits.', this._readOffset);
+        }
+
+        if (this.tracing) {
+            this._trace.record('readBigVarUInt', this._readOffset, byteLength, value);
+        }
+        this._readOffset += byteLength;
+        return value;
+    }
+
+    /**
+     * Peeks an unsigned LEB128 varint of up to 64 bits from the current read position, without moving the read offset.
+     * Throws if the varint is truncated, overlong, or larger than 64 bits.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { BigInt }
+     */
+    peekBigVarUInt(offset?: number): bigint {
+        return this.peekValue('peekBigVarUInt', () => this.readBigVarUInt(), offset);
+    }
+
+    /**
+     * Reads a signed LEB128 varint of up to 64 bits from the current read position.
+     * Throws if the varint is truncated, overlong, or outside of the 64 bit signed range.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { BigInt }
+     */
+    readBigVarInt(offset?: number): bigint {
+        if (typeof offset === 'number') {
+            return this.peekValue('readBigVarInt', () => this.readBigVarInt(), offset);
+        }
+
+        const byteLength = this.getVarIntByteLength(MAX_BIG_VARINT_BYTES);
+        let value = BigInt(0);
+
+        for (let i = 0; i < byteLength; i++) {
+            value |= BigInt(this.storage.byteAt(this._readOffset + i) & 0x7F) << BigInt(i * 7);
+        }
+
+        if (this.storage.byteAt(this._readOffset + byteLength - 1) & 0x40) {
+            value -= BigInt(1) << BigInt(byteLength * 7);
+        }
+
+        if (BigInt.asIntN(64, value) !== value) {
+            throw new SmartBufferFormatError('Varint value is outside of the 64 bit signed integer range.', this._readOffset);
+        }
+
+        if (this.tracing) {
+            this._trace.record('readBigVarInt', this._readOffset, byteLength, value);
+        }
+        this._readOffset += byteLength;
+        return value;
+    }
+
+    /**
+     * Peeks a signed LEB128 varint of up to 64 bits from the current read position, without moving the read offset.
+     * Throws if the varint is truncated, overlong, or outside of the 64 bit signed range.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { BigInt }
+     */
+    peekBigVarInt(offset?: number): bigint {
+        return this.peekValue('peekBigVarInt', () => this.readBigVarInt(), offset);
+    }
+
+    /**
+     * Reads a zigzag encoded signed varint of up to 64 bits from the current read position.
+     * Throws if the varint is truncated, overlong, or larger than 64 bits.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { BigInt }
+     */
+    readBigZigZagVarInt(offset?: number): bigint {
+        if (typeof offset === 'number') {
+            return this.peekValue('readBigZigZagVarInt', () => this.readBigZigZagVarInt(), offset);
+        }
+
+        return this.traceRead('readBigZigZagVarInt', () => {
+            const value = this.readBigVarUInt();
+            return (value >> BigInt(1)) ^ -(value & BigInt(1));
+        });
+    }
+
+    /**
+     * Peeks a zigzag encoded signed varint of up to 64 bits from the current read position, without moving the read offset.
+     * Throws if the varint is truncated, overlong, or larger than 64 bits.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { BigInt }
+     */
+    peekBigZigZagVarInt(offset?: number): bigint {
+        return this.peekValue('peekBigZigZagVarInt', () => this.readBigZigZagVarInt(), offset);
+    }
+
+    /**
+     * Reads a QUIC (RFC 9000) varint from the current read position.
+     * Throws if the varint is truncated.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { BigInt }
+     */
+    readBigQuicVarInt(offset?: number): bigint {
+        if (typeof offset === 'number') {
+            return this.peekValue('readBigQuicVarInt', () => this.readBigQuicVarInt(), offset);
+        }
+
+        const byteLength = this.getQuicVarIntByteLength();
+        let value = BigInt(this.storage.byteAt(this._readOffset) & 0x3F);
+
+        for (let i = 1; i < byteLength; i++) {
+            value = (value << BigInt(8)) | BigInt(this.storage.byteAt(this._readOffset + i));
+        }
+
+        if (this.tracing) {
+            this._trace.record('readBigQuicVarInt', this._readOffset, byteLength, value);
+        }
+        this._readOffset += byteLength;
+        return value;
+    }
+
+    /**
+     * Peeks a QUIC (RFC 9000) varint from the current read position, without moving the read offset.
+     * Throws if the varint is truncated.
+     * 
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { BigInt }
+     */
+    peekBigQuicVarInt(offset?: number): bigint {
+        return this.peekValue('peekBigQuicVarInt', () => this.readBigQuicVarInt(), offset);
+    }
+
+    /**
+     * Writes an unsigned LEB128 varint of up to 64 bits to the current write position (or at optional offset).
+     * 
+     * @param value { BigInt } The value to write (must fit in 64 unsigned bits).
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeBigVarUInt(value: bigint, offset?: number): SmartBuffer {
+        if (typeof value !== 'bigint' || BigInt.asUintN(64, value) !== value) {
+            throw new SmartBufferArgumentError('Invalid value provided. Value must be a BigInt that fits in 64 unsigned bits.',
+                'value', value);
+        }
+
+        return this.traceWrite('writeBigVarUInt', value, offset, () => this.writeBuffer(encodeBigVarUInt(value), offset));
+    }
+
+    /**
+     * Writes a signed LEB128 varint of up to 64 bits to the current write position (or at optional offset).
+     * 
+     * @param value { BigInt } The value to write (must fit in 64 signed bits).
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeBigVarInt(value: bigint, offset?: number): SmartBuffer {
+        if (typeof value !== 'bigint' || BigInt.asIntN(64, value) !== value) {
+            throw new SmartBufferArgumentError('Invalid value provided. Value must be a BigInt that fits in 64 signed bits.',
+                'value', value);
+        }
+
+        const bytes: number[] = [];
+        let remaining = value;
+
+        while (true) {
+            const byte = Number(remaining & BigInt(0x7F));
+            remaining >>= BigInt(7);
+
+            if ((remaining === BigInt(0) && !(byte & 0x40)) || (remaining === BigInt(-1) && (byte & 0x40))) {
+                bytes.push(byte);
+                break;
+            }
+            bytes.push(byte | 0x80);
+        }
+
+        return this.traceWrite('writeBigVarInt', value, offset, () => this.writeBuffer(BufferBackend.from(bytes), offset));
+    }
+
+    /**
+     * Writes a zigzag encoded signed varint of up to 64 bits to the current write position (or at optional offset).
+     * 
+     * @param value { BigInt } The value to write (must fit in 64 signed bits).
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeBigZigZagVarInt(value: bigint, offset?: number): SmartBuffer {
+        if (typeof value !== 'bigint' || BigInt.asIntN(64, value) !== value) {
+            throw new SmartBufferArgumentError('Invalid value provided. Value must be a BigInt that fits in 64 signed bits.',
+                'value', value);
+        }
+
+        const bytes = encodeBigVarUInt(BigInt.asUintN(64, (value << BigInt(1)) ^ (value >> BigInt(63))));
+
+        return this.traceWrite('writeBigZigZagVarInt', value, offset, () => this.writeBuffer(bytes, offset));
+    }
+
+    /**
+     * Writes a QUIC (RFC 9000) varint to the current write position (or at optional offset).
+     * The shortest encoding that fits the value is used.
+     * 
+     * @param value { BigInt } The value to write (must be between 0 and 2^62 - 1).
+     * @param offset { Number } The offset to write the value at.
+     * 
+     * @return this
+     */
+    writeBigQuicVarInt(value: bigint, offset?: number): SmartBuffer {
+        if (typeof value !== 'bigint' || BigInt.asUintN(62, value) !== value) {
+            throw new SmartBufferArgumentError('Invalid value provided. Value must be a BigInt between 0 and 2^62 - 1.', 'value', value);
+        }
+
+        if (value < BigInt(0x40000000)) {
+            return this.traceWrite('writeBigQuicVarInt', value, offset, () => this.writeQuicVarInt(Number(value), offset));
+        }
+
+        const bytes = BufferBackend.alloc(8);
+        bytes.writeBigUInt64BE(value, 0);
+        bytes[0] |= 0xC0;
+
+        return this.traceWrite('writeBigQuicVarInt', value, offset, () => this.writeBuffer(bytes, offset));
+    }
+
+
+    // Strings
+
+    /**
+     * Reads a String from the current read position.
+     * Throws if an offset is given (or the SmartBuffer is strict) and the data ends before offset + length.
+     * 
+     * @param length { Number } The number of bytes to read as a String.
+     * @param arg2 { Number | String } The offset to read from (the read offset is not moved), or the BufferEncoding to use.
+     * @param encoding { String } The BufferEncoding to use for the string (Defaults to instance level encoding).
+     * 
+     * @return { String }
+     */
+    readString(length?: number, arg2?: number | BufferEncoding, encoding?: BufferEncoding): string {
+        if (typeof arg2 === 'number') {
+            // Unlike at the read position, a read at an explicit offset must be within the data.
+            this.ensureReadable(typeof length === 'number' ? length : 0, arg2);
+            return this.peekValue('readString', () => this.readString(length, encoding), arg2);
+        } else if (typeof arg2 === 'string') {
+            encoding = arg2;
+        }
+
+        if (this.strict && typeof length === 'number') {
+            this.ensureReadable(length);
+        }
+
+        const lengthVal = (typeof length === 'number') ? Math.min(length, this.length - this._readOffset) : this.length - this._readOffset;
+        const value = this.storage.slice(this._readOffset, this._readOffset + lengthVal).toString(encoding || this.encoding);
+
+        if (this.tracing) {
+            this._trace.record('readString', this._readOffset, lengthVal, value);
+        }
+        this._readOffset += lengthVal;
+        return value;
+    }
+
+    /**
+     * Peeks a String from the current read position (or the given offset), without moving the read offset.
+     * Throws if an offset is given (or the SmartBuffer is strict) and the data ends before offset + length.
+     * 
+     * @param length { Number } The number of bytes to read as a String.
+     * @param arg2 { Number | String } The offset to read from, or the BufferEncoding to use.
+     * @param encoding { String } The BufferEncoding to use for the string (Defaults to instance level encoding).
+     * 
+     * @return { String }
+     */
+    peekString(length?: number, arg2?: number | BufferEncoding, encoding?: BufferEncoding): string {
+        const offsetVal = typeof arg2 === 'number' ? arg2 : undefined;
+        const encodingVal = typeof arg2 === 'string' ? arg2 : encoding;
+
+        if (typeof offsetVal === 'number') {
+            this.ensureReadable(typeof length === 'number' ? length : 0, offsetVal);
+        }
+        return this.peekValue('peekString', () => this.readString(length, encodingVal), offsetVal);
+    }
+
+    /**
+     * Writes a String to the current write position.
+     * 
+     * @param value { String } The String value to write.
+     * @param arg2 { Number | String } The offset to write the string to, or the BufferEncoding to use.
+     * @param encoding { String } The BufferEncoding to use for writing strings (defaults to instance encoding).
+     */
+    writeString(value: string, arg2?: number | BufferEncoding, encoding?: BufferEncoding) {
+        let offsetVal: number;
+        let encodingVal = this.encoding;
+
+        // Check for offset
+        if (typeof arg2 === 'number') {
+            offsetVal = arg2;
+        // Check for encoding
+        } else if (typeof arg2 === 'string') {
+            if (BufferBackend.isEncoding(arg2)) {
+                encodingVal = arg2;
+            } else {
+                throw new SmartBufferEncodingError(arg2);
+            }
+        }
+
+        // Check for encoding (third param)
+        if (typeof encoding === 'string') {
+            if (BufferBackend.isEncoding(encoding)) {
+                encodingVal = encoding;
+            } else {
+                throw new SmartBufferEncodingError(encoding);
+            }
+        }
+
+        // Calculate bytelength of string.
+        const byteLength = BufferBackend.byteLength(value, encodingVal);
+        
+        // Ensure there is enough internal Buffer capacity.
+        const writeOffset = this.prepareWrite(byteLength, offsetVal);
+
+        // Write value, and adjust the internal Buffer offsets.
+        this.storage.writeString(value, writeOffset, byteLength, encodingVal);
+        this.commitWrite(byteLength, offsetVal);
+
+        if (this.tracing) {
+            this._trace.record('writeString', writeOffset, byteLength, value);
+        }
+        return this;
+    }
+
+    /**
+     * Inserts a String at the given offset, shifting the data that follows it forward.
+     * 
+     * @param value { String } The String value to insert.
+     * @param offset { Number } The offset to insert the string at.
+     * @param encoding { String } The BufferEncoding to use for writing strings (defaults to instance encoding).
+     */
+    insertString(value: string, offset: number, encoding?: BufferEncoding) {
+        validateOffset(offset);
+        this.ensurePosition(offset);
+        return this.traceWrite('insertString', value, offset, () => this.writeString(value, offset, encoding));
+    }
+
+    /**
+     * Overwrites a String at the given offset without shifting data or moving the write offset.
+     * 
+     * @param value { String } The String value to write.
+     * @param offset { Number } The offset to write the string at.
+     * @param encoding { String } The BufferEncoding to use for writing strings (defaults to instance encoding).
+     */
+    setString(value: string, offset: number, encoding?: BufferEncoding) {
+        const encodingVal = encoding || this.encoding;
+
+        if (!BufferBackend.isEncoding(encodingVal)) {
+            throw new SmartBufferEncodingError(encodingVal);
+        }
+
+        const byteLength = BufferBackend.byteLength(value, encodingVal);
+
+        // Ensure the string replaces existing data only.
+        this.ensureSettable(byteLength, offset);
+
+        this.storage.writeString(value, offset, byteLength, encodingVal);
+
+        if (this.tracing) {
+            this._trace.record('setString', offset, byteLength, value);
+        }
+        return this;
+    }
+
+    /**
+     * Reads a null-terminated String from the current read position.
+     * Throws if the SmartBuffer is strict and no null terminator is found.
+     * 
+     * @param arg1 { Number | String } The offset to read from (the read offset is not moved), or the BufferEncoding to use.
+     * @param encoding { String } The BufferEncoding to use for the string (Defaults to instance level encoding).
+     * 
+     * @return { String }
+     */
+    readStringNT(arg1?: number | BufferEncoding, encoding?: BufferEncoding): string {
+        if (typeof arg1 === 'number') {
+            return this.peekValue('readStringNT', () => this.readStringNT(encoding), arg1);
+        } else if (typeof arg1 === 'string') {
+            encoding = arg1;
+        }
+
+        // Set null character position to the end SmartBuffer instance.
+        let nullPos = this.length;
+
+        // Find next null character (if one is not found, default from above is used)
+        for (let i = this._readOffset; i < this.length; i++) {
+            if (this.storage.byteAt(i) === 0x00) {
+                nullPos = i;
+                break;
+            }
+        }
+
+        // Without a null terminator, strict reads throw instead of reading to the end of the data.
+        if (this.strict) {
+            this.ensureReadable(nullPos - this._readOffset + 1);
+        }
+
+        // Read string value
+        const value = this.storage.slice(this._readOffset, nullPos).toString(encoding || this.encoding);
+
+        if (this.tracing) {
+            this._trace.record('readStringNT', this._readOffset, Math.min(nullPos + 1, this.length) - this._readOffset, value);
+        }
+
+        // Increment internal Buffer read offset
+        this._readOffset = nullPos + 1;
+
+        return value;
+    }
+
+    /**
+     * Peeks a null-terminated String from the current read position (or the given offset), without moving the read offset.
+     * Throws if the SmartBuffer is strict and no null terminator is found.
+     * 
+     * @param arg1 { Number | String } The offset to read from, or the BufferEncoding to use.
+     * @param encoding { String } The BufferEncoding to use for the string (Defaults to instance level encoding).
+     * 
+     * @return { String }
+     */
+    peekStringNT(arg1?: number | BufferEncoding, encoding?: BufferEncoding): string {
+        const offsetVal = typeof arg1 === 'number' ? arg1 : undefined;
+        const encodingVal = typeof arg1 === 'string' ? arg1 : encoding;
+
+        return this.peekValue('peekStringNT', () => this.readStringNT(encodingVal), offsetVal);
+    }
+
+    /**
+     * Writes a null-terminated String to the current write position.
+     * 
+     * @param value { String } The String value to write.
+     * @param arg2 { Number | String } The offset to write the string to, or the BufferEncoding to use.
+     * @param encoding { String } The BufferEncoding to use for writing strings (defaults to instance encoding).
+     */
+    writeStringNT(value: string, offset?: number | BufferEncoding, encoding?: BufferEncoding) {
+        return this.traceWrite('writeStringNT', value, typeof offset === 'number' ? offset : undefined, () => {
+            // Write Values
+            this.writeString(value, offset, encoding);
+
+            if (typeof offset === 'number') {
+                this.writeUInt8(0x00, offset + BufferBackend.byteLength(value, encoding || this.encoding));
+            } else {
+                this.writeUInt8(0x00);
+            }
+            return this;
+        });
+    }
+
+    /**
+     * Inserts a null-terminated String at the given offset, shifting the data that follows it forward.
+     * 
+     * @param value { String } The String value to insert.
+     * @param offset { Number } The offset to insert the string at.
+     * @param encoding { String } The BufferEncoding to use for writing strings (defaults to instance encoding).
+     */
+    insertStringNT(value: string, offset: number, encoding?: BufferEncoding) {
+        validateOffset(offset);
+        this.ensurePosition(offset);
+        return this.traceWrite('insertStringNT', value, offset, () => this.writeStringNT(value, offset, encoding));
+    }
+
+    // Buffers
+
+    /**
+     * Reads a Buffer from the internal read position.
+     * Throws if an offset is given (or the SmartBuffer is strict) and the data ends before offset + length.
+     * 
+     * @param length { Number } The length of data to read as a Buffer.
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Buffer }
+     */
+    readBuffer(length?: number, offset?: number): Buffer {
+        if (typeof offset === 'number') {
+            // Unlike at the read position, a read at an explicit offset must be within the data.
+            this.ensureReadable(typeof length === 'number' ? length : 0, offset);
+            return this.peekValue('readBuffer', () => this.readBuffer(length), offset);
+        }
+
+        if (this.strict && typeof length === 'number') {
+            this.ensureReadable(length);
+        }
+
+        const lengthVal = typeof length === 'number' ? length : this.length;
+        const endPoint = Math.min(this.length, this._readOffset + lengthVal);
+
+        // Read buffer value
+        const value = this.storage.slice(this._readOffset, endPoint);
+
+        if (this.tracing) {
+            this._trace.record('readBuffer', this._readOffset, endPoint - this._readOffset, value);
+        }
+
+        // Increment internal Buffer read offset
+        this._readOffset = endPoint;
+        return value;
+    }
+
+    /**
+     * Peeks a Buffer from the current read position (or the given offset), without moving the read offset.
+     * Throws if an offset is given (or the SmartBuffer is strict) and the data ends before offset + length.
+     * 
+     * @param length { Number } The length of data to read as a Buffer.
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { Buffer }
+     */
+    peekBuffer(length?: number, offset?: number): Buffer {
+        if (typeof offset === 'number') {
+            this.ensureReadable(typeof length === 'number' ? length : 0, offset);
+        }
+        return this.peekValue('peekBuffer', () => this.readBuffer(length), offset);
+    }
+
+    /**
+     * Reads a copy of the data from the current read position. Unlike readBuffer(), the returned Buffer does not share
+     * memory with the SmartBuffer, so it stays valid when the SmartBuffer is modified.
+     * Throws if an offset is given (or the SmartBuffer is strict) and the data ends before offset + length.
+     * 
+     * @param length { Number } The number of bytes to read. If no value is given it will read the remaining data.
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Buffer }
+     */
+    readBufferCopy(length?: number, offset?: number): Buffer {
+        if (typeof offset === 'number') {
+            this.ensureReadable(typeof length === 'number' ? length : 0, offset);
+            return this.peekValue('readBufferCopy', () => this.readBufferCopy(length), offset);
+        }
+
+        return this.traceRead('readBufferCopy', () => BufferBackend.from(this.readBuffer(length)));
+    }
+
+    /**
+     * Writes a Buffer to the current write position.
+     * 
+     * @param value { Buffer } The Buffer to write.
+     * @param offset { Number } The offset to write the Buffer to.
+     */
+    writeBuffer(value: Buffer, offset?: number) {
+        // Ensure there is enough internal Buffer capacity.
+        const offsetVal = this.prepareWrite(value.length, offset);
+
+        // Write buffer value, and adjust the internal Buffer offsets.
+        this.storage.writeBuffer(value, offsetVal);
+        this.commitWrite(value.length, offset);
+
+        if (this.tracing) {
+            this._trace.record('writeBuffer', offsetVal, value.length, value);
+        }
+        return this;
+    }
+
+    /**
+     * Inserts a Buffer at the given offset, shifting the data that follows it forward.
+     * 
+     * @param value { Buffer } The Buffer to insert.
+     * @param offset { Number } The offset to insert the Buffer at.
+     */
+    insertBuffer(value: Buffer, offset: number) {
+        validateOffset(offset);
+        this.ensurePosition(offset);
+        return this.traceWrite('insertBuffer', value, offset, () => this.writeBuffer(value, offset));
+    }
+
+    /**
+     * Overwrites a Buffer at the given offset without shifting data or moving the write offset.
+     * 
+     * @param value { Buffer } The Buffer to write.
+     * @param offset { Number } The offset to write the Buffer at.
+     */
+    setBuffer(value: Buffer, offset: number) {
+        // Ensure the Buffer replaces existing data only.
+        this.ensureSettable(value.length, offset);
+
+        this.storage.writeBuffer(value, offset);
+
+        if (this.tracing) {
+            this._trace.record('setBuffer', offset, value.length, value);
+        }
+        return this;
+    }
+
+    /**
+     * Reads a null-terminated Buffer from the current read poisiton.
+     * Throws if the SmartBuffer is strict and no null terminator is found.
+     * 
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Buffer }
+     */
+    readBufferNT(offset?: number): Buffer {
+        if (typeof offset === 'number') {
+            return this.peekValue('readBufferNT', () => this.readBufferNT(), offset);
+        }
+
+        // Set null character position to the end SmartBuffer instance.
+        let nullPos = this.length;
+      
+        // Find next null character (if one is not found, default from above is used)
+        for (let i = this._readOffset; i < this.length; i++) {
+            if (this.storage.byteAt(i) === 0x00) {
+                nullPos = i;
+                break;
+            }
+        }
+
+        // Without a null terminator, strict reads throw instead of reading to the end of the data.
+        if (this.strict) {
+            this.ensureReadable(nullPos - this._readOffset + 1);
+        }
+
+        // Read value
+        const value = this.storage.slice(this._readOffset, nullPos);
+
+        if (this.tracing) {
+            this._trace.record('readBufferNT', this._readOffset, Math.min(nullPos + 1, this.length) - this._readOffset, value);
+        }
+
+        // Increment internal Buffer read offset
+        this._readOffset = nullPos + 1;
+        return value;
+    }
+
+    /**
+     * Writes a null-terminated Buffer to the current write position.
+     * 
+     * @param value { Buffer } The Buffer to write.
+     * @param offset { Number } The offset to write the Buffer to.
+     */
+    writeBufferNT(value: Buffer, offset?: number) {
+        return this.traceWrite('writeBufferNT', value, offset, () => {
+            // Write Values
+            this.writeBuffer(value, offset);
+
+            if (typeof offset === 'number') {
+                this.writeUInt8(0x00, offset + value.length);
+            } else {
+                this.writeUInt8(0x00);
+            }
+            return this;
+        });
+    }
+
+    /**
+     * Inserts a null-terminated Buffer at the given offset, shifting the data that follows it forward.
+     * 
+     * @param value { Buffer } The Buffer to insert.
+     * @param offset { Number } The offset to insert the Buffer at.
+     */
+    insertBufferNT(value: Buffer, offset: number) {
+        validateOffset(offset);
+        this.ensurePosition(offset);
+        return this.traceWrite('insertBufferNT', value, offset, () => this.writeBufferNT(value, offset));
+    }
+
+    // Length-prefixed Strings and Buffers
+
+    /**
+     * Reads a length-prefixed String from the current read position.
+     * 
+     * @param prefix { LengthPrefix } The type of the length prefix.
+     * @param arg2 { Number | String } The offset to read from (the read offset is not moved), or the BufferEncoding to use.
+     * @param encoding { String } The BufferEncoding to use for the string (Defaults to instance level encoding).
+     * 
+     * @return { String }
+     */
+    readStringPrefixed(prefix: LengthPrefix, arg2?: number | BufferEncoding, encoding?: BufferEncoding): string {
+        if (typeof arg2 === 'number') {
+            return this.peekValue('readStringPrefixed', () => this.readStringPrefixed(prefix, encoding), arg2);
+        } else if (typeof arg2 === 'string') {
+            encoding = arg2;
+        }
+
+        return this.traceRead('readStringPrefixed', () => this.readString(this.readLengthPrefix(prefix), encoding));
+    }
+
+    /**
+     * Writes a length-prefixed String to the current write position.
+     * 
+     * @param value { String } The String value to write.
+     * @param prefix { LengthPrefix } The type of the length prefix.
+     * @param encoding { String } The BufferEncoding to use for writing strings (defaults to instance encoding).
+     */
+    writeStringPrefixed(value: string, prefix: LengthPrefix, encoding?: BufferEncoding) {
+        const encodingVal = encoding || this.encoding;
+
+        if (!BufferBackend.isEncoding(encodingVal)) {
+            throw new SmartBufferEncodingError(encodingVal);
+        }
+
+        return this.traceWrite('writeStringPrefixed', value, undefined, () => {
+            this.writeLengthPrefix(BufferBackend.byteLength(value, encodingVal), prefix);
+            return this.writeString(value, encodingVal);
+        });
+    }
+
+    /**
+     * Reads a length-prefixed Buffer from the current read position.
+     * 
+     * @param prefix { LengthPrefix } The type of the length prefix.
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Buffer }
+     */
+    readBufferPrefixed(prefix: LengthPrefix, offset?: number): Buffer {
+        if (typeof offset === 'number') {
+            return this.peekValue('readBufferPrefixed', () => this.readBufferPrefixed(prefix), offset);
+        }
+
+        return this.traceRead('readBufferPrefixed', () => this.readBuffer(this.readLengthPrefix(prefix)));
+    }
+
+    /**
+     * Writes a length-prefixed Buffer to the current write position.
+     * 
+     * @param value { Buffer } The Buffer to write.
+     * @param prefix { LengthPrefix } The type of the length prefix.
+     */
+    writeBufferPrefixed(value: Buffer, prefix: LengthPrefix) {
+        return this.traceWrite('writeBufferPrefixed', value, undefined, () => {
+            this.writeLengthPrefix(value.length, prefix);
+            return this.writeBuffer(value);
+        });
+    }
+
+    // Fixed-width Strings
+
+    /**
+     * Reads a String from a fixed-width field at the current read position, cutting it at its first NUL (so anything after a
+     * NUL terminator is ignored) and removing trailing space padding. Throws if less than width bytes are remaining.
+     * 
+     * @param width { Number } The width of the field in bytes.
+     * @param options { ReadStringFixedOptions } The trim and encoding options.
+     * 
+     * @return { String }
+     */
+    readStringFixed(width: number, options: ReadStringFixedOptions = {}): string {
+        const encodingVal = options.encoding || this.encoding;
+
+        if (!(Number.isInteger(width) && width >= 0)) {
+            throw new SmartBufferArgumentError('Invalid width provided. Width must be a non-negative integer.', 'width', width);
+        }
+        if (!BufferBackend.isEncoding(encodingVal)) {
+            throw new SmartBufferEncodingError(encodingVal);
+        }
+        this.ensureReadable(width);
+
+        return this.traceRead('readStringFixed', () => {
+            const value = this.readString(width, encodingVal);
+            if (options.trim === false) {
+                return value;
+            }
+
+            const nul = value.indexOf('\0');
+            return (nul === -1 ? value : value.slice(0, nul)).replace(FIXED_STRING_PADDING, '');
+        });
+    }
+
+    /**
+     * Writes a String to a fixed-width field at the current write position, padding it to the width. Strings longer than
+     * the width throw an error, or are cut without splitting a multi-byte character (and padded) when truncate is cut. The
+     * padding is repeated as long as it fits whole, and the bytes left at the end of the field are filled with NULs.
+     * 
+     * @param value { String } The String value to write.
+     * @param width { Number } The width of the field in bytes.
+     * @param options { WriteStringFixedOptions } The pad, encoding and truncate options.
+     */
+    writeStringFixed(value: string, width: number, options: WriteStringFixedOptions = {}) {
+        const encodingVal = options.encoding || this.encoding;
+        const truncate = options.truncate || 'error';
+
+        if (!(Number.isInteger(width) && width >= 0)) {
+            throw new SmartBufferArgumentError('Invalid width provided. Width must be a non-negative integer.', 'width', width);
+        }
+        if (!BufferBackend.isEncoding(encodingVal)) {
+            throw new SmartBufferEncodingError(encodingVal);
+        }
+        if (truncate !== 'error' && truncate !== 'cut') {
+            throw new SmartBufferArgumentError('Invalid truncate provided. Please specify error or cut.', 'truncate', truncate);
+        }
+
+        let pad: Buffer;
+        if (options.pad === undefined) {
+            pad = BufferBackend.alloc(1);
+        } else if (typeof options.pad === 'number' && Number.isInteger(options.pad) && options.pad >= 0 && options.pad <= 0xFF) {
+            pad = BufferBackend.from([options.pad]);
+        } else if (typeof options.pad === 'string' && options.pad.length > 0) {
+            pad = BufferBackend.from(options.pad, encodingVal);
+        } else {
+            throw new SmartBufferArgumentError('Invalid pad provided. Pad must be a non-empty String or a byte value.', 'pad', options.pad);
+        }
+
+        const bytes = BufferBackend.from(value, encodingVal);
+        let byteLength = bytes.length;
+
+        if (byteLength > width) {
+            if (truncate === 'error') {
+                throw new SmartBufferArgumentError(`Invalid value provided. The String is ${byteLength} bytes long, which does not fit ` +
+                    `in ${width} bytes.`, 'value', value);
+            }
+            byteLength = getCharBoundary(bytes, width, encodingVal);
+        }
+
+        // Fill the rest of the field with whole repeats of the padding, so a multi-byte pad is never split, and NULs after it.
+        const field = BufferBackend.alloc(width);
+        bytes.copy(field, 0, 0, byteLength);
+        const padEnd = width - (width - byteLength) % pad.length;
+        for (let i = byteLength; i < padEnd; i += pad.length) {
+            pad.copy(field, i);
+        }
+
+        return this.traceWrite('writeStringFixed', value, undefined, () => this.writeBuffer(field));
+    }
+
+    // Searching
+
+    /**
+     * Finds the first occurrence of a pattern in the data, starting at the given offset (or the current read position).
+     * 
+     * @param pattern { Buffer | String | Number } The pattern to find (a Buffer, a String, or a byte value).
+     * @param from { Number } The offset to start searching at (defaults to the current read position).
+     * @param encoding { String } The BufferEncoding of a String pattern (defaults to instance level encoding).
+     * 
+     * @return { Number } The offset of the pattern, or -1 if it was not found.
+     */
+    indexOf(pattern: Buffer | string | number, from?: number, encoding?: BufferEncoding): number {
+        const position = typeof from === 'number' ? from : this._readOffset;
+        const search = this.toSearchPattern(pattern, 'pattern', encoding);
+
+        this.ensurePosition(position);
+
+        // Only search the data, not the unused capacity of the internal Buffer.
+        return this.storage.indexOf(search, position, this.length);
+    }
+
+    /**
+     * Reads a Buffer from the current read position up to the next occurrence of a delimiter, and consumes the delimiter.
+     * Throws a SmartBufferOutOfBoundsError (and does not move the read offset) if the data ends before the delimiter.
+     * 
+     * @param delimiter { Buffer | String | Number } The delimiter to read until (a Buffer, a String, or a byte value).
+     * @param options { ReadUntilOptions } Whether to include the delimiter, the maximum length to read, and the encoding.
+     * 
+     * @return { Buffer }
+     */
+    readUntil(delimiter: Buffer | string | number, options: ReadUntilOptions = {}): Buffer {
+        const search = this.toSearchPattern(delimiter, 'delimiter', options.encoding);
+        const maxLength = options.maxLength;
+
+        if (search.length === 0) {
+            throw new SmartBufferArgumentError('Invalid delimiter provided. The delimiter must not be empty.', 'delimiter', delimiter);
+        }
+        validateMaxLength(maxLength);
+
+        const index = this.findDelimiter(search, maxLength);
+
+        // Read value
+        const value = this.storage.slice(this._readOffset, options.include ? index + search.length : index);
+
+        if (this.tracing) {
+            this._trace.record('readUntil', this._readOffset, index + search.length - this._readOffset, value);
+        }
+
+        // Move the read offset past the delimiter
+        this._readOffset = index + search.length;
+        return value;
+    }
+
+    /**
+     * Reads a String from the current read position up to the next occurrence of a delimiter, and consumes the delimiter.
+     * Throws a SmartBufferOutOfBoundsError (and does not move the read offset) if the data ends before the delimiter.
+     * 
+     * @param delimiter { Buffer | String | Number } The delimiter to read until (a Buffer, a String, or a byte value).
+     * @param options { ReadUntilOptions } Whether to include the delimiter, the maximum length to read, and the encoding.
+     * 
+     * @return { String }
+     */
+    readStringUntil(delimiter: Buffer | string | number, options: ReadUntilOptions = {}): string {
+        const encodingVal = options.encoding || this.encoding;
+
+        if (!BufferBackend.isEncoding(encodingVal)) {
+            throw new SmartBufferEncodingError(encodingVal);
+        }
+        return this.traceRead('readStringUntil', () => this.readUntil(delimiter, options).toString(encodingVal));
+    }
+
+    /**
+     * Reads a line ending in \n or \r\n from the current read position, and consumes the line ending.
+     * The line ending is not counted towards maxLength, and is only returned when include is set.
+     * 
+     * @param options { ReadUntilOptions } Whether to include the line ending, the maximum line length to read, and the encoding.
+     * 
+     * @return { String }
+     */
+    readLine(options: ReadUntilOptions = {}): string {
+        const encodingVal = options.encoding || this.encoding;
+        const maxLength = options.maxLength;
+
+        if (!BufferBackend.isEncoding(encodingVal)) {
+            throw new SmartBufferEncodingError(encodingVal);
+        }
+        validateMaxLength(maxLength);
+
+        // Allow for the carriage return of a \r\n line ending, which is not part of the line.
+        const index = this.findDelimiter(BufferBackend.from([0x0A]), maxLength, 1);
+        const end = index > this._readOffset && this.storage.byteAt(index - 1) === 0x0D ? index - 1 : index;
+
+        if (typeof maxLength === 'number' && end - this._readOffset > maxLength) {
+            throw new SmartBufferDelimiterError(maxLength, this._readOffset);
+        }
+
+        // Read value
+        const value = this.storage.slice(this._readOffset, options.include ? index + 1 : end).toString(encodingVal);
+
+        if (this.tracing) {
+            this._trace.record('readLine', this._readOffset, index + 1 - this._readOffset, value);
+        }
+
+        // Move the read offset past the line ending
+        this._readOffset = index + 1;
+        return value;
+    }
+
+    // Checksums
+
+    /**
+     * Computes a checksum over a range of the data.
+     * 
+     * @param algorithm { ChecksumAlgorithm } The checksum algorithm to use (crc32, adler32, internet or crc16).
+     * @param start { Number } The offset to start at (defaults to 0).
+     * @param end { Number } The offset to end at, exclusive (defaults to the length of the data).
+     * 
+     * @return { Number }
+     */
+    checksum(algorithm: ChecksumAlgorithm, start: number = 0, end: number = this.length): number {
+        if (!CHECKSUM_FUNCTIONS.hasOwnProperty(algorithm)) {
+            throw new SmartBufferArgumentError('Invalid checksum algorithm provided. Please specify crc32, adler32, internet or crc16.',
+                'algorithm', algorithm);
+        }
+        this.ensureRange(start, end);
+
+        const data = this.storage.slice(start, end);
+        return CHECKSUM_FUNCTIONS[algorithm](data, 0, data.length);
+    }
+
+    /**
+     * Computes a checksum over a range of the data, and writes it to the current write position (or at optional offset).
+     * CRC-32 and Adler-32 checksums are written as a UInt32 and CRC-16 checksums as a UInt16, in the SmartBuffer's endianness.
+     * Internet checksums are always written as a UInt16BE (network byte order).
+     * 
+     * @param algorithm { ChecksumAlgorithm } The checksum algorithm to use (crc32, adler32, internet or crc16).
+     * @param start { Number } The offset to start at.
+     * @param end { Number } The offset to end at (exclusive).
+     * @param offset { Number } The offset to write the checksum at.
+     * 
+     * @return this
+     */
+    writeChecksum(algorithm: ChecksumAlgorithm, start: number, end: number, offset?: number): SmartBuffer {
+        const checksum = this.checksum(algorithm, start, end);
+        const type = this.getChecksumType(algorithm);
+
+        this.writeNumberValue('writeChecksum', type.write, type.byteSize, checksum, offset);
+        return this;
+    }
+
+    /**
+     * Computes a checksum over a range of the data, and overwrites the checksum at the given offset with it, without shifting
+     * data or moving the write offset. Use this to patch a checksum field after the data it covers has been written.
+     * 
+     * @param algorithm { ChecksumAlgorithm } The checksum algorithm to use (crc32, adler32, internet or crc16).
+     * @param start { Number } The offset to start at.
+     * @param end { Number } The offset to end at (exclusive).
+     * @param offset { Number } The offset of the checksum to overwrite.
+     * 
+     * @return this
+     */
+    setChecksum(algorithm: ChecksumAlgorithm, start: number, end: number, offset: number): SmartBuffer {
+        const checksum = this.checksum(algorithm, start, end);
+        const type = this.getChecksumType(algorithm);
+
+        this.setNumberValue('setChecksum', type.write, type.byteSize, checksum, offset);
+        return this;
+    }
+
+    /**
+     * Reads a checksum from the current read position, and verifies it against the checksum computed over a range of the data.
+     * Throws a SmartBufferChecksumError (and does not move the read offset) if the checksums do not match.
+     * 
+     * @param algorithm { ChecksumAlgorithm } The checksum algorithm to use (crc32, adler32, internet or crc16).
+     * @param start { Number } The offset to start at.
+     * @param end { Number } The offset to end at (exclusive).
+     * @param offset { Number } The offset to read the checksum from. The read offset is not moved when an offset is provided.
+     * 
+     * @return { Number } The verified checksum.
+     */
+    verifyChecksum(algorithm: ChecksumAlgorithm, start: number, end: number, offset?: number): number {
+        const actual = this.checksum(algorithm, start, end);
+        const type = this.getChecksumType(algorithm);
+        const position = typeof offset === 'number' ? offset : this._readOffset;
+        const expected = this.readNumberValue('verifyChecksum', type.read, type.byteSize, position);
+
+        if (expected !== actual) {
+            throw new SmartBufferChecksumError(algorithm, expected, actual, start, end);
+        }
+
+        if (typeof offset !== 'number') {
+            this._readOffset += type.byteSize;
+        }
+        return actual;
+    }
+
+    /**
+     * Clears the SmartBuffer instance to its original empty state.
+     */
+    clear() {
+        this.ensureNotReadOnly();
+        this._writeOffset = 0;
+        this._readOffset = 0;
+        this.length = 0;
+        this.marks = [];
+        this.placeholders = [];
+    }
+	
+    /**
+     * Remove data from buffer. The buffer internal storage size remains the same, however the data following 
+	 * the offset will be back shifted. Data length, write/read offset will be fix if it became outside of 
+	 * the new data range.
+     * @param offset { number } Offset where to start removing data.
+     * @param length { number } Length to remove.
      */
-    writeString(value: string, arg2?: number | BufferEncoding, encoding?: BufferEncoding) {
-        let offsetVal = this.writeOffset;
-        let encodingVal = this.encoding;
+    remove(offset: number, length: number) {
+        this.ensureNotReadOnly();
+        offset = (offset || 0);
+        if (offset < 0 || offset > this._writeOffset) {
+            throw new SmartBufferRangeError('Offset position is beyond the bounds of the data.', offset, this._writeOffset);
+        }
+        if (offset + length > this.length) {
+            throw new SmartBufferRangeError('Remove position is beyond the bounds of the data.', offset + length, this.length);
+        }
+        this.ensurePlaceholdersOutside(offset, offset + length);
+        var startingOffsetBackShift = offset + length;
+        var endingBackShift = this.length;
+        this.storage.copyWithin(offset, startingOffsetBackShift, endingBackShift);
+        
+        this.length -= length;
+        this.movePlaceholders(offset, offset + length, -length);
 
-        // Check for offset
-        if (typeof arg2 === 'number') {
-            offsetVal = arg2;
-        // Check for encoding
-        } else if (typeof arg2 === 'string') {
-            if (Buffer.isEncoding(arg2)) {
-                encodingVal = arg2;
-            } else {
-                throw new Error('Invalid encoding provided. Please specify a valid encoding the internal Node.js Buffer supports.');
+        // Move marks after the removed data back with it, and marks within it to where it was removed.
+        this.marks = this.marks.map((mark) => mark > offset ? Math.max(mark - length, offset) : mark);
+        
+        if (this._writeOffset > this.length) {
+            this._writeOffset = this.length;
+        }
+        if (this._readOffset > this.length) {
+            this._readOffset = this.length;
+        }
+		return this;
+    }	
+
+    /**
+     * Discards the data that has already been read, shifting the remaining data to the start of the internal Buffer.
+     * The read offset is moved to zero, and the write offset is moved back by the amount of data discarded.
+     * Data after the earliest mark is kept (and the marks are moved with it), so reset() still returns to the same data.
+     */
+    compact() {
+        this.ensureNotReadOnly();
+        const consumed = Math.min(this._readOffset, ...this.marks);
+
+        if (consumed > 0) {
+            this.ensurePlaceholdersOutside(0, consumed);
+            this.storage.copyWithin(0, consumed, this.length);
+
+            this.length -= consumed;
+            this._readOffset -= consumed;
+            this._writeOffset = Math.max(this._writeOffset - consumed, 0);
+            this.marks = this.marks.map((mark) => mark - consumed);
+            this.movePlaceholders(0, consumed, -consumed);
+        }
+        return this;
+    }
+
+    /**
+     * Shrinks the internal Buffer to the length of the data.
+     */
+    shrinkToFit() {
+        this.ensureNotReadOnly();
+        this.storage.shrink(this.length);
+        return this;
+    }
+
+    /**
+     * Ensures that the internal Buffer has room for the given amount of data after the end of the data, so it does not
+     * have to grow while writing it.
+     * 
+     * @param length { Number } The amount of data to reserve room for.
+     */
+    reserve(length: number) {
+        this.ensureNotReadOnly();
+        if (!Number.isInteger(length) || length < 0) {
+            throw new SmartBufferArgumentError('Invalid length provided. Length must be a non-negative integer.', 'length', length);
+        }
+
+        this.ensureCapacity(this.length + length);
+        return this;
+    }
+
+    /**
+     * Writes a zeroed placeholder of the given numeric type at the current write position, for a field (such as a length or
+     * an offset) that is only known after the data that follows it has been written. The placeholder is filled later with
+     * the returned handle, which overwrites it in place without shifting data.
+     * 
+     * toBuffer() throws a SmartBufferPlaceholderError while a placeholder is unfilled. The placeholder moves with the data when
+     * data is inserted or removed before it (insertXXX(), remove() or compact()). Inserting, removing or overwriting data
+     * (other than with the handle) within an unfilled placeholder throws a SmartBufferPlaceholderError.
+     * 
+     * @param type { PlaceholderType } The numeric type of the placeholder. Int16, UInt16, Int32 and UInt32 use the endianness
+     * of the SmartBuffer.
+     * 
+     * @return { SmartBufferPlaceholder }
+     */
+    reservePlaceholder(type: PlaceholderType): SmartBufferPlaceholder {
+        const placeholder = new SmartBufferPlaceholder(this, resolvePlaceholderType(type, this._endian), this._writeOffset);
+
+        this.writeBuffer(BufferBackend.alloc(placeholder.byteSize));
+        this.placeholders.push(placeholder);
+        return placeholder;
+    }
+
+    /**
+     * Gets the remaining data left to be read from the SmartBuffer instance.
+     * 
+     * @return { Number }
+     */
+    remaining(): number {
+        return this.length - this._readOffset;
+    }
+
+    /**
+     * Moves the read offset forward.
+     * 
+     * @param amount { Number } The amount to move the read offset forward by (a non-negative integer).
+     */
+    skip(amount: number) {
+        validateAmount(amount);
+        this.readOffset = this._readOffset + amount;
+        return this;
+    }
+
+    /**
+     * Moves the read offset backwards.
+     * 
+     * @param amount { Number } The amount to move the read offset backwards by (a non-negative integer).
+     */
+    rewind(amount: number) {
+        validateAmount(amount);
+        this.readOffset = this._readOffset - amount;
+        return this;
+    }
+
+    /**
+     * Moves the read offset to a specific position.
+     * 
+     * @param position { Number } The position to move the read offset to.
+     */
+    skipTo(position: number) {
+        return this.moveTo(position);
+    }
+
+    /**
+     * Moves the read offset to a specific position.
+     * 
+     * @param position { Number } The position to move the read offset to.
+     */
+    moveTo(position: number) {
+        this.readOffset = position;
+        return this;
+    }
+
+    /**
+     * Marks the current read offset, so reset() can return to it. Marks are nested: each reset() or unmark() ends the most
+     * recent mark.
+     */
+    mark() {
+        this.marks.push(this._readOffset);
+        return this;
+    }
+
+    /**
+     * Moves the read offset back to the most recent mark, and removes the mark.
+     */
+    reset() {
+        if (this.marks.length === 0) {
+            throw new SmartBufferMarkError('No mark to reset to.');
+        }
+        this.readOffset = this.marks.pop();
+        return this;
+    }
+
+    /**
+     * Removes the most recent mark without moving the read offset (when the marked data was read successfully).
+     */
+    unmark() {
+        if (this.marks.length === 0) {
+            throw new SmartBufferMarkError('No mark to remove.');
+        }
+        this.marks.pop();
+        return this;
+    }
+
+    /**
+     * Calls a function that reads from this SmartBuffer, restoring the read offset if it throws.
+     * If the function throws a SmartBufferOutOfBoundsError (or a SmartBufferSchemaError caused by one), the incomplete value is
+     * returned instead. Any other error is thrown. Marks the function leaves behind are removed.
+     * 
+     * @param func { Function(buff: SmartBuffer) => T } The function to call with this SmartBuffer.
+     * @param incomplete { U } The value to return when the data runs out (defaults to undefined).
+     * 
+     * @return { T | U } The value returned by the function, or the incomplete value.
+     */
+    tryRead<T, U = undefined>(func: (buff: SmartBuffer) => T, incomplete?: U): T | U {
+        this.mark();
+        const depth = this.marks.length;
+
+        try {
+            const value = func(this);
+            this.marks.length = Math.min(this.marks.length, depth - 1);
+            return value;
+        } catch (err) {
+            this.marks.length = Math.min(this.marks.length, depth);
+            this.reset();
+
+            if (isIncompleteDataError(err)) {
+                return incomplete;
             }
+            throw err;
         }
+    }
 
-        // Check for encoding (third param)
-        if (typeof encoding === 'string') {
-            if (Buffer.isEncoding(encoding)) {
-                encodingVal = encoding;
-            } else {
-                throw new Error('Invalid encoding provided. Please specify a valid encoding the internal Node.js Buffer supports.');
+    /**
+     * Moves the write offset forward.
+     * 
+     * @param amount { Number } The amount to move the write offset forward by (a non-negative integer).
+     */
+    skipWrite(amount: number) {
+        validateAmount(amount);
+        this.writeOffset = this._writeOffset + amount;
+        return this;
+    }
+
+    /**
+     * Moves the write offset backwards.
+     * 
+     * @param amount { Number } The amount to move the write offset backwards by (a non-negative integer).
+     */
+    rewindWrite(amount: number) {
+        validateAmount(amount);
+        this.writeOffset = this._writeOffset - amount;
+        return this;
+    }
+
+    /**
+     * Moves the write offset to a specific position.
+     * 
+     * @param position { Number } The position to move the write offset to.
+     */
+    moveWriteTo(position: number) {
+        this.writeOffset = position;
+        return this;
+    }
+
+    /**
+     * Gets the value of the internal managed Buffer
+     * 
+     * @param { Buffer }
+     */
+    toBuffer(): Buffer {
+        const unfilled = this.placeholders.filter((placeholder) => !placeholder.filled);
+        if (unfilled.length > 0) {
+            throw new SmartBufferPlaceholderError(unfilled.map((placeholder) => placeholder.offset));
+        }
+        return this.storage.slice(0, this.length);
+    }
+
+    /**
+     * Gets the data as a Uint8Array. Like toBuffer(), it shares memory with the internal Buffer when possible.
+     * 
+     * @return { Uint8Array }
+     */
+    toUint8Array(): Uint8Array {
+        const value = this.toBuffer();
+        return new Uint8Array(value.buffer, value.byteOffset, value.length);
+    }
+
+    /**
+     * Gets a copy of the data as an ArrayBuffer.
+     * 
+     * @return { ArrayBuffer }
+     */
+    toArrayBuffer(): ArrayBuffer {
+        const value = this.toBuffer();
+        return <ArrayBuffer>value.buffer.slice(value.byteOffset, value.byteOffset + value.length);
+    }
+
+    /**
+     * Creates a read-only SmartBuffer view over a range of the data. The view shares memory with this SmartBuffer (nothing is
+     * copied), but has its own read offset, and its length is the length of the range. Writing to the view throws a
+     * SmartBufferReadOnlyError.
+     * 
+     * The view sees data that is overwritten in place in this SmartBuffer, also with chunked storage when the range spans
+     * chunks. It is invalidated by operations that shift the data (inserting, remove() and compact()) or replace the internal
+     * Buffer (growing beyond the capacity, reserve() and shrinkToFit()). Use readBufferCopy() to retain data instead.
+     * 
+     * @param start { Number } The offset the view starts at (defaults to 0).
+     * @param end { Number } The offset the view ends at, exclusive (defaults to the length of the data).
+     * 
+     * @return { SmartBuffer }
+     */
+    subarray(start: number = 0, end: number = this.length): SmartBuffer {
+        this.ensureRange(start, end);
+
+        // A slice of chunked storage is a copy when the range spans chunks, so chunked views read through the chunks instead.
+        const chunked = this.storage instanceof ChunkedStorage;
+        const view = new SmartBuffer(chunked ? BufferBackend.alloc(0) : this.storage.slice(start, end), this.encoding);
+
+        if (chunked) {
+            view.storage = new StorageView(this.storage, start, end);
+            view.length = end - start;
+        }
+        view._endian = this._endian;
+        view.strict = this.strict;
+        view._readOnly = true;
+        return view;
+    }
+
+    /**
+     * Gets the String value of the internal managed Buffer
+     * 
+     * @param encoding { String } The BufferEncoding to display the Buffer as (defaults to instance level encoding).
+     */
+    toString(encoding?: BufferEncoding) {
+        const encodingVal = typeof encoding === 'string' ? encoding : this.encoding;
+
+        if (BufferBackend.isEncoding(encodingVal)) {
+            return this.storage.slice(0, this.length).toString(encodingVal);
+        } else {
+            throw new SmartBufferEncodingError(encodingVal);
+        }
+    }
+
+    /**
+     * Formats the data (or a range of it) in the classic offset/hex/ASCII layout of hexdump -C for debugging. The read
+     * offset (r) and the write offset (w) are marked on a line below the bytes they point at.
+     * 
+     * @param options { HexdumpOptions } The width, range and cursor options.
+     * 
+     * @return { String }
+     */
+    hexdump(options: HexdumpOptions = {}): string {
+        const width = options.width === undefined ? DEFAULT_HEXDUMP_WIDTH : options.width;
+        const start = options.start === undefined ? 0 : options.start;
+        const end = options.end === undefined ? this.length : options.end;
+
+        if (!(Number.isInteger(width) && width > 0)) {
+            throw new SmartBufferArgumentError('Invalid width provided. Width must be an integer greater than zero.', 'width', width);
+        }
+        this.ensureRange(start, end);
+
+        const markers: HexdumpMarker[] = [];
+        if (options.cursors !== false) {
+            markers.push({ offset: this._readOffset, label: 'r' }, { offset: this._writeOffset, label: 'w' });
+        }
+
+        let notes: HexdumpNote[] = [];
+        if (options.trace === true && this._trace !== null) {
+            notes = this._trace.entries.map((entry) => ({ offset: entry.offset, text: formatTraceEntry(entry) }));
+        }
+        return formatHexdump(this.storage.slice(start, end), start, width, markers, notes);
+    }
+
+    /**
+     * Starts recording the reads and writes of numeric values, Strings and Buffers (the function, offset, byte length and
+     * value of each) into a new trace. Tracing adds no overhead while it is stopped.
+     */
+    startTrace() {
+        this._trace = new SmartBufferTrace();
+        this.tracing = true;
+        return this;
+    }
+
+    /**
+     * Stops recording reads and writes. The trace stays available until the next startTrace().
+     * 
+     * @return { SmartBufferTrace }
+     */
+    stopTrace(): SmartBufferTrace {
+        this.tracing = false;
+        return this._trace;
+    }
+
+    /**
+     * Stops recording reads and writes, and discards the trace.
+     */
+    clearTrace() {
+        this.tracing = false;
+        this._trace = null;
+        return this;
+    }
+
+    /**
+     * Labels the next recorded read or write, such as with the name of the field it belongs to. Does nothing while
+     * tracing is stopped.
+     * 
+     * @param label { String } The label.
+     */
+    annotate(label: string) {
+        if (this.tracing) {
+            this._trace.annotate(label);
+        }
+        return this;
+    }
+
+    /**
+     * Gets a summary of the SmartBuffer (its length, capacity, offsets, encoding and the first bytes of the data) for
+     * util.inspect() and console.log().
+     * 
+     * @return { String }
+     */
+    [INSPECT_CUSTOM](): string {
+        let preview = this.storage.slice(0, Math.min(this.length, INSPECT_MAX_BYTES)).toString('hex').replace(/(..)(?!$)/g, '$1 ');
+        if (this.length > INSPECT_MAX_BYTES) {
+            preview += ` ... ${this.length - INSPECT_MAX_BYTES} more bytes`;
+        }
+
+        return `SmartBuffer { length: ${this.length}, capacity: ${this.capacity}, readOffset: ${this._readOffset}, ` +
+            `writeOffset: ${this._writeOffset}, encoding: '${this.encoding}', endian: '${this._endian}', data: <${preview}> }`;
+    }
+
+    /**
+     * Destroys the SmartBuffer instance. SmartBuffers acquired from a SmartBufferPool are returned to it, and must not be used
+     * afterwards.
+     */
+    destroy() {
+        this.clear();
+        releaseToPool(this);
+    }
+
+    /**
+     * Finds the next occurrence of a delimiter from the current read position.
+     * Throws if the delimiter is not found before the end of the data, or does not start within maxLength (plus slack) bytes.
+     * 
+     * @param search { Buffer } The delimiter to find.
+     * @param maxLength { Number } The maximum number of bytes before the delimiter (unlimited if not provided).
+     * @param slack { Number } The number of extra bytes the delimiter may start after maxLength.
+     * 
+     * @return { Number } The offset of the delimiter.
+     */
+    private findDelimiter(search: Buffer, maxLength?: number, slack: number = 0): number {
+        // Stop searching once the delimiter would start beyond maxLength.
+        const limit = typeof maxLength === 'number' ? this._readOffset + maxLength + slack + search.length : Infinity;
+        const index = this.storage.indexOf(search, this._readOffset, Math.min(this.length, limit));
+
+        if (index === -1) {
+            if (limit <= this.length) {
+                throw new SmartBufferDelimiterError(maxLength, this._readOffset);
+            }
+
+            const remaining = this.remaining();
+            throw new SmartBufferOutOfBoundsError('Delimiter not found before the end of the data.',
+                this._readOffset, remaining + 1, remaining);
+        }
+        return index;
+    }
+
+    /**
+     * Converts a pattern to search for into a Buffer.
+     * 
+     * @param pattern { Buffer | String | Number } The pattern (a Buffer, a String, or a byte value).
+     * @param argument { String } The name of the argument the pattern was provided as.
+     * @param encoding { String } The BufferEncoding of a String pattern (defaults to instance level encoding).
+     * 
+     * @return { Buffer }
+     */
+    private toSearchPattern(pattern: Buffer | string | number, argument: string, encoding?: BufferEncoding): Buffer {
+        if (typeof pattern === 'string') {
+            const encodingVal = encoding || this.encoding;
+
+            if (!BufferBackend.isEncoding(encodingVal)) {
+                throw new SmartBufferEncodingError(encodingVal);
             }
+            return BufferBackend.from(pattern, encodingVal);
+        } else if (typeof pattern === 'number') {
+            if (!(Number.isInteger(pattern) && pattern >= 0 && pattern <= 0xFF)) {
+                throw new SmartBufferArgumentError(`Invalid ${argument} provided. A numeric ${argument} must be a byte value (0-255).`,
+                    argument, pattern);
+            }
+            return BufferBackend.from([pattern]);
+        } else if (pattern instanceof BufferBackend) {
+            return pattern;
         }
+        throw new SmartBufferArgumentError(`Invalid ${argument} provided. Please specify a Buffer, String or byte value.`,
+            argument, pattern);
+    }
 
-        // Calculate bytelength of string.
-        const byteLength = Buffer.byteLength(value, encodingVal);
-        
-        // Ensure there is enough internal Buffer capacity.
-        this.ensureWriteable(byteLength, offsetVal);
+    /**
+     * Ensures that this SmartBuffer is not a read-only view.
+     */
+    private ensureNotReadOnly() {
+        if (this._readOnly) {
+            throw new SmartBufferReadOnlyError();
+        }
+    }
 
-        // Write value
-        this.buff.write(value, offsetVal, byteLength, encodingVal);
+    /**
+     * Ensures that a range is within the bounds of the data.
+     * 
+     * @param start { Number } The offset the range starts at.
+     * @param end { Number } The offset the range ends at (exclusive).
+     */
+    private ensureRange(start: number, end: number) {
+        this.ensurePosition(start);
+        this.ensurePosition(end);
 
-        // Increment internal Buffer write offset;
-        this.writeOffset += byteLength;
-        return this;
+        if (start > end) {
+            throw new SmartBufferArgumentError('Invalid range provided. The start offset must not be after the end offset.',
+                'start', start);
+        }
     }
 
     /**
-     * Reads a null-terminated String from the current read position.
+     * Gets the size and the Buffer functions to read and write a checksum of the given algorithm with.
      * 
-     * @param encoding { String } The BufferEncoding to use for the string (Defaults to instance level encoding).
+     * @param algorithm { ChecksumAlgorithm } The checksum algorithm.
      * 
-     * @return { String }
+     * @return { Object }
      */
-    readStringNT(encoding?: BufferEncoding): string {
-
-        // Set null character position to the end SmartBuffer instance.
-        let nullPos = this.length;
+    private getChecksumType(algorithm: ChecksumAlgorithm) {
+        const littleEndian = this._endian === 'LE';
 
-        // Find next null character (if one is not found, default from above is used)
-        for (let i = this.readOffset; i < this.length; i++) {
-            if (this.buff[i] === 0x00) {
-                nullPos = i;
-                break;
-            }
+        switch (algorithm) {
+            case 'crc32':
+            case 'adler32':
+                return littleEndian ?
+                    { byteSize: 4, read: BufferBackend.prototype.readUInt32LE, write: BufferBackend.prototype.writeUInt32LE } :
+                    { byteSize: 4, read: BufferBackend.prototype.readUInt32BE, write: BufferBackend.prototype.writeUInt32BE };
+            case 'crc16':
+                return littleEndian ?
+                    { byteSize: 2, read: BufferBackend.prototype.readUInt16LE, write: BufferBackend.prototype.writeUInt16LE } :
+                    { byteSize: 2, read: BufferBackend.prototype.readUInt16BE, write: BufferBackend.prototype.writeUInt16BE };
+            default:
+                // Internet checksums are always stored in network byte order.
+                return { byteSize: 2, read: BufferBackend.prototype.readUInt16BE, write: BufferBackend.prototype.writeUInt16BE };
         }
+    }
 
-        // Read string value
-        const value = this.buff.slice(this.readOffset, nullPos);
+    /**
+     * Ensures that the internal Buffer is large enough to read data at the given offset (or at the read position).
+     *
+     * @param length { Number } The length of the data that needs to be read.
+     * @param offset { Number } The offset of the data to be read.
+     */
+    private ensureReadable(length: number, offset?: number) {
+        if (typeof offset === 'number') {
+            validateOffset(offset);
+            this.ensurePosition(offset);
+        }
 
-        // Increment internal Buffer read offset
-        this.readOffset = nullPos + 1;
+        const offsetVal = typeof offset === 'number' ? offset : this._readOffset;
+        const remaining = this.length - offsetVal;
 
-        return value.toString(encoding || this.encoding);
+        if (remaining < length) {
+            throw new SmartBufferOutOfBoundsError('Reading beyond the bounds of the data.', offsetVal, length, remaining);
+        }
     }
 
     /**
-     * Writes a null-terminated String to the current write position.
+     * Ensures that the internal Buffer is large enough to write data.
      * 
-     * @param value { String } The String value to write.
-     * @param arg2 { Number | String } The offset to write the string to, or the BufferEncoding to use.
-     * @param encoding { String } The BufferEncoding to use for writing strings (defaults to instance encoding).
+     * @param minLength { Number } The minimum length of the data that needs to be written.
+     * @param offset { Number } The offset of the data to be written.
      */
-    writeStringNT(value: string, offset?: number | BufferEncoding, encoding?: BufferEncoding) {
-        // Write Values
-        this.writeString(value, offset, encoding);
-        this.writeUInt8(0x00, (typeof offset === 'number' ? offset + value.length : this.writeOffset));
+    private ensureWriteable(minLength: number, offset?: number) {
+        const offsetVal = typeof offset === 'number' ? offset : 0;
+
+        // Ensure there is enough internal Buffer capacity.
+        this.ensureCapacity(Math.max(this.length, offsetVal) + minLength);
+
+        // If offset is provided, copy data into appropriate location in regards to the offset. The data is copied past
+        // the end of the data, so it stays intact until the length is adjusted.
+        if (typeof offset === 'number' && offsetVal < this.length) {
+            this.storage.copyWithin(offsetVal + minLength, offsetVal, this.length);
+        }
+
+        // Zero the gap between the end of the data and an offset past it, so no stale memory becomes part of the data.
+        if (offsetVal > this.length) {
+            this.storage.writeBuffer(BufferBackend.alloc(offsetVal - this.length), this.length);
+        }
     }
 
-    // Buffers
 
     /**
-     * Reads a Buffer from the internal read position.
+     * Ensures that the internal Buffer is large enough to write data at the given offset (or at the write position).
      * 
-     * @param length { Number } The length of data to read as a Buffer.
+     * When an offset is provided, data at and after the offset is shifted forward (insert). The length and the internal
+     * Buffer offsets are not adjusted until commitWrite() is called, so a value that fails to write leaves them untouched.
      * 
-     * @return { Buffer }
+     * @param length { Number } The length of the data that needs to be written.
+     * @param offset { Number } The offset of the data to be inserted.
+     * 
+     * @return { Number } The offset to write the data at.
      */
-    readBuffer(length?: number): Buffer {
-        const lengthVal = typeof length === 'number' ? length : this.length;
-        const endPoint = Math.min(this.length, this.readOffset + lengthVal);
-
-        // Read buffer value
-        const value = this.buff.slice(this.readOffset, endPoint);
+    private prepareWrite(length: number, offset?: number): number {
+        this.ensureNotReadOnly();
 
-        // Increment internal Buffer read offset
-        this.readOffset = endPoint;
-        return value;
+        if (typeof offset === 'number') {
+            validateOffset(offset);
+            this.ensurePlaceholdersOutside(offset, offset);
+            this.ensureWriteable(length, offset);
+            return offset;
+        } else {
+            // Data at the write position is overwritten, so the length only grows past the end of the data.
+            this.ensurePlaceholdersOutside(this._writeOffset, this._writeOffset + length);
+            this.ensureCapacity(this._writeOffset + length);
+            return this._writeOffset;
+        }
     }
 
     /**
-     * Writes a Buffer to the current write position.
+     * Adjusts the length and the internal Buffer offsets after data prepared with prepareWrite() has been written.
      * 
-     * @param value { Buffer } The Buffer to write.
-     * @param offset { Number } The offset to write the Buffer to.
+     * When an offset is provided, the read and write offsets (and the placeholders) are moved along with the data they point to.
+     * 
+     * @param length { Number } The length of the data that was written.
+     * @param offset { Number } The offset the data was inserted at.
      */
-    writeBuffer(value: Buffer, offset?: number) {
-        const offsetVal = typeof offset === 'number' ? offset : this.writeOffset;
-        
-        // Ensure there is enough internal Buffer capacity.
-        this.ensureWriteable(value.length, offsetVal);
-
-        // Write buffer value
-        value.copy(this.buff, offsetVal);
+    private commitWrite(length: number, offset?: number) {
+        if (typeof offset === 'number') {
+            this.length = Math.max(this.length, offset) + length;
+            this.movePlaceholders(offset, offset, length);
 
-        // Increment internal Buffer write offset
-        this.writeOffset += value.length;
-        return this;
+            if (offset < this._readOffset) {
+                this._readOffset += length;
+            }
+            if (offset <= this._writeOffset) {
+                this._writeOffset += length;
+            }
+        } else {
+            this.length = Math.max(this.length, this._writeOffset + length);
+            this._writeOffset += length;
+        }
     }
 
     /**
-     * Reads a null-terminated Buffer from the current read poisiton.
+     * Reads a length prefix from the current read position, and ensures there is enough data left to read the value it prefixes.
+     * The read offset is not moved if there is not enough data left.
      * 
-     * @return { Buffer }
+     * @param prefix { LengthPrefix } The type of the length prefix.
+     * 
+     * @return { Number }
      */
-    readBufferNT(): Buffer {
-        // Set null character position to the end SmartBuffer instance.
-        let nullPos = this.length;
-      
-        // Find next null character (if one is not found, default from above is used)
-        for (let i = this.readOffset; i < this.length; i++) {
-            if (this.buff[i] === 0x00) {
-                nullPos = i;
+    private readLengthPrefix(prefix: LengthPrefix): number {
+        const offset = this._readOffset;
+        let length: number;
+
+        switch (prefix) {
+            case 'UInt8':
+                length = this.readUInt8();
                 break;
-            }
+            case 'UInt16BE':
+                length = this.readUInt16BE();
+                break;
+            case 'UInt16LE':
+                length = this.readUInt16LE();
+                break;
+            case 'UInt32BE':
+                length = this.readUInt32BE();
+                break;
+            case 'UInt32LE':
+                length = this.readUInt32LE();
+                break;
+            case 'VarUInt':
+                length = this.readVarUInt();
+                break;
+            default:
+                throw new SmartBufferArgumentError(
+                    'Invalid length prefix provided. Please specify UInt8, UInt16BE, UInt16LE, UInt32BE, UInt32LE or VarUInt.',
+                    'prefix', prefix);
         }
 
-        // Read value
-        const value = this.buff.slice(this.readOffset, nullPos);
+        if (length > this.remaining()) {
+            const valueOffset = this._readOffset;
+            const remaining = this.remaining();
 
-        // Increment internal Buffer read offset
-        this.readOffset = nullPos + 1;
-        return value;
+            this._readOffset = offset;
+            throw new SmartBufferOutOfBoundsError(`Length prefix of ${length} bytes exceeds the remaining data (${remaining} bytes).`,
+                valueOffset, length, remaining);
+        }
+
+        return length;
     }
 
     /**
-     * Writes a null-terminated Buffer to the current write position.
+     * Writes a length prefix to the current write position.
      * 
-     * @param value { Buffer } The Buffer to write.
-     * @param offset { Number } The offset to write the Buffer to.
+     * @param length { Number } The length to write.
+     * @param prefix { LengthPrefix } The type of the length prefix.
      */
-    writeBufferNT(value: Buffer, offset?: number) {
-        // Write Values
-        this.writeBuffer(value, offset);
-        this.writeUInt8(0, (typeof offset === 'number' ? offset + value.length : this.writeOffset));
+    private writeLengthPrefix(length: number, prefix: LengthPrefix) {
+        const maxLength = LENGTH_PREFIX_MAX_VALUES[prefix];
 
-        return this;
+        if (!LENGTH_PREFIX_MAX_VALUES.hasOwnProperty(prefix)) {
+            throw new SmartBufferArgumentError(
+                'Invalid length prefix provided. Please specify UInt8, UInt16BE, UInt16LE, UInt32BE, UInt32LE or VarUInt.',
+                'prefix', prefix);
+        }
+
+        if (length > maxLength) {
+            throw new SmartBufferRangeError(`Value of ${length} bytes is too long for a ${prefix} length prefix.`, length, maxLength);
+        }
+
+        switch (prefix) {
+            case 'UInt8':
+                this.writeUInt8(length);
+                break;
+            case 'UInt16BE':
+                this.writeUInt16BE(length);
+                break;
+            case 'UInt16LE':
+                this.writeUInt16LE(length);
+                break;
+            case 'UInt32BE':
+                this.writeUInt32BE(length);
+                break;
+            case 'UInt32LE':
+                this.writeUInt32LE(length);
+                break;
+            default:
+                this.writeVarUInt(length);
+        }
     }
 
     /**
-     * Clears the SmartBuffer instance to its original empty state.
+     * Ensures that the given position is within the bounds of the data.
+     * 
+     * @param position { Number } The position to check.
      */
-    clear() {
-        this.writeOffset = 0;
-        this.readOffset = 0;
-        this.length = 0;
+    private ensurePosition(position: number) {
+        if (!(Number.isInteger(position) && position >= 0 && position <= this.length)) {
+            throw new SmartBufferRangeError('Target position is beyond the bounds of the SmartBuffer size.', position, this.length);
+        }
     }
-	
+
     /**
-     * Remove data from buffer. The buffer internal storage size remains the same, however the data following 
-	 * the offset will be back shifted. Data length, write/read offset will be fix if it became outside of 
-	 * the new data range.
-     * @param offset { number } Offset where to start removing data.
-     * @param length { number } Length to remove.
+     * Ensures that data of the given length at the given offset only replaces existing data.
+     * 
+     * @param length { Number } The length of the data that needs to be written.
+     * @param offset { Number } The offset of the data to be written.
      */
-    remove(offset: number, length: number) {
-        offset = (offset || 0);
-        if (offset < 0 || offset > this.writeOffset) {
-            throw new Error("Offset position is beyond the bounds of the data.");
-        }
+    private ensureSettable(length: number, offset: number) {
+        this.ensureNotReadOnly();
+        validateOffset(offset);
+
         if (offset + length > this.length) {
-            throw new Error("Remove position is beyond the bounds of the data.");
-        }
-        var startingOffsetBackShift = offset + length;
-        var endingBackShift = this.length;
-        for (var i = startingOffsetBackShift, j = offset; i < endingBackShift; ++i, ++j) {
-            this.buff[j] = this.buff[i];
+            throw new SmartBufferRangeError('Target position is beyond the bounds of the data.', offset + length, this.length);
         }
-        
-        this.length -= length;
-        
-        if (this.writeOffset > this.length) {
-            this.writeOffset = this.length;
-        }
-        if (this.readOffset > this.length) {
-            this.readOffset = this.length;
-        }
-		return this;
-    }	
+        this.ensurePlaceholdersOutside(offset, offset + length);
+    }
 
     /**
-     * Gets the remaining data left to be read from the SmartBuffer instance.
+     * Ensures that inserting data at (when start and end are equal), or removing or overwriting data in the given range does
+     * not split, remove or overwrite an unfilled placeholder. Placeholders are overwritten with fill() instead.
      * 
-     * @return { Number }
+     * @param start { Number } The offset the range starts at.
+     * @param end { Number } The offset the range ends at (exclusive).
      */
-    remaining(): number {
-        return this.length - this.readOffset;
+    private ensurePlaceholdersOutside(start: number, end: number) {
+        const offsets = this.placeholders
+            .filter((placeholder) => !placeholder.filled && placeholder.offset < end && placeholder.offset + placeholder.byteSize > start)
+            .map((placeholder) => placeholder.offset);
+
+        if (offsets.length > 0) {
+            throw new SmartBufferPlaceholderError(offsets,
+                `Cannot insert, remove or overwrite data within unfilled placeholders (at offsets ${offsets.join(', ')}).`);
+        }
     }
 
     /**
-     * Moves the read offset forward.
+     * Moves the placeholders after a range that data was inserted at or removed from. Filled placeholders within the range
+     * no longer hold their value, so they are no longer tracked.
      * 
-     * @param amount { Number } The amount to move the read offset forward by.
+     * @param start { Number } The offset the range starts at.
+     * @param end { Number } The offset the range ends at (exclusive).
+     * @param amount { Number } The number of bytes to move the placeholders by (negative when data was removed).
      */
-    skip(amount: number) {
-        if (this.readOffset + amount > this.length) {
-            throw new Error('Target position is beyond the bounds of the SmartBuffer size.');
-        }
+    private movePlaceholders(start: number, end: number, amount: number) {
+        this.placeholders = this.placeholders.filter((placeholder) =>
+            !(placeholder.offset < end && placeholder.offset + placeholder.byteSize > start));
 
-        this.readOffset += amount;
+        for (const placeholder of this.placeholders) {
+            if (placeholder.offset >= end) {
+                placeholder.move(amount);
+            }
+        }
     }
 
     /**
-     * Moves the read offset backwards.
+     * Ensures that the internal Buffer is large enough to write at least the given amount of data.
      * 
-     * @param amount { Number } The amount to move the read offset backwards by.
+     * @param minLength { Number } The minimum length of the data needs to be written.
      */
-    rewind(amount: number) {
-        if (this.readOffset - amount < 0) {
-            throw new Error('Target position is beyond the bounds of the SmartBuffer size.');
+    private ensureCapacity(minLength: number) {
+        // Chunked storage can have more capacity than maxSize (it grows by whole chunks), so the limit is checked even when
+        // the storage does not have to grow.
+        if (minLength > this.maxSize) {
+            throw new SmartBufferCapacityError(minLength, this.maxSize);
+        }
+        if (minLength > this.storage.capacity) {
+            this.storage.grow(minLength, this.maxSize);
         }
-
-        this.readOffset -= amount;
     }
 
     /**
-     * Moves the read offset to a specific position.
+     * Gets the number of bytes the LEB128 varint at the current read position spans.
      * 
-     * @param position { Number } The position to move the read offset to.
+     * @param maxBytes { Number } The maximum number of bytes the varint may span.
+     * 
+     * @return { Number }
      */
-    skipTo(position: number) {
-        this.moveTo(position);
+    private getVarIntByteLength(maxBytes: number): number {
+        for (let i = 0; i < maxBytes; i++) {
+            if (this._readOffset + i >= this.length) {
+                throw new SmartBufferOutOfBoundsError('Truncated varint. The data ended before the last byte of the varint was found.',
+                    this._readOffset, i + 1, this.remaining());
+            }
+
+            if (!(this.storage.byteAt(this._readOffset + i) & 0x80)) {
+                return i + 1;
+            }
+        }
+
+        throw new SmartBufferFormatError(`Overlong varint. The varint spans more than the maximum of ${maxBytes} bytes.`,
+            this._readOffset);
     }
 
     /**
-     * Moves the read offset to a specific position.
+     * Gets the number of bytes the QUIC varint at the current read position spans.
      * 
-     * @param position { Number } The position to move the read offset to.
+     * @return { Number }
      */
-    moveTo(position: number) {
-        if (position > this.length) {
-            throw new Error('Target position is beyond the bounds of the SmartBuffer size.');
+    private getQuicVarIntByteLength(): number {
+        const byteLength = this.remaining() > 0 ? 1 << (this.storage.byteAt(this._readOffset) >> 6) : 1;
+
+        if (this.remaining() < byteLength) {
+            throw new SmartBufferOutOfBoundsError('Truncated varint. The data ended before the last byte of the varint was found.',
+                this._readOffset, byteLength, this.remaining());
         }
 
-        this.readOffset = position;
+        return byteLength;
     }
 
     /**
-     * Gets the value of the internal managed Buffer
+     * Reads a value using the provided read function at the given offset (or the current read position), and then
+     * restores the read offset. While tracing, the read is recorded once under the given method name (such as peekUInt8)
+     * instead of the name of the read function.
      * 
-     * @param { Buffer }
+     * @param method { String } The name of the function the value is peeked (or read) with, used as the name of the trace entry.
+     * @param func { Function() => T } The read function to read the value with.
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     * 
+     * @return { T }
      */
-    toBuffer(): Buffer {
-        return this.buff.slice(0, this.length);
+    private peekValue<T extends SmartBufferTraceValue>(method: string, func: () => T, offset?: number): T {
+        const readOffset = this._readOffset;
+        const tracing = this.tracing;
+
+        if (typeof offset === 'number') {
+            validateOffset(offset);
+            this.ensurePosition(offset);
+            this._readOffset = offset;
+        }
+
+        const start = this._readOffset;
+        this.tracing = false;
+        try {
+            const value = func();
+
+            if (tracing) {
+                this._trace.record(method, start, this._readOffset - start, value);
+            }
+            return value;
+        } finally {
+            this._readOffset = readOffset;
+            this.tracing = tracing;
+        }
     }
 
     /**
-     * Gets the String value of the internal managed Buffer
+     * Reads a value using the provided read function, recording it once under the given method name while tracing (the
+     * reads made by the read function itself are not recorded).
      * 
-     * @param encoding { String } The BufferEncoding to display the Buffer as (defaults to instance level encoding).
+     * @param method { String } The name of the function the value is read with, used as the name of the trace entry.
+     * @param func { Function() => T } The read function to read the value with.
+     * 
+     * @return { T }
      */
-    toString(encoding?: BufferEncoding) {
-        const encodingVal = typeof encoding === 'string' ? encoding : this.encoding;
+    private traceRead<T extends SmartBufferTraceValue>(method: string, func: () => T): T {
+        if (!this.tracing) {
+            return func();
+        }
 
-        if (Buffer.isEncoding(encodingVal)) {
-            return this.buff.toString(encodingVal, 0, this.length);
-        } else {
-            throw new Error('Invalid encoding provided. Please specify a valid encoding the internal Node.js Buffer supports.');
+        const start = this._readOffset;
+        this.tracing = false;
+        try {
+            const value = func();
+            this._trace.record(method, start, this._readOffset - start, value);
+            return value;
+        } finally {
+            this.tracing = true;
         }
     }
 
     /**
-     * Destroys the SmartBuffer instance.
+     * Writes (or inserts) a value using the provided write function, recording it once under the given method name while
+     * tracing (the writes made by the write function itself are not recorded).
+     * 
+     * @param method { String } The name of the function the value is written with, used as the name of the trace entry.
+     * @param value { Number | BigInt | String | Buffer } The value that is written.
+     * @param offset { Number } The offset the value is written or inserted at (defaults to the current write position).
+     * @param func { Function() => SmartBuffer } The write function to write the value with.
+     * 
+     * @return this
      */
-    destroy() {
-        this.clear();
+    private traceWrite(method: string, value: SmartBufferTraceValue, offset: number, func: () => SmartBuffer): SmartBuffer {
+        if (!this.tracing) {
+            return func();
+        }
+
+        const start = typeof offset === 'number' ? offset : this._writeOffset;
+        const length = this.length;
+        this.tracing = false;
+        try {
+            func();
+
+            // Inserting at an offset past the end of the data also writes the zero-filled gap before the value.
+            const byteLength = typeof offset === 'number' ? this.length - Math.max(length, offset) : this._writeOffset - start;
+            this._trace.record(method, start, byteLength, value);
+            return this;
+        } finally {
+            this.tracing = true;
+        }
     }
 
     /**
-     * Ensures that the internal Buffer is large enough to read data.
-     *
-     * @param length { Number } The length of the data that needs to be read.
+     * Calls a function that delegates to another read or write function (such as readUInt16() to readUInt16LE()), and
+     * records the entry of the delegate under the name of the delegating function while tracing.
+     * 
+     * @param method { String } The name of the delegating function, used as the name of the trace entry.
+     * @param func { Function() => T } The function that calls the delegate.
+     * 
+     * @return { T }
      */
-    private ensureReadable(length: number) {
-        if (this.remaining() < length) {
-            throw new Error('Reading beyond the bounds of the data.');
+    private traceAs<T>(method: string, func: () => T): T {
+        const index = this.tracing ? this._trace.entries.length : -1;
+        const value = func();
+
+        if (index !== -1 && this._trace.entries.length > index) {
+            this._trace.entries[index].method = method;
         }
+        return value;
     }
 
     /**
-     * Ensures that the internal Buffer is large enough to write data.
+     * Reads a numeric number value using the provided function.
      * 
-     * @param minLength { Number } The minimum length of the data that needs to be written.
-     * @param offset { Number } The offset of the data to be written.
+     * @param method { String } The name of the function the value is read with, used as the name of the trace entry.
+     * @param func { Function(offset: number) => T } The function to read data on the internal Buffer with.
+     * @param byteSize { Number } The number of bytes read.
+     * @param offset { Number } The offset to read the number at (the read offset is not moved).
+     * 
+     * @param { T }
      */
-    private ensureWriteable(minLength: number, offset?: number) {
-        const offsetVal = typeof offset === 'number' ? offset : 0;
+    private readNumberValue<T extends number | bigint>(method: string, func: (offset: number) => T, byteSize: number, offset?: number): T {
+        this.ensureReadable(byteSize, offset);
 
-        // Ensure there is enough internal Buffer capacity.
-        this.ensureCapacity(this.length + minLength + offsetVal);
+        // Call Buffer.readXXXX();
+        const offsetVal = typeof offset === 'number' ? offset : this._readOffset;
+        const value = this.storage.readNumber(func, byteSize, offsetVal);
 
-        // If offset is provided, copy data into appropriate location in regards to the offset.
-        if (typeof offset === 'number') {
-            this.buff.copy(this.buff, offsetVal + minLength, offsetVal, this.buff.length);
+        if (this.tracing) {
+            this._trace.record(method, offsetVal, byteSize, value);
         }
 
-        // Adjust instance length.
-        this.length = Math.max(this.length + minLength, offsetVal + minLength);
-    }
+        // Adjust internal read offset
+        if (typeof offset !== 'number') {
+            this._readOffset += byteSize;
+        }
 
+        return value;
+    }
 
     /**
-     * Ensures that the internal Buffer is large enough to write at least the given amount of data.
+     * Reads a 64 bit integer value using the provided BigInt function, and returns it as a Number.
+     * Throws if the value is outside of the safe integer range (without moving the read offset).
      * 
-     * @param minLength { Number } The minimum length of the data needs to be written.
+     * @param method { String } The name of the function the value is read with, used as the name of the trace entry.
+     * @param func { Function(offset: number) => bigint } The BigInt function to read data on the internal Buffer with.
+     * @param offset { Number } The offset to read the number at (the read offset is not moved).
+     * 
+     * @return { Number }
      */
-    private ensureCapacity(minLength: number) {
-        const oldLength = this.buff.length;
+    private readSafeNumberValue(method: string, func: (offset: number) => bigint, offset?: number): number {
+        this.ensureReadable(8, offset);
 
-        if (minLength > oldLength) {
-            let data = this.buff;
-            let newLength = (oldLength * 3) / 2 + 1;
-            if (newLength < minLength) {
-                newLength = minLength;
-            }
-            this.buff = Buffer.allocUnsafe(newLength);
+        const offsetVal = typeof offset === 'number' ? offset : this._readOffset;
+        const value = this.storage.readNumber(func, 8, offsetVal);
 
-            data.copy(this.buff, 0, 0, oldLength);
+        if (value > BigInt(Number.MAX_SAFE_INTEGER) || value < BigInt(Number.MIN_SAFE_INTEGER)) {
+            throw new SmartBufferFormatError('Value is outside of the safe integer range. Use the BigInt read functions instead.',
+                offsetVal);
         }
+
+        if (this.tracing) {
+            this._trace.record(method, offsetVal, 8, Number(value));
+        }
+
+        if (typeof offset !== 'number') {
+            this._readOffset += 8;
+        }
+        return Number(value);
     }
 
     /**
-     * Reads a numeric number value using the provided function.
+     * Writes a numeric number value using the provided function.
      * 
-     * @param func { Function(offset: number) => number } The function to read data on the internal Buffer with.
-     * @param byteSize { Number } The number of bytes read.
+     * @param method { String } The name of the function the value is written with, used as the name of the trace entry.
+     * @param func { Function(value: T, offset?) => number} The function to write data on the internal Buffer with.
+     * @param byteSize { Number } The number of bytes written.
+     * @param value { T } The number value to write.
+     * @param offset { Number } the offset to write the number at.
      * 
-     * @param { Number }
      */
-    private readNumberValue(func: (offset: number) => number, byteSize: number) {
-        this.ensureReadable(byteSize);
-        // Call Buffer.readXXXX();
-        const value = func.call(this.buff, this.readOffset);
+    private writeNumberValue<T extends number | bigint>(method: string, func: (value: T, offset?: number) => number, byteSize: number,
+        value: T, offset?: number) {
+        // Ensure there is enough internal Buffer capacity.
+        const offsetVal = this.prepareWrite(byteSize, offset);
 
-        // Adjust internal read offset
-        this.readOffset += byteSize;
+        // Call buffer.writeXXXX(), which validates the value before the internal Buffer offsets are adjusted.
+        this.storage.writeNumber(func, byteSize, value, offsetVal);
+        this.commitWrite(byteSize, offset);
 
-        return value;
+        if (this.tracing) {
+            this._trace.record(method, offsetVal, byteSize, value);
+        }
     }
 
     /**
-     * Writes a numeric number value using the provided function.
+     * Inserts a numeric number value at the given offset using the provided function.
      * 
-     * @param func { Function(offset: number, offset?) => number} The function to write data on the internal Buffer with.
+     * @param method { String } The name of the function the value is inserted with, used as the name of the trace entry.
+     * @param func { Function(value: T, offset?) => number} The function to write data on the internal Buffer with.
      * @param byteSize { Number } The number of bytes written.
-     * @param value { Number } The number value to write.
-     * @param offset { Number } the offset to write the number at.
-     * 
+     * @param value { T } The number value to insert.
+     * @param offset { Number } the offset to insert the number at.
      */
-    private writeNumberValue(func: (value: number, offset?: number) => number, byteSize: number, value: number, offset?: number) {
-        const offsetVal = typeof offset === 'number' ? offset : this.writeOffset;
+    private insertNumberValue<T extends number | bigint>(method: string, func: (value: T, offset?: number) => number, byteSize: number,
+        value: T, offset: number) {
+        validateOffset(offset);
+        this.ensurePosition(offset);
+        this.writeNumberValue(method, func, byteSize, value, offset);
+    }
 
-        // Ensure there is enough internal Buffer capacity. (raw offset is passed)
-        this.ensureWriteable(byteSize, offset);
+    /**
+     * Overwrites a numeric number value at the given offset using the provided function.
+     * 
+     * @param method { String } The name of the function the value is written with, used as the name of the trace entry.
+     * @param func { Function(value: T, offset?) => number} The function to write data on the internal Buffer with.
+     * @param byteSize { Number } The number of bytes written.
+     * @param value { T } The number value to write.
+     * @param offset { Number } the offset to write the number at.
+     */
+    private setNumberValue<T extends number | bigint>(method: string, func: (value: T, offset?: number) => number, byteSize: number,
+        value: T, offset: number) {
+        // Ensure the value replaces existing data only.
+        this.ensureSettable(byteSize, offset);
 
         // Call buffer.writeXXXX();
-        func.call(this.buff, value, offsetVal);
+        this.storage.writeNumber(func, byteSize, value, offset);
 
-        // Adjusts internal write offset
-        this.writeOffset += byteSize;
+        if (this.tracing) {
+            this._trace.record(method, offset, byteSize, value);
+        }
     }
 }
 
 export {
     SmartBufferOptions,
-    SmartBuffer
+    ReadUntilOptions,
+    WriteStringFixedOptions,
+    ReadStringFixedOptions,
+    LengthPrefix,
+    Endian,
+    StorageMode,
+    BinaryInput,
+    SmartBuffer,
+    SmartBufferRangeError,
+    SmartBufferOutOfBoundsError,
+    SmartBufferCapacityError,
+    SmartBufferArgumentError,
+    SmartBufferEncodingError,
+    SmartBufferFormatError,
+    SmartBufferDelimiterError,
+    SmartBufferSchemaError,
+    SmartBufferChecksumError,
+    SmartBufferMarkError,
+    SmartBufferReadOnlyError,
+    SmartBufferPlaceholderError,
+    schema,
+    BitOrder,
+    SmartBufferBitReader,
+    SmartBufferBitWriter,
+    ChecksumAlgorithm,
+    SmartBufferPoolOptions,
+    SmartBufferPoolStats,
+    SmartBufferPool,
+    PortableBuffer,
+    PlaceholderType,
+    SmartBufferPlaceholder,
+    HexdumpOptions,
+    SmartBufferTraceEntry,
+    SmartBufferTrace
 };
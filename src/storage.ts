@@ -0,0 +1,462 @@
+import { BufferBackend } from './backend';
+
+/**
+ * How a SmartBuffer stores its data.
+ * contiguous stores the data in a single Buffer that is reallocated (and copied) when it grows. chunked stores the data in
+ * a list of fixed-size Buffers, so growing never copies the existing data.
+ */
+type StorageMode = 'contiguous' | 'chunked';
+
+/**
+ * Object interface for the internal storage of a SmartBuffer. Offsets are absolute offsets into the storage, and callers
+ * are responsible for keeping them within the capacity.
+ */
+interface SmartBufferStorage {
+    // The number of bytes that can be stored before the storage has to grow.
+    readonly capacity: number;
+
+    /**
+     * Gets the byte at the given offset.
+     *
+     * @param offset { Number } The offset of the byte.
+     */
+    byteAt(offset: number): number;
+
+    /**
+     * Gets the data in the given range. The returned Buffer shares memory with the storage when possible.
+     *
+     * @param start { Number } The offset to start at.
+     * @param end { Number } The offset to end at (exclusive).
+     */
+    slice(start: number, end: number): Buffer;
+
+    /**
+     * Gets a copy of the data in the given range that does not share memory with the storage.
+     *
+     * @param start { Number } The offset to start at.
+     * @param end { Number } The offset to end at (exclusive).
+     */
+    copy(start: number, end: number): Buffer;
+
+    /**
+     * Finds the first occurrence of a pattern in the given range.
+     *
+     * @param pattern { Buffer } The pattern to find.
+     * @param from { Number } The offset to start searching at.
+     * @param end { Number } The offset the pattern must end before (exclusive).
+     */
+    indexOf(pattern: Buffer, from: number, end: number): number;
+
+    /**
+     * Reads a numeric value at the given offset using the provided Buffer read function.
+     *
+     * @param func { Function(offset: number) => T } The function to read data on a Buffer with.
+     * @param byteSize { Number } The number of bytes read.
+     * @param offset { Number } The offset to read the value at.
+     */
+    readNumber<T>(func: (offset: number) => T, byteSize: number, offset: number): T;
+
+    /**
+     * Writes a numeric value at the given offset using the provided Buffer write function.
+     *
+     * @param func { Function(value: T, offset?) => number } The function to write data on a Buffer with.
+     * @param byteSize { Number } The number of bytes written.
+     * @param value { T } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     */
+    writeNumber<T>(func: (value: T, offset?: number) => number, byteSize: number, value: T, offset: number): void;
+
+    /**
+     * Writes a String into the storage at the given offset.
+     *
+     * @param value { String } The String to write.
+     * @param offset { Number } The offset to write the String at.
+     * @param byteLength { Number } The byte length of the String in the given encoding.
+     * @param encoding { String } The BufferEncoding to write the String with.
+     */
+    writeString(value: string, offset: number, byteLength: number, encoding: BufferEncoding): void;
+
+    /**
+     * Copies a Buffer into the storage at the given offset.
+     *
+     * @param value { Buffer } The Buffer to copy.
+     * @param offset { Number } The offset to copy the Buffer to.
+     */
+    writeBuffer(value: Buffer, offset: number): void;
+
+    /**
+     * Moves the data in the given range to the target offset. The ranges may overlap.
+     *
+     * @param target { Number } The offset to move the data to.
+     * @param start { Number } The offset to start at.
+     * @param end { Number } The offset to end at (exclusive).
+     */
+    copyWithin(target: number, start: number, end: number): void;
+
+    /**
+     * Grows the storage so it can hold at least the given number of bytes.
+     *
+     * @param minLength { Number } The number of bytes the storage has to hold.
+     * @param maxSize { Number } The maximum size of the storage (contiguous storage does not grow beyond it).
+     */
+    grow(minLength: number, maxSize: number): void;
+
+    /**
+     * Shrinks the storage as close to the given length of data as possible.
+     *
+     * @param length { Number } The length of the data.
+     */
+    shrink(length: number): void;
+}
+
+/**
+ * Stores data in a single Buffer. This is the default storage mode.
+ */
+class ContiguousStorage implements SmartBufferStorage {
+    private buff: Buffer;
+
+    /**
+     * Creates a new ContiguousStorage instance.
+     *
+     * @param buff { Buffer } The Buffer to store data in.
+     */
+    constructor(buff: Buffer) {
+        this.buff = buff;
+    }
+
+    // The Buffer the data is stored in (replaced when the storage grows or shrinks).
+    get buffer(): Buffer {
+        return this.buff;
+    }
+
+    get capacity(): number {
+        return this.buff.length;
+    }
+
+    byteAt(offset: number): number {
+        return this.buff[offset];
+    }
+
+    slice(start: number, end: number): Buffer {
+        return this.buff.slice(start, end);
+    }
+
+    copy(start: number, end: number): Buffer {
+        return BufferBackend.from(this.buff.slice(start, end));
+    }
+
+    indexOf(pattern: Buffer, from: number, end: number): number {
+        return this.buff.slice(0, end).indexOf(pattern, from);
+    }
+
+    readNumber<T>(func: (offset: number) => T, byteSize: number, offset: number): T {
+        return func.call(this.buff, offset);
+    }
+
+    writeNumber<T>(func: (value: T, offset?: number) => number, byteSize: number, value: T, offset: number) {
+        func.call(this.buff, value, offset);
+    }
+
+    writeString(value: string, offset: number, byteLength: number, encoding: BufferEncoding) {
+        this.buff.write(value, offset, byteLength, encoding);
+    }
+
+    writeBuffer(value: Buffer, offset: number) {
+        value.copy(this.buff, offset);
+    }
+
+    copyWithin(target: number, start: number, end: number) {
+        this.buff.copy(this.buff, target, start, end);
+    }
+
+    grow(minLength: number, maxSize: number) {
+        const oldLength = this.buff.length;
+
+        if (minLength > oldLength) {
+            let data = this.buff;
+            let newLength = (oldLength * 3) / 2 + 1;
+            if (newLength < minLength) {
+                newLength = minLength;
+            }
+            this.buff = BufferBackend.allocUnsafe(Math.min(newLength, maxSize));
+
+            data.copy(this.buff, 0, 0, oldLength);
+        }
+    }
+
+    shrink(length: number) {
+        if (this.buff.length > length) {
+            const data = this.buff;
+
+            this.buff = BufferBackend.allocUnsafe(length);
+            data.copy(this.buff, 0, 0, length);
+        }
+    }
+}
+
+/**
+ * Stores data in a list of fixed-size chunks. Growing adds chunks without copying the existing data, and values that span
+ * two chunks are read and written through a temporary Buffer.
+ */
+class ChunkedStorage implements SmartBufferStorage {
+    // The size of each chunk.
+    public readonly chunkSize: number;
+
+    private chunks: Buffer[] = [];
+
+    /**
+     * Creates a new ChunkedStorage instance.
+     *
+     * @param chunkSize { Number } The size of each chunk.
+     */
+    constructor(chunkSize: number) {
+        this.chunkSize = chunkSize;
+    }
+
+    get capacity(): number {
+        return this.chunks.length * this.chunkSize;
+    }
+
+    byteAt(offset: number): number {
+        return this.chunks[Math.floor(offset / this.chunkSize)][offset % this.chunkSize];
+    }
+
+    slice(start: number, end: number): Buffer {
+        const index = Math.floor(start / this.chunkSize);
+        const chunkOffset = start % this.chunkSize;
+
+        if (end <= start) {
+            return BufferBackend.alloc(0);
+        }
+
+        // Ranges within a single chunk do not have to be copied.
+        if (chunkOffset + end - start <= this.chunkSize) {
+            return this.chunks[index].slice(chunkOffset, chunkOffset + end - start);
+        }
+        return this.copy(start, end);
+    }
+
+    copy(start: number, end: number): Buffer {
+        const value = BufferBackend.allocUnsafe(end - start);
+
+        for (let position = start; position < end;) {
+            const chunkOffset = position % this.chunkSize;
+            const count = Math.min(this.chunkSize - chunkOffset, end - position);
+
+            this.chunks[Math.floor(position / this.chunkSize)].copy(value, position - start, chunkOffset, chunkOffset + count);
+            position += count;
+        }
+        return value;
+    }
+
+    indexOf(pattern: Buffer, from: number, end: number): number {
+        if (pattern.length === 0) {
+            return from <= end ? from : -1;
+        }
+
+        for (let chunkStart = from - (from % this.chunkSize); chunkStart < end; chunkStart += this.chunkSize) {
+            const chunkEnd = Math.min(chunkStart + this.chunkSize, end);
+            const searchStart = Math.max(from, chunkStart);
+
+            // Matches that fit within the chunk come before matches that span into the next chunk.
+            const chunk = this.chunks[chunkStart / this.chunkSize];
+            const index = chunk.slice(0, chunkEnd - chunkStart).indexOf(pattern, searchStart - chunkStart);
+            if (index !== -1) {
+                return chunkStart + index;
+            }
+
+            // Search the bytes around the end of the chunk for a match that spans into the next chunk.
+            const boundaryStart = Math.max(searchStart, chunkEnd - pattern.length + 1);
+            const boundaryEnd = Math.min(chunkEnd + pattern.length - 1, end);
+            if (pattern.length > 1 && chunkEnd < end && boundaryStart < chunkEnd) {
+                const boundaryIndex = this.copy(boundaryStart, boundaryEnd).indexOf(pattern);
+                if (boundaryIndex !== -1) {
+                    return boundaryStart + boundaryIndex;
+                }
+            }
+        }
+        return -1;
+    }
+
+    readNumber<T>(func: (offset: number) => T, byteSize: number, offset: number): T {
+        const chunkOffset = offset % this.chunkSize;
+
+        if (chunkOffset + byteSize <= this.chunkSize) {
+            return func.call(this.chunks[Math.floor(offset / this.chunkSize)], chunkOffset);
+        }
+        return func.call(this.copy(offset, offset + byteSize), 0);
+    }
+
+    writeNumber<T>(func: (value: T, offset?: number) => number, byteSize: number, value: T, offset: number) {
+        const chunkOffset = offset % this.chunkSize;
+
+        if (chunkOffset + byteSize <= this.chunkSize) {
+            func.call(this.chunks[Math.floor(offset / this.chunkSize)], value, chunkOffset);
+        } else {
+            const temp = BufferBackend.allocUnsafe(byteSize);
+
+            func.call(temp, value, 0);
+            this.writeBuffer(temp, offset);
+        }
+    }
+
+    writeString(value: string, offset: number, byteLength: number, encoding: BufferEncoding) {
+        const chunkOffset = offset % this.chunkSize;
+
+        if (chunkOffset + byteLength <= this.chunkSize) {
+            this.chunks[Math.floor(offset / this.chunkSize)].write(value, chunkOffset, byteLength, encoding);
+        } else {
+            this.writeBuffer(BufferBackend.from(value, encoding), offset);
+        }
+    }
+
+    writeBuffer(value: Buffer, offset: number) {
+        for (let written = 0; written < value.length;) {
+            const position = offset + written;
+            const chunkOffset = position % this.chunkSize;
+            const count = Math.min(this.chunkSize - chunkOffset, value.length - written);
+
+            value.copy(this.chunks[Math.floor(position / this.chunkSize)], chunkOffset, written, written + count);
+            written += count;
+        }
+    }
+
+    copyWithin(target: number, start: number, end: number) {
+        if (end <= start || target === start) {
+            return;
+        }
+
+        // Moving data forward by whole chunks (such as for a large insert) splices the unused chunks at the end of the
+        // storage in front of the data instead of copying it. Only the data before start in the first chunk is copied back.
+        const chunkShift = Math.floor((target - start) / this.chunkSize);
+        if (chunkShift > 0 && end <= (this.chunks.length - chunkShift) * this.chunkSize) {
+            const index = Math.floor(start / this.chunkSize);
+            const spare = this.chunks.slice(this.chunks.length - chunkShift);
+
+            this.chunks = this.chunks.slice(0, index).concat(spare, this.chunks.slice(index, this.chunks.length - chunkShift));
+            this.chunks[index + chunkShift].copy(this.chunks[index], 0, 0, start % this.chunkSize);
+
+            start += chunkShift * this.chunkSize;
+            end += chunkShift * this.chunkSize;
+            if (target === start) {
+                return;
+            }
+        }
+
+        // Move the rest in place, one run within a source and a target chunk at a time. Runs are moved from the end of the
+        // data when moving forward, and from the start when moving back, so no data is overwritten before it is moved.
+        const length = end - start;
+        for (let moved = 0; moved < length;) {
+            let source: number;
+            let destination: number;
+            let count: number;
+
+            if (target > start) {
+                source = end - moved;
+                destination = target + length - moved;
+                count = Math.min((source - 1) % this.chunkSize + 1, (destination - 1) % this.chunkSize + 1, length - moved);
+                source -= count;
+                destination -= count;
+            } else {
+                source = start + moved;
+                destination = target + moved;
+                count = Math.min(this.chunkSize - source % this.chunkSize, this.chunkSize - destination % this.chunkSize, length - moved);
+            }
+
+            const sourceOffset = source % this.chunkSize;
+            this.chunks[Math.floor(source / this.chunkSize)].copy(this.chunks[Math.floor(destination / this.chunkSize)],
+                destination % this.chunkSize, sourceOffset, sourceOffset + count);
+            moved += count;
+        }
+    }
+
+    grow(minLength: number) {
+        while (this.capacity < minLength) {
+            this.chunks.push(BufferBackend.allocUnsafe(this.chunkSize));
+        }
+    }
+
+    shrink(length: number) {
+        this.chunks.length = Math.ceil(length / this.chunkSize);
+    }
+}
+
+/**
+ * A read-only window over a range of another storage, used for subarray() views of chunked storage so that views that span
+ * chunks share memory with the data instead of copying it. Offsets are relative to the start of the range.
+ */
+class StorageView implements SmartBufferStorage {
+    private storage: SmartBufferStorage;
+    private start: number;
+    private end: number;
+
+    /**
+     * Creates a new StorageView instance.
+     *
+     * @param storage { SmartBufferStorage } The storage to create a view over.
+     * @param start { Number } The offset the view starts at.
+     * @param end { Number } The offset the view ends at (exclusive).
+     */
+    constructor(storage: SmartBufferStorage, start: number, end: number) {
+        this.storage = storage;
+        this.start = start;
+        this.end = end;
+    }
+
+    get capacity(): number {
+        return this.end - this.start;
+    }
+
+    byteAt(offset: number): number {
+        return this.storage.byteAt(this.start + offset);
+    }
+
+    slice(start: number, end: number): Buffer {
+        return this.storage.slice(this.start + start, this.start + end);
+    }
+
+    copy(start: number, end: number): Buffer {
+        return this.storage.copy(this.start + start, this.start + end);
+    }
+
+    indexOf(pattern: Buffer, from: number, end: number): number {
+        const index = this.storage.indexOf(pattern, this.start + from, this.start + end);
+        return index === -1 ? -1 : index - this.start;
+    }
+
+    readNumber<T>(func: (offset: number) => T, byteSize: number, offset: number): T {
+        return this.storage.readNumber(func, byteSize, this.start + offset);
+    }
+
+    writeNumber<T>(func: (value: T, offset?: number) => number, byteSize: number, value: T, offset: number) {
+        this.storage.writeNumber(func, byteSize, value, this.start + offset);
+    }
+
+    writeString(value: string, offset: number, byteLength: number, encoding: BufferEncoding) {
+        this.storage.writeString(value, this.start + offset, byteLength, encoding);
+    }
+
+    writeBuffer(value: Buffer, offset: number) {
+        this.storage.writeBuffer(value, this.start + offset);
+    }
+
+    copyWithin(target: number, start: number, end: number) {
+        this.storage.copyWithin(this.start + target, this.start + start, this.start + end);
+    }
+
+    grow(minLength: number) {
+        // A view never grows beyond its range (views are read-only, so nothing is written past it).
+    }
+
+    shrink(length: number) {
+        // A view never shrinks, as that would free data of the storage it is a view over.
+    }
+}
+
+export {
+    StorageMode,
+    SmartBufferStorage,
+    ContiguousStorage,
+    ChunkedStorage,
+    StorageView
+};
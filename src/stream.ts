@@ -0,0 +1,113 @@
+import { Transform, TransformOptions, TransformCallback } from 'stream';
+import { SmartBuffer } from './smartbuffer';
+import { SmartBufferArgumentError, SmartBufferFormatError, isIncompleteDataError } from './errors';
+
+/**
+ * Decodes a single frame from a SmartBuffer, starting at its read position.
+ * Returns undefined (or null), or throws a SmartBufferOutOfBoundsError, when the buffer does not contain a complete frame yet.
+ */
+type FrameDecoder<T> = (buff: SmartBuffer) => T | undefined | null;
+
+/**
+ * Transform stream that appends incoming chunks to a SmartBuffer and emits the frames decoded from it.
+ *
+ * The decoder is called repeatedly until it signals that more data is needed by returning undefined (or null), or by reading
+ * beyond the end of the data (throwing a SmartBufferOutOfBoundsError, which schema struct decoders also wrap). The SmartBuffer
+ * is strict, so readString(), readBuffer(), readStringNT() and readBufferNT() throw instead of returning a partial value.
+ * The read position is then restored to the start of the incomplete frame, and decoding resumes once the next chunk
+ * arrives. Consumed data is removed from the SmartBuffer after each chunk so memory does not grow on long-lived streams.
+ */
+class SmartBufferFrameParser<T> extends Transform {
+    // The SmartBuffer incoming data is appended to. Reads past the end of the data throw, so frames are never cut short.
+    public readonly buff: SmartBuffer = new SmartBuffer({ strict: true });
+
+    private decoder: FrameDecoder<T>;
+
+    /**
+     * Creates a new SmartBufferFrameParser instance.
+     *
+     * @param decoder { Function(buff: SmartBuffer) => T } The function to decode a frame with.
+     * @param options { TransformOptions } The Transform stream options. Decoded frames are always emitted in object mode.
+     */
+    constructor(decoder: FrameDecoder<T>, options?: TransformOptions) {
+        super(Object.assign({}, options, { readableObjectMode: true }));
+
+        if (typeof decoder !== 'function') {
+            throw new SmartBufferArgumentError(
+                'Invalid frame decoder provided. Please specify a function that decodes a frame from a SmartBuffer.', 'decoder', decoder);
+        }
+        this.decoder = decoder;
+    }
+
+    /**
+     * Appends a chunk to the SmartBuffer and pushes all of the complete frames.
+     *
+     * @param chunk { Buffer } The incoming chunk.
+     * @param encoding { String } The encoding of the chunk (unused, chunks are always Buffers).
+     * @param callback { Function } Called once the chunk is processed.
+     */
+    _transform(chunk: Buffer, encoding: string, callback: TransformCallback) {
+        this.buff.writeBuffer(chunk);
+
+        try {
+            this.decodeFrames();
+        } catch (err) {
+            return callback(err);
+        }
+        callback();
+    }
+
+    /**
+     * Ends the stream, failing if the data ended in the middle of a frame.
+     *
+     * @param callback { Function } Called once the stream is flushed.
+     */
+    _flush(callback: TransformCallback) {
+        const remaining = this.buff.remaining();
+
+        if (remaining > 0) {
+            return callback(new SmartBufferFormatError(`Stream ended with ${remaining} bytes of an incomplete frame.`,
+                this.buff.readOffset));
+        }
+        callback();
+    }
+
+    /**
+     * Decodes and pushes frames until more data is needed, then removes the consumed data.
+     */
+    private decodeFrames() {
+        while (this.buff.remaining() > 0) {
+            const offset = this.buff.readOffset;
+            let frame: T;
+
+            try {
+                frame = this.decoder(this.buff);
+            } catch (err) {
+                if (!isIncompleteDataError(err)) {
+                    throw err;
+                }
+                frame = undefined;
+            }
+
+            if (frame === undefined || frame === null) {
+                // Wait for more data, and decode the incomplete frame from the start again.
+                this.buff.readOffset = offset;
+                break;
+            }
+
+            if (this.buff.readOffset === offset) {
+                throw new SmartBufferArgumentError('Invalid decoder provided. The frame decoder returned a frame without reading any data.',
+                    'decoder', this.decoder);
+            }
+            this.push(frame);
+        }
+
+        // Remove the decoded data so memory does not grow on long-lived streams.
+        this.buff.compact();
+    }
+}
+
+export {
+    FrameDecoder,
+    SmartBufferFrameParser
+};
@@ -0,0 +1,123 @@
+import { BufferBackend } from './backend';
+
+/**
+ * The types of value a trace entry can hold.
+ */
+type SmartBufferTraceValue = number | bigint | string | Buffer;
+
+/**
+ * Object interface for a read or write recorded while a SmartBuffer is tracing.
+ */
+interface SmartBufferTraceEntry {
+    // The function that read or wrote the data (such as readUInt16BE or writeString).
+    method: string;
+    // The offset the data was read from or written to.
+    offset: number;
+    // The number of bytes read or written.
+    byteLength: number;
+    // The value that was read or written. Buffers are copied, so they do not change with the data.
+    value: SmartBufferTraceValue;
+    // The label given with annotate() before the read or write.
+    label?: string;
+}
+
+// The maximum number of bytes of a Buffer value shown by formatTraceEntry().
+const TRACE_PREVIEW_BYTES = 16;
+
+/**
+ * Formats a trace entry on a single line, such as 0+2 readUInt16BE (length): 5.
+ *
+ * @param entry { SmartBufferTraceEntry } The entry to format.
+ *
+ * @return { String }
+ */
+function formatTraceEntry(entry: SmartBufferTraceEntry): string {
+    let value: string;
+
+    if (typeof entry.value === 'string') {
+        value = JSON.stringify(entry.value);
+    } else if (typeof entry.value === 'bigint') {
+        value = `${entry.value}n`;
+    } else if (typeof entry.value === 'number') {
+        value = `${entry.value}`;
+    } else {
+        value = `<${entry.value.slice(0, TRACE_PREVIEW_BYTES).toString('hex')}` +
+            `${entry.value.length > TRACE_PREVIEW_BYTES ? '...' : ''}>`;
+    }
+
+    return `${entry.offset}+${entry.byteLength} ${entry.method}${entry.label === undefined ? '' : ` (${entry.label})`}: ${value}`;
+}
+
+/**
+ * The log of the reads and writes of a SmartBuffer, recorded between SmartBuffer.startTrace() and SmartBuffer.stopTrace().
+ */
+class SmartBufferTrace {
+    // The recorded reads and writes, in the order they happened.
+    public readonly entries: SmartBufferTraceEntry[] = [];
+
+    private pendingLabel: string = undefined;
+
+    /**
+     * Sets the label of the next recorded read or write.
+     *
+     * @param label { String } The label.
+     */
+    annotate(label: string) {
+        this.pendingLabel = label;
+        return this;
+    }
+
+    /**
+     * Records a read or write.
+     *
+     * @param method { String } The function that read or wrote the data.
+     * @param offset { Number } The offset the data was read from or written to.
+     * @param byteLength { Number } The number of bytes read or written.
+     * @param value { Number | BigInt | String | Buffer } The value that was read or written.
+     */
+    record(method: string, offset: number, byteLength: number, value: SmartBufferTraceValue) {
+        const entry: SmartBufferTraceEntry = {
+            method,
+            offset,
+            byteLength,
+            value: typeof value === 'object' ? BufferBackend.from(value) : value
+        };
+
+        if (this.pendingLabel !== undefined) {
+            entry.label = this.pendingLabel;
+            this.pendingLabel = undefined;
+        }
+        this.entries.push(entry);
+    }
+
+    /**
+     * Gets the entries with JSON compatible values (BigInts become Strings, and Buffers become hex Strings). Called by
+     * JSON.stringify().
+     *
+     * @return { Object[] }
+     */
+    toJSON(): object[] {
+        return this.entries.map((entry) => {
+            const value = typeof entry.value === 'bigint' ? entry.value.toString() :
+                typeof entry.value === 'object' ? entry.value.toString('hex') : entry.value;
+
+            return { ...entry, value };
+        });
+    }
+
+    /**
+     * Formats the entries, one per line.
+     *
+     * @return { String }
+     */
+    toString(): string {
+        return this.entries.map(formatTraceEntry).join('\n');
+    }
+}
+
+export {
+    SmartBufferTraceEntry,
+    SmartBufferTraceValue,
+    SmartBufferTrace,
+    formatTraceEntry
+};
@@ -0,0 +1,3 @@
+// The smart-buffer/stream entry point. SmartBufferFrameParser is kept out of the main module so that loading smart-buffer
+// does not load Node's stream module.
+module.exports = require('./build/stream');
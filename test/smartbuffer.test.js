@@ -1,5 +1,24 @@
 var SmartBuffer = require('../build/smartbuffer').SmartBuffer;
+var SmartBufferRangeError = require('../build/smartbuffer').SmartBufferRangeError;
+var SmartBufferOutOfBoundsError = require('../build/smartbuffer').SmartBufferOutOfBoundsError;
+var SmartBufferCapacityError = require('../build/smartbuffer').SmartBufferCapacityError;
+var SmartBufferArgumentError = require('../build/smartbuffer').SmartBufferArgumentError;
+var SmartBufferEncodingError = require('../build/smartbuffer').SmartBufferEncodingError;
+var SmartBufferFormatError = require('../build/smartbuffer').SmartBufferFormatError;
+var SmartBufferDelimiterError = require('../build/smartbuffer').SmartBufferDelimiterError;
+var SmartBufferSchemaError = require('../build/smartbuffer').SmartBufferSchemaError;
+var SmartBufferChecksumError = require('../build/smartbuffer').SmartBufferChecksumError;
+var SmartBufferMarkError = require('../build/smartbuffer').SmartBufferMarkError;
+var SmartBufferReadOnlyError = require('../build/smartbuffer').SmartBufferReadOnlyError;
+var SmartBufferPlaceholderError = require('../build/smartbuffer').SmartBufferPlaceholderError;
+var schema = require('../build/smartbuffer').schema;
+var SmartBufferFrameParser = require('../stream').SmartBufferFrameParser;
+var SmartBufferBitReader = require('../build/smartbuffer').SmartBufferBitReader;
+var SmartBufferBitWriter = require('../build/smartbuffer').SmartBufferBitWriter;
+var SmartBufferPool = require('../build/smartbuffer').SmartBufferPool;
+var PortableBuffer = require('../build/smartbuffer').PortableBuffer;
 var assert = require('chai').assert;
+var path = require('path');
 
 describe('Constructing a SmartBuffer', function () {
     describe('Constructing with an existing Buffer', function () {
@@ -222,6 +241,252 @@ describe('Reading/Writing To/From SmartBuffer', function () {
     
 
 
+    describe('64 Bit Numeric Values', function () {
+        var reader = new SmartBuffer();
+        reader.writeBigInt64BE(BigInt('-9223372036854775808'));
+        reader.writeBigInt64LE(BigInt('9223372036854775807'));
+        reader.writeBigUInt64BE(BigInt('18446744073709551615'));
+        reader.writeBigUInt64LE(BigInt('1311768467463790320'));
+        reader.writeInt64BE(-Number.MAX_SAFE_INTEGER);
+        reader.writeInt64LE(1234567890123);
+        reader.writeUInt64BE(Number.MAX_SAFE_INTEGER);
+        reader.writeUInt64LE(42);
+
+        it('should equal the correct values that were written above', function () {
+            assert.strictEqual(reader.readBigInt64BE(), BigInt('-9223372036854775808'));
+            assert.strictEqual(reader.readBigInt64LE(), BigInt('9223372036854775807'));
+            assert.strictEqual(reader.readBigUInt64BE(), BigInt('18446744073709551615'));
+            assert.strictEqual(reader.readBigUInt64LE(), BigInt('1311768467463790320'));
+            assert.strictEqual(reader.readInt64BE(), -Number.MAX_SAFE_INTEGER);
+            assert.strictEqual(reader.readInt64LE(), 1234567890123);
+            assert.strictEqual(reader.readUInt64BE(), Number.MAX_SAFE_INTEGER);
+            assert.strictEqual(reader.readUInt64LE(), 42);
+        });
+
+        it('should throw an exception if attempting to read 64 bit values from a buffer with not enough data left', function () {
+            assert.throws(function () {
+                reader.readBigUInt64LE();
+            });
+        });
+
+        it('should throw an exception and not advance when reading an unsafe integer as a Number', function () {
+            var unsafe = SmartBuffer.fromBuffer(new Buffer([0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]));
+
+            assert.throws(function () {
+                unsafe.readUInt64BE();
+            }, SmartBufferFormatError);
+            assert.throws(function () {
+                unsafe.readUInt64LE(0);
+            }, SmartBufferFormatError);
+            assert.strictEqual(unsafe.remaining(), 8);
+            assert.strictEqual(unsafe.readInt64BE(), -1);
+            assert.strictEqual(unsafe.remaining(), 0);
+            assert.strictEqual(unsafe.readInt64LE(0), -1);
+        });
+
+        it('should throw an exception when writing an unsafe integer as a Number', function () {
+            var writer = new SmartBuffer();
+
+            assert.throws(function () {
+                writer.writeUInt64BE(Math.pow(2, 60));
+            });
+            assert.throws(function () {
+                writer.writeInt64LE(1.5);
+            });
+            assert.strictEqual(writer.length, 0);
+        });
+    });
+
+    describe('Variable Width Numeric Values', function () {
+        var reader = new SmartBuffer();
+        reader.writeIntBE(-0x123456, 3);
+        reader.writeIntLE(-0x123456, 3);
+        reader.writeUIntBE(0xAABBCCDDEE, 5);
+        reader.writeUIntLE(0xAABBCCDDEEFF, 6);
+        reader.writeUIntBE(0x42, 1);
+        reader.writeUIntLE(0x1122, 2, 0);
+
+        it('should equal the correct values that were written above', function () {
+            assert.strictEqual(reader.readUIntLE(2), 0x1122);
+            assert.strictEqual(reader.readIntBE(3), -0x123456);
+            assert.strictEqual(reader.readIntLE(3), -0x123456);
+            assert.strictEqual(reader.readUIntBE(5), 0xAABBCCDDEE);
+            assert.strictEqual(reader.readUIntLE(6), 0xAABBCCDDEEFF);
+            assert.strictEqual(reader.readUIntBE(1), 0x42);
+        });
+
+        it('should write the values with the correct byte order', function () {
+            var writer = new SmartBuffer();
+            writer.writeUIntBE(0x010203, 3);
+            writer.writeUIntLE(0x010203, 3);
+
+            assert.deepEqual(writer.toBuffer(), new Buffer([0x01, 0x02, 0x03, 0x03, 0x02, 0x01]));
+        });
+
+        it('should throw an exception if attempting to read a value with not enough data left', function () {
+            var buff = SmartBuffer.fromBuffer(new Buffer([0x01, 0x02, 0x03]));
+
+            assert.throws(function () {
+                buff.readUIntBE(4);
+            });
+            assert.strictEqual(buff.readUIntBE(3), 0x010203);
+        });
+
+        it('should throw an exception when given an invalid byte length', function () {
+            var buff = new SmartBuffer();
+
+            assert.throws(function () {
+                buff.readIntBE(7);
+            });
+            assert.throws(function () {
+                buff.writeUIntLE(1, 0);
+            });
+            assert.throws(function () {
+                buff.writeIntBE(1, 2.5);
+            });
+            assert.strictEqual(buff.length, 0);
+        });
+    });
+
+    describe('Varint Values', function () {
+        it('should write unsigned, signed and zigzag LEB128 varints with the correct encoding', function () {
+            var writer = new SmartBuffer();
+            writer.writeVarUInt(300);
+            writer.writeVarInt(-123456);
+            writer.writeZigZagVarInt(-1);
+            writer.writeZigZagVarInt(1);
+            writer.writeZigZagVarInt(-2);
+
+            assert.deepEqual(writer.toBuffer(), new Buffer([0xAC, 0x02, 0xC0, 0xBB, 0x78, 0x01, 0x02, 0x03]));
+        });
+
+        it('should write QUIC varints with the correct encoding', function () {
+            var writer = new SmartBuffer();
+            writer.writeQuicVarInt(37);
+            writer.writeQuicVarInt(15293);
+            writer.writeQuicVarInt(494878333);
+            writer.writeBigQuicVarInt(BigInt('151288809941952652'));
+
+            assert.strictEqual(writer.toString('hex'), '257bbd9d7f3e7dc2197c5eff14e88c');
+        });
+
+        it('should equal the correct values that were written', function () {
+            var values = [0, 1, 127, 128, 16383, 16384, 0xFFFFFFFF, Number.MAX_SAFE_INTEGER];
+            var writer = new SmartBuffer();
+
+            values.forEach(function (value) {
+                writer.writeVarUInt(value);
+                writer.writeVarInt(value);
+                writer.writeVarInt(-value);
+                writer.writeZigZagVarInt(value);
+                writer.writeZigZagVarInt(-value);
+                writer.writeQuicVarInt(Math.min(value, Math.pow(2, 50)));
+            });
+
+            var reader = SmartBuffer.fromBuffer(writer.toBuffer());
+
+            values.forEach(function (value) {
+                assert.strictEqual(reader.readVarUInt(), value);
+                assert.strictEqual(reader.readVarInt(), value);
+                assert.strictEqual(reader.readVarInt(), -value);
+                assert.strictEqual(reader.readZigZagVarInt(), value);
+                assert.strictEqual(reader.readZigZagVarInt(), -value);
+                assert.strictEqual(reader.readQuicVarInt(), Math.min(value, Math.pow(2, 50)));
+            });
+            assert.strictEqual(reader.remaining(), 0);
+        });
+
+        it('should equal the correct BigInt values that were written', function () {
+            var values = ['0', '1', '300', '9223372036854775807', '-9223372036854775808', '-1'].map(BigInt);
+            var writer = new SmartBuffer();
+
+            values.forEach(function (value) {
+                writer.writeBigVarUInt(BigInt.asUintN(64, value));
+                writer.writeBigVarInt(value);
+                writer.writeBigZigZagVarInt(value);
+                writer.writeBigQuicVarInt(BigInt.asUintN(62, value));
+            });
+
+            var reader = SmartBuffer.fromBuffer(writer.toBuffer());
+
+            values.forEach(function (value) {
+                assert.strictEqual(reader.readBigVarUInt(), BigInt.asUintN(64, value));
+                assert.strictEqual(reader.readBigVarInt(), value);
+                assert.strictEqual(reader.readBigZigZagVarInt(), value);
+                assert.strictEqual(reader.readBigQuicVarInt(), BigInt.asUintN(62, value));
+            });
+            assert.strictEqual(reader.remaining(), 0);
+        });
+
+        it('should throw an exception and not advance when a varint is truncated', function () {
+            var reader = SmartBuffer.fromBuffer(new Buffer([0xFF, 0xFF]));
+
+            assert.throws(function () {
+                reader.readVarUInt();
+            }, /Truncated varint/);
+            assert.throws(function () {
+                reader.readBigVarInt();
+            }, /Truncated varint/);
+            assert.throws(function () {
+                reader.readQuicVarInt();
+            }, /Truncated varint/);
+            assert.strictEqual(reader.remaining(), 2);
+        });
+
+        it('should throw an exception when a varint is overlong', function () {
+            var reader = SmartBuffer.fromBuffer(new Buffer([0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x00]));
+
+            assert.throws(function () {
+                reader.readVarUInt();
+            }, /Overlong varint/);
+            assert.throws(function () {
+                reader.readBigVarUInt();
+            }, /Overlong varint/);
+
+            reader.readOffset = 1;
+            try {
+                reader.readVarUInt();
+                assert.fail();
+            } catch (err) {
+                assert.instanceOf(err, SmartBufferFormatError);
+                assert.strictEqual(err.offset, 1);
+            }
+        });
+
+        it('should throw an exception when a varint does not fit in a Number', function () {
+            var writer = new SmartBuffer();
+            writer.writeBigVarUInt(BigInt(Number.MAX_SAFE_INTEGER) + BigInt(1));
+            writer.writeBigQuicVarInt(BigInt(Number.MAX_SAFE_INTEGER) + BigInt(1));
+
+            var reader = SmartBuffer.fromBuffer(writer.toBuffer());
+            assert.throws(function () {
+                reader.readVarUInt();
+            }, SmartBufferFormatError);
+            assert.strictEqual(reader.readBigVarUInt(), BigInt(Number.MAX_SAFE_INTEGER) + BigInt(1));
+            assert.throws(function () {
+                reader.readQuicVarInt();
+            }, SmartBufferFormatError);
+        });
+
+        it('should throw an exception when writing an invalid value', function () {
+            var writer = new SmartBuffer();
+
+            assert.throws(function () {
+                writer.writeVarUInt(-1);
+            });
+            assert.throws(function () {
+                writer.writeZigZagVarInt(0.5);
+            });
+            assert.throws(function () {
+                writer.writeBigVarInt(BigInt(2) ** BigInt(63));
+            });
+            assert.throws(function () {
+                writer.writeBigQuicVarInt(BigInt(2) ** BigInt(62));
+            });
+            assert.strictEqual(writer.length, 0);
+        });
+    });
+
     describe('Basic String Values', function () {
         var reader = new SmartBuffer();
         reader.writeStringNT('hello');
@@ -313,7 +578,186 @@ describe('Reading/Writing To/From SmartBuffer', function () {
             assert.strictEqual(reader.readString(), str);
         });
 
+        it('Should fill the gap before the position with zeros.', function () {
+            assert.deepEqual(writer.toBuffer().slice(0, 10), new Buffer(10).fill(0));
+        });
+
+
+    });
+
+    describe('Length-prefixed String and Buffer Values', function () {
+        it('should equal the correct values that were written with each prefix type', function () {
+            var prefixes = ['UInt8', 'UInt16BE', 'UInt16LE', 'UInt32BE', 'UInt32LE', 'VarUInt'];
+            var writer = new SmartBuffer();
+
+            prefixes.forEach(function (prefix) {
+                writer.writeStringPrefixed('✎ hello', prefix);
+                writer.writeBufferPrefixed(new Buffer([1, 2, 3]), prefix);
+            });
+
+            var reader = SmartBuffer.fromBuffer(writer.toBuffer());
+
+            prefixes.forEach(function (prefix) {
+                assert.strictEqual(reader.readStringPrefixed(prefix), '✎ hello');
+                assert.deepEqual(reader.readBufferPrefixed(prefix), new Buffer([1, 2, 3]));
+            });
+            assert.strictEqual(reader.remaining(), 0);
+        });
+
+        it('should write the byte length of the string in the given encoding as the prefix', function () {
+            var writer = new SmartBuffer();
+            writer.writeStringPrefixed('✎', 'UInt16BE');
+            writer.writeStringPrefixed('abcd', 'UInt8', 'hex');
+
+            assert.strictEqual(writer.toString('hex'), '0003e29c8e02abcd');
+
+            var reader = SmartBuffer.fromBuffer(writer.toBuffer());
+            reader.skip(5);
+            assert.strictEqual(reader.readStringPrefixed('UInt8', 'hex'), 'abcd');
+        });
+
+        it('should throw an exception and not advance when the prefix exceeds the remaining data', function () {
+            var reader = SmartBuffer.fromBuffer(new Buffer([0x05, 0x61, 0x62]));
+
+            assert.throws(function () {
+                reader.readStringPrefixed('UInt8');
+            }, /exceeds the remaining data/);
+            assert.strictEqual(reader.readOffset, 0);
+        });
+
+        it('should throw an exception when the value does not fit in the prefix', function () {
+            var writer = new SmartBuffer();
+
+            assert.throws(function () {
+                writer.writeBufferPrefixed(new Buffer(256), 'UInt8');
+            }, /too long/);
+            assert.strictEqual(writer.length, 0);
+        });
+
+        it('should throw an exception when given an invalid prefix or encoding', function () {
+            var writer = new SmartBuffer();
+
+            assert.throws(function () {
+                writer.writeStringPrefixed('hello', 'UInt24');
+            });
+            assert.throws(function () {
+                writer.writeStringPrefixed('hello', 'UInt8', 'invalid');
+            });
+            assert.throws(function () {
+                SmartBuffer.fromBuffer(new Buffer([0x00])).readBufferPrefixed('Int8');
+            });
+            assert.strictEqual(writer.length, 0);
+        });
+    });
+
+    describe('Fixed-width String Values', function () {
+        it('should pad strings to the width and trim the padding when reading', function () {
+            var writer = new SmartBuffer();
+            writer.writeStringFixed('ustar', 8);
+            writer.writeStringFixed('DBF', 6, { pad: ' ' });
+            writer.writeStringFixed('ab', 4, { pad: 0xFF });
+            writer.writeStringFixed('', 2);
+
+            assert.strictEqual(writer.toString('hex'), '7573746172000000' + '444246202020' + '6162ffff' + '0000');
+
+            var reader = SmartBuffer.fromBuffer(writer.toBuffer());
+            assert.strictEqual(reader.readStringFixed(8), 'ustar');
+            assert.strictEqual(reader.readStringFixed(6, { trim: false }), 'DBF   ');
+            reader.skip(4);
+            assert.strictEqual(reader.readStringFixed(2), '');
+            assert.strictEqual(reader.remaining(), 0);
+        });
+
+        it('should encode the string and padding with the given encoding', function () {
+            var writer = new SmartBuffer();
+            writer.writeStringFixed('hi', 8, { pad: ' ', encoding: 'utf16le' });
+
+            assert.strictEqual(writer.toString('hex'), '6800690020002000');
+            assert.strictEqual(SmartBuffer.fromBuffer(writer.toBuffer()).readStringFixed(8, { encoding: 'utf16le' }), 'hi');
+        });
+
+        it('should cut long strings without splitting a multi-byte character', function () {
+            var writer = new SmartBuffer();
+            writer.writeStringFixed('héllo', 2, { truncate: 'cut' });
+            writer.writeStringFixed('€€', 5, { truncate: 'cut' });
+            writer.writeStringFixed('a😀b', 5, { truncate: 'cut', encoding: 'utf16le', pad: ' ' });
+            writer.writeStringFixed('abcdef', 3, { truncate: 'cut', encoding: 'latin1' });
+
+            assert.strictEqual(writer.toString('hex'), '6800' + 'e282ac0000' + '6100200000' + '616263');
+
+            var reader = SmartBuffer.fromBuffer(writer.toBuffer());
+            assert.strictEqual(reader.readStringFixed(2), 'h');
+            assert.strictEqual(reader.readStringFixed(5), '€');
+        });
+
+        it('should not split multi-byte padding at the end of the field', function () {
+            var writer = new SmartBuffer();
+            writer.writeStringFixed('a', 3, { pad: '€' });
+            writer.writeStringFixed('a', 9, { pad: '€' });
+            writer.writeStringFixed('', 5, { pad: 'ab' });
+
+            assert.strictEqual(writer.toString('hex'), '610000' + '61e282ace282ac0000' + '6162616200');
+
+            var reader = SmartBuffer.fromBuffer(writer.toBuffer());
+            assert.strictEqual(reader.readStringFixed(3), 'a');
+            assert.strictEqual(reader.readStringFixed(9), 'a€€');
+        });
+
+        it('should ignore the data after the first NUL when trimming', function () {
+            var reader = SmartBuffer.fromBuffer(new Buffer('ab\u0000xy  ab  \u0000\u0000'));
+
+            assert.strictEqual(reader.readStringFixed(7), 'ab');
+            assert.strictEqual(reader.readStringFixed(6), 'ab');
+            reader.readOffset = 0;
+            assert.strictEqual(reader.readStringFixed(7, { trim: false }), 'ab\u0000xy  ');
+        });
+
+        it('should throw an exception and not write anything when the string does not fit', function () {
+            var writer = new SmartBuffer();
+
+            assert.throws(function () {
+                writer.writeStringFixed('hello', 4);
+            }, SmartBufferArgumentError);
+            assert.throws(function () {
+                writer.writeStringFixed('€', 2, { truncate: 'error' });
+            }, /does not fit/);
+            assert.strictEqual(writer.length, 0);
+        });
+
+        it('should throw an exception and not advance when reading past the end of the data', function () {
+            var reader = SmartBuffer.fromBuffer(new Buffer('abc'));
+
+            assert.throws(function () {
+                reader.readStringFixed(4);
+            }, SmartBufferOutOfBoundsError);
+            assert.strictEqual(reader.readOffset, 0);
+        });
+
+        it('should throw an exception when given invalid arguments', function () {
+            var buff = SmartBuffer.fromBuffer(new Buffer('abcd'));
 
+            assert.throws(function () {
+                buff.writeStringFixed('a', -1);
+            }, SmartBufferArgumentError);
+            assert.throws(function () {
+                buff.writeStringFixed('a', 2, { pad: 256 });
+            }, SmartBufferArgumentError);
+            assert.throws(function () {
+                buff.writeStringFixed('a', 2, { pad: '' });
+            }, SmartBufferArgumentError);
+            assert.throws(function () {
+                buff.writeStringFixed('a', 2, { truncate: 'ellipsis' });
+            }, SmartBufferArgumentError);
+            assert.throws(function () {
+                buff.writeStringFixed('a', 2, { encoding: 'invalid' });
+            }, SmartBufferEncodingError);
+            assert.throws(function () {
+                buff.readStringFixed(1.5);
+            }, SmartBufferArgumentError);
+            assert.throws(function () {
+                buff.readStringFixed(1, { encoding: 'invalid' });
+            }, SmartBufferEncodingError);
+        });
     });
 
     describe('Buffer Values', function () {
@@ -409,79 +853,2658 @@ describe('Reading/Writing To/From SmartBuffer', function () {
         });
     });
 
-    describe('Adding more data to the buffer than the internal buffer currently allows.', function () {
-        it('Should automatically adjust internal buffer size when needed', function () {
+    describe('Overwriting values at specific positions', function () {
+        it('should patch a length placeholder in place without shifting data or moving the write offset', function () {
             var writer = new SmartBuffer();
-            var largeBuff = new Buffer(10000);
+            writer.writeUInt16LE(0x0060);
+            writer.writeUInt16LE(0);
+            writer.writeStringNT('something');
+            writer.setUInt16LE(writer.length - 4, 2);
+            writer.writeUInt8(0xFF);
+
+            var reader = SmartBuffer.fromBuffer(writer.toBuffer());
+            assert.strictEqual(writer.length, 15);
+            assert.strictEqual(reader.readUInt16LE(), 0x0060);
+            assert.strictEqual(reader.readUInt16LE(), 10);
+            assert.strictEqual(reader.readStringNT(), 'something');
+            assert.strictEqual(reader.readUInt8(), 0xFF);
+        });
 
-            writer.writeBuffer(largeBuff);
+        it('should overwrite every numeric type in place', function () {
+            var writer = SmartBuffer.fromBuffer(Buffer.alloc(18));
+            writer.setInt8(-1, 0);
+            writer.setUInt16BE(0xAABB, 1);
+            writer.setInt32LE(-2, 3);
+            writer.setUIntBE(0x010203, 3, 7);
+            writer.setDoubleBE(1.5, 10);
 
-            assert.strictEqual(writer.length, largeBuff.length);
+            assert.strictEqual(writer.length, 18);
+            assert.strictEqual(writer.toString('hex'), 'ffaabbfeffffff0102033ff8000000000000');
         });
-    });
-
-});
 
-describe('Skipping around data', function () {
-    var writer = new SmartBuffer();
-    writer.writeStringNT('hello');
-    writer.writeUInt16LE(6699);
-    writer.writeStringNT('world!');
+        it('should overwrite strings and buffers in place', function () {
+            var writer = new SmartBuffer();
+            writer.writeString('hello world');
+            writer.setString('WORLD', 6);
+            writer.setBuffer(new Buffer('HE'), 0);
 
-    it('Should equal the UInt16 that was written above', function () {
-        var reader = new SmartBuffer(writer.toBuffer());
-        reader.skip(6);
-        assert.strictEqual(reader.readUInt16LE(), 6699);
-        reader.skipTo(0);
-        assert.strictEqual(reader.readStringNT(), 'hello');
-        reader.rewind(6);
-        assert.strictEqual(reader.readStringNT(), 'hello');
-    });
+            assert.strictEqual(writer.toString(), 'HEllo WORLD');
+            assert.strictEqual(writer.length, 11);
+        });
 
-    it('Should throw an error when attempting to skip more bytes than actually exist.', function () {
-        var reader = new SmartBuffer(writer.toBuffer());
+        it('should throw an exception when overwriting beyond the bounds of the data', function () {
+            var writer = new SmartBuffer();
+            writer.writeUInt16BE(0);
 
-        assert.throws(function () {
-            reader.skip(10000);
+            assert.throws(function () {
+                writer.setUInt32BE(1, 0);
+            });
+            assert.throws(function () {
+                writer.setString('abc', 1);
+            });
+            assert.throws(function () {
+                writer.setUInt8(1, -1);
+            });
+            assert.strictEqual(writer.length, 2);
         });
     });
 
-    it('Should throw an error when attempting to skip to a position that does not exist.', function () {
-        var reader = new SmartBuffer(writer.toBuffer());
+    describe('Inserting values with the insert functions', function () {
+        it('should shift the data that follows the offset forward', function () {
+            var writer = new SmartBuffer();
+            writer.writeUInt8(0x01);
+            writer.writeUInt8(0x04);
+            writer.insertUInt16BE(0x0203, 1);
+            writer.insertStringNT('ab', 0);
+            writer.insertBuffer(new Buffer([0xFF]), 3);
 
-        assert.throws(function () {
-            reader.skipTo(10000);
+            assert.strictEqual(writer.toString('hex'), '616200ff01020304');
         });
-    });
 
-    it('Should throw an error when attempting to rewind past the start of the buffer.', function () {
-        var buff = new SmartBuffer();
-        assert.throws(function () {
-            buff.rewind(10000);
+        it('should move the read and write offsets along with the data they point to', function () {
+            var buff = new SmartBuffer();
+            buff.writeString('abcdef');
+            buff.readString(3);
+            buff.insertString('XY', 1);
+
+            assert.strictEqual(buff.readString(), 'def');
+
+            buff.insertUInt8(0x21, buff.length);
+            buff.writeString('?');
+            assert.strictEqual(buff.toString(), 'aXYbcdef!?');
         });
-    });
-});
 
-describe('Automatic internal buffer resizing', function () {
-    var writer;
+        it('should append after data inserted at the write offset', function () {
+            var buff = new SmartBuffer();
+            buff.writeString('abc');
+            buff.insertString('12', 3);
+            buff.writeString('d');
 
-    it('Should not throw an error when adding data that is larger than current buffer size (internal resize algo fails)', function () {
-        var str = 'String larger than one byte';
-        writer = new SmartBuffer(1);
-        writer.writeString(str);
+            assert.strictEqual(buff.toString(), 'abc12d');
+        });
 
-        assert.strictEqual(writer.buff.length, str.length);
+        it('should throw an exception when given an invalid offset', function () {
+            var buff = new SmartBuffer();
 
-    });
+            assert.throws(function () {
+                buff.insertUInt8(1);
+            });
+            assert.throws(function () {
+                buff.insertString('abc', -1);
+            });
+            assert.strictEqual(buff.length, 0);
+        });
 
-    it('Should not throw an error when adding data that is larger than current buffer size (internal resize algo succeeds)', function () {
-        writer = new SmartBuffer(100);
-        var buff = new Buffer(105);
+        it('should throw a SmartBufferRangeError when inserting past the end of the data', function () {
+            var buff = new SmartBuffer();
+            buff.writeString('ab');
 
-        writer.writeBuffer(buff);
+            assert.throws(function () {
+                buff.insertUInt8(1, 3);
+            }, SmartBufferRangeError);
+            assert.throws(function () {
+                buff.insertBuffer(new Buffer([1]), 5);
+            }, SmartBufferRangeError);
+            assert.strictEqual(buff.length, 2);
+            assert.strictEqual(buff.writeOffset, 2);
+        });
 
-        // Test internal array growth algo.
-        assert.strictEqual(writer.buff.length, (100 * 3 / 2 + 1));
+        it('should leave the length and offsets unchanged when the value fails to write', function () {
+            var buff = new SmartBuffer();
+            buff.writeString('ab');
+            buff.readUInt8();
+
+            assert.throws(function () {
+                buff.writeUInt8(300);
+            });
+            assert.throws(function () {
+                buff.insertUInt16BE(-1, 0);
+            });
+            assert.strictEqual(buff.length, 2);
+            assert.strictEqual(buff.readOffset, 1);
+            assert.strictEqual(buff.writeOffset, 2);
+            assert.strictEqual(buff.toString(), 'ab');
+        });
+    });
+
+    describe('Adding more data to the buffer than the internal buffer currently allows.', function () {
+        it('Should automatically adjust internal buffer size when needed', function () {
+            var writer = new SmartBuffer();
+            var largeBuff = new Buffer(10000);
+
+            writer.writeBuffer(largeBuff);
+
+            assert.strictEqual(writer.length, largeBuff.length);
+        });
+    });
+
+});
+
+describe('Default endianness', function () {
+    it('Should default to big endian', function () {
+        var buff = new SmartBuffer();
+        assert.strictEqual(buff.endian, 'BE');
+
+        buff.writeUInt16(0x1234);
+        buff.writeInt32(-2);
+        assert.deepEqual(buff.toBuffer(), new Buffer([0x12, 0x34, 0xFF, 0xFF, 0xFF, 0xFE]));
+        assert.strictEqual(buff.readUInt16(), 0x1234);
+        assert.strictEqual(buff.readInt32(), -2);
+    });
+
+    it('Should use the endian option for the unsuffixed functions', function () {
+        var buff = SmartBuffer.fromOptions({ endian: 'LE' });
+        assert.strictEqual(buff.endian, 'LE');
+
+        buff.writeUInt16(0x1234);
+        buff.writeUInt32(0x12345678);
+        buff.writeUInt(0x123456, 3);
+        assert.deepEqual(buff.toBuffer(), new Buffer([0x34, 0x12, 0x78, 0x56, 0x34, 0x12, 0x56, 0x34, 0x12]));
+
+        assert.strictEqual(buff.peekUInt16(), 0x1234);
+        assert.strictEqual(buff.readUInt16(), 0x1234);
+        assert.strictEqual(buff.readUInt32(), 0x12345678);
+        assert.strictEqual(buff.readUInt(3), 0x123456);
+    });
+
+    it('Should round trip every unsuffixed type in both byte orders', function () {
+        ['BE', 'LE'].forEach(function (endian) {
+            var buff = new SmartBuffer({ endian: endian });
+
+            buff.writeInt16(-1234);
+            buff.writeInt32(-123456);
+            buff.writeUInt16(54321);
+            buff.writeUInt32(4000000000);
+            buff.writeFloat(1.5);
+            buff.writeDouble(-0.125);
+            buff.writeBigInt64(BigInt(-1234567890123));
+            buff.writeBigUInt64(BigInt('18446744073709551615'));
+            buff.writeInt64(-1234567890123);
+            buff.writeUInt64(Number.MAX_SAFE_INTEGER);
+            buff.writeInt(-123456, 3);
+            buff.writeUInt(0xABCDEF, 3);
+
+            assert.deepEqual(buff.toBuffer().slice(0, 2), endian === 'BE' ? new Buffer([0xFB, 0x2E]) : new Buffer([0x2E, 0xFB]));
+
+            assert.strictEqual(buff.readInt16(), -1234);
+            assert.strictEqual(buff.readInt32(), -123456);
+            assert.strictEqual(buff.readUInt16(), 54321);
+            assert.strictEqual(buff.readUInt32(), 4000000000);
+            assert.strictEqual(buff.readFloat(), 1.5);
+            assert.strictEqual(buff.readDouble(), -0.125);
+            assert.strictEqual(buff.readBigInt64(), BigInt(-1234567890123));
+            assert.strictEqual(buff.readBigUInt64(), BigInt('18446744073709551615'));
+            assert.strictEqual(buff.readInt64(), -1234567890123);
+            assert.strictEqual(buff.readUInt64(), Number.MAX_SAFE_INTEGER);
+            assert.strictEqual(buff.readInt(3), -123456);
+            assert.strictEqual(buff.readUInt(3), 0xABCDEF);
+        });
+    });
+
+    it('Should insert and overwrite values in the default endianness', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer([0x01, 0x02]));
+        buff.endian = 'LE';
+
+        buff.insertUInt16(0x1234, 1);
+        assert.deepEqual(buff.toBuffer(), new Buffer([0x01, 0x34, 0x12, 0x02]));
+        buff.setUInt16(0xABCD, 2);
+        assert.deepEqual(buff.toBuffer(), new Buffer([0x01, 0x34, 0xCD, 0xAB]));
+    });
+
+    it('Should switch the endianness temporarily with withEndian()', function () {
+        var buff = new SmartBuffer();
+
+        var result = buff.withEndian('LE', function (inner) {
+            inner.writeUInt16(0x1234);
+            inner.withEndian('BE', function () {
+                inner.writeUInt16(0x1234);
+            });
+            inner.writeUInt16(0x1234);
+            return 'done';
+        });
+
+        assert.strictEqual(result, 'done');
+        assert.strictEqual(buff.endian, 'BE');
+        assert.deepEqual(buff.toBuffer(), new Buffer([0x34, 0x12, 0x12, 0x34, 0x34, 0x12]));
+
+        assert.throws(function () {
+            buff.withEndian('LE', function () {
+                throw new Error('failed');
+            });
+        }, /failed/);
+        assert.strictEqual(buff.endian, 'BE');
+    });
+
+    it('Should use the endianness of the SmartBuffer for unsuffixed schema types', function () {
+        var header = schema.struct({ type: 'uint16', length: 'uint32' });
+        var buff = new SmartBuffer({ endian: 'LE' });
+
+        header.encode({ type: 1, length: 2 }, buff);
+        assert.deepEqual(buff.toBuffer(), new Buffer([0x01, 0x00, 0x02, 0x00, 0x00, 0x00]));
+        assert.deepEqual(header.decode(buff), { type: 1, length: 2 });
+    });
+
+    it('Should throw a SmartBufferArgumentError when an invalid endian is provided', function () {
+        assert.throws(function () {
+            new SmartBuffer({ endian: 'middle' });
+        }, SmartBufferArgumentError);
+
+        assert.throws(function () {
+            new SmartBuffer().endian = 'big';
+        }, SmartBufferArgumentError);
+
+        assert.throws(function () {
+            new SmartBuffer().withEndian('big', function () {});
+        }, SmartBufferArgumentError);
+    });
+});
+
+describe('Peeking values', function () {
+    var buff = new SmartBuffer();
+    buff.writeUInt8(0x7F);
+    buff.writeInt16BE(-2);
+    buff.writeUInt32LE(0xDEADBEEF);
+    buff.writeVarUInt(300);
+    buff.writeStringNT('hello');
+    buff.writeString('world');
+
+    it('Should peek numeric values without moving the read offset', function () {
+        assert.strictEqual(buff.peekUInt8(), 0x7F);
+        assert.strictEqual(buff.peekInt8(), 0x7F);
+        assert.strictEqual(buff.readOffset, 0);
+        assert.strictEqual(buff.readUInt8(), 0x7F);
+
+        assert.strictEqual(buff.peekInt16BE(), -2);
+        assert.strictEqual(buff.peekUInt16BE(), 0xFFFE);
+        assert.strictEqual(buff.readOffset, 1);
+    });
+
+    it('Should peek values at the given offset without moving the read offset', function () {
+        assert.strictEqual(buff.peekUInt32LE(3), 0xDEADBEEF);
+        assert.strictEqual(buff.peekUIntLE(3, 3), 0xADBEEF);
+        assert.strictEqual(buff.peekBigUInt64LE(0) > 0, true);
+        assert.strictEqual(buff.peekVarUInt(7), 300);
+        assert.strictEqual(buff.readOffset, 1);
+    });
+
+    it('Should peek String and Buffer values', function () {
+        assert.strictEqual(buff.peekStringNT(9), 'hello');
+        assert.strictEqual(buff.peekStringNT(9, 'ascii'), 'hello');
+        assert.strictEqual(buff.peekString(5, 15), 'world');
+        assert.strictEqual(buff.peekString(5, 15, 'ascii'), 'world');
+        assert.deepEqual(buff.peekBuffer(2, 15), new Buffer('wo'));
+        assert.strictEqual(buff.readOffset, 1);
+
+        buff.readOffset = 9;
+        assert.strictEqual(buff.peekStringNT(), 'hello');
+        assert.strictEqual(buff.peekString(5, 'ascii'), 'hello');
+        assert.deepEqual(buff.peekBuffer(5), new Buffer('hello'));
+        assert.strictEqual(buff.readOffset, 9);
+        buff.readOffset = 1;
+    });
+
+    it('Should throw a SmartBufferOutOfBoundsError and keep the read offset when peeking beyond the data', function () {
+        assert.throws(function () {
+            buff.peekUInt32BE(18);
+        }, SmartBufferOutOfBoundsError);
+
+        assert.throws(function () {
+            buff.peekDoubleLE(15);
+        }, SmartBufferOutOfBoundsError);
+
+        assert.strictEqual(buff.readOffset, 1);
+    });
+
+    it('Should throw an error when peeking at an invalid offset', function () {
+        assert.throws(function () {
+            buff.peekUInt8(-1);
+        }, SmartBufferArgumentError);
+
+        assert.throws(function () {
+            buff.peekUInt8(100);
+        }, SmartBufferRangeError);
+
+        assert.strictEqual(buff.readOffset, 1);
+    });
+});
+
+describe('Reading values at an offset', function () {
+    var buff = new SmartBuffer();
+    buff.writeUInt16LE(0x1234);
+    buff.writeInt32BE(-5);
+    buff.writeBigUInt64BE(BigInt(2) ** BigInt(40));
+    buff.writeVarInt(-300);
+    buff.writeStringNT('hello');
+    buff.writeStringPrefixed('world', 'UInt8');
+    buff.writeBufferNT(new Buffer([1, 2, 3]));
+
+    it('Should read numeric values at the given offset without moving the read offset', function () {
+        assert.strictEqual(buff.readInt32BE(2), -5);
+        assert.strictEqual(buff.readUInt16LE(0), 0x1234);
+        assert.strictEqual(buff.readUInt64BE(6), Math.pow(2, 40));
+        assert.strictEqual(buff.readBigUInt64BE(6), BigInt(2) ** BigInt(40));
+        assert.strictEqual(buff.readUIntBE(3, 3), 0xFFFFFB);
+        assert.strictEqual(buff.readVarInt(14), -300);
+        assert.strictEqual(buff.readOffset, 0);
+    });
+
+    it('Should read String and Buffer values at the given offset without moving the read offset', function () {
+        assert.strictEqual(buff.readStringNT(16), 'hello');
+        assert.strictEqual(buff.readStringNT(16, 'ascii'), 'hello');
+        assert.strictEqual(buff.readString(3, 16), 'hel');
+        assert.strictEqual(buff.readString(3, 16, 'ascii'), 'hel');
+        assert.strictEqual(buff.readStringPrefixed('UInt8', 22), 'world');
+        assert.strictEqual(buff.readStringPrefixed('UInt8', 22, 'ascii'), 'world');
+        assert.deepEqual(buff.readBuffer(2, 0), new Buffer([0x34, 0x12]));
+        assert.deepEqual(buff.readBufferNT(28), new Buffer([1, 2, 3]));
+        assert.strictEqual(buff.readOffset, 0);
+    });
+
+    it('Should still read at the read offset when only an encoding is provided', function () {
+        buff.readOffset = 16;
+        assert.strictEqual(buff.readStringNT('ascii'), 'hello');
+        assert.strictEqual(buff.readStringPrefixed('UInt8', 'ascii'), 'world');
+        assert.strictEqual(buff.readOffset, 28);
+        buff.readOffset = 0;
+    });
+
+    it('Should validate the offset against the length of the data', function () {
+        assert.throws(function () {
+            buff.readUInt32LE(30);
+        }, SmartBufferOutOfBoundsError);
+
+        assert.throws(function () {
+            buff.readUInt8(33);
+        }, SmartBufferRangeError);
+
+        assert.throws(function () {
+            buff.readString(1, -1);
+        }, SmartBufferArgumentError);
+
+        assert.strictEqual(buff.readOffset, 0);
+    });
+
+    it('Should throw instead of reading fewer bytes than the length at the given offset', function () {
+        var data = SmartBuffer.fromBuffer(new Buffer('abcdef'));
+
+        [
+            function () { data.readString(10, 4); },
+            function () { data.readString(3, 4, 'ascii'); },
+            function () { data.readBuffer(10, 4); },
+            function () { data.readBufferCopy(3, 4); },
+            function () { data.peekString(3, 4); },
+            function () { data.peekBuffer(3, 4); }
+        ].forEach(function (func) {
+            assert.throws(func, SmartBufferOutOfBoundsError);
+        });
+
+        assert.strictEqual(data.readString(2, 4), 'ef');
+        assert.strictEqual(data.readString(undefined, 4), 'ef');
+        assert.deepEqual(data.readBuffer(undefined, 6), new Buffer(0));
+        data.readOffset = 4;
+        assert.strictEqual(data.readString(10), 'ef');
+    });
+
+    it('Should throw instead of reading partial values with the strict option', function () {
+        var data = new SmartBuffer({ buff: new Buffer('abc\u0000def'), strict: true });
+
+        assert.strictEqual(data.readStringNT(), 'abc');
+        [
+            function () { data.readString(4); },
+            function () { data.readBuffer(4); },
+            function () { data.readBufferCopy(4); },
+            function () { data.peekString(4); },
+            function () { data.readStringNT(); },
+            function () { data.readBufferNT(); },
+            function () { data.subarray(4).readString(4); }
+        ].forEach(function (func) {
+            assert.throws(func, SmartBufferOutOfBoundsError);
+        });
+
+        assert.strictEqual(data.readOffset, 4);
+        assert.strictEqual(data.readString(), 'def');
+
+        assert.throws(function () {
+            new SmartBuffer({ strict: 'yes' });
+        }, SmartBufferArgumentError, 'Invalid strict provided.');
+    });
+});
+
+describe('Reading and writing bits', function () {
+    it('Should read bit fields MSB first', function () {
+        // DNS header flags: QR(1) Opcode(4) AA(1) TC(1) RD(1) RA(1) Z(3) RCODE(4)
+        var buff = SmartBuffer.fromBuffer(new Buffer([0x81, 0x83, 0xFF]));
+        var reader = new SmartBufferBitReader(buff);
+
+        assert.strictEqual(reader.readBit(), 1);
+        assert.strictEqual(reader.readBits(4), 0);
+        assert.strictEqual(reader.readBits(3), 1);
+        assert.strictEqual(reader.bitOffset, 0);
+        assert.strictEqual(reader.readBit(), 1);
+        assert.strictEqual(reader.readBits(3), 0);
+        assert.strictEqual(reader.readBits(4), 3);
+        assert.strictEqual(buff.readUInt8(), 0xFF);
+    });
+
+    it('Should read bit fields LSB first', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer([0xB5, 0x01]));
+        var reader = new SmartBufferBitReader(buff, 'LSB');
+
+        assert.strictEqual(reader.readBit(), 1);
+        assert.strictEqual(reader.readBits(2), 2);
+        assert.strictEqual(reader.readBits(7), 0x36);
+        assert.strictEqual(reader.bitOffset, 2);
+    });
+
+    it('Should read values spanning multiple bytes', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer([0xFF, 0xFF, 0xFF, 0xFF, 0xF0]));
+        var reader = new SmartBufferBitReader(buff);
+
+        assert.strictEqual(reader.readBits(4), 0xF);
+        assert.strictEqual(reader.readBits(32), 0xFFFFFFFF);
+        assert.strictEqual(reader.readBits(4), 0);
+    });
+
+    it('Should write bit fields MSB and LSB first', function () {
+        var buff = new SmartBuffer();
+        var writer = new SmartBufferBitWriter(buff);
+
+        writer.writeBit(1).writeBits(0, 4).writeBits(1, 3).writeBit(1).writeBits(0, 3).writeBits(3, 4);
+        assert.deepEqual(buff.toBuffer(), new Buffer([0x81, 0x83]));
+
+        var lsb = new SmartBuffer();
+        new SmartBufferBitWriter(lsb, 'LSB').writeBit(1).writeBits(2, 2).writeBits(0x36, 7);
+        assert.deepEqual(lsb.toBuffer(), new Buffer([0xB5, 0x01]));
+    });
+
+    it('Should round trip values of every width', function () {
+        var buff = new SmartBuffer();
+        var writer = new SmartBufferBitWriter(buff);
+
+        for (var i = 1; i <= 32; i++) {
+            writer.writeBits(Math.pow(2, i) - 1 - (i > 1 ? 1 : 0), i);
+        }
+
+        var reader = new SmartBufferBitReader(buff);
+        for (var j = 1; j <= 32; j++) {
+            assert.strictEqual(reader.readBits(j), Math.pow(2, j) - 1 - (j > 1 ? 1 : 0));
+        }
+    });
+
+    it('Should interoperate with byte-level reads and writes', function () {
+        var buff = new SmartBuffer();
+        var writer = new SmartBufferBitWriter(buff);
+
+        writer.writeBits(5, 3);
+        buff.writeUInt16BE(0x1234);
+        writer.writeBits(1, 1);
+        writer.writeBits(1, 1).alignToByte().writeBits(0xFF, 8);
+
+        assert.deepEqual(buff.toBuffer(), new Buffer([0xA0, 0x12, 0x34, 0xC0, 0xFF]));
+
+        var reader = new SmartBufferBitReader(buff);
+        assert.strictEqual(reader.readBits(3), 5);
+        assert.strictEqual(buff.readUInt16BE(), 0x1234);
+        assert.strictEqual(reader.readBits(2), 3);
+        reader.alignToByte();
+        assert.strictEqual(reader.readBits(8), 0xFF);
+        assert.strictEqual(buff.remaining(), 0);
+    });
+
+    it('Should read and write Exp-Golomb codes', function () {
+        var buff = new SmartBuffer();
+        var writer = new SmartBufferBitWriter(buff);
+        var values = [0, 1, 2, 3, 7, 255, 65535, Math.pow(2, 32) - 2];
+        var signed = [0, 1, -1, 2, -2, 1000, -1000, Math.pow(2, 31) - 1, -(Math.pow(2, 31) - 1)];
+
+        writer.writeExpGolomb(0).writeExpGolomb(1).writeExpGolomb(2).writeExpGolomb(3);
+        assert.deepEqual(buff.toBuffer(), new Buffer([0xA6, 0x40]));
+
+        values.slice(4).forEach(function (value) { writer.writeExpGolomb(value); });
+        signed.forEach(function (value) { writer.writeSignedExpGolomb(value); });
+
+        var reader = new SmartBufferBitReader(buff);
+        values.forEach(function (value) { assert.strictEqual(reader.readExpGolomb(), value); });
+        signed.forEach(function (value) { assert.strictEqual(reader.readSignedExpGolomb(), value); });
+    });
+
+    it('Should throw a SmartBufferOutOfBoundsError and keep the position when reading beyond the data', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer([0x00, 0x01]));
+        var reader = new SmartBufferBitReader(buff);
+
+        reader.readBits(4);
+        assert.throws(function () {
+            reader.readBits(13);
+        }, SmartBufferOutOfBoundsError);
+
+        assert.throws(function () {
+            new SmartBufferBitReader(SmartBuffer.fromBuffer(new Buffer([0x00, 0x00]))).readExpGolomb();
+        }, SmartBufferOutOfBoundsError);
+
+        assert.throws(function () {
+            new SmartBufferBitReader(SmartBuffer.fromBuffer(new Buffer(8).fill(0))).readExpGolomb();
+        }, SmartBufferFormatError);
+
+        assert.strictEqual(reader.readBits(12), 1);
+    });
+
+    it('Should throw an error when invalid arguments are provided', function () {
+        var writer = new SmartBufferBitWriter(new SmartBuffer());
+
+        assert.throws(function () {
+            writer.writeBits(4, 2);
+        }, SmartBufferArgumentError);
+
+        assert.throws(function () {
+            writer.writeBits(1, 33);
+        }, SmartBufferArgumentError);
+
+        assert.throws(function () {
+            writer.writeExpGolomb(-1);
+        }, SmartBufferArgumentError);
+
+        assert.throws(function () {
+            new SmartBufferBitReader(new SmartBuffer(), 'middle');
+        }, SmartBufferArgumentError);
+    });
+});
+
+describe('Searching and reading until a delimiter', function () {
+    it('Should find patterns in the data with indexOf()', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer('GET / HTTP/1.1\r\nHost: a\r\n\r\n'));
+
+        assert.strictEqual(buff.indexOf('\r\n'), 14);
+        assert.strictEqual(buff.indexOf(new Buffer('\r\n\r\n')), 23);
+        assert.strictEqual(buff.indexOf(0x20), 3);
+        assert.strictEqual(buff.indexOf('\r\n', 15), 23);
+        assert.strictEqual(buff.indexOf('missing'), -1);
+
+        buff.readOffset = 16;
+        assert.strictEqual(buff.indexOf('\r\n'), 23);
+    });
+
+    it('Should not find patterns in the unused capacity of the internal Buffer', function () {
+        var buff = new SmartBuffer(16);
+        buff.writeString('abc\n');
+        buff.writeString('def');
+        buff.rewindWrite(3);
+        buff.length = 4;
+
+        assert.strictEqual(buff.indexOf('def'), -1);
+    });
+
+    it('Should read until a delimiter', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer('+OK\r\n$5\r\nhello\r\n'));
+
+        assert.deepEqual(buff.readUntil('\r\n'), new Buffer('+OK'));
+        assert.strictEqual(buff.readOffset, 5);
+        assert.deepEqual(buff.readUntil('\r\n', { include: true }), new Buffer('$5\r\n'));
+        assert.strictEqual(buff.readStringUntil(new Buffer('\r\n')), 'hello');
+        assert.strictEqual(buff.remaining(), 0);
+    });
+
+    it('Should read strings until a delimiter in the given encoding', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer('hi,there'));
+
+        assert.strictEqual(buff.readStringUntil('2c', { encoding: 'hex' }), '6869');
+        assert.strictEqual(buff.readString(), 'there');
+    });
+
+    it('Should read lines ending in \\n or \\r\\n', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer('HELO example.com\r\nMAIL FROM:<a@b>\n\r\nQUIT\r\n'));
+
+        assert.strictEqual(buff.readLine(), 'HELO example.com');
+        assert.strictEqual(buff.readLine(), 'MAIL FROM:<a@b>');
+        assert.strictEqual(buff.readLine(), '');
+        assert.strictEqual(buff.readLine({ include: true }), 'QUIT\r\n');
+    });
+
+    it('Should throw a SmartBufferOutOfBoundsError and keep the read offset when the delimiter is not found', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer('partial line'));
+
+        assert.throws(function () {
+            buff.readUntil('\r\n');
+        }, SmartBufferOutOfBoundsError);
+
+        assert.throws(function () {
+            buff.readLine({ maxLength: 100 });
+        }, SmartBufferOutOfBoundsError);
+
+        assert.strictEqual(buff.readOffset, 0);
+    });
+
+    it('Should throw a SmartBufferDelimiterError when the delimiter is not found within maxLength', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer('abcdef\r\n'));
+
+        assert.throws(function () {
+            buff.readUntil('\r\n', { maxLength: 5 });
+        }, SmartBufferDelimiterError, /Delimiter not found within 5 bytes/);
+
+        try {
+            buff.skip(1);
+            buff.readLine({ maxLength: 4 });
+            assert.fail();
+        } catch (err) {
+            assert.instanceOf(err, SmartBufferDelimiterError);
+            assert.instanceOf(err, SmartBufferFormatError);
+            assert.strictEqual(err.maxLength, 4);
+            assert.strictEqual(err.offset, 1);
+        }
+        buff.skipTo(0);
+
+        assert.throws(function () {
+            buff.readLine({ maxLength: 5 });
+        }, SmartBufferDelimiterError, /Delimiter not found within 5 bytes/);
+        assert.strictEqual(buff.readOffset, 0);
+
+        assert.strictEqual(buff.readLine({ maxLength: 6 }), 'abcdef');
+
+        var unix = SmartBuffer.fromBuffer(new Buffer('abcdef\n'));
+        assert.throws(function () {
+            unix.readLine({ maxLength: 5 });
+        }, SmartBufferDelimiterError, /Delimiter not found within 5 bytes/);
+        assert.strictEqual(unix.readOffset, 0);
+        assert.strictEqual(unix.readUntil(0x0A, { maxLength: 6 }).toString(), 'abcdef');
+    });
+
+    it('Should throw an error when invalid arguments are provided', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer('abc\n'));
+
+        assert.throws(function () {
+            buff.readUntil('');
+        }, SmartBufferArgumentError);
+
+        assert.throws(function () {
+            buff.readUntil(256);
+        }, SmartBufferArgumentError);
+
+        assert.throws(function () {
+            buff.readUntil({});
+        }, SmartBufferArgumentError);
+
+        assert.throws(function () {
+            buff.readUntil('\n', { maxLength: -1 });
+        }, SmartBufferArgumentError);
+
+        assert.throws(function () {
+            buff.readStringUntil('\n', { encoding: 'invalid' });
+        }, SmartBufferEncodingError);
+
+        assert.throws(function () {
+            buff.indexOf('a', 5);
+        }, SmartBufferRangeError);
+    });
+});
+
+describe('Views and copies', function () {
+    it('Should create a read-only view over a range of the data', function () {
+        var buff = new SmartBuffer({ endian: 'LE' });
+        buff.writeUInt8(0xFF);
+        buff.writeUInt16(0x1234);
+        buff.writeString('abc');
+
+        var view = buff.subarray(1, 6);
+        assert.strictEqual(view.length, 5);
+        assert.strictEqual(view.readOnly, true);
+        assert.strictEqual(buff.readOnly, false);
+        assert.strictEqual(view.endian, 'LE');
+        assert.strictEqual(view.readUInt16(), 0x1234);
+        assert.strictEqual(view.readString(), 'abc');
+        assert.strictEqual(buff.readOffset, 0);
+
+        assert.deepEqual(buff.subarray().toBuffer(), buff.toBuffer());
+        assert.deepEqual(buff.subarray(3, 3).toBuffer(), new Buffer(0));
+    });
+
+    it('Should throw a SmartBufferReadOnlyError when modifying a view', function () {
+        var view = SmartBuffer.fromBuffer(new Buffer([1, 2, 3, 4])).subarray(1, 3);
+
+        [
+            function () { view.writeUInt8(1); },
+            function () { view.insertUInt8(1, 0); },
+            function () { view.setUInt8(1, 0); },
+            function () { view.writeString('a'); },
+            function () { view.setBuffer(new Buffer([1]), 0); },
+            function () { view.remove(0, 1); },
+            function () { view.compact(); },
+            function () { view.shrinkToFit(); },
+            function () { view.reserve(10); },
+            function () { view.clear(); },
+            function () { view.destroy(); }
+        ].forEach(function (func) {
+            assert.throws(func, SmartBufferReadOnlyError);
+        });
+        assert.deepEqual(view.toBuffer(), new Buffer([2, 3]));
+        assert.strictEqual(view.length, 2);
+    });
+
+    it('Should share memory with views until the data is shifted or the internal Buffer is replaced', function () {
+        var buff = new SmartBuffer(8);
+        buff.writeBuffer(new Buffer([1, 2, 3, 4]));
+
+        var view = buff.subarray(0, 4);
+        var slice = buff.readBuffer(4);
+        var copy = buff.readBufferCopy(4, 0);
+
+        // Overwriting data in place is visible in views.
+        buff.setUInt8(9, 0);
+        assert.strictEqual(view.readUInt8(0), 9);
+        assert.strictEqual(slice[0], 9);
+        assert.strictEqual(copy[0], 1);
+
+        // Removing data shifts the data that views see.
+        buff.remove(0, 1);
+        assert.deepEqual(view.toBuffer(), new Buffer([2, 3, 4, 4]));
+        assert.deepEqual(copy, new Buffer([1, 2, 3, 4]));
+
+        // Growing beyond the capacity replaces the internal Buffer, so views no longer see changes.
+        buff.writeBuffer(new Buffer(10));
+        buff.setUInt8(7, 0);
+        assert.strictEqual(view.readUInt8(0), 2);
+        assert.strictEqual(buff.readUInt8(0), 7);
+    });
+
+    it('Should read copies of the data', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer([1, 2, 3, 4]));
+
+        var copy = buff.readBufferCopy(2);
+        assert.deepEqual(copy, new Buffer([1, 2]));
+        assert.strictEqual(buff.readOffset, 2);
+        assert.deepEqual(buff.readBufferCopy(), new Buffer([3, 4]));
+
+        copy[0] = 9;
+        assert.strictEqual(buff.readUInt8(0), 1);
+    });
+
+    it('Should throw an error when an invalid range is provided', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer([1, 2, 3, 4]));
+
+        assert.throws(function () {
+            buff.subarray(0, 5);
+        }, SmartBufferRangeError);
+
+        assert.throws(function () {
+            buff.subarray(3, 2);
+        }, SmartBufferArgumentError);
+    });
+});
+
+describe('Placeholders', function () {
+    it('Should reserve a zeroed placeholder at the write offset and fill it in place', function () {
+        var buff = new SmartBuffer();
+        buff.writeStringNT('IHDR');
+        var length = buff.reservePlaceholder('UInt32BE');
+        buff.writeString('data');
+
+        assert.strictEqual(length.offset, 5);
+        assert.strictEqual(length.byteSize, 4);
+        assert.strictEqual(buff.readUInt32BE(5), 0);
+        assert.isFalse(length.filled);
+
+        assert.strictEqual(length.fill(0xAABBCCDD), length);
+        assert.isTrue(length.filled);
+        assert.strictEqual(buff.length, 13);
+        assert.strictEqual(buff.writeOffset, 13);
+        assert.deepEqual(buff.toBuffer(), Buffer.concat([new Buffer('IHDR\0'), new Buffer([0xAA, 0xBB, 0xCC, 0xDD]), new Buffer('data')]));
+    });
+
+    it('Should overwrite existing data instead of shifting it', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer([1, 2, 3, 4, 5]));
+        buff.writeOffset = 1;
+        buff.reservePlaceholder('UInt16BE').fill(0xFFFF);
+
+        assert.deepEqual(buff.toBuffer(), new Buffer([1, 0xFF, 0xFF, 4, 5]));
+        assert.strictEqual(buff.writeOffset, 3);
+    });
+
+    it('Should fill a placeholder with the length of the data written after it', function () {
+        var buff = new SmartBuffer();
+        var length = buff.reservePlaceholder('UInt8');
+        buff.writeString('hello');
+        length.fillWithLengthSince();
+
+        var total = buff.reservePlaceholder('UInt16LE');
+        buff.writeUInt8(7);
+        total.fillWithLengthSince(0);
+
+        assert.deepEqual(buff.toBuffer(), new Buffer([5, 0x68, 0x65, 0x6C, 0x6C, 0x6F, 9, 0, 7]));
+    });
+
+    it('Should use the endianness of the SmartBuffer for types without a BE/LE suffix', function () {
+        var buff = new SmartBuffer({ endian: 'LE' });
+        var placeholder = buff.reservePlaceholder('Int16');
+        buff.endian = 'BE';
+        placeholder.fill(-2);
+
+        assert.strictEqual(placeholder.type, 'Int16LE');
+        assert.deepEqual(buff.toBuffer(), new Buffer([0xFE, 0xFF]));
+        assert.strictEqual(new SmartBuffer().reservePlaceholder('UInt32').type, 'UInt32BE');
+    });
+
+    it('Should throw a SmartBufferPlaceholderError from toBuffer() while placeholders are unfilled', function () {
+        var buff = new SmartBuffer();
+        var first = buff.reservePlaceholder('UInt8');
+        buff.writeUInt8(1);
+        var second = buff.reservePlaceholder('Int32LE');
+
+        assert.throws(function () {
+            buff.toBuffer();
+        }, SmartBufferPlaceholderError);
+        try {
+            buff.toUint8Array();
+        } catch (err) {
+            assert.deepEqual(err.offsets, [0, 2]);
+        }
+
+        first.fill(1);
+        second.fill(-1);
+        assert.deepEqual(buff.toBuffer(), new Buffer([1, 1, 0xFF, 0xFF, 0xFF, 0xFF]));
+    });
+
+    it('Should move placeholders with the data when inserting or removing data before them', function () {
+        var buff = new SmartBuffer();
+        buff.writeUInt8(0x11);
+        var length = buff.reservePlaceholder('UInt16LE');
+        buff.writeString('abc');
+
+        buff.insertUInt8(0x22, 0);
+        assert.strictEqual(length.offset, 2);
+        length.fillWithLengthSince();
+        assert.strictEqual(buff.toString('hex'), '22110300616263');
+
+        var type = buff.reservePlaceholder('UInt8');
+        buff.remove(0, 1);
+        buff.readUInt8();
+        buff.compact();
+        assert.strictEqual(type.offset, 5);
+        type.fill(0x33);
+        assert.strictEqual(buff.toString('hex'), '030061626333');
+    });
+
+    it('Should throw a SmartBufferPlaceholderError when inserting or removing data within an unfilled placeholder', function () {
+        var buff = new SmartBuffer();
+        buff.writeUInt8(1);
+        var placeholder = buff.reservePlaceholder('UInt32BE');
+        buff.writeUInt8(2);
+
+        [
+            function () { buff.insertUInt8(3, 2); },
+            function () { buff.remove(0, 2); },
+            function () { buff.remove(4, 2); }
+        ].forEach(function (func) {
+            assert.throws(func, SmartBufferPlaceholderError,
+                'Cannot insert, remove or overwrite data within unfilled placeholders (at offsets 1).');
+        });
+        assert.strictEqual(buff.length, 6);
+
+        buff.readUInt16BE();
+        assert.throws(function () {
+            buff.compact();
+        }, SmartBufferPlaceholderError);
+        assert.strictEqual(buff.readOffset, 2);
+
+        // A filled placeholder can be removed along with its data.
+        placeholder.fill(0);
+        buff.remove(0, 5);
+        assert.deepEqual(buff.toBuffer(), new Buffer([2]));
+    });
+
+    it('Should throw a SmartBufferPlaceholderError when overwriting data within an unfilled placeholder', function () {
+        var buff = new SmartBuffer();
+        buff.writeUInt8(1);
+        var placeholder = buff.reservePlaceholder('UInt16BE');
+        buff.writeUInt8(2);
+
+        [
+            function () { buff.writeOffset = 0; buff.writeUInt16BE(5); },
+            function () { buff.writeOffset = 2; buff.writeUInt8(5); },
+            function () { buff.setUInt8(5, 1); },
+            function () { buff.setUInt32BE(5, 0); },
+            function () { buff.setString('ab', 2); }
+        ].forEach(function (func) {
+            assert.throws(func, SmartBufferPlaceholderError, 'Cannot insert, remove or overwrite data within unfilled placeholders');
+        });
+        assert.strictEqual(buff.length, 4);
+
+        // Data around the placeholder can be overwritten, and the placeholder is overwritten with fill().
+        buff.setUInt8(3, 0);
+        buff.writeOffset = 3;
+        buff.writeUInt8(4);
+        assert.throws(function () {
+            placeholder.fill(0x10000);
+        });
+        assert.strictEqual(placeholder.filled, false);
+        placeholder.fill(0x1234);
+        assert.deepEqual(buff.toBuffer(), new Buffer([3, 0x12, 0x34, 4]));
+
+        // Once filled, the placeholder is ordinary data.
+        buff.setUInt8(5, 1);
+        buff.writeOffset = 2;
+        buff.writeUInt8(6);
+        assert.deepEqual(buff.toBuffer(), new Buffer([3, 5, 6, 4]));
+    });
+
+    it('Should forget placeholders when the SmartBuffer is cleared', function () {
+        var buff = new SmartBuffer();
+        buff.reservePlaceholder('UInt16BE');
+        buff.clear();
+
+        assert.strictEqual(buff.toBuffer().length, 0);
+    });
+
+    it('Should throw an exception when given invalid arguments', function () {
+        var buff = new SmartBuffer();
+
+        assert.throws(function () {
+            buff.reservePlaceholder('UInt64BE');
+        }, SmartBufferArgumentError);
+        assert.throws(function () {
+            buff.reservePlaceholder('Int8LE');
+        }, SmartBufferArgumentError);
+
+        var placeholder = buff.reservePlaceholder('UInt8');
+        assert.throws(function () {
+            placeholder.fillWithLengthSince(2);
+        }, SmartBufferArgumentError);
+        assert.throws(function () {
+            placeholder.fill(256);
+        });
+        assert.isFalse(placeholder.filled);
+    });
+});
+
+describe('Hex dumps', function () {
+    var buff = new SmartBuffer();
+    buff.writeString('Hello world, this is a hexdump!');
+    buff.writeUInt8(0);
+    buff.readOffset = 3;
+
+    it('Should format the data in the offset/hex/ASCII layout with cursor markers', function () {
+        assert.strictEqual(buff.hexdump(), [
+            '00000000  48 65 6c 6c 6f 20 77 6f  72 6c 64 2c 20 74 68 69  |Hello world, thi|',
+            '                   r',
+            '00000010  73 20 69 73 20 61 20 68  65 78 64 75 6d 70 21 00  |s is a hexdump!.|',
+            '00000020',
+            '          w'
+        ].join('\n'));
+    });
+
+    it('Should format a range with a custom width', function () {
+        assert.strictEqual(buff.hexdump({ width: 8, start: 2, end: 20 }), [
+            '00000002  6c 6c 6f 20 77 6f 72 6c  |llo worl|',
+            '             r',
+            '0000000a  64 2c 20 74 68 69 73 20  |d, this |',
+            '00000012  69 73                    |is|',
+            '00000014'
+        ].join('\n'));
+        assert.strictEqual(buff.hexdump({ width: 4, end: 4, cursors: false }), '00000000  48 65 6c 6c  |Hell|\n00000004');
+    });
+
+    it('Should combine markers when both cursors point at the same byte', function () {
+        var short = new SmartBuffer();
+        assert.strictEqual(short.hexdump(), '00000000\n          rw');
+
+        short.writeString('abc');
+        short.readOffset = 3;
+        assert.strictEqual(short.hexdump(), '00000000  61 62 63                                          |abc|\n                   rw\n00000003');
+    });
+
+    it('Should throw an exception when given invalid options', function () {
+        assert.throws(function () {
+            buff.hexdump({ width: 0 });
+        }, SmartBufferArgumentError);
+        assert.throws(function () {
+            buff.hexdump({ start: 10, end: 5 });
+        }, SmartBufferArgumentError);
+        assert.throws(function () {
+            buff.hexdump({ end: 100 });
+        }, SmartBufferRangeError);
+    });
+
+    it('Should show a summary with a truncated preview in util.inspect()', function () {
+        var util = require('util');
+        assert.strictEqual(util.inspect(SmartBuffer.fromBuffer(new Buffer([1, 2, 0xFF]))),
+            "SmartBuffer { length: 3, capacity: 3, readOffset: 0, writeOffset: 0, encoding: 'utf8', endian: 'BE', data: <01 02 ff> }");
+
+        var large = new SmartBuffer({ encoding: 'hex' });
+        large.writeBuffer(new Buffer(60).fill(0xAB));
+        var inspected = util.inspect(large);
+        assert.include(inspected, "length: 60, capacity: 4096, readOffset: 0, writeOffset: 60, encoding: 'hex'");
+        assert.include(inspected, 'ab ab ... 10 more bytes> }');
+    });
+});
+
+describe('Tracing', function () {
+    it('Should not record anything unless tracing is started', function () {
+        var buff = new SmartBuffer();
+        buff.annotate('ignored').writeUInt8(1);
+
+        assert.strictEqual(buff.trace, null);
+    });
+
+    it('Should record numeric, String and Buffer reads and writes with labels', function () {
+        var buff = new SmartBuffer();
+        buff.writeUInt8(0xFF);
+        assert.strictEqual(buff.startTrace(), buff);
+
+        buff.annotate('length').writeUInt16BE(5);
+        buff.writeString('hello');
+        buff.writeFloatLE(1.5);
+        buff.writeBigUInt64BE(BigInt(3));
+        buff.setUInt8(7, 0);
+        buff.writeBuffer(new Buffer([1, 2]));
+        buff.readOffset = 1;
+        buff.annotate('length').readUInt16BE();
+        buff.readString(5);
+        buff.readInt32LE(7);
+        buff.readBuffer(2, 19);
+
+        var trace = buff.stopTrace();
+        buff.readUInt8();
+
+        assert.strictEqual(trace, buff.trace);
+        assert.deepEqual(trace.entries.map(function (entry) {
+            return [entry.method, entry.offset, entry.byteLength, entry.label];
+        }), [
+            ['writeUInt16BE', 1, 2, 'length'],
+            ['writeString', 3, 5, undefined],
+            ['writeFloatLE', 8, 4, undefined],
+            ['writeBigUInt64BE', 12, 8, undefined],
+            ['setUInt8', 0, 1, undefined],
+            ['writeBuffer', 20, 2, undefined],
+            ['readUInt16BE', 1, 2, 'length'],
+            ['readString', 3, 5, undefined],
+            ['readInt32LE', 7, 4, undefined],
+            ['readBuffer', 19, 2, undefined]
+        ]);
+        assert.strictEqual(trace.entries[2].value, 1.5);
+        assert.strictEqual(trace.entries[7].value, 'hello');
+        assert.deepEqual(trace.entries[9].value, new Buffer([3, 1]));
+    });
+
+    it('Should record the terminator of null-terminated values', function () {
+        var buff = new SmartBuffer();
+        buff.writeStringNT('abc');
+        buff.writeBuffer(new Buffer([1, 2]));
+        buff.startTrace();
+        buff.readStringNT();
+        buff.readBufferNT();
+
+        assert.deepEqual(buff.trace.entries.map(function (entry) {
+            return [entry.method, entry.offset, entry.byteLength];
+        }), [['readStringNT', 0, 4], ['readBufferNT', 4, 2]]);
+    });
+
+    it('Should record peeks under their own names', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer([0x01, 0x02, 0x03, 0x04, 0x05]));
+        buff.startTrace();
+        buff.peekUInt8();
+        buff.peekUInt16BE(1);
+        buff.peekBuffer(2, 3);
+        buff.readUInt8(4);
+
+        assert.deepEqual(buff.trace.entries.map(function (entry) {
+            return [entry.method, entry.offset, entry.byteLength, entry.value];
+        }), [['peekUInt8', 0, 1, 1], ['peekUInt16BE', 1, 2, 0x0203], ['peekBuffer', 3, 2, new Buffer([4, 5])], ['readUInt8', 4, 1, 5]]);
+        assert.strictEqual(buff.readOffset, 0);
+    });
+
+    it('Should record varints, lines and delimited reads', function () {
+        var buff = new SmartBuffer();
+        buff.startTrace();
+        buff.writeVarUInt(300);
+        buff.writeZigZagVarInt(-1);
+        buff.writeBigQuicVarInt(BigInt(15293));
+        buff.writeString('ab\r\ncd;');
+        buff.readVarUInt();
+        buff.readZigZagVarInt();
+        buff.readBigQuicVarInt();
+        buff.readLine();
+        buff.readStringUntil(';');
+        buff.readBigVarUInt(0);
+
+        assert.deepEqual(buff.trace.entries.map(function (entry) {
+            return [entry.method, entry.offset, entry.byteLength, entry.value];
+        }), [
+            ['writeVarUInt', 0, 2, 300],
+            ['writeZigZagVarInt', 2, 1, -1],
+            ['writeBigQuicVarInt', 3, 2, BigInt(15293)],
+            ['writeString', 5, 7, 'ab\r\ncd;'],
+            ['readVarUInt', 0, 2, 300],
+            ['readZigZagVarInt', 2, 1, -1],
+            ['readBigQuicVarInt', 3, 2, BigInt(15293)],
+            ['readLine', 5, 4, 'ab'],
+            ['readStringUntil', 9, 3, 'cd'],
+            ['readBigVarUInt', 0, 2, BigInt(300)]
+        ]);
+    });
+
+    it('Should record 64 bit and variable width numbers under their own names', function () {
+        var buff = new SmartBuffer();
+        buff.startTrace();
+        buff.writeInt64BE(-2);
+        buff.writeUIntBE(0x010203, 3);
+        buff.insertUInt16LE(5, 0);
+        buff.setInt64LE(7, 2);
+        buff.readInt64LE(2);
+        buff.readIntBE(3, 10);
+
+        assert.deepEqual(buff.trace.entries.map(function (entry) {
+            return [entry.method, entry.offset, entry.byteLength, entry.value];
+        }), [
+            ['writeInt64BE', 0, 8, BigInt(-2)],
+            ['writeUIntBE', 8, 3, 0x010203],
+            ['insertUInt16LE', 0, 2, 5],
+            ['setInt64LE', 2, 8, BigInt(7)],
+            ['readInt64LE', 2, 8, 7],
+            ['readIntBE', 10, 3, 0x010203]
+        ]);
+    });
+
+    it('Should record functions without a BE/LE suffix under their own names', function () {
+        var buff = new SmartBuffer({ endian: 'LE' });
+        buff.startTrace();
+        buff.writeUInt16(0x0102);
+        buff.insertInt32(-1, 0);
+        buff.writeIntBE(3, 3);
+        buff.setUInt64(5, 0);
+        buff.readInt16(0);
+        buff.readUInt(3, 6);
+        buff.peekUInt16(7);
+
+        assert.deepEqual(buff.trace.entries.map(function (entry) {
+            return [entry.method, entry.offset, entry.byteLength];
+        }), [
+            ['writeUInt16', 0, 2],
+            ['insertInt32', 0, 4],
+            ['writeIntBE', 6, 3],
+            ['setUInt64', 0, 8],
+            ['readInt16', 0, 2],
+            ['readUInt', 6, 3],
+            ['peekUInt16', 7, 2]
+        ]);
+    });
+
+    it('Should record functions built on others once', function () {
+        var buff = new SmartBuffer();
+        buff.startTrace();
+        buff.writeStringPrefixed('hi', 'UInt16BE');
+        buff.writeBufferNT(new Buffer([1, 2]));
+        buff.insertStringNT('x', 0);
+        buff.writeStringFixed('ab', 4);
+        buff.readStringNT();
+        buff.readStringPrefixed('UInt16BE');
+        buff.readBufferCopy(2);
+
+        assert.deepEqual(buff.trace.entries.map(function (entry) {
+            return [entry.method, entry.offset, entry.byteLength];
+        }), [
+            ['writeStringPrefixed', 0, 4],
+            ['writeBufferNT', 4, 3],
+            ['insertStringNT', 0, 2],
+            ['writeStringFixed', 9, 4],
+            ['readStringNT', 0, 2],
+            ['readStringPrefixed', 2, 4],
+            ['readBufferCopy', 6, 2]
+        ]);
+    });
+
+    it('Should export the trace as JSON', function () {
+        var buff = new SmartBuffer().startTrace();
+        buff.annotate('id').writeBigInt64LE(BigInt(-1));
+        buff.writeBuffer(new Buffer([0xAB]));
+
+        assert.deepEqual(JSON.parse(JSON.stringify(buff.trace)), [
+            { method: 'writeBigInt64LE', offset: 0, byteLength: 8, value: '-1', label: 'id' },
+            { method: 'writeBuffer', offset: 8, byteLength: 1, value: 'ab' }
+        ]);
+    });
+
+    it('Should render the trace alongside a hex dump', function () {
+        var buff = new SmartBuffer().startTrace();
+        buff.annotate('length').writeUInt16BE(2);
+        buff.writeString('hi');
+        buff.readOffset = 2;
+
+        assert.strictEqual(buff.trace.toString(), '0+2 writeUInt16BE (length): 2\n2+2 writeString: "hi"');
+        assert.strictEqual(buff.hexdump({ trace: true, cursors: false }), [
+            '00000000  00 02 68 69                                       |..hi|',
+            '          0+2 writeUInt16BE (length): 2',
+            '          2+2 writeString: "hi"',
+            '00000004'
+        ].join('\n'));
+        assert.strictEqual(buff.hexdump({ trace: true, start: 2 }), [
+            '00000002  68 69                                             |hi|',
+            '          r     w',
+            '          2+2 writeString: "hi"',
+            '00000004'
+        ].join('\n'));
+    });
+
+    it('Should start a new trace each time tracing is started', function () {
+        var buff = new SmartBuffer().startTrace();
+        buff.writeUInt8(1);
+        var first = buff.stopTrace();
+        buff.startTrace();
+
+        assert.notStrictEqual(buff.trace, first);
+        assert.strictEqual(buff.trace.entries.length, 0);
+        assert.strictEqual(first.entries.length, 1);
+    });
+});
+
+describe('Checksums', function () {
+    var check = new Buffer('123456789');
+
+    it('Should compute checksums over the whole data', function () {
+        var buff = SmartBuffer.fromBuffer(check);
+
+        assert.strictEqual(buff.checksum('crc32'), 0xCBF43926);
+        assert.strictEqual(buff.checksum('adler32'), 0x091E01DE);
+        assert.strictEqual(buff.checksum('crc16'), 0x29B1);
+        assert.strictEqual(SmartBuffer.fromBuffer(new Buffer('Wikipedia')).checksum('adler32'), 0x11E60398);
+    });
+
+    it('Should compute the Internet checksum (RFC 1071)', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer([0x00, 0x01, 0xF2, 0x03, 0xF4, 0xF5, 0xF6, 0xF7]));
+        assert.strictEqual(buff.checksum('internet'), 0x220D);
+
+        // An odd final byte is padded with a zero byte.
+        var odd = SmartBuffer.fromBuffer(new Buffer([0x00, 0x01, 0xF2, 0x03, 0xF4, 0xF5, 0xF6]));
+        assert.strictEqual(odd.checksum('internet'), 0x2304);
+    });
+
+    it('Should compute checksums over large ranges', function () {
+        var data = new Buffer(100000);
+        data.fill(0xFF);
+        var buff = SmartBuffer.fromBuffer(data);
+
+        assert.strictEqual(buff.checksum('adler32'), 0x149A302C);
+        assert.strictEqual(buff.checksum('crc32'), 0x68C6CEC4);
+    });
+
+    it('Should compute checksums over a range of the data', function () {
+        var buff = new SmartBuffer();
+        buff.writeUInt16BE(0xFFFF);
+        buff.writeBuffer(check);
+        buff.writeUInt8(0xFF);
+
+        assert.strictEqual(buff.checksum('crc32', 2, 11), 0xCBF43926);
+        assert.strictEqual(buff.checksum('crc32', 2), buff.checksum('crc32', 2, 12));
+        assert.strictEqual(buff.checksum('crc32', 5, 5), 0);
+    });
+
+    it('Should write and patch checksums', function () {
+        var buff = new SmartBuffer();
+        buff.writeUInt32BE(0); // Placeholder
+        buff.writeBuffer(check);
+        buff.setChecksum('crc32', 4, 13, 0);
+        buff.writeChecksum('crc16', 4, 13);
+
+        assert.deepEqual(buff.toBuffer(), Buffer.concat([new Buffer([0xCB, 0xF4, 0x39, 0x26]), check, new Buffer([0x29, 0xB1])]));
+
+        var le = new SmartBuffer({ endian: 'LE' });
+        le.writeBuffer(check);
+        le.writeChecksum('crc32', 0, 9);
+        le.writeChecksum('internet', 0, 2);
+        assert.deepEqual(le.toBuffer().slice(9), new Buffer([0x26, 0x39, 0xF4, 0xCB, 0xCE, 0xCD]));
+    });
+
+    it('Should verify checksums read from the data', function () {
+        var buff = new SmartBuffer();
+        buff.writeBuffer(check);
+        buff.writeUInt32BE(0xCBF43926);
+        buff.writeUInt32BE(0x091E01DE);
+
+        buff.readOffset = 9;
+        assert.strictEqual(buff.verifyChecksum('crc32', 0, 9), 0xCBF43926);
+        assert.strictEqual(buff.readOffset, 13);
+        assert.strictEqual(buff.verifyChecksum('adler32', 0, 9, 13), 0x091E01DE);
+        assert.strictEqual(buff.readOffset, 13);
+    });
+
+    it('Should throw a SmartBufferChecksumError and keep the read offset when a checksum does not match', function () {
+        var buff = new SmartBuffer();
+        buff.writeBuffer(check);
+        buff.writeUInt16BE(0x1234);
+        buff.readOffset = 9;
+
+        assert.throws(function () {
+            buff.verifyChecksum('crc16', 0, 9);
+        }, SmartBufferChecksumError);
+        assert.strictEqual(buff.readOffset, 9);
+
+        try {
+            buff.verifyChecksum('crc16', 0, 9);
+        } catch (err) {
+            assert.strictEqual(err.algorithm, 'crc16');
+            assert.strictEqual(err.expected, 0x1234);
+            assert.strictEqual(err.actual, 0x29B1);
+            assert.strictEqual(err.start, 0);
+            assert.strictEqual(err.end, 9);
+        }
+    });
+
+    it('Should throw an error when an invalid algorithm or range is provided', function () {
+        var buff = SmartBuffer.fromBuffer(check);
+
+        assert.throws(function () {
+            buff.checksum('md5');
+        }, SmartBufferArgumentError);
+
+        assert.throws(function () {
+            buff.checksum('crc32', 0, 10);
+        }, SmartBufferRangeError);
+
+        assert.throws(function () {
+            buff.checksum('crc32', 5, 4);
+        }, SmartBufferArgumentError);
+
+        buff.readOffset = 9;
+        assert.throws(function () {
+            buff.verifyChecksum('crc32', 0, 9);
+        }, SmartBufferOutOfBoundsError);
+    });
+});
+
+describe('Skipping around data', function () {
+    var writer = new SmartBuffer();
+    writer.writeStringNT('hello');
+    writer.writeUInt16LE(6699);
+    writer.writeStringNT('world!');
+
+    it('Should equal the UInt16 that was written above', function () {
+        var reader = new SmartBuffer(writer.toBuffer());
+        reader.skip(6);
+        assert.strictEqual(reader.readUInt16LE(), 6699);
+        reader.skipTo(0);
+        assert.strictEqual(reader.readStringNT(), 'hello');
+        reader.rewind(6);
+        assert.strictEqual(reader.readStringNT(), 'hello');
+    });
+
+    it('Should throw an error when attempting to skip more bytes than actually exist.', function () {
+        var reader = new SmartBuffer(writer.toBuffer());
+
+        assert.throws(function () {
+            reader.skip(10000);
+        });
+    });
+
+    it('Should throw an error when attempting to skip to a position that does not exist.', function () {
+        var reader = new SmartBuffer(writer.toBuffer());
+
+        assert.throws(function () {
+            reader.skipTo(10000);
+        });
+    });
+
+    it('Should throw an error when attempting to rewind past the start of the buffer.', function () {
+        var buff = new SmartBuffer();
+        assert.throws(function () {
+            buff.rewind(10000);
+        });
+    });
+});
+
+describe('Marking and resetting the read offset', function () {
+    it('Should return to nested marks', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer([1, 2, 3, 4, 5, 6]));
+
+        buff.mark();
+        buff.readUInt8();
+        buff.mark();
+        buff.readUInt16BE();
+        assert.strictEqual(buff.readOffset, 3);
+
+        buff.reset();
+        assert.strictEqual(buff.readOffset, 1);
+        buff.readUInt32BE();
+
+        buff.reset();
+        assert.strictEqual(buff.readOffset, 0);
+        assert.throws(function () {
+            buff.reset();
+        }, SmartBufferMarkError, 'No mark to reset to.');
+    });
+
+    it('Should remove a mark without moving the read offset', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer([1, 2, 3, 4]));
+
+        buff.mark();
+        buff.readUInt8();
+        buff.mark();
+        buff.readUInt8();
+        buff.unmark();
+        buff.reset();
+        assert.strictEqual(buff.readOffset, 0);
+
+        assert.throws(function () {
+            buff.unmark();
+        }, SmartBufferMarkError, 'No mark to remove.');
+    });
+
+    it('Should keep marked data when compacting', function () {
+        var buff = new SmartBuffer();
+        buff.writeString('abcdef');
+        buff.readString(2);
+        buff.mark();
+        buff.readString(2);
+
+        buff.compact();
+        assert.strictEqual(buff.length, 4);
+        assert.strictEqual(buff.readOffset, 2);
+
+        buff.reset();
+        assert.strictEqual(buff.readString(), 'cdef');
+    });
+
+    it('Should move marks with the data when removing data', function () {
+        var buff = new SmartBuffer();
+        buff.writeString('abcdefgh');
+
+        buff.mark();
+        buff.readString(3);
+        buff.mark();
+        buff.readString(2);
+        buff.mark();
+        buff.readString(2);
+
+        // Removes 'bcd': the mark at 3 (within the removed data) moves to 1, and the mark at 5 moves back to 2.
+        buff.remove(1, 3);
+        assert.strictEqual(buff.toString(), 'aefgh');
+
+        buff.reset();
+        assert.strictEqual(buff.readString(), 'fgh');
+        buff.reset();
+        assert.strictEqual(buff.readString(), 'efgh');
+        buff.reset();
+        assert.strictEqual(buff.readString(), 'aefgh');
+    });
+
+    it('Should discard marks when clearing', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer([1, 2]));
+        buff.mark();
+        buff.clear();
+
+        assert.throws(function () {
+            buff.reset();
+        }, SmartBufferMarkError, 'No mark to reset to.');
+    });
+});
+
+describe('Trying to read', function () {
+    it('Should return the value of the function', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer([0, 2, 0xAA, 0xBB]));
+
+        var value = buff.tryRead(function (b) {
+            return b.readBuffer(b.readUInt16BE());
+        });
+        assert.deepEqual(value, new Buffer([0xAA, 0xBB]));
+        assert.strictEqual(buff.readOffset, 4);
+    });
+
+    it('Should restore the read offset and return the incomplete value when the data runs out', function () {
+        var buff = new SmartBuffer();
+        buff.writeBuffer(new Buffer([0, 1, 0xAA, 0xBB]));
+        var decode = function (b) {
+            return { type: b.readUInt16BE(), value: b.readUInt32BE() };
+        };
+
+        assert.strictEqual(buff.tryRead(decode), undefined);
+        assert.strictEqual(buff.readOffset, 0);
+
+        var INCOMPLETE = {};
+        assert.strictEqual(buff.tryRead(decode, INCOMPLETE), INCOMPLETE);
+
+        buff.writeBuffer(new Buffer([0xCC, 0xDD]));
+        assert.deepEqual(buff.tryRead(decode, INCOMPLETE), { type: 1, value: 0xAABBCCDD });
+        assert.strictEqual(buff.readOffset, 6);
+    });
+
+    it('Should treat schema errors caused by running out of data as incomplete', function () {
+        var header = schema.struct({ type: 'uint8', length: 'uint16be' });
+        var buff = SmartBuffer.fromBuffer(new Buffer([1, 0]));
+
+        assert.strictEqual(buff.tryRead(function (b) {
+            return header.decode(b);
+        }), undefined);
+        assert.strictEqual(buff.readOffset, 0);
+    });
+
+    it('Should restore the read offset and throw other errors', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer([1, 2, 3]));
+
+        assert.throws(function () {
+            buff.tryRead(function (b) {
+                b.readUInt16BE();
+                throw new Error('Invalid message type.');
+            });
+        }, Error, 'Invalid message type.');
+        assert.strictEqual(buff.readOffset, 0);
+
+        assert.throws(function () {
+            buff.tryRead(function (b) {
+                b.readUInt8();
+                return b.readString(1, 'invalid');
+            });
+        }, TypeError);
+        assert.strictEqual(buff.readOffset, 0);
+    });
+
+    it('Should nest and clean up marks left by the function', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer([1, 2, 3, 4]));
+        buff.mark();
+
+        var value = buff.tryRead(function (b) {
+            b.mark();
+            b.readUInt8();
+            return b.tryRead(function (inner) {
+                return inner.readUInt32BE();
+            }, 'inner incomplete');
+        });
+        assert.strictEqual(value, 'inner incomplete');
+        assert.strictEqual(buff.readOffset, 1);
+
+        buff.reset();
+        assert.strictEqual(buff.readOffset, 0);
+        assert.throws(function () {
+            buff.reset();
+        }, SmartBufferMarkError, 'No mark to reset to.');
+    });
+});
+
+describe('Read and write offsets', function () {
+    it('Should expose the current read and write offsets', function () {
+        var buff = new SmartBuffer();
+        buff.writeUInt32LE(1);
+        buff.readUInt16LE();
+
+        assert.strictEqual(buff.writeOffset, 4);
+        assert.strictEqual(buff.readOffset, 2);
+    });
+
+    it('Should move the read offset when it is set', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer([1, 2, 3, 4]));
+        buff.readOffset = 3;
+
+        assert.strictEqual(buff.readUInt8(), 4);
+    });
+
+    it('Should overwrite data when writing at a write offset before the end of the data', function () {
+        var buff = new SmartBuffer();
+        buff.writeString('hello world');
+        buff.moveWriteTo(6);
+        buff.writeString('there');
+
+        assert.strictEqual(buff.toString(), 'hello there');
+        assert.strictEqual(buff.length, 11);
+
+        buff.rewindWrite(5);
+        buff.skipWrite(2);
+        buff.writeString('ERE!!');
+
+        assert.strictEqual(buff.toString(), 'hello thERE!!');
+        assert.strictEqual(buff.length, 13);
+        assert.strictEqual(buff.writeOffset, 13);
+    });
+
+    it('Should throw a SmartBufferRangeError when moving an offset outside of the data', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer([1, 2, 3, 4]));
+        var movements = [
+            function () { buff.skip(5); },
+            function () { buff.rewind(1); },
+            function () { buff.moveTo(5); },
+            function () { buff.readOffset = -1; },
+            function () { buff.readOffset = 1.5; },
+            function () { buff.skipWrite(5); },
+            function () { buff.rewindWrite(1); },
+            function () { buff.moveWriteTo(10); },
+            function () { buff.writeOffset = 5; }
+        ];
+
+        movements.forEach(function (movement) {
+            assert.throws(movement, SmartBufferRangeError);
+        });
+        assert.strictEqual(buff.readOffset, 0);
+        assert.strictEqual(buff.writeOffset, 0);
+    });
+
+    it('Should throw a SmartBufferArgumentError when moving an offset by a negative or non-integer amount', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer([1, 2, 3, 4]));
+        buff.readOffset = 2;
+        buff.writeOffset = 2;
+        var movements = [
+            function () { buff.skip(-1); },
+            function () { buff.rewind(-1); },
+            function () { buff.skipWrite(-1); },
+            function () { buff.rewindWrite(-1); },
+            function () { buff.skip(1.5); },
+            function () { buff.rewindWrite(NaN); }
+        ];
+
+        movements.forEach(function (movement) {
+            assert.throws(movement, SmartBufferArgumentError);
+        });
+        assert.strictEqual(buff.readOffset, 2);
+        assert.strictEqual(buff.writeOffset, 2);
+    });
+
+    it('Should include the requested and available positions in a SmartBufferRangeError', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer([1, 2, 3, 4]));
+
+        try {
+            buff.skip(10);
+            assert.fail();
+        } catch (err) {
+            assert.instanceOf(err, RangeError);
+            assert.strictEqual(err.requested, 10);
+            assert.strictEqual(err.available, 4);
+        }
+    });
+});
+
+describe('Typed errors', function () {
+    it('Should throw a SmartBufferOutOfBoundsError when reading beyond the bounds of the data', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer([1, 2, 3]));
+        buff.readUInt8();
+
+        try {
+            buff.readUInt32LE();
+            assert.fail();
+        } catch (err) {
+            assert.instanceOf(err, SmartBufferOutOfBoundsError);
+            assert.instanceOf(err, SmartBufferRangeError);
+            assert.strictEqual(err.name, 'SmartBufferOutOfBoundsError');
+            assert.strictEqual(err.offset, 1);
+            assert.strictEqual(err.requested, 4);
+            assert.strictEqual(err.available, 2);
+        }
+    });
+
+    it('Should throw a SmartBufferOutOfBoundsError when reading truncated varints and length-prefixed values', function () {
+        assert.throws(function () {
+            SmartBuffer.fromBuffer(new Buffer([0x80, 0x80])).readVarUInt();
+        }, SmartBufferOutOfBoundsError);
+
+        assert.throws(function () {
+            SmartBuffer.fromBuffer(new Buffer([0x40])).readQuicVarInt();
+        }, SmartBufferOutOfBoundsError);
+
+        assert.throws(function () {
+            SmartBuffer.fromBuffer(new Buffer([0x05, 0x61])).readStringPrefixed('UInt8');
+        }, SmartBufferOutOfBoundsError);
+    });
+
+    it('Should throw a SmartBufferEncodingError when an invalid encoding is provided', function () {
+        try {
+            new SmartBuffer('invalid');
+            assert.fail();
+        } catch (err) {
+            assert.instanceOf(err, SmartBufferEncodingError);
+            assert.instanceOf(err, SmartBufferArgumentError);
+            assert.strictEqual(err.argument, 'encoding');
+            assert.strictEqual(err.value, 'invalid');
+        }
+
+        assert.throws(function () {
+            new SmartBuffer().writeString('hello', 'invalid');
+        }, SmartBufferEncodingError);
+
+        assert.throws(function () {
+            new SmartBuffer().toString('invalid');
+        }, SmartBufferEncodingError);
+    });
+
+    it('Should throw a SmartBufferArgumentError when an invalid argument is provided', function () {
+        try {
+            new SmartBuffer(-1);
+            assert.fail();
+        } catch (err) {
+            assert.instanceOf(err, SmartBufferArgumentError);
+            assert.strictEqual(err.argument, 'size');
+            assert.strictEqual(err.value, -1);
+        }
+
+        assert.throws(function () {
+            new SmartBuffer().writeUInt8(1, -1);
+        }, SmartBufferArgumentError);
+
+        assert.throws(function () {
+            new SmartBuffer().writeVarUInt(-1);
+        }, SmartBufferArgumentError);
+    });
+
+    it('Should throw a SmartBufferCapacityError when growing beyond maxSize', function () {
+        try {
+            new SmartBuffer({ maxSize: 8 }).writeBuffer(new Buffer(9));
+            assert.fail();
+        } catch (err) {
+            assert.instanceOf(err, SmartBufferCapacityError);
+            assert.instanceOf(err, SmartBufferRangeError);
+            assert.strictEqual(err.requested, 9);
+            assert.strictEqual(err.available, 8);
+        }
+    });
+
+    it('Should throw a SmartBufferRangeError when removing or setting data beyond the bounds of the data', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer([1, 2, 3]));
+
+        assert.throws(function () {
+            buff.remove(0, 4);
+        }, SmartBufferRangeError);
+
+        assert.throws(function () {
+            buff.setUInt16LE(1, 2);
+        }, SmartBufferRangeError);
+    });
+});
+
+describe('Schema codecs', function () {
+    var Item = schema.struct({
+        id: 'uint16be',
+        name: schema.prefixedString('UInt8')
+    });
+
+    var Packet = schema.struct({
+        version: 'uint8',
+        flags: 'uint8',
+        timestamp: 'uint64le',
+        magic: schema.string(4),
+        count: 'varuint',
+        values: schema.array('int16le', function (parent) { return parent.count; }),
+        items: schema.prefixedArray(Item, 'UInt8'),
+        extra: schema.conditional(function (parent) { return (parent.flags & 1) === 1; }, 'stringNT')
+    });
+
+    var packet = {
+        version: 2,
+        flags: 1,
+        timestamp: 1234567890123,
+        magic: 'SBUF',
+        count: 3,
+        values: [-1, 0, 300],
+        items: [{ id: 1, name: 'first' }, { id: 2, name: 'second' }],
+        extra: 'hello'
+    };
+
+    it('Should round trip a struct with nested structs, arrays and conditional fields', function () {
+        var buff = Packet.encode(packet);
+
+        assert.deepEqual(Packet.decode(buff), packet);
+        assert.strictEqual(buff.remaining(), 0);
+    });
+
+    it('Should encode the fields in the order they are declared', function () {
+        var buff = schema.struct({ a: 'uint8', b: 'uint16be', c: schema.buffer(2) }).encode({
+            a: 1, b: 0x0203, c: new Buffer([4, 5])
+        });
+
+        assert.deepEqual(buff.toBuffer(), new Buffer([1, 2, 3, 4, 5]));
+    });
+
+    it('Should encode into an existing SmartBuffer', function () {
+        var buff = new SmartBuffer();
+        buff.writeUInt8(0xFF);
+
+        Item.encode({ id: 5, name: 'abc' }, buff);
+
+        assert.deepEqual(buff.toBuffer(), new Buffer([0xFF, 0x00, 0x05, 0x03, 0x61, 0x62, 0x63]));
+    });
+
+    it('Should skip conditional fields when the condition is not met', function () {
+        var value = JSON.parse(JSON.stringify(packet));
+        value.flags = 0;
+        delete value.extra;
+
+        var buff = Packet.encode(value);
+        var decoded = Packet.decode(buff);
+
+        assert.isFalse(decoded.hasOwnProperty('extra'));
+        assert.strictEqual(decoded.items[1].name, 'second');
+        assert.strictEqual(buff.remaining(), 0);
+    });
+
+    it('Should throw a SmartBufferSchemaError with the field path when decoding truncated data', function () {
+        var data = Packet.encode(packet).toBuffer();
+        var buff = new SmartBuffer();
+        buff.writeUInt8(0xFF);
+        buff.writeBuffer(data.slice(0, data.length - 9));
+        buff.readUInt8();
+
+        try {
+            Packet.decode(buff);
+            assert.fail();
+        } catch (err) {
+            assert.instanceOf(err, SmartBufferSchemaError);
+            assert.strictEqual(err.path, 'items[1].name');
+            assert.instanceOf(err.cause, Error);
+            assert.strictEqual(buff.readOffset, 1);
+        }
+    });
+
+    it('Should throw a SmartBufferSchemaError with the field path when encoding invalid values', function () {
+        var value = JSON.parse(JSON.stringify(packet));
+        value.magic = 'TOO LONG';
+
+        assert.throws(function () {
+            Packet.encode(value);
+        }, SmartBufferSchemaError, 'Field magic: String is 8 bytes long, but the field is 4 bytes long.');
+
+        value.magic = 'SBUF';
+        value.values = [1, 2];
+
+        assert.throws(function () {
+            Packet.encode(value);
+        }, SmartBufferSchemaError, 'Field values: Array has 2 items, but the field has 3 items.');
+    });
+
+    it('Should discard the fields written before a field that fails to encode', function () {
+        var Header = schema.struct({ id: 'uint32be', tags: schema.prefixedArray(schema.string(2), 'UInt8') });
+        var buff = new SmartBuffer();
+        buff.writeUInt8(0xFF);
+
+        assert.throws(function () {
+            Header.encode({ id: 1, tags: ['ab', 'TOO LONG'] }, buff);
+        }, SmartBufferSchemaError, 'Field tags[1]: String is 8 bytes long, but the field is 2 bytes long.');
+        assert.strictEqual(buff.length, 1);
+        assert.strictEqual(buff.writeOffset, 1);
+
+        Header.encode({ id: 1, tags: ['ab'] }, buff);
+        assert.strictEqual(buff.toString('hex'), 'ff00000001016162');
+    });
+
+    it('Should throw an error when an invalid field type is provided', function () {
+        assert.throws(function () {
+            schema.struct({ a: 'uint128' });
+        }, Error, 'Invalid field type provided: uint128.');
+
+        assert.throws(function () {
+            schema.prefixedArray('uint8', 'UInt24');
+        }, Error, 'Invalid length prefix provided.');
+    });
+});
+
+describe('Parsing frames from a stream', function () {
+    // Frames are a UInt16BE length followed by a String of that length.
+    function decodeFrame(buff) {
+        if (buff.remaining() < 2) {
+            return undefined;
+        }
+
+        var length = buff.readUInt16BE();
+        if (buff.remaining() < length) {
+            return undefined;
+        }
+        return buff.readString(length);
+    }
+
+    function frame(str) {
+        return new SmartBuffer().writeUInt16BE(str.length).writeString(str).toBuffer();
+    }
+
+    it('Should only load the stream module from the smart-buffer/stream entry point', function () {
+        var script = "var Module = require('module'); var load = Module._load;" +
+            "Module._load = function (request) { if (request === 'stream') { throw new Error('stream loaded'); }" +
+            " return load.apply(this, arguments); }; require('./build/smartbuffer');";
+
+        // Throws if the main module loads Node's stream module.
+        require('child_process').execFileSync(process.execPath, ['-e', script], { cwd: path.join(__dirname, '..'), stdio: 'pipe' });
+        assert.strictEqual(require('../build/smartbuffer').SmartBufferFrameParser, undefined);
+    });
+
+    it('Should emit frames that span multiple chunks and chunks that contain multiple frames', function (done) {
+        var parser = new SmartBufferFrameParser(decodeFrame);
+        var frames = [];
+        var data = Buffer.concat([frame('hello'), frame('world'), frame('smart-buffer')]);
+
+        parser.on('data', function (value) {
+            frames.push(value);
+        });
+        parser.on('end', function () {
+            assert.deepEqual(frames, ['hello', 'world', 'smart-buffer']);
+            done();
+        });
+
+        parser.write(data.slice(0, 1));
+        parser.write(data.slice(1, 10));
+        parser.write(data.slice(10, 15));
+        parser.end(data.slice(15));
+    });
+
+    it('Should restore the read position of incomplete frames and remove consumed data', function () {
+        var parser = new SmartBufferFrameParser(decodeFrame);
+        var data = Buffer.concat([frame('hello'), frame('world')]);
+
+        parser.write(data.slice(0, 10));
+
+        assert.strictEqual(parser.buff.readOffset, 0);
+        assert.strictEqual(parser.buff.length, 3);
+        assert.deepEqual(parser.buff.toBuffer(), data.slice(7, 10));
+
+        parser.write(data.slice(10));
+
+        assert.strictEqual(parser.buff.length, 0);
+        assert.strictEqual(parser.read(), 'hello');
+        assert.strictEqual(parser.read(), 'world');
+    });
+
+    it('Should wait for more data when the decoder reads beyond the bounds of the data', function () {
+        var parser = new SmartBufferFrameParser(function (buff) {
+            return buff.readUInt32BE();
+        });
+        var Frame = schema.struct({ id: 'uint8', name: schema.prefixedString('UInt8') });
+        var structParser = new SmartBufferFrameParser(function (buff) {
+            return Frame.decode(buff);
+        });
+
+        parser.write(new Buffer([0, 0]));
+        parser.write(new Buffer([1, 0]));
+        assert.strictEqual(parser.read(), 256);
+
+        structParser.write(new Buffer([1, 3, 0x61]));
+        assert.strictEqual(structParser.buff.readOffset, 0);
+        structParser.write(new Buffer([0x62, 0x63]));
+        assert.deepEqual(structParser.read(), { id: 1, name: 'abc' });
+    });
+
+    it('Should wait for the rest of a String or Buffer that is split across chunks', function () {
+        var parser = new SmartBufferFrameParser(function (buff) {
+            return buff.readString(buff.readUInt8());
+        });
+        var ntParser = new SmartBufferFrameParser(function (buff) {
+            return buff.readBufferNT();
+        });
+
+        parser.write(new Buffer([2, 0x61]));
+        parser.write(new Buffer([0x62, 2]));
+        parser.write(new Buffer([0x63]));
+        parser.write(new Buffer([0x64]));
+        assert.strictEqual(parser.read(), 'ab');
+        assert.strictEqual(parser.read(), 'cd');
+        assert.strictEqual(parser.read(), null);
+
+        ntParser.write(new Buffer([0x61, 0x62]));
+        assert.strictEqual(ntParser.buff.readOffset, 0);
+        ntParser.write(new Buffer([0x63, 0]));
+        assert.deepEqual(ntParser.read(), new Buffer('abc'));
+    });
+
+    it('Should emit an error when the decoder throws', function (done) {
+        var parser = new SmartBufferFrameParser(function () {
+            throw new Error('Invalid frame.');
+        });
+
+        parser.on('error', function (err) {
+            assert.strictEqual(err.message, 'Invalid frame.');
+            done();
+        });
+        parser.write(new Buffer([1, 2, 3]));
+    });
+
+    it('Should emit an error when the decoder returns a frame without reading any data', function (done) {
+        var parser = new SmartBufferFrameParser(function () {
+            return 'frame';
+        });
+
+        parser.on('error', function (err) {
+            assert.instanceOf(err, SmartBufferArgumentError);
+            assert.strictEqual(err.argument, 'decoder');
+            done();
+        });
+        parser.write(new Buffer([1, 2, 3]));
+    });
+
+    it('Should emit an error when the stream ends with an incomplete frame', function (done) {
+        var parser = new SmartBufferFrameParser(decodeFrame);
+
+        parser.on('error', function (err) {
+            assert.instanceOf(err, SmartBufferFormatError);
+            assert.strictEqual(err.message, 'Stream ended with 3 bytes of an incomplete frame.');
+            done();
+        });
+        parser.resume();
+        parser.end(frame('hello').slice(0, 3));
+    });
+
+    it('Should throw an error when an invalid decoder is provided', function () {
+        assert.throws(function () {
+            new SmartBufferFrameParser();
+        }, Error, 'Invalid frame decoder provided.');
+    });
+});
+
+describe('Automatic internal buffer resizing', function () {
+    var writer;
+
+    it('Should not throw an error when adding data that is larger than current buffer size (internal resize algo fails)', function () {
+        var str = 'String larger than one byte';
+        writer = new SmartBuffer(1);
+        writer.writeString(str);
+
+        assert.strictEqual(writer.buff.length, str.length);
+
+    });
+
+    it('Should not throw an error when adding data that is larger than current buffer size (internal resize algo succeeds)', function () {
+        writer = new SmartBuffer(100);
+        var buff = new Buffer(105);
+
+        writer.writeBuffer(buff);
+
+        // Test internal array growth algo.
+        assert.strictEqual(writer.buff.length, (100 * 3 / 2 + 1));
+    });
+});
+
+describe('Capacity management', function () {
+    it('Should discard read data and move the offsets back when compacting', function () {
+        var buff = new SmartBuffer();
+        buff.writeString('hello world');
+        buff.readString(6);
+
+        buff.compact();
+
+        assert.strictEqual(buff.length, 5);
+        assert.strictEqual(buff.readOffset, 0);
+        assert.strictEqual(buff.writeOffset, 5);
+        assert.strictEqual(buff.toString(), 'world');
+
+        buff.writeString('!');
+        assert.strictEqual(buff.readString(), 'world!');
+    });
+
+    it('Should not change anything when compacting without read data', function () {
+        var buff = SmartBuffer.fromBuffer(new Buffer([1, 2, 3]));
+        buff.compact();
+
+        assert.deepEqual(buff.toBuffer(), new Buffer([1, 2, 3]));
+        assert.strictEqual(buff.readOffset, 0);
+    });
+
+    it('Should shrink the internal Buffer to the length of the data', function () {
+        var buff = new SmartBuffer(1024);
+        buff.writeUInt32LE(0xDEADBEEF);
+
+        assert.strictEqual(buff.capacity, 1024);
+        buff.shrinkToFit();
+
+        assert.strictEqual(buff.capacity, 4);
+        assert.strictEqual(buff.readUInt32LE(), 0xDEADBEEF);
+
+        buff.writeUInt8(1);
+        assert.strictEqual(buff.length, 5);
+    });
+
+    it('Should grow the internal Buffer when reserving room', function () {
+        var buff = new SmartBuffer(10);
+        buff.writeString('hello');
+
+        buff.reserve(100);
+        assert.strictEqual(buff.capacity, 105);
+
+        buff.reserve(50);
+        assert.strictEqual(buff.capacity, 105);
+
+        assert.throws(function () {
+            buff.reserve(-1);
+        }, Error, 'Invalid length provided.');
+    });
+
+    it('Should not grow the internal Buffer beyond maxSize', function () {
+        var buff = new SmartBuffer({ size: 4, maxSize: 10 });
+        buff.writeBuffer(new Buffer(10));
+
+        assert.strictEqual(buff.capacity, 10);
+        assert.throws(function () {
+            buff.writeUInt8(1);
+        }, Error, 'Cannot grow the SmartBuffer to 11 bytes. The maximum size is 10 bytes.');
+        assert.strictEqual(buff.length, 10);
+
+        assert.throws(function () {
+            new SmartBuffer({ maxSize: 10 }).reserve(11);
+        }, Error, 'The maximum size is 10 bytes.');
+    });
+
+    it('Should use maxSize as the initial size when it is smaller than the default size', function () {
+        assert.strictEqual(new SmartBuffer({ maxSize: 100 }).capacity, 100);
+    });
+
+    it('Should throw an error when an invalid maxSize is provided', function () {
+        assert.throws(function () {
+            new SmartBuffer({ maxSize: -1 });
+        }, Error, 'Invalid maxSize provided.');
+
+        assert.throws(function () {
+            new SmartBuffer({ size: 100, maxSize: 10 });
+        }, Error, 'Size must not be larger than maxSize.');
+
+        assert.throws(function () {
+            new SmartBuffer({ buff: new Buffer(100), maxSize: 10 });
+        }, Error, 'The Buffer is larger than maxSize.');
+    });
+});
+
+describe('Chunked storage', function () {
+    it('Should default to contiguous storage', function () {
+        assert.strictEqual(new SmartBuffer().storageMode, 'contiguous');
+        assert.strictEqual(new SmartBuffer({ storage: 'contiguous' }).storageMode, 'contiguous');
+    });
+
+    it('Should grow by adding chunks without copying the existing data', function () {
+        var buff = new SmartBuffer({ storage: 'chunked', chunkSize: 4 });
+        assert.strictEqual(buff.storageMode, 'chunked');
+        assert.strictEqual(buff.capacity, 0);
+
+        buff.writeString('abc');
+        var first = buff.storage.chunks[0];
+        assert.strictEqual(buff.capacity, 4);
+
+        buff.writeString('defghij');
+        assert.strictEqual(buff.capacity, 12);
+        assert.strictEqual(buff.storage.chunks[0], first);
+        assert.strictEqual(buff.toString(), 'abcdefghij');
+    });
+
+    it('Should read and write values that span chunks', function () {
+        var buff = new SmartBuffer({ storage: 'chunked', chunkSize: 3 });
+        buff.writeUInt8(0xAA);
+        buff.writeUInt32BE(0xDEADBEEF);
+        buff.writeDoubleLE(1.5);
+        buff.writeBigUInt64BE(BigInt('0x0102030405060708'));
+        buff.writeVarUInt(300);
+        buff.writeString('héllo wörld');
+        buff.writeStringNT('nt');
+        buff.writeBuffer(new Buffer([1, 2, 3, 4, 5, 6, 7]));
+
+        assert.strictEqual(buff.readUInt8(), 0xAA);
+        assert.strictEqual(buff.readUInt32BE(), 0xDEADBEEF);
+        assert.strictEqual(buff.readDoubleLE(), 1.5);
+        assert.strictEqual(buff.readBigUInt64BE(), BigInt('0x0102030405060708'));
+        assert.strictEqual(buff.readVarUInt(), 300);
+        assert.strictEqual(buff.readString(Buffer.byteLength('héllo wörld')), 'héllo wörld');
+        assert.strictEqual(buff.readStringNT(), 'nt');
+        assert.deepEqual(buff.readBuffer(), new Buffer([1, 2, 3, 4, 5, 6, 7]));
+    });
+
+    it('Should produce the same data as contiguous storage', function () {
+        var contiguous = new SmartBuffer();
+        var chunked = new SmartBuffer({ storage: 'chunked', chunkSize: 5 });
+
+        [contiguous, chunked].forEach(function (buff) {
+            buff.writeString('hello world');
+            buff.insertUInt16BE(0x1234, 3);
+            buff.setUInt8(0xFF, 9);
+            buff.remove(1, 2);
+            buff.writeChecksum('crc32', 0, buff.length);
+        });
+
+        assert.deepEqual(chunked.toBuffer(), contiguous.toBuffer());
+        assert.strictEqual(chunked.toString('hex'), contiguous.toString('hex'));
+        chunked.verifyChecksum('crc32', 0, chunked.length - 4, chunked.length - 4);
+    });
+
+    it('Should insert data by moving it within the chunks', function () {
+        var buff = new SmartBuffer({ storage: 'chunked', chunkSize: 4 });
+        buff.writeString('abcdefghij');
+        var chunks = buff.storage.chunks.slice();
+
+        // A whole chunk of data moves the chunks that follow the insert offset instead of copying them.
+        buff.insertString('1234', 5);
+        assert.strictEqual(buff.toString(), 'abcde1234fghij');
+        assert.strictEqual(buff.storage.chunks[2], chunks[1]);
+
+        buff.insertString('xyz', 1);
+        buff.insertString('!', 17);
+        assert.strictEqual(buff.toString(), 'axyzbcde1234fghij!');
+        assert.strictEqual(buff.storage.chunks.length, 5);
+    });
+
+    it('Should not grow chunked storage beyond maxSize', function () {
+        var buff = new SmartBuffer({ storage: 'chunked', chunkSize: 4, maxSize: 6 });
+        buff.writeString('abcdef');
+        assert.strictEqual(buff.capacity, 8);
+
+        assert.throws(function () {
+            buff.writeUInt8(1);
+        }, SmartBufferCapacityError);
+        assert.throws(function () {
+            buff.insertUInt8(1, 0);
+        }, SmartBufferCapacityError);
+        assert.strictEqual(buff.length, 6);
+        assert.strictEqual(buff.toString(), 'abcdef');
+    });
+
+    it('Should find patterns that span chunks', function () {
+        var buff = new SmartBuffer({ storage: 'chunked', chunkSize: 4 });
+        buff.writeString('abcdefgh\r\nline two\n');
+
+        assert.strictEqual(buff.indexOf('def'), 3);
+        assert.strictEqual(buff.indexOf('fgh'), 5);
+        assert.strictEqual(buff.indexOf('xyz'), -1);
+        assert.strictEqual(buff.readLine(), 'abcdefgh');
+        assert.strictEqual(buff.readLine(), 'line two');
+    });
+
+    it('Should compact, shrink and copy chunked data', function () {
+        var buff = new SmartBuffer({ storage: 'chunked', chunkSize: 4 });
+        buff.writeString('0123456789');
+        buff.readString(3);
+
+        buff.compact();
+        assert.strictEqual(buff.toString(), '3456789');
+
+        buff.shrinkToFit();
+        assert.strictEqual(buff.capacity, 8);
+
+        var view = buff.subarray(2, 6);
+        assert.strictEqual(view.readOnly, true);
+        assert.strictEqual(view.toString(), '5678');
+    });
+
+    it('Should share memory with views that span chunks', function () {
+        var buff = new SmartBuffer({ storage: 'chunked', chunkSize: 4 });
+        buff.writeBuffer(new Buffer([1, 2, 3, 4, 5, 6, 7, 8]));
+
+        var view = buff.subarray(2, 6);
+        buff.setUInt8(0xFF, 4);
+        buff.writeUInt8(9);
+
+        assert.strictEqual(view.length, 4);
+        assert.deepEqual(view.toBuffer(), new Buffer([3, 4, 0xFF, 6]));
+        assert.strictEqual(view.indexOf(new Buffer([0xFF, 6])), 2);
+        assert.strictEqual(view.readUInt32BE(), 0x0304FF06);
+        assert.strictEqual(view.readOnly, true);
+    });
+
+    it('Should copy the provided Buffer into chunks', function () {
+        var data = new Buffer([1, 2, 3, 4, 5]);
+        var buff = new SmartBuffer({ storage: 'chunked', chunkSize: 2, buff: data });
+
+        data[0] = 0xFF;
+        assert.deepEqual(buff.toBuffer(), new Buffer([1, 2, 3, 4, 5]));
+        assert.strictEqual(new SmartBuffer({ storage: 'chunked', chunkSize: 2, size: 5 }).capacity, 6);
+    });
+
+    it('Should throw an error when an invalid storage mode or chunk size is provided', function () {
+        assert.throws(function () {
+            new SmartBuffer({ storage: 'linked' });
+        }, SmartBufferArgumentError, 'Invalid storage provided.');
+
+        assert.throws(function () {
+            new SmartBuffer({ storage: 'chunked', chunkSize: 0 });
+        }, SmartBufferArgumentError, 'Invalid chunkSize provided.');
+    });
+});
+
+describe('Pooling SmartBuffers', function () {
+    it('Should reuse SmartBuffers returned with destroy()', function () {
+        var pool = new SmartBufferPool({ size: 64 });
+        var buff = pool.acquire();
+        assert.strictEqual(buff.capacity, 64);
+        assert.deepEqual(pool.stats, { hits: 0, misses: 1, outstanding: 1, idle: 0, discarded: 0 });
+
+        buff.writeString('hello');
+        buff.destroy();
+        assert.deepEqual(pool.stats, { hits: 0, misses: 1, outstanding: 0, idle: 1, discarded: 0 });
+
+        var reused = pool.acquire();
+        assert.strictEqual(reused, buff);
+        assert.strictEqual(reused.length, 0);
+        assert.strictEqual(reused.readOffset, 0);
+        assert.deepEqual(pool.stats, { hits: 1, misses: 1, outstanding: 1, idle: 0, discarded: 0 });
+    });
+
+    it('Should only return a SmartBuffer to the pool once', function () {
+        var pool = new SmartBufferPool();
+        var buff = pool.acquire();
+
+        pool.release(buff);
+        buff.destroy();
+        assert.strictEqual(pool.stats.idle, 1);
+        assert.strictEqual(pool.stats.outstanding, 0);
+
+        assert.throws(function () {
+            pool.release(buff);
+        }, SmartBufferArgumentError, 'The SmartBuffer is not leased from a pool.');
+        assert.throws(function () {
+            pool.release(new SmartBuffer());
+        }, SmartBufferArgumentError);
+    });
+
+    it('Should preallocate SmartBuffers', function () {
+        var pool = new SmartBufferPool({ preallocate: 3 });
+        assert.strictEqual(pool.stats.idle, 3);
+
+        pool.acquire();
+        assert.strictEqual(pool.stats.hits, 1);
+        assert.strictEqual(pool.stats.misses, 0);
+    });
+
+    it('Should zero-fill released SmartBuffers when configured', function () {
+        var pool = new SmartBufferPool({ size: 8, zeroFill: true });
+        var buff = pool.acquire();
+        buff.writeString('secretpw');
+        buff.remove(0, 4);
+        buff.destroy();
+
+        assert.strictEqual(buff.capacity, 8);
+        assert.deepEqual(buff.storage.buffer, new Buffer(8).fill(0));
+        assert.strictEqual(buff.length, 0);
+    });
+
+    it('Should discard SmartBuffers released beyond maxIdle', function () {
+        var pool = new SmartBufferPool({ maxIdle: 1 });
+        var first = pool.acquire();
+        var second = pool.acquire();
+
+        first.destroy();
+        second.destroy();
+        assert.deepEqual(pool.stats, { hits: 0, misses: 2, outstanding: 0, idle: 1, discarded: 1 });
+
+        pool.drain();
+        assert.strictEqual(pool.stats.idle, 0);
+    });
+
+    it('Should discard SmartBuffers that grew beyond the pool size', function () {
+        var pool = new SmartBufferPool({ size: 8 });
+        var buff = pool.acquire();
+
+        buff.writeString('longer than eight bytes');
+        buff.destroy();
+        assert.deepEqual(pool.stats, { hits: 0, misses: 1, outstanding: 0, idle: 0, discarded: 1 });
+        assert.notStrictEqual(pool.acquire(), buff);
+    });
+
+    it('Should discard the trace of released SmartBuffers', function () {
+        var pool = new SmartBufferPool({ zeroFill: true });
+        var buff = pool.acquire();
+
+        buff.startTrace();
+        buff.writeString('secret');
+        buff.destroy();
+
+        var reused = pool.acquire();
+        assert.strictEqual(reused, buff);
+        assert.strictEqual(reused.trace, null);
+
+        reused.writeUInt8(1);
+        assert.strictEqual(reused.trace, null);
+        assert.strictEqual(reused.toString('hex'), '01');
+    });
+
+    it('Should reset the encoding and endianness of released SmartBuffers', function () {
+        var pool = new SmartBufferPool({ encoding: 'ascii', endian: 'LE' });
+        var buff = pool.acquire();
+        assert.strictEqual(buff.encoding, 'ascii');
+        assert.strictEqual(buff.endian, 'LE');
+
+        buff.encoding = 'hex';
+        buff.endian = 'BE';
+        buff.destroy();
+
+        buff = pool.acquire();
+        assert.strictEqual(buff.encoding, 'ascii');
+        assert.strictEqual(buff.endian, 'LE');
+    });
+
+    it('Should throw an error when invalid options are provided', function () {
+        assert.throws(function () {
+            new SmartBufferPool({ size: 0 });
+        }, SmartBufferArgumentError, 'Invalid size provided.');
+
+        assert.throws(function () {
+            new SmartBufferPool({ maxIdle: -1 });
+        }, SmartBufferArgumentError, 'Invalid maxIdle provided.');
+
+        assert.throws(function () {
+            new SmartBufferPool({ preallocate: 1.5 });
+        }, SmartBufferArgumentError, 'Invalid preallocate provided.');
+
+        assert.throws(function () {
+            new SmartBufferPool({ endian: 'middle' });
+        }, SmartBufferArgumentError, 'Invalid endian provided.');
+    });
+});
+
+describe('Uint8Array, ArrayBuffer and DataView interop', function () {
+    it('Should wrap a Uint8Array, ArrayBuffer or DataView without copying it', function () {
+        var bytes = new Uint8Array([0, 1, 2, 3, 4, 5]);
+
+        var fromArray = SmartBuffer.fromBuffer(bytes.subarray(1, 5));
+        assert.strictEqual(fromArray.length, 4);
+        assert.strictEqual(fromArray.readUInt16BE(), 0x0102);
+
+        var fromArrayBuffer = new SmartBuffer(bytes.buffer);
+        assert.strictEqual(fromArrayBuffer.length, 6);
+
+        var fromView = new SmartBuffer({ buff: new DataView(bytes.buffer, 2, 3), encoding: 'hex' });
+        assert.strictEqual(fromView.toString(), '020304');
+
+        bytes[2] = 0xFF;
+        assert.strictEqual(fromArray.readUInt8(1), 0xFF);
+        assert.strictEqual(fromView.readUInt8(), 0xFF);
+    });
+
+    it('Should still reject other objects', function () {
+        assert.throws(function () {
+            new SmartBuffer({ buff: [1, 2, 3] });
+        }, SmartBufferArgumentError, 'Invalid buffer provided in SmartBufferOptions.');
+    });
+
+    it('Should return the data as a Uint8Array or an ArrayBuffer', function () {
+        var buff = new SmartBuffer();
+        buff.writeUInt32BE(0x01020304);
+
+        var array = buff.toUint8Array();
+        assert.strictEqual(Object.getPrototypeOf(array), Uint8Array.prototype);
+        assert.deepEqual(Array.from(array), [1, 2, 3, 4]);
+
+        var arrayBuffer = buff.toArrayBuffer();
+        assert.instanceOf(arrayBuffer, ArrayBuffer);
+        assert.strictEqual(arrayBuffer.byteLength, 4);
+        assert.strictEqual(new DataView(arrayBuffer).getUint32(0), 0x01020304);
+
+        // The Uint8Array shares memory with the SmartBuffer, the ArrayBuffer is a copy.
+        buff.setUInt8(0xFF, 0);
+        assert.strictEqual(array[0], 0xFF);
+        assert.strictEqual(new Uint8Array(arrayBuffer)[0], 1);
+    });
+});
+
+describe('PortableBuffer', function () {
+    var strings = ['hello world', 'héllo wörld €', '', 'a', 'ab', 'abc', 'abcd'];
+
+    it('Should encode and decode Strings like Node\'s Buffer', function () {
+        ['utf8', 'latin1', 'binary', 'ascii', 'hex', 'base64'].forEach(function (encoding) {
+            strings.forEach(function (str) {
+                var expected = new Buffer(str, encoding);
+                var actual = PortableBuffer.from(str, encoding);
+
+                assert.deepEqual(Array.from(actual), Array.from(expected), encoding + ' ' + str);
+                assert.strictEqual(actual.toString(encoding), expected.toString(encoding), encoding + ' ' + str);
+                assert.strictEqual(PortableBuffer.byteLength(str, encoding), Buffer.byteLength(str, encoding));
+            });
+        });
+
+        assert.deepEqual(Array.from(PortableBuffer.from('aGk-_w==', 'base64')), Array.from(new Buffer('aGk-_w==', 'base64')));
+        assert.deepEqual(Array.from(PortableBuffer.from('0a1bzz', 'hex')), [0x0A, 0x1B]);
+        assert.strictEqual(PortableBuffer.from([0xC8, 0x41]).toString('ascii'), new Buffer([0xC8, 0x41]).toString('ascii'));
+    });
+
+    it('Should read and write numeric values like Node\'s Buffer', function () {
+        var expected = new Buffer(32).fill(0);
+        var actual = PortableBuffer.alloc(32);
+
+        [expected, actual].forEach(function (buff) {
+            buff.writeInt8(-5, 0);
+            buff.writeUInt16LE(0xBEEF, 1);
+            buff.writeInt32BE(-123456, 3);
+            buff.writeFloatLE(1.5, 7);
+            buff.writeDoubleBE(-2.25, 11);
+            buff.writeBigInt64LE(BigInt(-42), 19);
+            buff.writeIntBE(-0x123456, 27, 3);
+            buff.writeUIntLE(0xABCD, 30, 2);
+        });
+
+        assert.deepEqual(Array.from(actual), Array.from(expected));
+        assert.strictEqual(actual.readInt8(0), -5);
+        assert.strictEqual(actual.readUInt16LE(1), 0xBEEF);
+        assert.strictEqual(actual.readInt32BE(3), -123456);
+        assert.strictEqual(actual.readFloatLE(7), 1.5);
+        assert.strictEqual(actual.readDoubleBE(11), -2.25);
+        assert.strictEqual(actual.readBigInt64LE(19), BigInt(-42));
+        assert.strictEqual(actual.readIntBE(27, 3), -0x123456);
+        assert.strictEqual(actual.readUIntLE(30, 2), 0xABCD);
+    });
+
+    it('Should throw RangeErrors for out of range values and offsets', function () {
+        var buff = PortableBuffer.alloc(4);
+
+        assert.throws(function () {
+            buff.writeUInt8(256, 0);
+        }, RangeError);
+        assert.throws(function () {
+            buff.writeInt16BE(-0x8001, 0);
+        }, RangeError);
+        assert.throws(function () {
+            buff.readUInt32BE(1);
+        }, RangeError);
+    });
+
+    it('Should slice, copy and search like Node\'s Buffer', function () {
+        var buff = PortableBuffer.from('hello world');
+        var slice = buff.slice(6);
+
+        slice[0] = 0x57;
+        assert.strictEqual(buff.toString(), 'hello World');
+        assert.strictEqual(buff.indexOf('o'), 4);
+        assert.strictEqual(buff.indexOf('o', 5), 7);
+        assert.strictEqual(buff.indexOf(PortableBuffer.from('World')), 6);
+        assert.strictEqual(buff.indexOf(0x64), 10);
+        assert.strictEqual(buff.indexOf('xyz'), -1);
+
+        buff.copy(buff, 0, 6, 11);
+        assert.strictEqual(buff.toString('utf8', 0, 5), 'World');
+        assert.strictEqual(PortableBuffer.from('abc').equals(PortableBuffer.from('abc')), true);
+    });
+});
+
+describe('Running without Node\'s Buffer', function () {
+    var portable;
+
+    before(function () {
+        var buildPath = path.dirname(require.resolve('../build/smartbuffer'));
+        var cached = {};
+
+        // Load a separate copy of the build with the global Buffer hidden, then restore both.
+        Object.keys(require.cache).forEach(function (key) {
+            if (key.indexOf(buildPath) === 0) {
+                cached[key] = require.cache[key];
+                delete require.cache[key];
+            }
+        });
+
+        var NodeBuffer = global.Buffer;
+        global.Buffer = undefined;
+        try {
+            portable = require('../build/smartbuffer');
+        } finally {
+            global.Buffer = NodeBuffer;
+            Object.keys(require.cache).forEach(function (key) {
+                if (key.indexOf(buildPath) === 0) {
+                    delete require.cache[key];
+                }
+            });
+            Object.assign(require.cache, cached);
+        }
+    });
+
+    function writeAll(buff) {
+        buff.writeUInt8(0xAB);
+        buff.writeInt16LE(-2);
+        buff.writeUInt32(0xDEADBEEF);
+        buff.writeDoubleLE(Math.PI);
+        buff.writeBigUInt64BE(BigInt('0x0102030405060708'));
+        buff.writeUIntBE(0x123456, 3);
+        buff.writeVarUInt(300);
+        buff.writeString('héllo');
+        buff.writeStringNT('wörld');
+        buff.writeString('deadbeef', 'hex');
+        buff.writeStringPrefixed('aGVsbG8=', 'UInt8', 'base64');
+        buff.insertUInt16BE(0xCAFE, 1);
+        buff.writeString('line\r\n');
+        buff.writeChecksum('crc32', 0, buff.length);
+        return buff;
+    }
+
+    it('Should use PortableBuffer as the internal Buffer', function () {
+        var buff = new portable.SmartBuffer();
+        buff.writeString('hi');
+
+        assert.strictEqual(buff.toBuffer() instanceof portable.PortableBuffer, true);
+        assert.strictEqual(Buffer.isBuffer(buff.toBuffer()), false);
+    });
+
+    it('Should write the same data as with Node\'s Buffer', function () {
+        var expected = writeAll(new SmartBuffer());
+        var actual = writeAll(new portable.SmartBuffer());
+
+        assert.deepEqual(Array.from(actual.toUint8Array()), Array.from(expected.toUint8Array()));
+        assert.strictEqual(actual.toString('hex'), expected.toString('hex'));
+    });
+
+    it('Should read back the written data', function () {
+        var buff = new portable.SmartBuffer(writeAll(new SmartBuffer()).toUint8Array());
+
+        assert.strictEqual(buff.readUInt8(), 0xAB);
+        assert.strictEqual(buff.readUInt16BE(), 0xCAFE);
+        assert.strictEqual(buff.readInt16LE(), -2);
+        assert.strictEqual(buff.readUInt32(), 0xDEADBEEF);
+        assert.strictEqual(buff.readDoubleLE(), Math.PI);
+        assert.strictEqual(buff.readBigUInt64BE(), BigInt('0x0102030405060708'));
+        assert.strictEqual(buff.readUIntBE(3), 0x123456);
+        assert.strictEqual(buff.readVarUInt(), 300);
+        assert.strictEqual(buff.readString(6), 'héllo');
+        assert.strictEqual(buff.readStringNT(), 'wörld');
+        assert.strictEqual(buff.readString(4, 'hex'), 'deadbeef');
+        assert.strictEqual(buff.readStringPrefixed('UInt8', 'base64'), 'aGVsbG8=');
+        assert.strictEqual(buff.readLine(), 'line');
+        buff.verifyChecksum('crc32', 0, buff.readOffset);
+    });
+
+    it('Should throw the same errors as with Node\'s Buffer', function () {
+        var buff = new portable.SmartBuffer();
+
+        assert.throws(function () {
+            buff.readUInt8();
+        }, portable.SmartBufferOutOfBoundsError);
+        assert.throws(function () {
+            buff.writeUInt8(256);
+        }, RangeError);
+        assert.throws(function () {
+            new portable.SmartBuffer('utf16le');
+        }, portable.SmartBufferEncodingError);
     });
 });
 
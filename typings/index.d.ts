@@ -5,15 +5,143 @@
 interface SmartBufferOptions {
     encoding?: BufferEncoding;
     size?: number;
-    buff?: Buffer;
+    buff?: BinaryInput;
+    maxSize?: number;
+    endian?: Endian;
+    storage?: StorageMode;
+    chunkSize?: number;
+    strict?: boolean;
 }
 
+/**
+ * Object interface for the options of readUntil(), readStringUntil() and readLine().
+ */
+interface ReadUntilOptions {
+    include?: boolean;
+    maxLength?: number;
+    encoding?: BufferEncoding;
+}
+
+/**
+ * Object interface for the options of writeStringFixed().
+ */
+interface WriteStringFixedOptions {
+    pad?: string | number;
+    encoding?: BufferEncoding;
+    truncate?: 'error' | 'cut';
+}
+
+/**
+ * Object interface for the options of readStringFixed().
+ */
+interface ReadStringFixedOptions {
+    trim?: boolean;
+    encoding?: BufferEncoding;
+}
+
+/**
+ * Object interface for the options of hexdump().
+ */
+interface HexdumpOptions {
+    width?: number;
+    start?: number;
+    end?: number;
+    cursors?: boolean;
+    trace?: boolean;
+}
+
+/**
+ * Object interface for a read or write recorded while a SmartBuffer is tracing.
+ */
+interface SmartBufferTraceEntry {
+    method: string;
+    offset: number;
+    byteLength: number;
+    value: number | bigint | string | Buffer;
+    label?: string;
+}
+
+/**
+ * The byte order of numeric values, big endian (BE) or little endian (LE).
+ */
+type Endian = 'BE' | 'LE';
+
+/**
+ * How a SmartBuffer stores its data.
+ * contiguous stores the data in a single Buffer that is reallocated (and copied) when it grows. chunked stores the data in
+ * a list of fixed-size Buffers, so growing never copies the existing data.
+ */
+type StorageMode = 'contiguous' | 'chunked';
+
+/**
+ * The binary data a SmartBuffer can be created from. Uint8Arrays, ArrayBuffers and DataViews are wrapped without copying.
+ */
+type BinaryInput = Buffer | Uint8Array | ArrayBuffer | DataView;
+
+/**
+ * The checksum algorithms that can be computed over a range of a SmartBuffer.
+ * crc32 is CRC-32 (ISO-HDLC, as used by zlib, PNG and Ethernet), adler32 is Adler-32 (RFC 1950), internet is the
+ * Internet checksum (RFC 1071, as used by IPv4, TCP and UDP) and crc16 is CRC-16/CCITT-FALSE.
+ */
+type ChecksumAlgorithm = 'crc32' | 'adler32' | 'internet' | 'crc16';
+
+/**
+ * The numeric types a length prefix can be read and written as.
+ */
+type LengthPrefix = 'UInt8' | 'UInt16BE' | 'UInt16LE' | 'UInt32BE' | 'UInt32LE' | 'VarUInt';
+
+/**
+ * The numeric types a placeholder can be reserved as. Int16, UInt16, Int32 and UInt32 use the SmartBuffer's endianness
+ * at the time the placeholder is reserved.
+ */
+type PlaceholderType = 'Int8' | 'UInt8' |
+    'Int16' | 'Int16BE' | 'Int16LE' | 'UInt16' | 'UInt16BE' | 'UInt16LE' |
+    'Int32' | 'Int32BE' | 'Int32LE' | 'UInt32' | 'UInt32BE' | 'UInt32LE';
+
 declare class SmartBuffer {
     length: number;
     encoding: BufferEncoding;
-    private buff;
-    private writeOffset;
-    private readOffset;
+    private storage;
+    private _writeOffset;
+    private _readOffset;
+    private maxSize;
+    private _endian;
+    private _readOnly;
+    private strict;
+    private marks;
+    private placeholders;
+    private _trace;
+    private tracing;
+
+    /**
+     * The current read offset. The offset must be between zero and the length of the data.
+     */
+    readOffset: number;
+    /**
+     * The current write offset. The offset must be between zero and the length of the data.
+     * Data written at a write offset before the end of the data overwrites the data that follows it.
+     */
+    writeOffset: number;
+    /**
+     * The size of the internal Buffer (the amount of data that can be written before it has to grow).
+     */
+    readonly capacity: number;
+    /**
+     * The storage mode of this SmartBuffer (contiguous or chunked).
+     */
+    readonly storageMode: StorageMode;
+    /**
+     * Whether this SmartBuffer is a read-only view created by subarray().
+     */
+    readonly readOnly: boolean;
+    /**
+     * The trace recorded by startTrace(), or null if tracing was never started.
+     */
+    readonly trace: SmartBufferTrace;
+    /**
+     * The byte order used by numeric functions without a BE/LE suffix (such as readUInt16()).
+     */
+    endian: Endian;
 
     /**
      * Creates a new SmartBuffer instance with the provided internal Buffer size and optional encoding.
@@ -26,13 +154,14 @@ declare class SmartBuffer {
     static fromSize(size: number, encoding?: BufferEncoding): SmartBuffer;
     /**
      * Creates a new SmartBuffer instance with the provided Buffer and optional encoding.
+     * A Uint8Array, ArrayBuffer or DataView is wrapped without copying it.
      *
-     * @param buffer { Buffer } The Buffer to use as the internal Buffer value.
+     * @param buffer { BinaryInput } The Buffer to use as the internal Buffer value.
      * @param encoding { String } The BufferEncoding to use for strings.
      *
      * @return { SmartBuffer }
      */
-    static fromBuffer(buff: Buffer, encoding?: BufferEncoding): SmartBuffer;
+    static fromBuffer(buff: BinaryInput, encoding?: BufferEncoding): SmartBuffer;
     /**
      * Creates a new SmartBuffer instance with the provided SmartBufferOptions options.
      * 
@@ -71,12 +200,12 @@ declare class SmartBuffer {
     /**
      * Creates a new SmartBuffer instance
      *
-     * @param buff { Buffer } An existing buffer instance to copy to this smart buffer instance
+     * @param buff { BinaryInput } An existing buffer instance to copy to this smart buffer instance
      * @param encoding { BufferEncoding } The string encoding to use for reading/writing strings (defaults to utf8)
      * 
      * @deprecated The .fromXXX() factory methods are now preferred over the new instantiator method.
      */
-    constructor(buff: Buffer, encoding?: string);
+    constructor(buff: BinaryInput, encoding?: string);
 
     /**
      * Creates a new SmartBuffer instance
@@ -89,43 +218,94 @@ declare class SmartBuffer {
     /**
      * Writes a numeric number value using the provided function.
      *
+     * @param method { String } The name of the function the value is written with, used as the name of the trace entry.
      * @param func { Function(offset: number, offset?) => number} The function to write data on the internal Buffer with.
      * @param byteSize { Number } The number of bytes written.
      * @param value { Number } The number value to write.
      * @param offset { Number } the offset to write the number at.
      *
      */
-    private writeNumberValue(func, byteSize, value, offset?);
+    private writeNumberValue(method, func, byteSize, value, offset?);
     /**
      * Reads an Int8 value from the current read position.
      *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readInt8(offset?: number): number;
+    /**
+     * Peeks an Int8 value from the current read position, without moving the read offset.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
      * @return { Number }
      */
-    readInt8(): number;
+    peekInt8(offset?: number): number;
     /**
      * Reads an Int16BE value from the current read position.
      *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readInt16BE(offset?: number): number;
+    /**
+     * Peeks an Int16BE value from the current read position, without moving the read offset.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
      * @return { Number }
      */
-    readInt16BE(): number;
+    peekInt16BE(offset?: number): number;
     /**
      * Reads an Int16LE value from the current read position.
      *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readInt16LE(offset?: number): number;
+    /**
+     * Peeks an Int16LE value from the current read position, without moving the read offset.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
      * @return { Number }
      */
-    readInt16LE(): number;
+    peekInt16LE(offset?: number): number;
     /**
      * Reads an Int32BE value from the current read position.
      *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readInt32BE(offset?: number): number;
+    /**
+     * Peeks an Int32BE value from the current read position, without moving the read offset.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
      * @return { Number }
      */
-    readInt32BE(): number;
+    peekInt32BE(offset?: number): number;
     /**
      * Reads an Int32LE value from the current read position.
      *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readInt32LE(offset?: number): number;
+    /**
+     * Peeks an Int32LE value from the current read position, without moving the read offset.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
      * @return { Number }
      */
-    readInt32LE(): number;
+    peekInt32LE(offset?: number): number;
     /**
      * Writes an Int8 value to the current write position (or at optional offset).
      *
@@ -135,6 +315,24 @@ declare class SmartBuffer {
      * @return this
      */
     writeInt8(value: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts an Int8 value at the given offset, shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertInt8(value: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites an Int8 value at the given offset without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setInt8(value: number, offset: number): SmartBuffer;
     /**
      * Writes an Int16BE value to the current write position (or at optional offset).
      *
@@ -144,6 +342,24 @@ declare class SmartBuffer {
      * @return this
      */
     writeInt16BE(value: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts an Int16BE value at the given offset, shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertInt16BE(value: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites an Int16BE value at the given offset without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setInt16BE(value: number, offset: number): SmartBuffer;
     /**
      * Writes an Int16LE value to the current write position (or at optional offset).
      *
@@ -153,6 +369,24 @@ declare class SmartBuffer {
      * @return this
      */
     writeInt16LE(value: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts an Int16LE value at the given offset, shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertInt16LE(value: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites an Int16LE value at the given offset without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setInt16LE(value: number, offset: number): SmartBuffer;
     /**
      * Writes an Int32BE value to the current write position (or at optional offset).
      *
@@ -162,6 +396,24 @@ declare class SmartBuffer {
      * @return this
      */
     writeInt32BE(value: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts an Int32BE value at the given offset, shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertInt32BE(value: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites an Int32BE value at the given offset without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setInt32BE(value: number, offset: number): SmartBuffer;
     /**
      * Writes an Int32LE value to the current write position (or at optional offset).
      *
@@ -171,36 +423,104 @@ declare class SmartBuffer {
      * @return this
      */
     writeInt32LE(value: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts an Int32LE value at the given offset, shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertInt32LE(value: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites an Int32LE value at the given offset without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setInt32LE(value: number, offset: number): SmartBuffer;
     /**
      * Reads an UInt8 value from the current read position.
      *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readUInt8(offset?: number): number;
+    /**
+     * Peeks an UInt8 value from the current read position, without moving the read offset.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
      * @return { Number }
      */
-    readUInt8(): number;
+    peekUInt8(offset?: number): number;
     /**
      * Reads an UInt16BE value from the current read position.
      *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readUInt16BE(offset?: number): number;
+    /**
+     * Peeks an UInt16BE value from the current read position, without moving the read offset.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
      * @return { Number }
      */
-    readUInt16BE(): number;
+    peekUInt16BE(offset?: number): number;
     /**
      * Reads an UInt16LE value from the current read position.
      *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readUInt16LE(offset?: number): number;
+    /**
+     * Peeks an UInt16LE value from the current read position, without moving the read offset.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
      * @return { Number }
      */
-    readUInt16LE(): number;
+    peekUInt16LE(offset?: number): number;
     /**
      * Reads an UInt32BE value from the current read position.
      *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readUInt32BE(offset?: number): number;
+    /**
+     * Peeks an UInt32BE value from the current read position, without moving the read offset.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
      * @return { Number }
      */
-    readUInt32BE(): number;
+    peekUInt32BE(offset?: number): number;
     /**
      * Reads an UInt32LE value from the current read position.
      *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readUInt32LE(offset?: number): number;
+    /**
+     * Peeks an UInt32LE value from the current read position, without moving the read offset.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
      * @return { Number }
      */
-    readUInt32LE(): number;
+    peekUInt32LE(offset?: number): number;
     /**
      * Writes an UInt8 value to the current write position (or at optional offset).
      *
@@ -211,251 +531,3138 @@ declare class SmartBuffer {
      */
     writeUInt8(value: number, offset?: number): SmartBuffer;
     /**
-     * Writes an UInt16BE value to the current write position (or at optional offset).
+     * Inserts an UInt8 value at the given offset, shifting the data that follows it forward.
      *
-     * @param value { Number } The value to write.
-     * @param offset { Number } The offset to write the value at.
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
      *
      * @return this
      */
-    writeUInt16BE(value: number, offset?: number): SmartBuffer;
+    insertUInt8(value: number, offset: number): SmartBuffer;
     /**
-     * Writes an UInt16LE value to the current write position (or at optional offset).
+     * Overwrites an UInt8 value at the given offset without shifting data or moving the write offset.
      *
      * @param value { Number } The value to write.
      * @param offset { Number } The offset to write the value at.
      *
      * @return this
      */
-    writeUInt16LE(value: number, offset?: number): SmartBuffer;
+    setUInt8(value: number, offset: number): SmartBuffer;
     /**
-     * Writes an UInt32BE value to the current write position (or at optional offset).
+     * Writes an UInt16BE value to the current write position (or at optional offset).
      *
      * @param value { Number } The value to write.
      * @param offset { Number } The offset to write the value at.
      *
      * @return this
      */
-    writeUInt32BE(value: number, offset?: number): SmartBuffer;
+    writeUInt16BE(value: number, offset?: number): SmartBuffer;
     /**
-     * Writes an UInt32LE value to the current write position (or at optional offset).
+     * Inserts an UInt16BE value at the given offset, shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertUInt16BE(value: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites an UInt16BE value at the given offset without shifting data or moving the write offset.
      *
      * @param value { Number } The value to write.
      * @param offset { Number } The offset to write the value at.
      *
      * @return this
      */
-    writeUInt32LE(value: number, offset?: number): SmartBuffer;
+    setUInt16BE(value: number, offset: number): SmartBuffer;
     /**
-     * Reads an FloatBE value from the current read position.
+     * Writes an UInt16LE value to the current write position (or at optional offset).
      *
-     * @return { Number }
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
      */
-    readFloatBE(): number;
+    writeUInt16LE(value: number, offset?: number): SmartBuffer;
     /**
-     * Reads an FloatLE value from the current read position.
+     * Inserts an UInt16LE value at the given offset, shifting the data that follows it forward.
      *
-     * @return { Number }
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
      */
-    readFloatLE(): number;
+    insertUInt16LE(value: number, offset: number): SmartBuffer;
     /**
-     * Writes a FloatBE value to the current write position (or at optional offset).
+     * Overwrites an UInt16LE value at the given offset without shifting data or moving the write offset.
      *
      * @param value { Number } The value to write.
      * @param offset { Number } The offset to write the value at.
      *
      * @return this
      */
-    writeFloatBE(value: number, offset?: number): SmartBuffer;
+    setUInt16LE(value: number, offset: number): SmartBuffer;
     /**
-     * Writes a FloatLE value to the current write position (or at optional offset).
+     * Writes an UInt32BE value to the current write position (or at optional offset).
      *
      * @param value { Number } The value to write.
      * @param offset { Number } The offset to write the value at.
      *
      * @return this
      */
-    writeFloatLE(value: number, offset?: number): SmartBuffer;
+    writeUInt32BE(value: number, offset?: number): SmartBuffer;
     /**
-     * Reads an DoublEBE value from the current read position.
+     * Inserts an UInt32BE value at the given offset, shifting the data that follows it forward.
      *
-     * @return { Number }
-     */
-    readDoubleBE(): number;
-    /**
-     * Reads an DoubleLE value from the current read position.
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
      *
-     * @return { Number }
+     * @return this
      */
-    readDoubleLE(): number;
+    insertUInt32BE(value: number, offset: number): SmartBuffer;
     /**
-     * Writes a DoubleBE value to the current write position (or at optional offset).
+     * Overwrites an UInt32BE value at the given offset without shifting data or moving the write offset.
      *
      * @param value { Number } The value to write.
      * @param offset { Number } The offset to write the value at.
      *
      * @return this
      */
-    writeDoubleBE(value: number, offset?: number): SmartBuffer;
+    setUInt32BE(value: number, offset: number): SmartBuffer;
     /**
-     * Writes a DoubleLE value to the current write position (or at optional offset).
+     * Writes an UInt32LE value to the current write position (or at optional offset).
      *
      * @param value { Number } The value to write.
      * @param offset { Number } The offset to write the value at.
      *
      * @return this
      */
-    writeDoubleLE(value: number, offset?: number): SmartBuffer;
+    writeUInt32LE(value: number, offset?: number): SmartBuffer;
     /**
-     * Reads a String from the current read position.
+     * Inserts an UInt32LE value at the given offset, shifting the data that follows it forward.
      *
-     * @param length { Number } The number of bytes to read as a String.
-     * @param encoding { String } The BufferEncoding to use for the string (Defaults to instance level encoding).
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
      *
-     * @return { String }
+     * @return this
      */
-    readString(length?: number, encoding?: BufferEncoding): string;
+    insertUInt32LE(value: number, offset: number): SmartBuffer;
     /**
-     * Writes a String to the current write position.
+     * Overwrites an UInt32LE value at the given offset without shifting data or moving the write offset.
      *
-     * @param value { String } The String value to write.
-     * @param arg2 { Number | String } The offset to write the string to, or the BufferEncoding to use.
-     * @param encoding { String } The BufferEncoding to use for writing strings (defaults to instance encoding).
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
      */
-    writeString(value: string, arg2?: number | BufferEncoding, encoding?: BufferEncoding): this;
+    setUInt32LE(value: number, offset: number): SmartBuffer;
     /**
-     * Reads a null-terminated String from the current read position.
+     * Reads an FloatBE value from the current read position.
      *
-     * @param encoding { String } The BufferEncoding to use for the string (Defaults to instance level encoding).
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
      *
-     * @return { String }
+     * @return { Number }
      */
-    readStringNT(encoding?: BufferEncoding): string;
+    readFloatBE(offset?: number): number;
     /**
-     * Writes a null-terminated String to the current write position.
+     * Peeks an FloatBE value from the current read position, without moving the read offset.
      *
-     * @param value { String } The String value to write.
-     * @param arg2 { Number | String } The offset to write the string to, or the BufferEncoding to use.
-     * @param encoding { String } The BufferEncoding to use for writing strings (defaults to instance encoding).
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Number }
      */
-    writeStringNT(value: string, offset?: number | BufferEncoding, encoding?: BufferEncoding): void;
+    peekFloatBE(offset?: number): number;
     /**
-     * Reads a Buffer from the internal read position.
+     * Reads an FloatLE value from the current read position.
      *
-     * @param length { Number } The length of data to read as a Buffer.
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
      *
-     * @return { Buffer }
+     * @return { Number }
      */
-    readBuffer(length?: number): Buffer;
+    readFloatLE(offset?: number): number;
     /**
-     * Writes a Buffer to the current write position.
+     * Peeks an FloatLE value from the current read position, without moving the read offset.
      *
-     * @param value { Buffer } The Buffer to write.
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Number }
+     */
+    peekFloatLE(offset?: number): number;
+    /**
+     * Writes a FloatBE value to the current write position (or at optional offset).
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeFloatBE(value: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts a FloatBE value at the given offset, shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertFloatBE(value: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites a FloatBE value at the given offset without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setFloatBE(value: number, offset: number): SmartBuffer;
+    /**
+     * Writes a FloatLE value to the current write position (or at optional offset).
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeFloatLE(value: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts a FloatLE value at the given offset, shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertFloatLE(value: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites a FloatLE value at the given offset without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setFloatLE(value: number, offset: number): SmartBuffer;
+    /**
+     * Reads an DoublEBE value from the current read position.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readDoubleBE(offset?: number): number;
+    /**
+     * Peeks an DoublEBE value from the current read position, without moving the read offset.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Number }
+     */
+    peekDoubleBE(offset?: number): number;
+    /**
+     * Reads an DoubleLE value from the current read position.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readDoubleLE(offset?: number): number;
+    /**
+     * Peeks an DoubleLE value from the current read position, without moving the read offset.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Number }
+     */
+    peekDoubleLE(offset?: number): number;
+    /**
+     * Writes a DoubleBE value to the current write position (or at optional offset).
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeDoubleBE(value: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts a DoubleBE value at the given offset, shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertDoubleBE(value: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites a DoubleBE value at the given offset without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setDoubleBE(value: number, offset: number): SmartBuffer;
+    /**
+     * Writes a DoubleLE value to the current write position (or at optional offset).
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeDoubleLE(value: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts a DoubleLE value at the given offset, shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertDoubleLE(value: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites a DoubleLE value at the given offset without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setDoubleLE(value: number, offset: number): SmartBuffer;
+    /**
+     * Reads a BigInt64BE value from the current read position.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { BigInt }
+     */
+    readBigInt64BE(offset?: number): bigint;
+    /**
+     * Peeks a BigInt64BE value from the current read position, without moving the read offset.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { BigInt }
+     */
+    peekBigInt64BE(offset?: number): bigint;
+    /**
+     * Reads a BigInt64LE value from the current read position.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { BigInt }
+     */
+    readBigInt64LE(offset?: number): bigint;
+    /**
+     * Peeks a BigInt64LE value from the current read position, without moving the read offset.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { BigInt }
+     */
+    peekBigInt64LE(offset?: number): bigint;
+    /**
+     * Reads a BigUInt64BE value from the current read position.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { BigInt }
+     */
+    readBigUInt64BE(offset?: number): bigint;
+    /**
+     * Peeks a BigUInt64BE value from the current read position, without moving the read offset.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { BigInt }
+     */
+    peekBigUInt64BE(offset?: number): bigint;
+    /**
+     * Reads a BigUInt64LE value from the current read position.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { BigInt }
+     */
+    readBigUInt64LE(offset?: number): bigint;
+    /**
+     * Peeks a BigUInt64LE value from the current read position, without moving the read offset.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { BigInt }
+     */
+    peekBigUInt64LE(offset?: number): bigint;
+    /**
+     * Writes a BigInt64BE value to the current write position (or at optional offset).
+     *
+     * @param value { BigInt } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeBigInt64BE(value: bigint, offset?: number): SmartBuffer;
+    /**
+     * Inserts a BigInt64BE value at the given offset, shifting the data that follows it forward.
+     *
+     * @param value { BigInt } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertBigInt64BE(value: bigint, offset: number): SmartBuffer;
+    /**
+     * Overwrites a BigInt64BE value at the given offset without shifting data or moving the write offset.
+     *
+     * @param value { BigInt } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setBigInt64BE(value: bigint, offset: number): SmartBuffer;
+    /**
+     * Writes a BigInt64LE value to the current write position (or at optional offset).
+     *
+     * @param value { BigInt } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeBigInt64LE(value: bigint, offset?: number): SmartBuffer;
+    /**
+     * Inserts a BigInt64LE value at the given offset, shifting the data that follows it forward.
+     *
+     * @param value { BigInt } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertBigInt64LE(value: bigint, offset: number): SmartBuffer;
+    /**
+     * Overwrites a BigInt64LE value at the given offset without shifting data or moving the write offset.
+     *
+     * @param value { BigInt } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setBigInt64LE(value: bigint, offset: number): SmartBuffer;
+    /**
+     * Writes a BigUInt64BE value to the current write position (or at optional offset).
+     *
+     * @param value { BigInt } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeBigUInt64BE(value: bigint, offset?: number): SmartBuffer;
+    /**
+     * Inserts a BigUInt64BE value at the given offset, shifting the data that follows it forward.
+     *
+     * @param value { BigInt } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertBigUInt64BE(value: bigint, offset: number): SmartBuffer;
+    /**
+     * Overwrites a BigUInt64BE value at the given offset without shifting data or moving the write offset.
+     *
+     * @param value { BigInt } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setBigUInt64BE(value: bigint, offset: number): SmartBuffer;
+    /**
+     * Writes a BigUInt64LE value to the current write position (or at optional offset).
+     *
+     * @param value { BigInt } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeBigUInt64LE(value: bigint, offset?: number): SmartBuffer;
+    /**
+     * Inserts a BigUInt64LE value at the given offset, shifting the data that follows it forward.
+     *
+     * @param value { BigInt } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertBigUInt64LE(value: bigint, offset: number): SmartBuffer;
+    /**
+     * Overwrites a BigUInt64LE value at the given offset without shifting data or moving the write offset.
+     *
+     * @param value { BigInt } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setBigUInt64LE(value: bigint, offset: number): SmartBuffer;
+    /**
+     * Reads an Int64BE value from the current read position as a Number.
+     * Throws if the value is outside of the safe integer range.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readInt64BE(offset?: number): number;
+    /**
+     * Peeks an Int64BE value from the current read position as a Number, without moving the read offset.
+     * Throws if the value is outside of the safe integer range.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Number }
+     */
+    peekInt64BE(offset?: number): number;
+    /**
+     * Reads an Int64LE value from the current read position as a Number.
+     * Throws if the value is outside of the safe integer range.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readInt64LE(offset?: number): number;
+    /**
+     * Peeks an Int64LE value from the current read position as a Number, without moving the read offset.
+     * Throws if the value is outside of the safe integer range.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Number }
+     */
+    peekInt64LE(offset?: number): number;
+    /**
+     * Reads an UInt64BE value from the current read position as a Number.
+     * Throws if the value is larger than Number.MAX_SAFE_INTEGER.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readUInt64BE(offset?: number): number;
+    /**
+     * Peeks an UInt64BE value from the current read position as a Number, without moving the read offset.
+     * Throws if the value is larger than Number.MAX_SAFE_INTEGER.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Number }
+     */
+    peekUInt64BE(offset?: number): number;
+    /**
+     * Reads an UInt64LE value from the current read position as a Number.
+     * Throws if the value is larger than Number.MAX_SAFE_INTEGER.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readUInt64LE(offset?: number): number;
+    /**
+     * Peeks an UInt64LE value from the current read position as a Number, without moving the read offset.
+     * Throws if the value is larger than Number.MAX_SAFE_INTEGER.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Number }
+     */
+    peekUInt64LE(offset?: number): number;
+    /**
+     * Writes an Int64BE Number value to the current write position (or at optional offset).
+     *
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeInt64BE(value: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts an Int64BE Number value at the given offset, shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertInt64BE(value: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites an Int64BE Number value at the given offset without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setInt64BE(value: number, offset: number): SmartBuffer;
+    /**
+     * Writes an Int64LE Number value to the current write position (or at optional offset).
+     *
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeInt64LE(value: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts an Int64LE Number value at the given offset, shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertInt64LE(value: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites an Int64LE Number value at the given offset without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setInt64LE(value: number, offset: number): SmartBuffer;
+    /**
+     * Writes an UInt64BE Number value to the current write position (or at optional offset).
+     *
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeUInt64BE(value: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts an UInt64BE Number value at the given offset, shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertUInt64BE(value: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites an UInt64BE Number value at the given offset without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setUInt64BE(value: number, offset: number): SmartBuffer;
+    /**
+     * Writes an UInt64LE Number value to the current write position (or at optional offset).
+     *
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeUInt64LE(value: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts an UInt64LE Number value at the given offset, shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertUInt64LE(value: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites an UInt64LE Number value at the given offset without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setUInt64LE(value: number, offset: number): SmartBuffer;
+    /**
+     * Reads an IntBE value of the given byte length (1-6) from the current read position.
+     *
+     * @param byteLength { Number } The number of bytes to read.
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readIntBE(byteLength: number, offset?: number): number;
+    /**
+     * Peeks an IntBE value of the given byte length (1-6) from the current read position, without moving the read offset.
+     *
+     * @param byteLength { Number } The number of bytes to read.
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Number }
+     */
+    peekIntBE(byteLength: number, offset?: number): number;
+    /**
+     * Reads an IntLE value of the given byte length (1-6) from the current read position.
+     *
+     * @param byteLength { Number } The number of bytes to read.
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readIntLE(byteLength: number, offset?: number): number;
+    /**
+     * Peeks an IntLE value of the given byte length (1-6) from the current read position, without moving the read offset.
+     *
+     * @param byteLength { Number } The number of bytes to read.
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Number }
+     */
+    peekIntLE(byteLength: number, offset?: number): number;
+    /**
+     * Reads an UIntBE value of the given byte length (1-6) from the current read position.
+     *
+     * @param byteLength { Number } The number of bytes to read.
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readUIntBE(byteLength: number, offset?: number): number;
+    /**
+     * Peeks an UIntBE value of the given byte length (1-6) from the current read position, without moving the read offset.
+     *
+     * @param byteLength { Number } The number of bytes to read.
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Number }
+     */
+    peekUIntBE(byteLength: number, offset?: number): number;
+    /**
+     * Reads an UIntLE value of the given byte length (1-6) from the current read position.
+     *
+     * @param byteLength { Number } The number of bytes to read.
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readUIntLE(byteLength: number, offset?: number): number;
+    /**
+     * Peeks an UIntLE value of the given byte length (1-6) from the current read position, without moving the read offset.
+     *
+     * @param byteLength { Number } The number of bytes to read.
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Number }
+     */
+    peekUIntLE(byteLength: number, offset?: number): number;
+    /**
+     * Writes an IntBE value of the given byte length (1-6) to the current write position (or at optional offset).
+     *
+     * @param value { Number } The value to write.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeIntBE(value: number, byteLength: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts an IntBE value of the given byte length (1-6) at the given offset, shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to insert.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertIntBE(value: number, byteLength: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites an IntBE value of the given byte length (1-6) at the given offset without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setIntBE(value: number, byteLength: number, offset: number): SmartBuffer;
+    /**
+     * Writes an IntLE value of the given byte length (1-6) to the current write position (or at optional offset).
+     *
+     * @param value { Number } The value to write.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeIntLE(value: number, byteLength: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts an IntLE value of the given byte length (1-6) at the given offset, shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to insert.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertIntLE(value: number, byteLength: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites an IntLE value of the given byte length (1-6) at the given offset without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setIntLE(value: number, byteLength: number, offset: number): SmartBuffer;
+    /**
+     * Writes an UIntBE value of the given byte length (1-6) to the current write position (or at optional offset).
+     *
+     * @param value { Number } The value to write.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeUIntBE(value: number, byteLength: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts an UIntBE value of the given byte length (1-6) at the given offset, shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to insert.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertUIntBE(value: number, byteLength: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites an UIntBE value of the given byte length (1-6) at the given offset without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setUIntBE(value: number, byteLength: number, offset: number): SmartBuffer;
+    /**
+     * Writes an UIntLE value of the given byte length (1-6) to the current write position (or at optional offset).
+     *
+     * @param value { Number } The value to write.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeUIntLE(value: number, byteLength: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts an UIntLE value of the given byte length (1-6) at the given offset, shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to insert.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertUIntLE(value: number, byteLength: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites an UIntLE value of the given byte length (1-6) at the given offset without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setUIntLE(value: number, byteLength: number, offset: number): SmartBuffer;
+    /**
+     * Calls a function with the endianness temporarily switched, for reading or writing a nested section in another byte order.
+     * The previous endianness is restored when the function returns or throws.
+     *
+     * @param endian { Endian } The byte order to use while the function runs (BE or LE).
+     * @param func { Function(buff: SmartBuffer) => T } The function to call with this SmartBuffer.
+     *
+     * @return { T } The value returned by the function.
+     */
+    withEndian<T>(endian: Endian, func: (buff: SmartBuffer) => T): T;
+    /**
+     * Reads an Int16 value from the current read position, in the SmartBuffer's endianness.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readInt16(offset?: number): number;
+    /**
+     * Peeks an Int16 value from the current read position, in the SmartBuffer's endianness, without moving the read offset.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Number }
+     */
+    peekInt16(offset?: number): number;
+    /**
+     * Writes an Int16 value to the current write position (or at optional offset), in the SmartBuffer's endianness.
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeInt16(value: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts an Int16 value at the given offset, in the SmartBuffer's endianness, shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertInt16(value: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites an Int16 value at the given offset, in the SmartBuffer's endianness, without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setInt16(value: number, offset: number): SmartBuffer;
+    /**
+     * Reads an Int32 value from the current read position, in the SmartBuffer's endianness.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readInt32(offset?: number): number;
+    /**
+     * Peeks an Int32 value from the current read position, in the SmartBuffer's endianness, without moving the read offset.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Number }
+     */
+    peekInt32(offset?: number): number;
+    /**
+     * Writes an Int32 value to the current write position (or at optional offset), in the SmartBuffer's endianness.
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeInt32(value: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts an Int32 value at the given offset, in the SmartBuffer's endianness, shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertInt32(value: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites an Int32 value at the given offset, in the SmartBuffer's endianness, without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setInt32(value: number, offset: number): SmartBuffer;
+    /**
+     * Reads an UInt16 value from the current read position, in the SmartBuffer's endianness.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readUInt16(offset?: number): number;
+    /**
+     * Peeks an UInt16 value from the current read position, in the SmartBuffer's endianness, without moving the read offset.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Number }
+     */
+    peekUInt16(offset?: number): number;
+    /**
+     * Writes an UInt16 value to the current write position (or at optional offset), in the SmartBuffer's endianness.
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeUInt16(value: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts an UInt16 value at the given offset, in the SmartBuffer's endianness, shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertUInt16(value: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites an UInt16 value at the given offset, in the SmartBuffer's endianness, without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setUInt16(value: number, offset: number): SmartBuffer;
+    /**
+     * Reads an UInt32 value from the current read position, in the SmartBuffer's endianness.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readUInt32(offset?: number): number;
+    /**
+     * Peeks an UInt32 value from the current read position, in the SmartBuffer's endianness, without moving the read offset.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Number }
+     */
+    peekUInt32(offset?: number): number;
+    /**
+     * Writes an UInt32 value to the current write position (or at optional offset), in the SmartBuffer's endianness.
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeUInt32(value: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts an UInt32 value at the given offset, in the SmartBuffer's endianness, shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertUInt32(value: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites an UInt32 value at the given offset, in the SmartBuffer's endianness, without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setUInt32(value: number, offset: number): SmartBuffer;
+    /**
+     * Reads a Float value from the current read position, in the SmartBuffer's endianness.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readFloat(offset?: number): number;
+    /**
+     * Peeks a Float value from the current read position, in the SmartBuffer's endianness, without moving the read offset.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Number }
+     */
+    peekFloat(offset?: number): number;
+    /**
+     * Writes a Float value to the current write position (or at optional offset), in the SmartBuffer's endianness.
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeFloat(value: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts a Float value at the given offset, in the SmartBuffer's endianness, shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertFloat(value: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites a Float value at the given offset, in the SmartBuffer's endianness, without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setFloat(value: number, offset: number): SmartBuffer;
+    /**
+     * Reads a Double value from the current read position, in the SmartBuffer's endianness.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readDouble(offset?: number): number;
+    /**
+     * Peeks a Double value from the current read position, in the SmartBuffer's endianness, without moving the read offset.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Number }
+     */
+    peekDouble(offset?: number): number;
+    /**
+     * Writes a Double value to the current write position (or at optional offset), in the SmartBuffer's endianness.
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeDouble(value: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts a Double value at the given offset, in the SmartBuffer's endianness, shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertDouble(value: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites a Double value at the given offset, in the SmartBuffer's endianness, without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setDouble(value: number, offset: number): SmartBuffer;
+    /**
+     * Reads a BigInt64 value from the current read position, in the SmartBuffer's endianness.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { BigInt }
+     */
+    readBigInt64(offset?: number): bigint;
+    /**
+     * Peeks a BigInt64 value from the current read position, in the SmartBuffer's endianness, without moving the read offset.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { BigInt }
+     */
+    peekBigInt64(offset?: number): bigint;
+    /**
+     * Writes a BigInt64 value to the current write position (or at optional offset), in the SmartBuffer's endianness.
+     *
+     * @param value { BigInt } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeBigInt64(value: bigint, offset?: number): SmartBuffer;
+    /**
+     * Inserts a BigInt64 value at the given offset, in the SmartBuffer's endianness, shifting the data that follows it forward.
+     *
+     * @param value { BigInt } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertBigInt64(value: bigint, offset: number): SmartBuffer;
+    /**
+     * Overwrites a BigInt64 value at the given offset, in the SmartBuffer's endianness, without shifting data or moving the write offset.
+     *
+     * @param value { BigInt } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setBigInt64(value: bigint, offset: number): SmartBuffer;
+    /**
+     * Reads a BigUInt64 value from the current read position, in the SmartBuffer's endianness.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { BigInt }
+     */
+    readBigUInt64(offset?: number): bigint;
+    /**
+     * Peeks a BigUInt64 value from the current read position, in the SmartBuffer's endianness, without moving the read offset.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { BigInt }
+     */
+    peekBigUInt64(offset?: number): bigint;
+    /**
+     * Writes a BigUInt64 value to the current write position (or at optional offset), in the SmartBuffer's endianness.
+     *
+     * @param value { BigInt } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeBigUInt64(value: bigint, offset?: number): SmartBuffer;
+    /**
+     * Inserts a BigUInt64 value at the given offset, in the SmartBuffer's endianness, shifting the data that follows it forward.
+     *
+     * @param value { BigInt } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertBigUInt64(value: bigint, offset: number): SmartBuffer;
+    /**
+     * Overwrites a BigUInt64 value at the given offset, in the SmartBuffer's endianness, without shifting data or moving the write offset.
+     *
+     * @param value { BigInt } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setBigUInt64(value: bigint, offset: number): SmartBuffer;
+    /**
+     * Reads an Int64 value from the current read position as a Number, in the SmartBuffer's endianness.
+     * Throws if the value is outside of the safe integer range.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readInt64(offset?: number): number;
+    /**
+     * Peeks an Int64 value from the current read position as a Number, in the SmartBuffer's endianness, without moving the read offset.
+     * Throws if the value is outside of the safe integer range.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Number }
+     */
+    peekInt64(offset?: number): number;
+    /**
+     * Writes an Int64 value to the current write position (or at optional offset), in the SmartBuffer's endianness.
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeInt64(value: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts an Int64 value at the given offset, in the SmartBuffer's endianness, shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertInt64(value: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites an Int64 value at the given offset, in the SmartBuffer's endianness, without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setInt64(value: number, offset: number): SmartBuffer;
+    /**
+     * Reads an UInt64 value from the current read position as a Number, in the SmartBuffer's endianness.
+     * Throws if the value is outside of the safe integer range.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readUInt64(offset?: number): number;
+    /**
+     * Peeks an UInt64 value from the current read position as a Number, in the SmartBuffer's endianness, without moving the read offset.
+     * Throws if the value is outside of the safe integer range.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Number }
+     */
+    peekUInt64(offset?: number): number;
+    /**
+     * Writes an UInt64 value to the current write position (or at optional offset), in the SmartBuffer's endianness.
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeUInt64(value: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts an UInt64 value at the given offset, in the SmartBuffer's endianness, shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to insert.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertUInt64(value: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites an UInt64 value at the given offset, in the SmartBuffer's endianness, without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setUInt64(value: number, offset: number): SmartBuffer;
+    /**
+     * Reads an Int value of the given byte length (1-6) from the current read position, in the SmartBuffer's endianness.
+     *
+     * @param byteLength { Number } The number of bytes to read.
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readInt(byteLength: number, offset?: number): number;
+    /**
+     * Peeks an Int value of the given byte length (1-6) from the current read position, in the SmartBuffer's endianness,
+     * without moving the read offset.
+     *
+     * @param byteLength { Number } The number of bytes to read.
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Number }
+     */
+    peekInt(byteLength: number, offset?: number): number;
+    /**
+     * Writes an Int value of the given byte length (1-6) to the current write position (or at optional offset),
+     * in the SmartBuffer's endianness.
+     *
+     * @param value { Number } The value to write.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeInt(value: number, byteLength: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts an Int value of the given byte length (1-6) at the given offset, in the SmartBuffer's endianness,
+     * shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to insert.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertInt(value: number, byteLength: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites an Int value of the given byte length (1-6) at the given offset, in the SmartBuffer's endianness,
+     * without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setInt(value: number, byteLength: number, offset: number): SmartBuffer;
+    /**
+     * Reads an UInt value of the given byte length (1-6) from the current read position, in the SmartBuffer's endianness.
+     *
+     * @param byteLength { Number } The number of bytes to read.
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readUInt(byteLength: number, offset?: number): number;
+    /**
+     * Peeks an UInt value of the given byte length (1-6) from the current read position, in the SmartBuffer's endianness,
+     * without moving the read offset.
+     *
+     * @param byteLength { Number } The number of bytes to read.
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Number }
+     */
+    peekUInt(byteLength: number, offset?: number): number;
+    /**
+     * Writes an UInt value of the given byte length (1-6) to the current write position (or at optional offset),
+     * in the SmartBuffer's endianness.
+     *
+     * @param value { Number } The value to write.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeUInt(value: number, byteLength: number, offset?: number): SmartBuffer;
+    /**
+     * Inserts an UInt value of the given byte length (1-6) at the given offset, in the SmartBuffer's endianness,
+     * shifting the data that follows it forward.
+     *
+     * @param value { Number } The value to insert.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to insert the value at.
+     *
+     * @return this
+     */
+    insertUInt(value: number, byteLength: number, offset: number): SmartBuffer;
+    /**
+     * Overwrites an UInt value of the given byte length (1-6) at the given offset, in the SmartBuffer's endianness,
+     * without shifting data or moving the write offset.
+     *
+     * @param value { Number } The value to write.
+     * @param byteLength { Number } The number of bytes to write.
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    setUInt(value: number, byteLength: number, offset: number): SmartBuffer;
+    /**
+     * Reads an unsigned LEB128 varint from the current read position.
+     * Throws if the varint is truncated, overlong, or larger than Number.MAX_SAFE_INTEGER.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readVarUInt(offset?: number): number;
+    /**
+     * Peeks an unsigned LEB128 varint from the current read position, without moving the read offset.
+     * Throws if the varint is truncated, overlong, or larger than Number.MAX_SAFE_INTEGER.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Number }
+     */
+    peekVarUInt(offset?: number): number;
+    /**
+     * Reads a signed LEB128 varint from the current read position.
+     * Throws if the varint is truncated, overlong, or outside of the safe integer range.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readVarInt(offset?: number): number;
+    /**
+     * Peeks a signed LEB128 varint from the current read position, without moving the read offset.
+     * Throws if the varint is truncated, overlong, or outside of the safe integer range.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Number }
+     */
+    peekVarInt(offset?: number): number;
+    /**
+     * Reads a zigzag encoded signed varint (Protobuf sint32/sint64) from the current read position.
+     * Throws if the varint is truncated, overlong, or outside of the safe integer range.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readZigZagVarInt(offset?: number): number;
+    /**
+     * Peeks a zigzag encoded signed varint (Protobuf sint32/sint64) from the current read position, without moving the read offset.
+     * Throws if the varint is truncated, overlong, or outside of the safe integer range.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Number }
+     */
+    peekZigZagVarInt(offset?: number): number;
+    /**
+     * Reads a QUIC (RFC 9000) varint from the current read position.
+     * Throws if the varint is truncated or larger than Number.MAX_SAFE_INTEGER.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number }
+     */
+    readQuicVarInt(offset?: number): number;
+    /**
+     * Peeks a QUIC (RFC 9000) varint from the current read position, without moving the read offset.
+     * Throws if the varint is truncated or larger than Number.MAX_SAFE_INTEGER.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Number }
+     */
+    peekQuicVarInt(offset?: number): number;
+    /**
+     * Writes an unsigned LEB128 varint to the current write position (or at optional offset).
+     *
+     * @param value { Number } The value to write (must be a non-negative safe integer).
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeVarUInt(value: number, offset?: number): SmartBuffer;
+    /**
+     * Writes a signed LEB128 varint to the current write position (or at optional offset).
+     *
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeVarInt(value: number, offset?: number): SmartBuffer;
+    /**
+     * Writes a zigzag encoded signed varint (Protobuf sint32/sint64) to the current write position (or at optional offset).
+     *
+     * @param value { Number } The value to write (must be a safe integer).
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeZigZagVarInt(value: number, offset?: number): SmartBuffer;
+    /**
+     * Writes a QUIC (RFC 9000) varint to the current write position (or at optional offset).
+     * The shortest encoding that fits the value is used.
+     *
+     * @param value { Number } The value to write (must be a non-negative safe integer).
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeQuicVarInt(value: number, offset?: number): SmartBuffer;
+    /**
+     * Reads an unsigned LEB128 varint of up to 64 bits from the current read position.
+     * Throws if the varint is truncated, overlong, or larger than 64 bits.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { BigInt }
+     */
+    readBigVarUInt(offset?: number): bigint;
+    /**
+     * Peeks an unsigned LEB128 varint of up to 64 bits from the current read position, without moving the read offset.
+     * Throws if the varint is truncated, overlong, or larger than 64 bits.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { BigInt }
+     */
+    peekBigVarUInt(offset?: number): bigint;
+    /**
+     * Reads a signed LEB128 varint of up to 64 bits from the current read position.
+     * Throws if the varint is truncated, overlong, or outside of the 64 bit signed range.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { BigInt }
+     */
+    readBigVarInt(offset?: number): bigint;
+    /**
+     * Peeks a signed LEB128 varint of up to 64 bits from the current read position, without moving the read offset.
+     * Throws if the varint is truncated, overlong, or outside of the 64 bit signed range.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { BigInt }
+     */
+    peekBigVarInt(offset?: number): bigint;
+    /**
+     * Reads a zigzag encoded signed varint of up to 64 bits from the current read position.
+     * Throws if the varint is truncated, overlong, or larger than 64 bits.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { BigInt }
+     */
+    readBigZigZagVarInt(offset?: number): bigint;
+    /**
+     * Peeks a zigzag encoded signed varint of up to 64 bits from the current read position, without moving the read offset.
+     * Throws if the varint is truncated, overlong, or larger than 64 bits.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { BigInt }
+     */
+    peekBigZigZagVarInt(offset?: number): bigint;
+    /**
+     * Reads a QUIC (RFC 9000) varint from the current read position.
+     * Throws if the varint is truncated.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { BigInt }
+     */
+    readBigQuicVarInt(offset?: number): bigint;
+    /**
+     * Peeks a QUIC (RFC 9000) varint from the current read position, without moving the read offset.
+     * Throws if the varint is truncated.
+     *
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { BigInt }
+     */
+    peekBigQuicVarInt(offset?: number): bigint;
+    /**
+     * Writes an unsigned LEB128 varint of up to 64 bits to the current write position (or at optional offset).
+     *
+     * @param value { BigInt } The value to write (must fit in 64 unsigned bits).
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeBigVarUInt(value: bigint, offset?: number): SmartBuffer;
+    /**
+     * Writes a signed LEB128 varint of up to 64 bits to the current write position (or at optional offset).
+     *
+     * @param value { BigInt } The value to write (must fit in 64 signed bits).
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeBigVarInt(value: bigint, offset?: number): SmartBuffer;
+    /**
+     * Writes a zigzag encoded signed varint of up to 64 bits to the current write position (or at optional offset).
+     *
+     * @param value { BigInt } The value to write (must fit in 64 signed bits).
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeBigZigZagVarInt(value: bigint, offset?: number): SmartBuffer;
+    /**
+     * Writes a QUIC (RFC 9000) varint to the current write position (or at optional offset).
+     * The shortest encoding that fits the value is used.
+     *
+     * @param value { BigInt } The value to write (must be between 0 and 2^62 - 1).
+     * @param offset { Number } The offset to write the value at.
+     *
+     * @return this
+     */
+    writeBigQuicVarInt(value: bigint, offset?: number): SmartBuffer;
+    /**
+     * Reads a String from the current read position.
+     * Throws if an offset is given (or the SmartBuffer is strict) and the data ends before offset + length.
+     *
+     * @param length { Number } The number of bytes to read as a String.
+     * @param arg2 { Number | String } The offset to read from (the read offset is not moved), or the BufferEncoding to use.
+     * @param encoding { String } The BufferEncoding to use for the string (Defaults to instance level encoding).
+     *
+     * @return { String }
+     */
+    readString(length?: number, arg2?: number | BufferEncoding, encoding?: BufferEncoding): string;
+    /**
+     * Peeks a String from the current read position (or the given offset), without moving the read offset.
+     * Throws if an offset is given (or the SmartBuffer is strict) and the data ends before offset + length.
+     *
+     * @param length { Number } The number of bytes to read as a String.
+     * @param arg2 { Number | String } The offset to read from, or the BufferEncoding to use.
+     * @param encoding { String } The BufferEncoding to use for the string (Defaults to instance level encoding).
+     *
+     * @return { String }
+     */
+    peekString(length?: number, arg2?: number | BufferEncoding, encoding?: BufferEncoding): string;
+    /**
+     * Writes a String to the current write position.
+     *
+     * @param value { String } The String value to write.
+     * @param arg2 { Number | String } The offset to write the string to, or the BufferEncoding to use.
+     * @param encoding { String } The BufferEncoding to use for writing strings (defaults to instance encoding).
+     */
+    writeString(value: string, arg2?: number | BufferEncoding, encoding?: BufferEncoding): this;
+    /**
+     * Inserts a String at the given offset, shifting the data that follows it forward.
+     *
+     * @param value { String } The String value to insert.
+     * @param offset { Number } The offset to insert the string at.
+     * @param encoding { String } The BufferEncoding to use for writing strings (defaults to instance encoding).
+     */
+    insertString(value: string, offset: number, encoding?: BufferEncoding): this;
+    /**
+     * Overwrites a String at the given offset without shifting data or moving the write offset.
+     *
+     * @param value { String } The String value to write.
+     * @param offset { Number } The offset to write the string at.
+     * @param encoding { String } The BufferEncoding to use for writing strings (defaults to instance encoding).
+     */
+    setString(value: string, offset: number, encoding?: BufferEncoding): this;
+    /**
+     * Reads a null-terminated String from the current read position.
+     * Throws if the SmartBuffer is strict and no null terminator is found.
+     *
+     * @param arg1 { Number | String } The offset to read from (the read offset is not moved), or the BufferEncoding to use.
+     * @param encoding { String } The BufferEncoding to use for the string (Defaults to instance level encoding).
+     *
+     * @return { String }
+     */
+    readStringNT(arg1?: number | BufferEncoding, encoding?: BufferEncoding): string;
+    /**
+     * Peeks a null-terminated String from the current read position (or the given offset), without moving the read offset.
+     * Throws if the SmartBuffer is strict and no null terminator is found.
+     *
+     * @param arg1 { Number | String } The offset to read from, or the BufferEncoding to use.
+     * @param encoding { String } The BufferEncoding to use for the string (Defaults to instance level encoding).
+     *
+     * @return { String }
+     */
+    peekStringNT(arg1?: number | BufferEncoding, encoding?: BufferEncoding): string;
+    /**
+     * Writes a null-terminated String to the current write position.
+     *
+     * @param value { String } The String value to write.
+     * @param arg2 { Number | String } The offset to write the string to, or the BufferEncoding to use.
+     * @param encoding { String } The BufferEncoding to use for writing strings (defaults to instance encoding).
+     */
+    writeStringNT(value: string, offset?: number | BufferEncoding, encoding?: BufferEncoding): this;
+    /**
+     * Inserts a null-terminated String at the given offset, shifting the data that follows it forward.
+     *
+     * @param value { String } The String value to insert.
+     * @param offset { Number } The offset to insert the string at.
+     * @param encoding { String } The BufferEncoding to use for writing strings (defaults to instance encoding).
+     */
+    insertStringNT(value: string, offset: number, encoding?: BufferEncoding): this;
+    /**
+     * Reads a Buffer from the internal read position.
+     * Throws if an offset is given (or the SmartBuffer is strict) and the data ends before offset + length.
+     *
+     * @param length { Number } The length of data to read as a Buffer.
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Buffer }
+     */
+    readBuffer(length?: number, offset?: number): Buffer;
+    /**
+     * Peeks a Buffer from the current read position (or the given offset), without moving the read offset.
+     * Throws if an offset is given (or the SmartBuffer is strict) and the data ends before offset + length.
+     *
+     * @param length { Number } The length of data to read as a Buffer.
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { Buffer }
+     */
+    peekBuffer(length?: number, offset?: number): Buffer;
+    /**
+     * Reads a copy of the data from the current read position. Unlike readBuffer(), the returned Buffer does not share
+     * memory with the SmartBuffer, so it stays valid when the SmartBuffer is modified.
+     * Throws if an offset is given (or the SmartBuffer is strict) and the data ends before offset + length.
+     *
+     * @param length { Number } The number of bytes to read. If no value is given it will read the remaining data.
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Buffer }
+     */
+    readBufferCopy(length?: number, offset?: number): Buffer;
+    /**
+     * Writes a Buffer to the current write position.
+     *
+     * @param value { Buffer } The Buffer to write.
+     * @param offset { Number } The offset to write the Buffer to.
+     */
+    writeBuffer(value: Buffer, offset?: number): this;
+    /**
+     * Inserts a Buffer at the given offset, shifting the data that follows it forward.
+     *
+     * @param value { Buffer } The Buffer to insert.
+     * @param offset { Number } The offset to insert the Buffer at.
+     */
+    insertBuffer(value: Buffer, offset: number): this;
+    /**
+     * Overwrites a Buffer at the given offset without shifting data or moving the write offset.
+     *
+     * @param value { Buffer } The Buffer to write.
+     * @param offset { Number } The offset to write the Buffer at.
+     */
+    setBuffer(value: Buffer, offset: number): this;
+    /**
+     * Reads a null-terminated Buffer from the current read poisiton.
+     * Throws if the SmartBuffer is strict and no null terminator is found.
+     *
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Buffer }
+     */
+    readBufferNT(offset?: number): Buffer;
+    /**
+     * Writes a null-terminated Buffer to the current write position.
+     *
+     * @param value { Buffer } The Buffer to write.
      * @param offset { Number } The offset to write the Buffer to.
      */
-    writeBuffer(value: Buffer, offset?: number): this;
+    writeBufferNT(value: Buffer, offset?: number): this;
+    /**
+     * Inserts a null-terminated Buffer at the given offset, shifting the data that follows it forward.
+     *
+     * @param value { Buffer } The Buffer to insert.
+     * @param offset { Number } The offset to insert the Buffer at.
+     */
+    insertBufferNT(value: Buffer, offset: number): this;
+    /**
+     * Reads a length-prefixed String from the current read position.
+     *
+     * @param prefix { LengthPrefix } The type of the length prefix.
+     * @param arg2 { Number | String } The offset to read from (the read offset is not moved), or the BufferEncoding to use.
+     * @param encoding { String } The BufferEncoding to use for the string (Defaults to instance level encoding).
+     *
+     * @return { String }
+     */
+    readStringPrefixed(prefix: LengthPrefix, arg2?: number | BufferEncoding, encoding?: BufferEncoding): string;
+    /**
+     * Writes a length-prefixed String to the current write position.
+     *
+     * @param value { String } The String value to write.
+     * @param prefix { LengthPrefix } The type of the length prefix.
+     * @param encoding { String } The BufferEncoding to use for writing strings (defaults to instance encoding).
+     */
+    writeStringPrefixed(value: string, prefix: LengthPrefix, encoding?: BufferEncoding): this;
+    /**
+     * Reads a length-prefixed Buffer from the current read position.
+     *
+     * @param prefix { LengthPrefix } The type of the length prefix.
+     * @param offset { Number } The offset to read from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Buffer }
+     */
+    readBufferPrefixed(prefix: LengthPrefix, offset?: number): Buffer;
+    /**
+     * Writes a length-prefixed Buffer to the current write position.
+     *
+     * @param value { Buffer } The Buffer to write.
+     * @param prefix { LengthPrefix } The type of the length prefix.
+     */
+    writeBufferPrefixed(value: Buffer, prefix: LengthPrefix): this;
+    /**
+     * Reads a String from a fixed-width field at the current read position, cutting it at its first NUL (so anything after a
+     * NUL terminator is ignored) and removing trailing space padding. Throws if less than width bytes are remaining.
+     *
+     * @param width { Number } The width of the field in bytes.
+     * @param options { ReadStringFixedOptions } The trim and encoding options.
+     *
+     * @return { String }
+     */
+    readStringFixed(width: number, options?: ReadStringFixedOptions): string;
+    /**
+     * Writes a String to a fixed-width field at the current write position, padding it to the width. Strings longer than
+     * the width throw an error, or are cut without splitting a multi-byte character (and padded) when truncate is cut. The
+     * padding is repeated as long as it fits whole, and the bytes left at the end of the field are filled with NULs.
+     *
+     * @param value { String } The String value to write.
+     * @param width { Number } The width of the field in bytes.
+     * @param options { WriteStringFixedOptions } The pad, encoding and truncate options.
+     */
+    writeStringFixed(value: string, width: number, options?: WriteStringFixedOptions): this;
+    /**
+     * Finds the first occurrence of a pattern in the data, starting at the given offset (or the current read position).
+     *
+     * @param pattern { Buffer | String | Number } The pattern to find (a Buffer, a String, or a byte value).
+     * @param from { Number } The offset to start searching at (defaults to the current read position).
+     * @param encoding { String } The BufferEncoding of a String pattern (defaults to instance level encoding).
+     *
+     * @return { Number } The offset of the pattern, or -1 if it was not found.
+     */
+    indexOf(pattern: Buffer | string | number, from?: number, encoding?: BufferEncoding): number;
+    /**
+     * Reads a Buffer from the current read position up to the next occurrence of a delimiter, and consumes the delimiter.
+     * Throws a SmartBufferOutOfBoundsError (and does not move the read offset) if the data ends before the delimiter.
+     *
+     * @param delimiter { Buffer | String | Number } The delimiter to read until (a Buffer, a String, or a byte value).
+     * @param options { ReadUntilOptions } Whether to include the delimiter, the maximum length to read, and the encoding.
+     *
+     * @return { Buffer }
+     */
+    readUntil(delimiter: Buffer | string | number, options?: ReadUntilOptions): Buffer;
+    /**
+     * Reads a String from the current read position up to the next occurrence of a delimiter, and consumes the delimiter.
+     * Throws a SmartBufferOutOfBoundsError (and does not move the read offset) if the data ends before the delimiter.
+     *
+     * @param delimiter { Buffer | String | Number } The delimiter to read until (a Buffer, a String, or a byte value).
+     * @param options { ReadUntilOptions } Whether to include the delimiter, the maximum length to read, and the encoding.
+     *
+     * @return { String }
+     */
+    readStringUntil(delimiter: Buffer | string | number, options?: ReadUntilOptions): string;
+    /**
+     * Reads a line ending in \n or \r\n from the current read position, and consumes the line ending.
+     * The line ending is not counted towards maxLength, and is only returned when include is set.
+     *
+     * @param options { ReadUntilOptions } Whether to include the line ending, the maximum line length to read, and the encoding.
+     *
+     * @return { String }
+     */
+    readLine(options?: ReadUntilOptions): string;
+    /**
+     * Computes a checksum over a range of the data.
+     *
+     * @param algorithm { ChecksumAlgorithm } The checksum algorithm to use (crc32, adler32, internet or crc16).
+     * @param start { Number } The offset to start at (defaults to 0).
+     * @param end { Number } The offset to end at, exclusive (defaults to the length of the data).
+     *
+     * @return { Number }
+     */
+    checksum(algorithm: ChecksumAlgorithm, start?: number, end?: number): number;
+    /**
+     * Computes a checksum over a range of the data, and writes it to the current write position (or at optional offset).
+     * CRC-32 and Adler-32 checksums are written as a UInt32 and CRC-16 checksums as a UInt16, in the SmartBuffer's endianness.
+     * Internet checksums are always written as a UInt16BE (network byte order).
+     *
+     * @param algorithm { ChecksumAlgorithm } The checksum algorithm to use (crc32, adler32, internet or crc16).
+     * @param start { Number } The offset to start at.
+     * @param end { Number } The offset to end at (exclusive).
+     * @param offset { Number } The offset to write the checksum at.
+     *
+     * @return this
+     */
+    writeChecksum(algorithm: ChecksumAlgorithm, start: number, end: number, offset?: number): SmartBuffer;
+    /**
+     * Computes a checksum over a range of the data, and overwrites the checksum at the given offset with it, without shifting
+     * data or moving the write offset. Use this to patch a checksum field after the data it covers has been written.
+     *
+     * @param algorithm { ChecksumAlgorithm } The checksum algorithm to use (crc32, adler32, internet or crc16).
+     * @param start { Number } The offset to start at.
+     * @param end { Number } The offset to end at (exclusive).
+     * @param offset { Number } The offset of the checksum to overwrite.
+     *
+     * @return this
+     */
+    setChecksum(algorithm: ChecksumAlgorithm, start: number, end: number, offset: number): SmartBuffer;
+    /**
+     * Reads a checksum from the current read position, and verifies it against the checksum computed over a range of the data.
+     * Throws a SmartBufferChecksumError (and does not move the read offset) if the checksums do not match.
+     *
+     * @param algorithm { ChecksumAlgorithm } The checksum algorithm to use (crc32, adler32, internet or crc16).
+     * @param start { Number } The offset to start at.
+     * @param end { Number } The offset to end at (exclusive).
+     * @param offset { Number } The offset to read the checksum from. The read offset is not moved when an offset is provided.
+     *
+     * @return { Number } The verified checksum.
+     */
+    verifyChecksum(algorithm: ChecksumAlgorithm, start: number, end: number, offset?: number): number;
+    /**
+     * Clears the SmartBuffer instance to its original empty state.
+     */
+    clear(): void;
+    /**
+     * Remove data from buffer. The buffer internal storage size remains the same, however the data following 
+	 * the offset will be back shifted. Data length, write/read offset will be fix if it became outside of 
+	 * the new data range.
+     * @param offset { number } Offset where to start removing data.
+     * @param length { number } Length to remove.
+     */
+    remove(offset: number, length: number): this;
+    /**
+     * Discards the data that has already been read, shifting the remaining data to the start of the internal Buffer.
+     * The read offset is moved to zero, and the write offset is moved back by the amount of data discarded.
+     * Data after the earliest mark is kept (and the marks are moved with it), so reset() still returns to the same data.
+     */
+    compact(): this;
+    /**
+     * Shrinks the internal Buffer to the length of the data.
+     */
+    shrinkToFit(): this;
+    /**
+     * Ensures that the internal Buffer has room for the given amount of data after the end of the data, so it does not
+     * have to grow while writing it.
+     *
+     * @param length { Number } The amount of data to reserve room for.
+     */
+    reserve(length: number): this;
+    /**
+     * Writes a zeroed placeholder of the given numeric type at the current write position, for a field (such as a length or
+     * an offset) that is only known after the data that follows it has been written. The placeholder is filled later with
+     * the returned handle, which overwrites it in place without shifting data.
+     *
+     * toBuffer() throws a SmartBufferPlaceholderError while a placeholder is unfilled. The placeholder moves with the data when
+     * data is inserted or removed before it (insertXXX(), remove() or compact()). Inserting, removing or overwriting data
+     * (other than with the handle) within an unfilled placeholder throws a SmartBufferPlaceholderError.
+     *
+     * @param type { PlaceholderType } The numeric type of the placeholder. Int16, UInt16, Int32 and UInt32 use the endianness
+     * of the SmartBuffer.
+     *
+     * @return { SmartBufferPlaceholder }
+     */
+    reservePlaceholder(type: PlaceholderType): SmartBufferPlaceholder;
+    /**
+     * Gets the remaining data left to be read from the SmartBuffer instance.
+     *
+     * @return { Number }
+     */
+    remaining(): number;
+    /**
+     * Moves the read offset forward.
+     *
+     * @param amount { Number } The amount to move the read offset forward by (a non-negative integer).
+     */
+    skip(amount: number): this;
+    /**
+     * Moves the read offset backwards.
+     *
+     * @param amount { Number } The amount to move the read offset backwards by (a non-negative integer).
+     */
+    rewind(amount: number): this;
+    /**
+     * Moves the read offset to a specific position.
+     *
+     * @param position { Number } The position to move the read offset to.
+     */
+    skipTo(position: number): this;
+    /**
+     * Moves the read offset to a specific position.
+     *
+     * @param position { Number } The position to move the read offset to.
+     */
+    moveTo(position: number): this;
+    /**
+     * Marks the current read offset, so reset() can return to it. Marks are nested: each reset() or unmark() ends the most
+     * recent mark.
+     */
+    mark(): this;
+    /**
+     * Moves the read offset back to the most recent mark, and removes the mark.
+     */
+    reset(): this;
+    /**
+     * Removes the most recent mark without moving the read offset (when the marked data was read successfully).
+     */
+    unmark(): this;
+    /**
+     * Calls a function that reads from this SmartBuffer, restoring the read offset if it throws.
+     * If the function throws a SmartBufferOutOfBoundsError (or a SmartBufferSchemaError caused by one), the incomplete value is
+     * returned instead. Any other error is thrown. Marks the function leaves behind are removed.
+     *
+     * @param func { Function(buff: SmartBuffer) => T } The function to call with this SmartBuffer.
+     * @param incomplete { U } The value to return when the data runs out (defaults to undefined).
+     *
+     * @return { T | U } The value returned by the function, or the incomplete value.
+     */
+    tryRead<T, U = undefined>(func: (buff: SmartBuffer) => T, incomplete?: U): T | U;
+    /**
+     * Moves the write offset forward.
+     *
+     * @param amount { Number } The amount to move the write offset forward by (a non-negative integer).
+     */
+    skipWrite(amount: number): this;
+    /**
+     * Moves the write offset backwards.
+     *
+     * @param amount { Number } The amount to move the write offset backwards by (a non-negative integer).
+     */
+    rewindWrite(amount: number): this;
+    /**
+     * Moves the write offset to a specific position.
+     *
+     * @param position { Number } The position to move the write offset to.
+     */
+    moveWriteTo(position: number): this;
+    /**
+     * Gets the value of the internal managed Buffer
+     *
+     * @param { Buffer }
+     */
+    toBuffer(): Buffer;
+    /**
+     * Gets the data as a Uint8Array. Like toBuffer(), it shares memory with the internal Buffer when possible.
+     *
+     * @return { Uint8Array }
+     */
+    toUint8Array(): Uint8Array;
+    /**
+     * Gets a copy of the data as an ArrayBuffer.
+     *
+     * @return { ArrayBuffer }
+     */
+    toArrayBuffer(): ArrayBuffer;
+    /**
+     * Creates a read-only SmartBuffer view over a range of the data. The view shares memory with this SmartBuffer (nothing is
+     * copied), but has its own read offset, and its length is the length of the range. Writing to the view throws a
+     * SmartBufferReadOnlyError.
+     *
+     * The view sees data that is overwritten in place in this SmartBuffer. It is invalidated by operations that shift the data
+     * (inserting, remove() and compact()) or replace the internal Buffer (growing beyond the capacity, reserve() and
+     * shrinkToFit()). Use readBufferCopy() to retain data instead.
+     *
+     * @param start { Number } The offset the view starts at (defaults to 0).
+     * @param end { Number } The offset the view ends at, exclusive (defaults to the length of the data).
+     *
+     * @return { SmartBuffer }
+     */
+    subarray(start?: number, end?: number): SmartBuffer;
+    /**
+     * Gets the String value of the internal managed Buffer
+     *
+     * @param encoding { String } The BufferEncoding to display the Buffer as (defaults to instance level encoding).
+     */
+    toString(encoding?: BufferEncoding): string;
+    /**
+     * Formats the data (or a range of it) in the classic offset/hex/ASCII layout of hexdump -C for debugging. The read
+     * offset (r) and the write offset (w) are marked on a line below the bytes they point at.
+     *
+     * @param options { HexdumpOptions } The width, range and cursor options.
+     *
+     * @return { String }
+     */
+    hexdump(options?: HexdumpOptions): string;
+    /**
+     * Starts recording the reads and writes of numeric values, Strings and Buffers (the function, offset, byte length and
+     * value of each) into a new trace. Tracing adds no overhead while it is stopped.
+     */
+    startTrace(): this;
+    /**
+     * Stops recording reads and writes. The trace stays available until the next startTrace().
+     *
+     * @return { SmartBufferTrace }
+     */
+    stopTrace(): SmartBufferTrace;
+    /**
+     * Stops recording reads and writes, and discards the trace.
+     */
+    clearTrace(): this;
+    /**
+     * Labels the next recorded read or write, such as with the name of the field it belongs to. Does nothing while
+     * tracing is stopped.
+     *
+     * @param label { String } The label.
+     */
+    annotate(label: string): this;
+    /**
+     * Destroys the SmartBuffer instance. SmartBuffers acquired from a SmartBufferPool are returned to it, and must not be used
+     * afterwards.
+     */
+    destroy(): void;
+    /**
+     * Ensures that the internal Buffer is large enough to read data at the given offset (or at the read position).
+     *
+     * @param length { Number } The length of the data that needs to be read.
+     * @param offset { Number } The offset of the data to be read.
+     */
+    private ensureReadable(length: number, offset?: number);
+    /**
+     * Ensures that the internal Buffer is large enough to write data.
+     * 
+     * @param minLength { Number } The minimum length of the data that needs to be written.
+     * @param offset { Number } The offset of the data to be written.
+     */
+    private ensureWriteable(minLength: number, offset?: number);
+    /**
+     * Ensures that inserting data at (when start and end are equal) or removing data in the given range does not split or
+     * remove an unfilled placeholder.
+     *
+     * @param start { Number } The offset the range starts at.
+     * @param end { Number } The offset the range ends at (exclusive).
+     */
+    private ensurePlaceholdersOutside(start: number, end: number);
+    /**
+     * Moves the placeholders after a range that data was inserted at or removed from. Filled placeholders within the range
+     * no longer hold their value, so they are no longer tracked.
+     *
+     * @param start { Number } The offset the range starts at.
+     * @param end { Number } The offset the range ends at (exclusive).
+     * @param amount { Number } The number of bytes to move the placeholders by (negative when data was removed).
+     */
+    private movePlaceholders(start: number, end: number, amount: number);
+    /**
+     * Ensures that the internal Buffer is large enough to write at least the given amount of data.
+     *
+     * @param minLength { Number } The minimum length of the data needs to be written.
+     */
+    private ensureCapacity(minLength: number);
+    /**
+     * Reads a value using the provided read function at the given offset (or the current read position), and then
+     * restores the read offset. While tracing, the read is recorded once under the given method name (such as peekUInt8)
+     * instead of the name of the read function.
+     *
+     * @param method { String } The name of the function the value is peeked (or read) with, used as the name of the trace entry.
+     * @param func { Function() => T } The read function to read the value with.
+     * @param offset { Number } The offset to read from (defaults to the current read position).
+     *
+     * @return { T }
+     */
+    private peekValue;
+    /**
+     * Reads a value using the provided read function, recording it once under the given method name while tracing (the
+     * reads made by the read function itself are not recorded).
+     *
+     * @param method { String } The name of the function the value is read with, used as the name of the trace entry.
+     * @param func { Function() => T } The read function to read the value with.
+     *
+     * @return { T }
+     */
+    private traceRead;
+    /**
+     * Writes (or inserts) a value using the provided write function, recording it once under the given method name while
+     * tracing (the writes made by the write function itself are not recorded).
+     *
+     * @param method { String } The name of the function the value is written with, used as the name of the trace entry.
+     * @param value { Number | BigInt | String | Buffer } The value that is written.
+     * @param offset { Number } The offset the value is written or inserted at (defaults to the current write position).
+     * @param func { Function() => SmartBuffer } The write function to write the value with.
+     *
+     * @return this
+     */
+    private traceWrite;
+    /**
+     * Calls a function that delegates to another read or write function (such as readUInt16() to readUInt16LE()), and
+     * records the entry of the delegate under the name of the delegating function while tracing.
+     *
+     * @param method { String } The name of the delegating function, used as the name of the trace entry.
+     * @param func { Function() => T } The function that calls the delegate.
+     *
+     * @return { T }
+     */
+    private traceAs;
+    /**
+     * Reads a numeric number value using the provided function.
+     *
+     * @param method { String } The name of the function the value is read with, used as the name of the trace entry.
+     * @param func { Function(offset: number) => number } The function to read data on the internal Buffer with.
+     * @param byteSize { Number } The number of bytes read.
+     * @param offset { Number } The offset to read the number at (the read offset is not moved).
+     *
+     * @param { Number }
+     */
+    private readNumberValue(method: string, func: (offset: number) => number, byteSize: number, offset?: number);
+    /**
+     * Reads a 64 bit integer value using the provided BigInt function, and returns it as a Number.
+     * Throws if the value is outside of the safe integer range (without moving the read offset).
+     *
+     * @param method { String } The name of the function the value is read with, used as the name of the trace entry.
+     * @param func { Function(offset: number) => bigint } The BigInt function to read data on the internal Buffer with.
+     * @param offset { Number } The offset to read the number at (the read offset is not moved).
+     *
+     * @return { Number }
+     */
+    private readSafeNumberValue;
+}
+
+/**
+ * Error thrown when a read or write position is moved outside of the bounds of the data.
+ */
+declare class SmartBufferRangeError extends RangeError {
+    // The position that was requested.
+    requested: number;
+    // The length of the data. Valid positions range from zero to this value.
+    available: number;
+
+    /**
+     * Creates a new SmartBufferRangeError instance.
+     *
+     * @param message { String } The error message.
+     * @param requested { Number } The position that was requested.
+     * @param available { Number } The length of the data.
+     */
+    constructor(message: string, requested: number, available: number);
+}
+
+/**
+ * Error thrown when reading more data than is available. This usually means the data is incomplete.
+ */
+declare class SmartBufferOutOfBoundsError extends SmartBufferRangeError {
+    // The read position the data was requested from.
+    offset: number;
+
+    /**
+     * Creates a new SmartBufferOutOfBoundsError instance.
+     *
+     * @param message { String } The error message.
+     * @param offset { Number } The read position the data was requested from.
+     * @param requested { Number } The number of bytes that were requested.
+     * @param available { Number } The number of bytes remaining from the read position.
+     */
+    constructor(message: string, offset: number, requested: number, available: number);
+}
+
+/**
+ * Error thrown when the internal Buffer would have to grow beyond its maximum size.
+ */
+declare class SmartBufferCapacityError extends SmartBufferRangeError {
+    /**
+     * Creates a new SmartBufferCapacityError instance.
+     *
+     * @param requested { Number } The size the internal Buffer would have to grow to.
+     * @param available { Number } The maximum size of the internal Buffer.
+     */
+    constructor(requested: number, available: number);
+}
+
+/**
+ * Error thrown when an invalid argument (such as a size, offset or value) is provided.
+ */
+declare class SmartBufferArgumentError extends Error {
+    // The name of the invalid argument.
+    argument: string;
+    // The invalid value that was provided.
+    value: any;
+
+    /**
+     * Creates a new SmartBufferArgumentError instance.
+     *
+     * @param message { String } The error message.
+     * @param argument { String } The name of the invalid argument.
+     * @param value { any } The invalid value that was provided.
+     */
+    constructor(message: string, argument: string, value: any);
+}
+
+/**
+ * Error thrown when an encoding that Node.js Buffers do not support is provided.
+ */
+declare class SmartBufferEncodingError extends SmartBufferArgumentError {
+    /**
+     * Creates a new SmartBufferEncodingError instance.
+     *
+     * @param encoding { String } The invalid encoding that was provided.
+     */
+    constructor(encoding: any);
+}
+
+/**
+ * Error thrown when the data is malformed, or holds a value that cannot be represented (such as an overlong varint, or a
+ * value outside of the safe integer range).
+ */
+declare class SmartBufferFormatError extends Error {
+    // The offset of the malformed value.
+    offset: number;
+
+    /**
+     * Creates a new SmartBufferFormatError instance.
+     *
+     * @param message { String } The error message.
+     * @param offset { Number } The offset of the malformed value.
+     */
+    constructor(message: string, offset: number);
+}
+
+/**
+ * Error thrown when a delimiter (such as a line ending) is not found within the maximum length given to readUntil(),
+ * readStringUntil() or readLine().
+ */
+declare class SmartBufferDelimiterError extends SmartBufferFormatError {
+    // The maximum number of bytes the delimiter was searched for in.
+    maxLength: number;
+
+    /**
+     * Creates a new SmartBufferDelimiterError instance.
+     *
+     * @param maxLength { Number } The maximum number of bytes the delimiter was searched for in.
+     * @param offset { Number } The offset the search started at.
+     */
+    constructor(maxLength: number, offset: number);
+}
+
+/**
+ * Error thrown when a schema field fails to encode or decode.
+ */
+declare class SmartBufferSchemaError extends Error {
+    // The path of the field that failed (e.g. header.items[2].name).
+    path: string;
+    // The error that was thrown by the field.
+    cause: Error;
+
+    /**
+     * Creates a new SmartBufferSchemaError instance.
+     *
+     * @param path { String } The path of the field that failed.
+     * @param cause { Error } The error that was thrown by the field.
+     */
+    constructor(path: string, cause: Error);
+}
+
+/**
+ * Error thrown when a checksum read from the data does not match the checksum computed over the data.
+ */
+declare class SmartBufferChecksumError extends Error {
+    // The checksum algorithm that was used.
+    algorithm: string;
+    // The checksum read from the data.
+    expected: number;
+    // The checksum computed over the data.
+    actual: number;
+    // The offset the checksummed range starts at.
+    start: number;
+    // The offset the checksummed range ends at (exclusive).
+    end: number;
+
+    /**
+     * Creates a new SmartBufferChecksumError instance.
+     *
+     * @param algorithm { String } The checksum algorithm that was used.
+     * @param expected { Number } The checksum read from the data.
+     * @param actual { Number } The checksum computed over the data.
+     * @param start { Number } The offset the checksummed range starts at.
+     * @param end { Number } The offset the checksummed range ends at (exclusive).
+     */
+    constructor(algorithm: string, expected: number, actual: number, start: number, end: number);
+}
+
+/**
+ * Error thrown when reset() or unmark() is called without a mark (see mark()).
+ */
+declare class SmartBufferMarkError extends Error {
+    /**
+     * Creates a new SmartBufferMarkError instance.
+     *
+     * @param message { String } The error message.
+     */
+    constructor(message: string);
+}
+
+/**
+ * Error thrown when modifying a read-only SmartBuffer view.
+ */
+declare class SmartBufferReadOnlyError extends Error {
+    /**
+     * Creates a new SmartBufferReadOnlyError instance.
+     */
+    constructor();
+}
+
+/**
+ * Error thrown when getting the data of a SmartBuffer that has placeholders which have not been filled, or when inserting or
+ * removing data within an unfilled placeholder.
+ */
+declare class SmartBufferPlaceholderError extends Error {
+    // The offsets of the unfilled placeholders.
+    readonly offsets: number[];
+
+    /**
+     * Creates a new SmartBufferPlaceholderError instance.
+     *
+     * @param offsets { Number[] } The offsets of the unfilled placeholders.
+     * @param message { String } The error message (defaults to a message about getting the data).
+     */
+    constructor(offsets: number[], message?: string);
+}
+
+/**
+ * Declarative codecs for encoding and decoding structs with a SmartBuffer.
+ */
+declare namespace schema {
+    /**
+     * Object interface for encoding and decoding a value with a SmartBuffer.
+     * P is the type of the struct object the value belongs to (unknown unless the Codec depends on other fields).
+     */
+    interface Codec<T, P = unknown> {
+        /**
+         * Writes the value to the SmartBuffer.
+         *
+         * @param value { T } The value to write.
+         * @param buff { SmartBuffer } The SmartBuffer to write to.
+         * @param parent { P } The struct object the value belongs to.
+         */
+        encode(value: T, buff: SmartBuffer, parent?: P): void;
+
+        /**
+         * Reads the value from the SmartBuffer.
+         *
+         * @param buff { SmartBuffer } The SmartBuffer to read from.
+         * @param parent { P } The struct object the value belongs to (containing the fields decoded so far).
+         */
+        decode(buff: SmartBuffer, parent?: P): T;
+    }
+
+    /**
+     * The values of the built in field types.
+     */
+    interface PrimitiveTypes {
+        int8: number;
+        int16: number;
+        int16be: number;
+        int16le: number;
+        int32: number;
+        int32be: number;
+        int32le: number;
+        uint8: number;
+        uint16: number;
+        uint16be: number;
+        uint16le: number;
+        uint32: number;
+        uint32be: number;
+        uint32le: number;
+        float: number;
+        floatbe: number;
+        floatle: number;
+        double: number;
+        doublebe: number;
+        doublele: number;
+        int64: number;
+        int64be: number;
+        int64le: number;
+        uint64: number;
+        uint64be: number;
+        uint64le: number;
+        bigint64: bigint;
+        bigint64be: bigint;
+        bigint64le: bigint;
+        biguint64: bigint;
+        biguint64be: bigint;
+        biguint64le: bigint;
+        varuint: number;
+        varint: number;
+        zigzag: number;
+        quicvarint: number;
+        stringNT: string;
+        bufferNT: Buffer;
+    }
+
+    /**
+     * The name of a built in field type.
+     */
+    type PrimitiveType = keyof PrimitiveTypes;
+
+    /**
+     * A field type, either the name of a built in field type or a Codec.
+     */
+    type FieldType = PrimitiveType | Codec<unknown>;
+
     /**
-     * Reads a null-terminated Buffer from the current read poisiton.
+     * The value of a field type.
+     */
+    type FieldValue<F> = F extends PrimitiveType ? PrimitiveTypes[F] : F extends Codec<infer T> ? T : never;
+
+    /**
+     * Object interface for declaring the fields of a struct (field name -> field type).
+     */
+    interface StructFields {
+        [name: string]: FieldType;
+    }
+
+    /**
+     * The value of a struct with the given fields.
+     */
+    type StructValue<F extends StructFields> = { [K in keyof F]: FieldValue<F[K]> };
+
+    /**
+     * Codec for a struct with named fields that are encoded and decoded in the order they are declared.
+     */
+    class StructCodec<F extends StructFields> implements Codec<StructValue<F>> {
+        // The fields of the struct.
+        readonly fields: F;
+        private codecs;
+
+        /**
+         * Creates a new StructCodec instance.
+         *
+         * @param fields { StructFields } The fields of the struct (field name -> field type).
+         */
+        constructor(fields: F);
+        /**
+         * Writes the struct to a SmartBuffer. The length and the write offset are restored if any field fails to encode, so the
+         * fields written before it are discarded (data that they overwrote before the end of the data is not restored).
+         *
+         * @param value { Object } The struct value to write.
+         * @param buff { SmartBuffer } The SmartBuffer to write to (defaults to a new SmartBuffer).
+         *
+         * @return { SmartBuffer }
+         */
+        encode(value: StructValue<F>, buff?: SmartBuffer): SmartBuffer;
+        /**
+         * Reads the struct from a SmartBuffer. The read offset is restored if any field fails to decode.
+         *
+         * @param buff { SmartBuffer } The SmartBuffer to read from.
+         *
+         * @return { Object }
+         */
+        decode(buff: SmartBuffer): StructValue<F>;
+    }
+
+    /**
+     * Creates a struct Codec with named fields that are encoded and decoded in the order they are declared.
      *
-     * @return { Buffer }
+     * @param fields { StructFields } The fields of the struct (field name -> field type).
+     *
+     * @return { StructCodec }
      */
-    readBufferNT(): Buffer;
+    function struct<F extends StructFields>(fields: F): StructCodec<F>;
     /**
-     * Writes a null-terminated Buffer to the current write position.
+     * Creates a Codec for a fixed length String.
      *
-     * @param value { Buffer } The Buffer to write.
-     * @param offset { Number } The offset to write the Buffer to.
+     * @param length { Number } The number of bytes the String spans.
+     * @param encoding { String } The BufferEncoding to use for the string (Defaults to instance level encoding).
+     *
+     * @return { Codec }
      */
-    writeBufferNT(value: Buffer, offset?: number): this;
+    function string(length: number, encoding?: BufferEncoding): Codec<string>;
     /**
-     * Clears the SmartBuffer instance to its original empty state.
+     * Creates a Codec for a fixed length Buffer.
+     *
+     * @param length { Number } The number of bytes the Buffer spans.
+     *
+     * @return { Codec }
      */
-    clear(): void;
+    function buffer(length: number): Codec<Buffer>;
     /**
-     * Remove data from buffer. The buffer internal storage size remains the same, however the data following 
-	 * the offset will be back shifted. Data length, write/read offset will be fix if it became outside of 
-	 * the new data range.
-     * @param offset { number } Offset where to start removing data.
-     * @param length { number } Length to remove.
+     * Creates a Codec for a length-prefixed String.
+     *
+     * @param prefix { LengthPrefix } The type of the length prefix.
+     * @param encoding { String } The BufferEncoding to use for the string (Defaults to instance level encoding).
+     *
+     * @return { Codec }
      */
-    remove(offset: number, length: number): this;
+    function prefixedString(prefix: LengthPrefix, encoding?: BufferEncoding): Codec<string>;
     /**
-     * Gets the remaining data left to be read from the SmartBuffer instance.
+     * Creates a Codec for a length-prefixed Buffer.
+     *
+     * @param prefix { LengthPrefix } The type of the length prefix.
+     *
+     * @return { Codec }
+     */
+    function prefixedBuffer(prefix: LengthPrefix): Codec<Buffer>;
+    /**
+     * Creates a Codec for a fixed length array.
+     *
+     * @param type { FieldType } The field type of the array items.
+     * @param length { Number | Function(parent) => number } The number of items, or a function that gets it from the fields decoded so far.
+     *
+     * @return { Codec }
+     */
+    function array<F extends FieldType, P = unknown>(type: F, length: number | ((parent: P) => number)): Codec<FieldValue<F>[], P>;
+    /**
+     * Creates a Codec for an array prefixed with its number of items.
+     *
+     * @param type { FieldType } The field type of the array items.
+     * @param prefix { LengthPrefix } The type of the item count prefix.
+     *
+     * @return { Codec }
+     */
+    function prefixedArray<F extends FieldType, P = unknown>(type: F, prefix: LengthPrefix): Codec<FieldValue<F>[], P>;
+    /**
+     * Creates a Codec for a field that is only present when a condition is met.
+     * When the condition is not met, nothing is written and the field is left out of the decoded struct.
+     *
+     * @param condition { Function(parent) => boolean } Gets whether the field is present (receives the fields decoded so far when decoding).
+     * @param type { FieldType } The field type of the value.
+     *
+     * @return { Codec }
+     */
+    function conditional<F extends FieldType, P = unknown>(condition: (parent: P) => boolean, type: F): Codec<FieldValue<F> | undefined, P>;
+}
+
+/**
+ * The order bits are read from and written to each byte.
+ * MSB reads the most significant bit of each byte first (H.264, DNS), LSB reads the least significant bit first (DEFLATE).
+ */
+type BitOrder = 'MSB' | 'LSB';
+
+/**
+ * Reads bit fields from a SmartBuffer, starting at its read position.
+ *
+ * Whole bytes are consumed from the SmartBuffer as they are started, so the read offset always points at the byte after
+ * the one being read. Byte-level reads therefore continue at the next whole byte. Moving the read offset (or reading
+ * bytes) discards the rest of a partially read byte.
+ */
+declare class SmartBufferBitReader {
+    // The SmartBuffer the bits are read from.
+    readonly buff: SmartBuffer;
+    // The order bits are read from each byte.
+    readonly bitOrder: BitOrder;
+    private byteOffset;
+    private byteValue;
+    private _bitOffset;
+
+    /**
+     * Creates a new SmartBufferBitReader instance.
+     *
+     * @param buff { SmartBuffer } The SmartBuffer to read bits from.
+     * @param bitOrder { BitOrder } The order bits are read from each byte (defaults to MSB).
+     */
+    constructor(buff: SmartBuffer, bitOrder?: BitOrder);
+    /**
+     * Gets the number of bits that have been read from the current byte (0 when the reader is byte aligned).
      *
      * @return { Number }
      */
-    remaining(): number;
+    readonly bitOffset: number;
     /**
-     * Moves the read offset forward.
+     * Reads a single bit.
      *
-     * @param amount { Number } The amount to move the read offset forward by.
+     * @return { Number }
      */
-    skip(amount: number): void;
+    readBit(): number;
     /**
-     * Moves the read offset backwards.
+     * Reads an unsigned value of the given number of bits (1-32).
+     *
+     * @param length { Number } The number of bits to read.
      *
-     * @param amount { Number } The amount to move the read offset backwards by.
+     * @return { Number }
      */
-    rewind(amount: number): void;
+    readBits(length: number): number;
     /**
-     * Moves the read offset to a specific position.
+     * Reads an unsigned Exp-Golomb code (ue(v) in H.264).
      *
-     * @param position { Number } The position to move the read offset to.
+     * @return { Number }
      */
-    skipTo(position: number): void;
+    readExpGolomb(): number;
     /**
-     * Moves the read offset to a specific position.
+     * Reads a signed Exp-Golomb code (se(v) in H.264).
      *
-     * @param position { Number } The position to move the read offset to.
+     * @return { Number }
      */
-    moveTo(position: number): void;
+    readSignedExpGolomb(): number;
     /**
-     * Gets the value of the internal managed Buffer
+     * Skips the rest of the current byte, so the next read starts at a whole byte.
+     */
+    alignToByte(): this;
+    /**
+     * Discards the partially read byte if the read offset was moved since it was started.
+     */
+    private sync;
+}
+
+/**
+ * Writes bit fields to a SmartBuffer, starting at its write position.
+ *
+ * A byte is written to the SmartBuffer as soon as its first bit is written, and later bits are set in place. The write
+ * offset always points at the byte after the one being written, so byte-level writes continue at the next whole byte
+ * (the unused bits of a partial byte are zero). Moving the write offset (or writing bytes) ends a partially written byte.
+ */
+declare class SmartBufferBitWriter {
+    // The SmartBuffer the bits are written to.
+    readonly buff: SmartBuffer;
+    // The order bits are written to each byte.
+    readonly bitOrder: BitOrder;
+    private byteOffset;
+    private byteValue;
+    private _bitOffset;
+
+    /**
+     * Creates a new SmartBufferBitWriter instance.
      *
-     * @param { Buffer }
+     * @param buff { SmartBuffer } The SmartBuffer to write bits to.
+     * @param bitOrder { BitOrder } The order bits are written to each byte (defaults to MSB).
      */
-    toBuffer(): Buffer;
+    constructor(buff: SmartBuffer, bitOrder?: BitOrder);
     /**
-     * Gets the String value of the internal managed Buffer
+     * Gets the number of bits that have been written to the current byte (0 when the writer is byte aligned).
      *
-     * @param encoding { String } The BufferEncoding to display the Buffer as (defaults to instance level encoding).
+     * @return { Number }
      */
-    toString(encoding?: BufferEncoding): string;
+    readonly bitOffset: number;
     /**
-     * Destroys the SmartBuffer instance.
+     * Writes a single bit.
+     *
+     * @param value { Number } The bit to write (0 or 1).
      */
-    destroy(): void;
+    writeBit(value: number): this;
     /**
-     * Ensures that the internal Buffer is large enough to read data.
+     * Writes an unsigned value of the given number of bits (1-32).
      *
-     * @param length { Number } The length of the data that needs to be read.
+     * @param value { Number } The value to write.
+     * @param length { Number } The number of bits to write.
      */
-    private ensureReadable(length: number);
+    writeBits(value: number, length: number): this;
     /**
-     * Ensures that the internal Buffer is large enough to write data.
-     * 
-     * @param minLength { Number } The minimum length of the data that needs to be written.
-     * @param offset { Number } The offset of the data to be written.
+     * Writes an unsigned Exp-Golomb code (ue(v) in H.264).
+     *
+     * @param value { Number } The value to write (0 to 2^32 - 2).
      */
-    private ensureWriteable(minLength: number, offset?: number);
+    writeExpGolomb(value: number): this;
     /**
-     * Ensures that the internal Buffer is large enough to write at least the given amount of data.
+     * Writes a signed Exp-Golomb code (se(v) in H.264).
      *
-     * @param minLength { Number } The minimum length of the data needs to be written.
+     * @param value { Number } The value to write (-(2^31 - 1) to 2^31 - 1).
      */
-    private ensureCapacity(minLength: number);
+    writeSignedExpGolomb(value: number): this;
     /**
-     * Reads a numeric number value using the provided function.
+     * Pads the rest of the current byte with zero bits, so the next write starts at a whole byte.
+     */
+    alignToByte(): this;
+    /**
+     * Ends the partially written byte if the write offset was moved since it was started.
+     */
+    private sync;
+}
+
+
+/**
+ * Object interface for constructing new SmartBufferPool instances.
+ */
+interface SmartBufferPoolOptions {
+    size?: number;
+    preallocate?: number;
+    maxIdle?: number;
+    zeroFill?: boolean;
+    encoding?: BufferEncoding;
+    endian?: Endian;
+}
+
+/**
+ * Object interface for the usage statistics of a SmartBufferPool.
+ */
+interface SmartBufferPoolStats {
+    hits: number;
+    misses: number;
+    outstanding: number;
+    idle: number;
+    discarded: number;
+}
+
+/**
+ * Hands out reusable SmartBuffers, so short-lived SmartBuffers do not each allocate a new internal Buffer.
+ *
+ * SmartBuffers are acquired with acquire(), and return to the pool when they are destroyed (with destroy() or release()).
+ * A SmartBuffer must not be used after it is destroyed, as the pool hands it out again.
+ */
+declare class SmartBufferPool {
+    /**
+     * The size of the internal Buffer of each SmartBuffer the pool creates.
+     */
+    readonly size: number;
+    /**
+     * The maximum number of released SmartBuffers kept for reuse.
+     */
+    readonly maxIdle: number;
+    /**
+     * Whether released SmartBuffers are filled with zeros before they are reused.
+     */
+    readonly zeroFill: boolean;
+    private encoding;
+    private endian;
+    private idle;
+    private zeros;
+    private hits;
+    private misses;
+    private outstanding;
+    private discarded;
+    /**
+     * Creates a new SmartBufferPool instance.
      *
-     * @param func { Function(offset: number) => number } The function to read data on the internal Buffer with.
-     * @param byteSize { Number } The number of bytes read.
+     * @param options { SmartBufferPoolOptions } The options of the pool.
+     */
+    constructor(options?: SmartBufferPoolOptions);
+    /**
+     * The usage statistics of the pool.
+     */
+    readonly stats: SmartBufferPoolStats;
+    /**
+     * Gets an empty SmartBuffer from the pool, creating a new one if none are idle.
      *
-     * @param { Number }
+     * @return { SmartBuffer }
+     */
+    acquire(): SmartBuffer;
+    /**
+     * Returns a SmartBuffer to the pool. This is the same as calling destroy() on the SmartBuffer.
+     *
+     * @param buff { SmartBuffer } The SmartBuffer to return.
+     */
+    release(buff: SmartBuffer): this;
+    /**
+     * Discards all idle SmartBuffers, so their memory can be garbage collected.
+     */
+    drain(): this;
+    /**
+     * Creates a new SmartBuffer with the options of the pool.
+     *
+     * @return { SmartBuffer }
+     */
+    private create;
+    /**
+     * Resets a destroyed SmartBuffer and keeps it for reuse (unless the pool already holds maxIdle SmartBuffers).
+     *
+     * @param buff { SmartBuffer } The destroyed SmartBuffer.
+     */
+    private reclaim;
+}
+
+/**
+ * A Uint8Array with the subset of Node's Buffer API used by SmartBuffer, for environments without Node's Buffer (such as
+ * browsers and Web Workers). Numeric values are read and written with a DataView, and Strings are encoded with
+ * TextEncoder/TextDecoder. The utf8, latin1 (binary), ascii, hex and base64 encodings are supported.
+ */
+declare class PortableBuffer extends Uint8Array {
+    /**
+     * Creates a PortableBuffer from a String, an ArrayBuffer (without copying) or an array of bytes (copied).
+     *
+     * @param value { String | ArrayBuffer | ArrayLike<number> } The value to create the PortableBuffer from.
+     * @param encodingOrOffset { String | Number } The encoding of a String, or the offset into an ArrayBuffer.
+     * @param length { Number } The number of bytes of an ArrayBuffer to use.
+     *
+     * @return { PortableBuffer }
+     */
+    static from(value: any, encodingOrOffset?: any, length?: number): PortableBuffer;
+    /**
+     * Creates a zero-filled PortableBuffer.
+     *
+     * @param size { Number } The size of the PortableBuffer.
+     * @param fill { Number } The byte to fill the PortableBuffer with (defaults to 0).
+     *
+     * @return { PortableBuffer }
+     */
+    static alloc(size: number, fill?: number): PortableBuffer;
+    /**
+     * Creates a PortableBuffer. Unlike Node's Buffer.allocUnsafe(), the memory is always zero-filled.
+     *
+     * @param size { Number } The size of the PortableBuffer.
+     *
+     * @return { PortableBuffer }
+     */
+    static allocUnsafe(size: number): PortableBuffer;
+    /**
+     * Determines if an encoding is supported.
+     *
+     * @param encoding { String } The encoding to check.
+     *
+     * @return { Boolean }
+     */
+    static isEncoding(encoding: any): boolean;
+    /**
+     * Determines if a value is a PortableBuffer.
+     *
+     * @param value { any } The value to check.
+     *
+     * @return { Boolean }
+     */
+    static isBuffer(value: any): boolean;
+    /**
+     * Gets the byte length of a String in the given encoding (or the length of binary data).
+     *
+     * @param value { String | ArrayBuffer | ArrayBufferView } The value to measure.
+     * @param encoding { String } The encoding of a String.
+     *
+     * @return { Number }
+     */
+    static byteLength(value: any, encoding?: string): number;
+    /**
+     * Gets a PortableBuffer that shares memory with the given range (like Node's Buffer, unlike Uint8Array.slice()).
+     *
+     * @param start { Number } The offset to start at.
+     * @param end { Number } The offset to end at (exclusive).
+     *
+     * @return { PortableBuffer }
+     */
+    slice(start?: number, end?: number): PortableBuffer;
+    /**
+     * Copies data to a target Uint8Array. The ranges may overlap.
+     *
+     * @param target { Uint8Array } The Uint8Array to copy to.
+     * @param targetStart { Number } The offset to copy to.
+     * @param sourceStart { Number } The offset to start copying from.
+     * @param sourceEnd { Number } The offset to stop copying at (exclusive).
+     *
+     * @return { Number } The number of bytes copied.
+     */
+    copy(target: Uint8Array, targetStart?: number, sourceStart?: number, sourceEnd?: number): number;
+    /**
+     * Writes a String at the given offset.
+     *
+     * @param value { String } The String to write.
+     * @param offset { Number } The offset to write the String at.
+     * @param length { Number } The maximum number of bytes to write.
+     * @param encoding { String } The encoding to use.
+     *
+     * @return { Number } The number of bytes written.
+     */
+    write(value: string, offset?: number, length?: number, encoding?: string): number;
+    /**
+     * Decodes the data in the given range into a String.
+     *
+     * @param encoding { String } The encoding to use (defaults to utf8).
+     * @param start { Number } The offset to start at.
+     * @param end { Number } The offset to end at (exclusive).
+     *
+     * @return { String }
+     */
+    toString(encoding?: string, start?: number, end?: number): string;
+    /**
+     * Finds the first occurrence of a byte, String or sequence of bytes.
+     *
+     * @param value { Number | String | Uint8Array } The value to find.
+     * @param byteOffset { Number } The offset to start searching at (negative values count from the end).
+     * @param encoding { String } The encoding of a String value.
+     *
+     * @return { Number }
+     */
+    indexOf(value: any, byteOffset?: number, encoding?: string): number;
+    /**
+     * Determines if this PortableBuffer has the same bytes as another Uint8Array.
+     *
+     * @param other { Uint8Array } The Uint8Array to compare with.
+     *
+     * @return { Boolean }
+     */
+    equals(other: Uint8Array): boolean;
+    readInt8(offset?: number): number;
+    readUInt8(offset?: number): number;
+    readInt16BE(offset?: number): number;
+    readInt16LE(offset?: number): number;
+    readUInt16BE(offset?: number): number;
+    readUInt16LE(offset?: number): number;
+    readInt32BE(offset?: number): number;
+    readInt32LE(offset?: number): number;
+    readUInt32BE(offset?: number): number;
+    readUInt32LE(offset?: number): number;
+    readFloatBE(offset?: number): number;
+    readFloatLE(offset?: number): number;
+    readDoubleBE(offset?: number): number;
+    readDoubleLE(offset?: number): number;
+    readBigInt64BE(offset?: number): bigint;
+    readBigInt64LE(offset?: number): bigint;
+    readBigUInt64BE(offset?: number): bigint;
+    readBigUInt64LE(offset?: number): bigint;
+    readUIntBE(offset: number, byteLength: number): number;
+    readUIntLE(offset: number, byteLength: number): number;
+    readIntBE(offset: number, byteLength: number): number;
+    readIntLE(offset: number, byteLength: number): number;
+    writeInt8(value: number, offset?: number): number;
+    writeUInt8(value: number, offset?: number): number;
+    writeInt16BE(value: number, offset?: number): number;
+    writeInt16LE(value: number, offset?: number): number;
+    writeUInt16BE(value: number, offset?: number): number;
+    writeUInt16LE(value: number, offset?: number): number;
+    writeInt32BE(value: number, offset?: number): number;
+    writeInt32LE(value: number, offset?: number): number;
+    writeUInt32BE(value: number, offset?: number): number;
+    writeUInt32LE(value: number, offset?: number): number;
+    writeFloatBE(value: number, offset?: number): number;
+    writeFloatLE(value: number, offset?: number): number;
+    writeDoubleBE(value: number, offset?: number): number;
+    writeDoubleLE(value: number, offset?: number): number;
+    writeBigInt64BE(value: bigint, offset?: number): number;
+    writeBigInt64LE(value: bigint, offset?: number): number;
+    writeBigUInt64BE(value: bigint, offset?: number): number;
+    writeBigUInt64LE(value: bigint, offset?: number): number;
+    writeUIntBE(value: number, offset: number, byteLength: number): number;
+    writeUIntLE(value: number, offset: number, byteLength: number): number;
+    writeIntBE(value: number, offset: number, byteLength: number): number;
+    writeIntLE(value: number, offset: number, byteLength: number): number;
+    /**
+     * Gets a DataView over this PortableBuffer after checking that a value fits at the given offset.
+     *
+     * @param offset { Number } The offset of the value.
+     * @param byteLength { Number } The size of the value.
+     *
+     * @return { DataView }
+     */
+    private view;
+}
+
+/**
+ * A placeholder reserved with SmartBuffer.reservePlaceholder(), for a field (such as a length or an offset) whose value is
+ * only known after the data that follows it has been written.
+ *
+ * Filling the placeholder overwrites it in place, without shifting data or moving the write offset. toBuffer() throws a
+ * SmartBufferPlaceholderError while any placeholder of the SmartBuffer is unfilled.
+ */
+declare class SmartBufferPlaceholder {
+    /**
+     * The SmartBuffer the placeholder was reserved in.
+     */
+    readonly buff: SmartBuffer;
+    /**
+     * The numeric type of the placeholder (always with a BE/LE suffix for types larger than a byte).
+     */
+    readonly type: PlaceholderType;
+    /**
+     * The size of the placeholder in bytes.
+     */
+    readonly byteSize: number;
+    private _offset;
+    private _filled;
+    /**
+     * Creates a new SmartBufferPlaceholder instance. Use SmartBuffer.reservePlaceholder() to reserve a placeholder.
+     *
+     * @param buff { SmartBuffer } The SmartBuffer the placeholder was reserved in.
+     * @param type { PlaceholderType } The numeric type of the placeholder, with a BE/LE suffix for types larger than a byte.
+     * @param offset { Number } The offset of the placeholder.
+     */
+    constructor(buff: SmartBuffer, type: PlaceholderType, offset: number);
+    /**
+     * The offset of the placeholder. The offset moves when data is inserted or removed before the placeholder.
+     */
+    readonly offset: number;
+    /**
+     * Whether the placeholder has been filled.
+     */
+    readonly filled: boolean;
+    /**
+     * Moves the offset of the placeholder. Called by the SmartBuffer when data is inserted or removed before the placeholder.
+     *
+     * @param amount { Number } The number of bytes to move the offset by (negative to move it back).
+     */
+    move(amount: number): void;
+    /**
+     * Overwrites the placeholder with a value. A placeholder can be filled more than once.
+     *
+     * @param value { Number } The value to fill the placeholder with.
+     */
+    fill(value: number): this;
+    /**
+     * Fills the placeholder with the number of bytes between an offset and the current write offset.
+     *
+     * @param start { Number } The offset to count from (defaults to the end of the placeholder, so the length does not include it).
+     */
+    fillWithLengthSince(start?: number): this;
+}
+
+/**
+ * The log of the reads and writes of a SmartBuffer, recorded between SmartBuffer.startTrace() and SmartBuffer.stopTrace().
+ */
+declare class SmartBufferTrace {
+    /**
+     * The recorded reads and writes, in the order they happened.
+     */
+    readonly entries: SmartBufferTraceEntry[];
+    private pendingLabel;
+    /**
+     * Sets the label of the next recorded read or write.
+     *
+     * @param label { String } The label.
+     */
+    annotate(label: string): this;
+    /**
+     * Records a read or write.
+     *
+     * @param method { String } The function that read or wrote the data.
+     * @param offset { Number } The offset the data was read from or written to.
+     * @param byteLength { Number } The number of bytes read or written.
+     * @param value { Number | BigInt | String | Buffer } The value that was read or written.
+     */
+    record(method: string, offset: number, byteLength: number, value: number | bigint | string | Buffer): void;
+    /**
+     * Gets the entries with JSON compatible values (BigInts become Strings, and Buffers become hex Strings). Called by
+     * JSON.stringify().
+     *
+     * @return { Object[] }
+     */
+    toJSON(): object[];
+    /**
+     * Formats the entries, one per line.
+     *
+     * @return { String }
      */
-    private readNumberValue(func: (offset: number) => number, byteSize: number);
+    toString(): string;
 }
 
 export {
     SmartBufferOptions,
-    SmartBuffer
+    ReadUntilOptions,
+    WriteStringFixedOptions,
+    ReadStringFixedOptions,
+    LengthPrefix,
+    Endian,
+    StorageMode,
+    BinaryInput,
+    SmartBuffer,
+    SmartBufferRangeError,
+    SmartBufferOutOfBoundsError,
+    SmartBufferCapacityError,
+    SmartBufferArgumentError,
+    SmartBufferEncodingError,
+    SmartBufferFormatError,
+    SmartBufferDelimiterError,
+    SmartBufferSchemaError,
+    SmartBufferChecksumError,
+    SmartBufferMarkError,
+    SmartBufferReadOnlyError,
+    SmartBufferPlaceholderError,
+    schema,
+    BitOrder,
+    SmartBufferBitReader,
+    SmartBufferBitWriter,
+    ChecksumAlgorithm,
+    SmartBufferPoolOptions,
+    SmartBufferPoolStats,
+    SmartBufferPool,
+    PortableBuffer,
+    PlaceholderType,
+    SmartBufferPlaceholder,
+    HexdumpOptions,
+    SmartBufferTraceEntry,
+    SmartBufferTrace
 };
\ No newline at end of file